@@ -1,16 +1,30 @@
 // StacksTasker - Demo AI Agent Worker
-// Polls for tasks, bids on them, completes work, submits results, gets paid
+// Polls (or listens via webhook / event stream) for tasks, bids on them, completes work, submits results, gets paid
 
 import { createServer, IncomingMessage, ServerResponse } from 'http';
-import { createHmac } from 'crypto';
+import { createHmac, createHash, timingSafeEqual } from 'crypto';
+import { getAddressFromPrivateKey, randomPrivateKey, signMessageHashRsv } from '@stacks/transactions';
+import { hashMessage } from '@stacks/encryption';
+import { bytesToHex } from '@stacks/common';
 
 const API_URL = process.env.API_URL ?? 'http://localhost:3003';
 const AGENT_NAME = process.env.AGENT_NAME ?? 'ClaudeWorker-1';
-const AGENT_WALLET = process.env.AGENT_WALLET ?? 'ST1DEMO_AGENT_WALLET_ADDRESS';
+const STACKS_NETWORK = process.env.STACKS_NETWORK === 'mainnet' ? 'mainnet' : 'testnet';
+// Without a configured key the demo agent signs with a throwaway wallet
+const AGENT_PRIVATE_KEY = process.env.AGENT_PRIVATE_KEY ?? randomPrivateKey();
+const AGENT_WALLET = getAddressFromPrivateKey(AGENT_PRIVATE_KEY, STACKS_NETWORK);
+// Demo only: holding the poster's key lets the worker accept its own bids and approve its own work
+const DEMO_POSTER_PRIVATE_KEY = process.env.DEMO_POSTER_PRIVATE_KEY;
+const DEMO_POSTER_WALLET = DEMO_POSTER_PRIVATE_KEY
+  ? getAddressFromPrivateKey(DEMO_POSTER_PRIVATE_KEY, STACKS_NETWORK)
+  : undefined;
 const POLL_INTERVAL = parseInt(process.env.POLL_INTERVAL ?? '3000', 10);
 const WEBHOOK_MODE = process.env.WEBHOOK_MODE === 'true';
 const WEBHOOK_PORT = parseInt(process.env.WEBHOOK_PORT ?? '3010', 10);
 const WEBHOOK_HOST = process.env.WEBHOOK_HOST ?? `http://localhost:${WEBHOOK_PORT}`;
+// Stream mode: no public URL needed, events arrive over GET /events/stream
+const STREAM_MODE = process.env.STREAM_MODE === 'true';
+const STREAM_RECONNECT_DELAY = 3000;
 
 interface Task {
   id: string;
@@ -20,6 +34,7 @@ interface Task {
   bounty: string;
   status: string;
   posterAddress: string;
+  assignedAgent?: string;
 }
 
 interface Agent {
@@ -32,19 +47,53 @@ interface Bid {
   taskId: string;
 }
 
+interface Invitation {
+  id: string;
+  taskId: string;
+  agentId: string;
+}
+
 /**
- * Build auth headers for signed requests
+ * Build auth headers for signed requests.
+ * Signs `StacksTasker:<METHOD>:<path>:<timestamp>:<sha256(body)>` with the given key.
  */
-function getAuthHeaders(): Record<string, string> {
+function getAuthHeaders(method: string, path: string, body = '', privateKey = AGENT_PRIVATE_KEY): Record<string, string> {
   const timestamp = new Date().toISOString();
+  const bodyHash = createHash('sha256').update(body).digest('hex');
+  const message = `StacksTasker:${method}:${path}:${timestamp}:${bodyHash}`;
+  const signature = signMessageHashRsv({
+    messageHash: bytesToHex(hashMessage(message)),
+    privateKey,
+  });
+
   return {
     'Content-Type': 'application/json',
-    'X-Wallet-Address': AGENT_WALLET,
+    'X-Wallet-Address': getAddressFromPrivateKey(privateKey, STACKS_NETWORK),
     'X-Wallet-Timestamp': timestamp,
-    'X-Wallet-Signature': `sig_${AGENT_WALLET}_${timestamp}`,
+    'X-Wallet-Signature': signature,
   };
 }
 
+/**
+ * POST a JSON body to the API as a signed request (as the agent unless another key is given)
+ */
+function signedPost(path: string, payload: unknown, privateKey = AGENT_PRIVATE_KEY): Promise<Response> {
+  const body = JSON.stringify(payload);
+  return fetch(`${API_URL}${path}`, {
+    method: 'POST',
+    headers: getAuthHeaders('POST', path, body, privateKey),
+    body,
+  });
+}
+
+/**
+ * POST as the task poster - only possible in demo mode for tasks posted by the demo poster wallet
+ */
+function posterPost(task: Task, path: string, payload: unknown = {}): Promise<Response> | undefined {
+  if (!DEMO_POSTER_PRIVATE_KEY || task.posterAddress !== DEMO_POSTER_WALLET) return undefined;
+  return signedPost(path, payload, DEMO_POSTER_PRIVATE_KEY);
+}
+
 /**
  * Simulate AI work based on task category and description
  */
@@ -154,15 +203,11 @@ function sleep(ms: number): Promise<void> {
  * Register the agent with the API
  */
 async function registerSelf(): Promise<Agent> {
-  const res = await fetch(`${API_URL}/agents/register`, {
-    method: 'POST',
-    headers: getAuthHeaders(),
-    body: JSON.stringify({
-      name: AGENT_NAME,
-      walletAddress: AGENT_WALLET,
-      capabilities: ['web-scraping', 'data-pipeline', 'smart-contract', 'coding', 'api-integration', 'monitoring', 'testing', 'other'],
-      bio: `AI agent worker specializing in all task categories. Powered by Claude.`,
-    }),
+  const res = await signedPost('/agents/register', {
+    name: AGENT_NAME,
+    walletAddress: AGENT_WALLET,
+    capabilities: ['web-scraping', 'data-pipeline', 'smart-contract', 'coding', 'api-integration', 'monitoring', 'testing', 'other'],
+    bio: `AI agent worker specializing in all task categories. Powered by Claude.`,
   });
 
   if (!res.ok) {
@@ -172,120 +217,127 @@ async function registerSelf(): Promise<Agent> {
   return res.json() as Promise<Agent>;
 }
 
+/**
+ * Start, do and submit an assigned task, then approve it if we hold the poster key (demo)
+ */
+async function completeTask(task: Task, agentId: string): Promise<void> {
+  console.log(`[${AGENT_NAME}] Assigned to task ${task.id}. Working...`);
+
+  // 1. Start the task
+  await signedPost(`/tasks/${task.id}/start`, { agentId });
+
+  // 2. Simulate work time (1-3 seconds)
+  const workTime = 1000 + Math.random() * 2000;
+  await sleep(workTime);
+
+  // 3. Do the work
+  const result = doWork(task);
+  console.log(`[${AGENT_NAME}] Work complete (${(workTime / 1000).toFixed(1)}s). Submitting result...`);
+
+  // 4. Submit the result
+  const submitRes = await signedPost(`/tasks/${task.id}/submit`, { agentId, result });
+
+  if (!submitRes.ok) {
+    const err = await submitRes.json() as { error: string };
+    console.log(`[${AGENT_NAME}] Submit failed: ${err.error}`);
+    return;
+  }
+
+  console.log(`[${AGENT_NAME}] Result submitted for task ${task.id}`);
+
+  // 5. Auto-approve (demo mode - only when we hold the poster's key)
+  await sleep(500);
+  const approveRes = await posterPost(task, `/tasks/${task.id}/approve`);
+  if (!approveRes) {
+    console.log(`[${AGENT_NAME}] Waiting for poster to review task ${task.id}`);
+    return;
+  }
+
+  if (approveRes.ok) {
+    const approved = await approveRes.json() as Task & { paymentTxId: string; platformFee: string };
+    console.log(`[${AGENT_NAME}] Task ${task.id} APPROVED! Completes once the payment confirms on-chain`);
+    console.log(`[${AGENT_NAME}] Payment: ${task.bounty} STX (fee: ${approved.platformFee || '0'} STX, tx: ${approved.paymentTxId})`);
+    console.log('');
+  }
+}
+
 /**
  * Main agent loop: discover -> bid -> work -> submit -> get paid
  */
 async function agentLoop(agentId: string): Promise<void> {
   console.log(`[${AGENT_NAME}] Starting work loop (polling every ${POLL_INTERVAL}ms)...`);
+  const biddedTaskIds = new Set<string>();
 
   while (true) {
     try {
-      // 1. Discover open tasks
-      const tasksRes = await fetch(`${API_URL}/tasks?status=open`);
-      const { tasks } = await tasksRes.json() as { tasks: Task[] };
+      // 1. Pick up work a poster has assigned to us
+      const assignedRes = await fetch(`${API_URL}/tasks?status=assigned&agent=${agentId}`);
+      const assigned = (await assignedRes.json() as { tasks: Task[] }).tasks;
+
+      if (assigned.length > 0) {
+        await completeTask(assigned[0], agentId);
+        await sleep(POLL_INTERVAL);
+        continue;
+      }
 
-      // Also check bidding tasks
-      const biddingRes = await fetch(`${API_URL}/tasks?status=bidding`);
-      const biddingData = await biddingRes.json() as { tasks: Task[] };
+      // 1b. Take the first task a poster invited us to
+      const invitationsRes = await fetch(`${API_URL}/agents/${agentId}/invitations?status=pending`);
+      const { invitations } = await invitationsRes.json() as { invitations: Invitation[] };
+      if (invitations.length > 0) {
+        await acceptInvitation(invitations[0], agentId);
+        continue;
+      }
 
-      const allOpenTasks = [...tasks, ...biddingData.tasks];
+      // 2. Ask for open tasks ranked for this agent (capabilities, track record, bounty, competition)
+      const tasksRes = await fetch(`${API_URL}/agents/${agentId}/recommended-tasks?network=${STACKS_NETWORK}`);
+      const { recommendations } = await tasksRes.json() as { recommendations: { task: Task }[] };
 
-      if (allOpenTasks.length === 0) {
+      const candidates = recommendations.map(r => r.task).filter(t => !biddedTaskIds.has(t.id));
+
+      if (candidates.length === 0) {
         process.stdout.write('.');
         await sleep(POLL_INTERVAL);
         continue;
       }
 
-      // 2. Pick the highest bounty task
-      const task = allOpenTasks.sort((a, b) => parseFloat(b.bounty) - parseFloat(a.bounty))[0];
+      // 3. Pick the best match
+      const task = candidates[0];
       console.log(`\n[${AGENT_NAME}] Found task: "${task.title}" (${task.bounty} STX)`);
 
-      // 3. Place a bid on the task
-      const bidRes = await fetch(`${API_URL}/tasks/${task.id}/bid`, {
-        method: 'POST',
-        headers: getAuthHeaders(),
-        body: JSON.stringify({
-          agentId,
-          amount: task.bounty,
-          message: `I can handle this ${task.category} task efficiently. Estimated delivery in under 2 minutes.`,
-          estimatedTime: '2 minutes',
-        }),
+      // 4. Place a bid on the task
+      const bidRes = await signedPost(`/tasks/${task.id}/bid`, {
+        agentId,
+        amount: task.bounty,
+        message: `I can handle this ${task.category} task efficiently. Estimated delivery in under 2 minutes.`,
+        estimatedTime: '2 minutes',
       });
 
       if (!bidRes.ok) {
         // If bidding fails, try direct accept
-        const acceptRes = await fetch(`${API_URL}/tasks/${task.id}/accept`, {
-          method: 'POST',
-          headers: getAuthHeaders(),
-          body: JSON.stringify({ agentId }),
-        });
+        const acceptRes = await signedPost(`/tasks/${task.id}/accept`, { agentId });
 
         if (!acceptRes.ok) {
           const err = await acceptRes.json() as { error: string };
           console.log(`[${AGENT_NAME}] Could not accept: ${err.error}`);
+          biddedTaskIds.add(task.id);
           await sleep(POLL_INTERVAL);
           continue;
         }
       } else {
-        // For demo: auto-accept the bid (simulating poster acceptance)
         const bid = await bidRes.json() as Bid;
-        console.log(`[${AGENT_NAME}] Bid placed: ${bid.id}. Auto-accepting for demo...`);
-
-        // Accept our own bid (demo mode - using the poster's address from the task)
-        await fetch(`${API_URL}/tasks/${task.id}/bids/${bid.id}/accept`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ posterAddress: task.posterAddress }),
-        });
-      }
-
-      console.log(`[${AGENT_NAME}] Assigned to task ${task.id}. Working...`);
-
-      // 4. Start the task
-      await fetch(`${API_URL}/tasks/${task.id}/start`, {
-        method: 'POST',
-        headers: getAuthHeaders(),
-        body: JSON.stringify({ agentId }),
-      });
-
-      // 5. Simulate work time (1-3 seconds)
-      const workTime = 1000 + Math.random() * 2000;
-      await sleep(workTime);
-
-      // 6. Do the work
-      const result = doWork(task);
-      console.log(`[${AGENT_NAME}] Work complete (${(workTime / 1000).toFixed(1)}s). Submitting result...`);
-
-      // 7. Submit the result
-      const submitRes = await fetch(`${API_URL}/tasks/${task.id}/submit`, {
-        method: 'POST',
-        headers: getAuthHeaders(),
-        body: JSON.stringify({ agentId, result }),
-      });
+        biddedTaskIds.add(task.id);
 
-      if (!submitRes.ok) {
-        const err = await submitRes.json() as { error: string };
-        console.log(`[${AGENT_NAME}] Submit failed: ${err.error}`);
-        await sleep(POLL_INTERVAL);
-        continue;
+        // For demo: accept our own bid when we hold the poster's key
+        const acceptRes = await posterPost(task, `/tasks/${task.id}/bids/${bid.id}/accept`);
+        if (!acceptRes?.ok) {
+          console.log(`[${AGENT_NAME}] Bid placed: ${bid.id}. Waiting for poster to accept...`);
+          await sleep(POLL_INTERVAL);
+          continue;
+        }
+        console.log(`[${AGENT_NAME}] Bid placed: ${bid.id}. Auto-accepted for demo`);
       }
 
-      console.log(`[${AGENT_NAME}] Result submitted for task ${task.id}`);
-
-      // 8. Auto-approve (for demo purposes)
-      await sleep(500);
-      const approveRes = await fetch(`${API_URL}/tasks/${task.id}/approve`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ posterAddress: task.posterAddress }),
-      });
-
-      if (approveRes.ok) {
-        const completed = await approveRes.json() as Task & { paymentTxId: string; platformFee: string };
-        console.log(`[${AGENT_NAME}] Task ${task.id} COMPLETED!`);
-        console.log(`[${AGENT_NAME}] Payment: ${task.bounty} STX (fee: ${completed.platformFee || '0'} STX, tx: ${completed.paymentTxId})`);
-        console.log('');
-      }
+      await completeTask(task, agentId);
     } catch (error) {
       // Log all errors but continue polling
       if (error instanceof TypeError && error.message.includes('fetch')) {
@@ -312,12 +364,49 @@ interface WebhookEvent {
     message?: { id: string; taskId: string; body: string };
     previousStatus?: string;
     newStatus?: string;
+    invitation?: Invitation;
   };
 }
 
-function verifySignature(payload: string, signature: string, secret: string): boolean {
-  const expected = createHmac('sha256', secret).update(payload).digest('hex');
-  return signature === `sha256=${expected}`;
+/** Oldest signed timestamp accepted, to stop captured deliveries being replayed */
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Verify an `X-StacksTasker-Signature-V1: t=<unix>,v1=<hex>[,v1=<hex>]` header.
+ * Any v1 value may match (the API sends one per secret while a rotation is in its grace period).
+ */
+function verifySignature(payload: string, header: string, secret: string): boolean {
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't') timestamp = parseInt(value, 10);
+    else if (key === 'v1' && value) signatures.push(value);
+  }
+  if (timestamp === undefined || Number.isNaN(timestamp)) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) return false;
+
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest();
+  return signatures.some((signature) => {
+    const given = Buffer.from(signature, 'hex');
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  });
+}
+
+/**
+ * Accept an invitation, which assigns us the task. Returns false if it could not be accepted.
+ */
+async function acceptInvitation(invitation: Invitation, agentId: string): Promise<boolean> {
+  const res = await signedPost(`/tasks/${invitation.taskId}/invitations/${invitation.id}/accept`, { agentId });
+  if (res.ok) {
+    console.log(`[${AGENT_NAME}] Accepted invitation to task ${invitation.taskId}`);
+    return true;
+  }
+  // Not takeable any more (e.g. another invitee got there first): decline so it is not retried
+  const { error } = await res.json() as { error: string };
+  console.log(`[${AGENT_NAME}] Could not accept invitation to task ${invitation.taskId}: ${error}`);
+  await signedPost(`/tasks/${invitation.taskId}/invitations/${invitation.id}/decline`, { agentId, reason: error });
+  return false;
 }
 
 async function handleWebhookEvent(event: WebhookEvent, agentId: string): Promise<void> {
@@ -328,15 +417,11 @@ async function handleWebhookEvent(event: WebhookEvent, agentId: string): Promise
     console.log(`\n[${AGENT_NAME}] [webhook] New task: "${task.title}" (${task.bounty} STX)`);
 
     // Place a bid
-    const bidRes = await fetch(`${API_URL}/tasks/${task.id}/bid`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify({
-        agentId,
-        amount: task.bounty,
-        message: `I can handle this ${task.category} task efficiently. Estimated delivery in under 2 minutes.`,
-        estimatedTime: '2 minutes',
-      }),
+    const bidRes = await signedPost(`/tasks/${task.id}/bid`, {
+      agentId,
+      amount: task.bounty,
+      message: `I can handle this ${task.category} task efficiently. Estimated delivery in under 2 minutes.`,
+      estimatedTime: '2 minutes',
     });
 
     if (bidRes.ok) {
@@ -349,14 +434,10 @@ async function handleWebhookEvent(event: WebhookEvent, agentId: string): Promise
 
   if (type === 'bid.accepted' && data.task) {
     const task = data.task;
-    if (task.status === 'assigned') {
+    if (task.status === 'assigned' && task.assignedAgent === agentId) {
       console.log(`[${AGENT_NAME}] [webhook] Bid accepted for task ${task.id}. Starting work...`);
 
-      await fetch(`${API_URL}/tasks/${task.id}/start`, {
-        method: 'POST',
-        headers: getAuthHeaders(),
-        body: JSON.stringify({ agentId }),
-      });
+      await signedPost(`/tasks/${task.id}/start`, { agentId });
 
       const workTime = 1000 + Math.random() * 2000;
       await sleep(workTime);
@@ -364,20 +445,24 @@ async function handleWebhookEvent(event: WebhookEvent, agentId: string): Promise
       const result = doWork(task);
       console.log(`[${AGENT_NAME}] [webhook] Work complete. Submitting result...`);
 
-      await fetch(`${API_URL}/tasks/${task.id}/submit`, {
-        method: 'POST',
-        headers: getAuthHeaders(),
-        body: JSON.stringify({ agentId, result }),
-      });
+      await signedPost(`/tasks/${task.id}/submit`, { agentId, result });
     }
   }
 
+  if (type === 'task.invited' && data.task && data.invitation?.agentId === agentId) {
+    console.log(`\n[${AGENT_NAME}] [webhook] Invited to task: "${data.task.title}" (${data.task.bounty} STX)`);
+    if (await acceptInvitation(data.invitation, agentId)) await completeTask(data.task, agentId);
+  }
+
   if (type === 'task.status_changed' && data.task) {
     console.log(`[${AGENT_NAME}] [webhook] Task ${data.task.id} status: ${data.previousStatus} → ${data.newStatus}`);
   }
 }
 
 async function startWebhookServer(agentId: string, secret: string): Promise<void> {
+  // Failed deliveries are retried with the same delivery id; handle each one once
+  const seenDeliveries = new Set<string>();
+
   const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
     if (req.method !== 'POST' || req.url !== '/') {
       res.writeHead(404);
@@ -391,8 +476,8 @@ async function startWebhookServer(agentId: string, secret: string): Promise<void
     }
     const body = Buffer.concat(chunks).toString();
 
-    // Verify HMAC signature
-    const signature = req.headers['x-stackstasker-signature'] as string;
+    // Verify the timestamped HMAC signature
+    const signature = req.headers['x-stackstasker-signature-v1'] as string;
     if (!signature || !verifySignature(body, signature, secret)) {
       console.log(`[${AGENT_NAME}] [webhook] Invalid signature, rejecting`);
       res.writeHead(401);
@@ -400,8 +485,16 @@ async function startWebhookServer(agentId: string, secret: string): Promise<void
       return;
     }
 
+    const deliveryId = req.headers['x-stackstasker-delivery'] as string | undefined;
+    if (deliveryId && seenDeliveries.has(deliveryId)) {
+      res.writeHead(200);
+      res.end('duplicate');
+      return;
+    }
+
     try {
       const event = JSON.parse(body) as WebhookEvent;
+      if (deliveryId) seenDeliveries.add(deliveryId);
       // Respond immediately, process async
       res.writeHead(200);
       res.end('ok');
@@ -422,15 +515,11 @@ async function startWebhookServer(agentId: string, secret: string): Promise<void
 }
 
 async function registerWebhook(agentId: string): Promise<string> {
-  const res = await fetch(`${API_URL}/webhooks`, {
-    method: 'POST',
-    headers: getAuthHeaders(),
-    body: JSON.stringify({
-      ownerId: agentId,
-      url: WEBHOOK_HOST,
-      events: ['task.created', 'bid.accepted', 'task.status_changed'],
-      description: `Agent worker ${AGENT_NAME}`,
-    }),
+  const res = await signedPost('/webhooks', {
+    ownerId: agentId,
+    url: WEBHOOK_HOST,
+    events: ['task.created', 'bid.accepted', 'task.status_changed', 'task.invited'],
+    description: `Agent worker ${AGENT_NAME}`,
   });
 
   if (!res.ok) {
@@ -442,6 +531,66 @@ async function registerWebhook(agentId: string): Promise<string> {
   return webhook.secret;
 }
 
+// ─── Event Stream Mode ──────────────────────────────────────────
+
+/**
+ * Split one SSE message block into its id and data fields
+ */
+function parseSseMessage(block: string): { id?: string; data?: string } {
+  let id: string | undefined;
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('id:')) id = line.slice(3).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+  return { id, data: data.length ? data.join('\n') : undefined };
+}
+
+/**
+ * Consume GET /events/stream forever, reconnecting with Last-Event-ID so no event is missed
+ */
+async function runEventStream(agentId: string): Promise<void> {
+  let lastEventId: string | undefined;
+
+  while (true) {
+    try {
+      // Signed, so events about invite-only tasks the agent was invited to come through too
+      const path = '/events/stream?types=task.created,bid.accepted,task.status_changed,task.invited';
+      const res = await fetch(`${API_URL}${path}`, {
+        headers: { ...getAuthHeaders('GET', path), ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}) },
+      });
+      if (!res.ok || !res.body) throw new Error(`HTTP ${res.status}`);
+      console.log(`[${AGENT_NAME}] [stream] Connected${lastEventId ? ` (resuming after event ${lastEventId})` : ''}`);
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const { id, data } = parseSseMessage(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          if (id) lastEventId = id;
+          if (!data) continue;
+
+          // Handle in the background so a long job doesn't stall the stream
+          handleWebhookEvent(JSON.parse(data) as WebhookEvent, agentId).catch((err) => {
+            console.error(`[${AGENT_NAME}] [stream] Error processing event:`, err);
+          });
+        }
+      }
+      console.log(`[${AGENT_NAME}] [stream] Disconnected`);
+    } catch (err) {
+      console.error(`[${AGENT_NAME}] [stream] Connection failed: ${err instanceof Error ? err.message : err}`);
+    }
+    await sleep(STREAM_RECONNECT_DELAY);
+  }
+}
+
 /**
  * Main entry point
  */
@@ -450,7 +599,8 @@ async function main() {
   console.log(`  StacksTasker Agent Worker: ${AGENT_NAME}`);
   console.log(`  API: ${API_URL}`);
   console.log(`  Wallet: ${AGENT_WALLET}`);
-  console.log(`  Mode: ${WEBHOOK_MODE ? 'webhook' : 'polling'}`);
+  if (DEMO_POSTER_WALLET) console.log(`  Demo poster: ${DEMO_POSTER_WALLET}`);
+  console.log(`  Mode: ${WEBHOOK_MODE ? 'webhook' : STREAM_MODE ? 'event stream' : 'polling'}`);
   console.log('='.repeat(60));
   console.log('');
 
@@ -485,6 +635,10 @@ async function main() {
     const secret = await registerWebhook(agent.id);
     await startWebhookServer(agent.id, secret);
     console.log(`[${AGENT_NAME}] Running in webhook mode. Waiting for events...`);
+  } else if (STREAM_MODE) {
+    // Stream-driven mode: follow the SSE event stream
+    console.log(`[${AGENT_NAME}] Running in event stream mode. Waiting for events...`);
+    await runEventStream(agent.id);
   } else {
     // Polling mode (default)
     await agentLoop(agent.id);
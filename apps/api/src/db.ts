@@ -125,6 +125,359 @@ export async function initDb() {
     CREATE INDEX IF NOT EXISTS idx_tasks_network ON tasks(network);
   `);
 
+  // Migration: escrow funding columns (bounty held by the platform escrow wallet)
+  await pool.query(`
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS escrow_address TEXT;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS escrow_tx_id TEXT;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS refund_tx_id TEXT;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS funded_at TIMESTAMPTZ;
+  `);
+
+  // Migration: reason a payment transaction was rejected by the confirmer
+  await pool.query(`
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS payment_error TEXT;
+  `);
+
+  // Migration: durable webhook delivery queue
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+      event_id TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      response_code INTEGER,
+      duration_ms INTEGER,
+      last_error TEXT,
+      next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      delivered_at TIMESTAMPTZ
+    );
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+    ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0;
+  `);
+
+  // Migration: keep a snippet of the receiver's response for delivery debugging
+  await pool.query(`
+    ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS response_body TEXT;
+  `);
+
+  // Migration: previous webhook secret kept for a grace period after rotation
+  await pool.query(`
+    ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS previous_secret TEXT;
+    ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS previous_secret_expires_at TIMESTAMPTZ;
+  `);
+
+  // Migration: append-only log of every dispatched event (backs SSE resume)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS events (
+      seq BIGSERIAL PRIMARY KEY,
+      id TEXT NOT NULL UNIQUE,
+      type TEXT NOT NULL,
+      task_id TEXT,
+      category TEXT,
+      payload TEXT NOT NULL,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    );
+  `);
+
+  // Migration: webhooks are fanned out from the event log; rows logged before
+  // this already had their deliveries queued, so they start out as queued
+  await pool.query(`
+    ALTER TABLE events ADD COLUMN IF NOT EXISTS webhooks_queued BOOLEAN NOT NULL DEFAULT true;
+    ALTER TABLE events ALTER COLUMN webhooks_queued SET DEFAULT false;
+    CREATE INDEX IF NOT EXISTS idx_events_unqueued ON events (seq) WHERE webhooks_queued = false;
+    CREATE INDEX IF NOT EXISTS idx_events_task ON events (task_id, seq);
+  `);
+
+  // Migration: task deadlines, committed bid ETAs, and missed-deadline stats
+  await pool.query(`
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS deadline TIMESTAMPTZ;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_at TIMESTAMPTZ;
+    ALTER TABLE bids ADD COLUMN IF NOT EXISTS eta_seconds INTEGER;
+    ALTER TABLE agents ADD COLUMN IF NOT EXISTS deadlines_missed INTEGER DEFAULT 0;
+    CREATE INDEX IF NOT EXISTS idx_tasks_deadline ON tasks (deadline) WHERE deadline IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_tasks_due_at ON tasks (due_at) WHERE due_at IS NOT NULL;
+  `);
+
+  // Migration: disputes over rejected submissions, decided by an arbiter
+  await pool.query(`
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS rejection_count INTEGER DEFAULT 0;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS payout_micro_stx TEXT;
+
+    CREATE TABLE IF NOT EXISTS disputes (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id),
+      opened_by TEXT NOT NULL,
+      opener_address TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      evidence TEXT[] NOT NULL DEFAULT '{}',
+      rejection_reason TEXT,
+      thread TEXT NOT NULL DEFAULT '[]',
+      status TEXT NOT NULL DEFAULT 'open',
+      outcome TEXT,
+      agent_percent INTEGER,
+      resolution_note TEXT,
+      arbiter_address TEXT,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      resolved_at TIMESTAMPTZ
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_disputes_task ON disputes (task_id, created_at DESC);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_disputes_one_open ON disputes (task_id) WHERE status = 'open';
+  `);
+
+  // Migration: ordered milestones, each submitted, approved and paid out separately
+  await pool.query(`
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS milestone_count INTEGER DEFAULT 0;
+
+    CREATE TABLE IF NOT EXISTS milestones (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id),
+      position INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      amount TEXT NOT NULL,
+      amount_micro_stx TEXT NOT NULL,
+      acceptance_criteria TEXT NOT NULL DEFAULT '',
+      status TEXT NOT NULL DEFAULT 'pending',
+      agent_id TEXT REFERENCES agents(id),
+      result TEXT,
+      rejection_reason TEXT,
+      payment_tx_id TEXT,
+      platform_fee TEXT,
+      platform_wallet TEXT,
+      payment_error TEXT,
+      submitted_at TIMESTAMPTZ,
+      paid_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW(),
+      UNIQUE (task_id, position)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_milestones_payment_pending ON milestones (updated_at) WHERE status = 'payment-pending';
+  `);
+
+  // Migration: who moved each task between statuses, when and why
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS task_status_history (
+      id BIGSERIAL PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id),
+      action TEXT NOT NULL,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      actor TEXT NOT NULL,
+      actor_id TEXT,
+      reason TEXT,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_task_status_history_task ON task_status_history (task_id, id);
+  `);
+
+  // Migration: task listing indexes (keyset pages by created/bounty, full-text search)
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_tasks_created ON tasks (created_at DESC, id DESC);
+    CREATE INDEX IF NOT EXISTS idx_tasks_bounty ON tasks ((bounty_micro_stx::numeric), id);
+    CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks USING GIN (to_tsvector('english', title || ' ' || description));
+  `);
+
+  // Migration: task invitations and invite-only visibility
+  await pool.query(`
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'public';
+
+    CREATE TABLE IF NOT EXISTS invitations (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id),
+      agent_id TEXT NOT NULL REFERENCES agents(id),
+      status TEXT NOT NULL DEFAULT 'pending',
+      message TEXT,
+      decline_reason TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      responded_at TIMESTAMPTZ,
+      UNIQUE (task_id, agent_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_invitations_agent ON invitations (agent_id, status);
+  `);
+
+  // Migration: bid lifecycle (revise, withdraw, reject, expire). Bids from before statuses:
+  // the assigned agent's bid was accepted, the rest are no longer in play
+  await pool.query(`
+    ALTER TABLE bids ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active';
+    ALTER TABLE bids ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+    ALTER TABLE bids ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+    UPDATE bids SET updated_at = created_at WHERE updated_at IS NULL;
+
+    UPDATE bids b SET status = CASE WHEN t.assigned_agent = b.agent_id THEN 'accepted' ELSE 'expired' END
+    FROM tasks t
+    WHERE t.id = b.task_id AND b.status = 'active' AND t.status NOT IN ('open', 'bidding');
+
+    CREATE INDEX IF NOT EXISTS idx_bids_agent ON bids (agent_id, status);
+  `);
+
+  // Migration: auction modes. Award sweeps look for reverse auctions whose bidding has closed
+  await pool.query(`
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS auction_mode TEXT NOT NULL DEFAULT 'open';
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS bidding_closes_at TIMESTAMPTZ;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS min_agent_rating NUMERIC(3,2);
+
+    CREATE INDEX IF NOT EXISTS idx_tasks_auction_close ON tasks (bidding_closes_at) WHERE auction_mode = 'reverse-auction';
+  `);
+
+  // Migration: recurring task templates and the tasks each occurrence generated. A template's
+  // prepaid balance funds every task it generates, so only directly paid escrow tx ids are unique
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS task_templates (
+      id TEXT PRIMARY KEY,
+      poster_address TEXT NOT NULL,
+      title TEXT NOT NULL,
+      description TEXT NOT NULL,
+      category TEXT NOT NULL DEFAULT 'other',
+      bounty TEXT NOT NULL,
+      network TEXT NOT NULL DEFAULT 'testnet',
+      visibility TEXT NOT NULL DEFAULT 'public',
+      schedule TEXT NOT NULL,
+      deadline_seconds INTEGER,
+      preassign_previous_agent BOOLEAN NOT NULL DEFAULT false,
+      min_agent_rating NUMERIC(3,2),
+      balance_micro_stx TEXT NOT NULL DEFAULT '0',
+      escrow_address TEXT,
+      escrow_tx_id TEXT,
+      active BOOLEAN NOT NULL DEFAULT true,
+      next_run_at TIMESTAMPTZ,
+      last_run_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_task_templates_poster ON task_templates (poster_address);
+    CREATE INDEX IF NOT EXISTS idx_task_templates_due ON task_templates (next_run_at) WHERE active;
+
+    CREATE TABLE IF NOT EXISTS template_runs (
+      template_id TEXT NOT NULL REFERENCES task_templates(id) ON DELETE CASCADE,
+      scheduled_for TIMESTAMPTZ NOT NULL,
+      task_id TEXT REFERENCES tasks(id),
+      preassigned_agent_id TEXT REFERENCES agents(id),
+      error TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (template_id, scheduled_for)
+    );
+
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS preassigned_agent TEXT REFERENCES agents(id);
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS funding_template_id TEXT;
+
+    DROP INDEX IF EXISTS idx_tasks_escrow_tx_id;
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_direct_escrow_tx_id ON tasks(escrow_tx_id) WHERE funding_template_id IS NULL;
+  `);
+
+  // Migration: result artifacts, versioned by submission, and the schema JSON artifacts must match
+  await pool.query(`
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS result_schema JSONB;
+
+    CREATE TABLE IF NOT EXISTS artifacts (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id),
+      version INTEGER NOT NULL,
+      kind TEXT NOT NULL,
+      name TEXT NOT NULL,
+      content_type TEXT,
+      size_bytes BIGINT NOT NULL DEFAULT 0,
+      sha256 TEXT NOT NULL,
+      url TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (task_id, version, name)
+    );
+  `);
+
+  // Migration: acceptance criteria checked on every submission, and the latest submission's report
+  await pool.query(`
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS acceptance_criteria JSONB;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS auto_approve_on_pass BOOLEAN NOT NULL DEFAULT FALSE;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS validation_report JSONB;
+  `);
+
+  // Migration: review windows, after which a submission the poster has not decided on is approved
+  await pool.query(`
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS review_window_seconds INTEGER NOT NULL DEFAULT 259200;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS review_due_at TIMESTAMPTZ;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS review_reminded_at TIMESTAMPTZ;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS approved_implicitly BOOLEAN NOT NULL DEFAULT FALSE;
+    CREATE INDEX IF NOT EXISTS idx_tasks_review_due ON tasks(review_due_at) WHERE status = 'submitted';
+  `);
+
+  // Migration: every submission kept with the poster's feedback, and revision limits
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS submissions (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id),
+      version INTEGER NOT NULL,
+      agent_id TEXT NOT NULL REFERENCES agents(id),
+      result TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      feedback TEXT,
+      change_requests JSONB NOT NULL DEFAULT '[]',
+      validation_report JSONB,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      reviewed_at TIMESTAMPTZ,
+      UNIQUE (task_id, version)
+    );
+
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS revision_count INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS max_revisions INTEGER NOT NULL DEFAULT 3;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS revision_escalation TEXT NOT NULL DEFAULT 'dispute';
+  `);
+
+  // Migration: tasks shared by a team of agents with declared payout shares
+  await pool.query(`
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS team_size INTEGER NOT NULL DEFAULT 0;
+
+    CREATE TABLE IF NOT EXISTS task_members (
+      task_id TEXT NOT NULL REFERENCES tasks(id),
+      agent_id TEXT NOT NULL REFERENCES agents(id),
+      position INTEGER NOT NULL,
+      share_percent INTEGER NOT NULL,
+      portion TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'working',
+      result TEXT,
+      submitted_at TIMESTAMPTZ,
+      PRIMARY KEY (task_id, agent_id),
+      UNIQUE (task_id, position)
+    );
+  `);
+
+  // Migration: one payment transaction settles at most one task or milestone
+  await pool.query(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_payment_tx_id ON tasks(payment_tx_id);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_milestones_payment_tx_id ON milestones(payment_tx_id);
+  `);
+
+  // Migration: a funding transfer is held against the task once broadcast and
+  // funds it only when the payment confirmer sees it succeed on-chain
+  await pool.query(`
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS funding_tx_id TEXT;
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS funding_error TEXT;
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_funding_tx_id ON tasks(funding_tx_id);
+  `);
+
+  // Migration: events about invite-only tasks reach only the wallets and agents let into the task
+  await pool.query(`
+    ALTER TABLE events ADD COLUMN IF NOT EXISTS audience TEXT[];
+  `);
+
+  // Migration: a template prepayment is held against the template once broadcast and
+  // added to its balance only when the payment confirmer sees it succeed on-chain
+  await pool.query(`
+    ALTER TABLE task_templates ADD COLUMN IF NOT EXISTS prepayment_tx_id TEXT;
+    ALTER TABLE task_templates ADD COLUMN IF NOT EXISTS prepayment_micro_stx TEXT;
+    ALTER TABLE task_templates ADD COLUMN IF NOT EXISTS prepayment_submitted_at TIMESTAMPTZ;
+    ALTER TABLE task_templates ADD COLUMN IF NOT EXISTS prepayment_error TEXT;
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_task_templates_prepayment_tx_id ON task_templates(prepayment_tx_id);
+  `);
+
   // Migration: add avatar_url column for custom agent avatar images
   await pool.query(`
     ALTER TABLE agents ADD COLUMN IF NOT EXISTS avatar_url TEXT DEFAULT '';
@@ -9,8 +9,18 @@ import { dirname, join } from 'path';
 import taskRoutes from './routes/tasks.js';
 import agentRoutes from './routes/agents.js';
 import webhookRoutes from './routes/webhooks.js';
-import { optionalWalletAuth } from './middleware/auth.js';
-import { getStats, setFacilitatorUrl } from './services/task-engine.js';
+import templateRoutes from './routes/templates.js';
+import eventRoutes from './routes/events.js';
+import { verifyWalletSignature } from './middleware/auth.js';
+import { getStats } from './services/task-engine.js';
+import { setFacilitatorUrl, getTeamPaymentContractId } from './services/escrow.js';
+import { startPaymentConfirmer } from './services/payment-confirmer.js';
+import { startDeliveryWorker } from './services/webhook-dispatcher.js';
+import { startDeadlineScheduler } from './services/deadline-scheduler.js';
+import { startAuctionScheduler } from './services/auction-scheduler.js';
+import { startTemplateScheduler } from './services/template-scheduler.js';
+import { startReviewScheduler } from './services/review-scheduler.js';
+import { MAX_SUBMISSION_BYTES } from './services/artifacts.js';
 import { initDb } from './db.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -19,6 +29,12 @@ const __dirname = dirname(__filename);
 const app = express();
 const PORT = parseInt(process.env.API_PORT ?? '3003', 10);
 const FACILITATOR_URL = process.env.FACILITATOR_URL ?? 'http://localhost:4000';
+const PAYMENT_CONFIRM_INTERVAL = parseInt(process.env.PAYMENT_CONFIRM_INTERVAL ?? '15000', 10);
+const WEBHOOK_RETRY_INTERVAL = parseInt(process.env.WEBHOOK_RETRY_INTERVAL ?? '5000', 10);
+const DEADLINE_CHECK_INTERVAL = parseInt(process.env.DEADLINE_CHECK_INTERVAL ?? '30000', 10);
+const AUCTION_CHECK_INTERVAL = parseInt(process.env.AUCTION_CHECK_INTERVAL ?? '15000', 10);
+const TEMPLATE_CHECK_INTERVAL = parseInt(process.env.TEMPLATE_CHECK_INTERVAL ?? '30000', 10);
+const REVIEW_CHECK_INTERVAL = parseInt(process.env.REVIEW_CHECK_INTERVAL ?? '60000', 10);
 
 // Configure facilitator
 setFacilitatorUrl(FACILITATOR_URL);
@@ -42,8 +58,15 @@ const readLimiter = rateLimit({
 
 // Middleware
 app.use(cors({ origin: '*' }));
-app.use(express.json());
-app.use(optionalWalletAuth);
+// Keep the raw body so signed requests can be verified against the exact bytes sent
+const keepRawBody = (req: express.Request, _res: express.Response, buf: Buffer) => { (req as any).rawBody = buf; };
+// Submissions carry base64 artifacts, so they may be larger than other requests
+app.use('/tasks/:id/submit', express.json({
+  limit: Math.ceil(MAX_SUBMISSION_BYTES * 4 / 3) + 1024 * 1024,
+  verify: keepRawBody,
+}));
+app.use(express.json({ verify: keepRawBody }));
+app.use(verifyWalletSignature);
 
 // Apply rate limits
 app.use('/tasks', (req, _res, next) => {
@@ -58,6 +81,11 @@ app.use('/webhooks', (req, _res, next) => {
   if (req.method === 'GET') return readLimiter(req, _res, next);
   return writeLimiter(req, _res, next);
 });
+app.use('/templates', (req, _res, next) => {
+  if (req.method === 'GET') return readLimiter(req, _res, next);
+  return writeLimiter(req, _res, next);
+});
+app.use('/events', readLimiter);
 
 // Serve static frontend files (extensions enables clean URLs: /task → task.html)
 const webDir = join(__dirname, '../../web');
@@ -67,6 +95,8 @@ app.use(express.static(webDir, { extensions: ['html'] }));
 app.use('/tasks', taskRoutes);
 app.use('/agents', agentRoutes);
 app.use('/webhooks', webhookRoutes);
+app.use('/templates', templateRoutes);
+app.use('/events', eventRoutes);
 
 // GET /stats - Platform statistics
 app.get('/stats', async (req, res) => {
@@ -81,6 +111,10 @@ app.get('/config', (_req, res) => {
       address: process.env.PAYMENT_CONTRACT_ADDRESS || 'STV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8V496T8W',
       name: process.env.PAYMENT_CONTRACT_NAME || 'stackstasker-payments',
     },
+    teamPaymentContract: {
+      testnet: getTeamPaymentContractId('testnet'),
+      mainnet: getTeamPaymentContractId('mainnet'),
+    },
     platformWallet: {
       testnet: process.env.PLATFORM_WALLET_TESTNET || 'STV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8V496T8W',
       mainnet: process.env.PLATFORM_WALLET_MAINNET || 'SPV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8TEM307V',
@@ -102,6 +136,12 @@ app.get('/health', (_req, res) => {
 const isMain = process.argv[1]?.endsWith('index.js') || process.argv[1]?.endsWith('index.ts');
 if (isMain && !process.env.NO_AUTO_START) {
   initDb().then(() => {
+    startPaymentConfirmer(PAYMENT_CONFIRM_INTERVAL);
+    startDeliveryWorker(WEBHOOK_RETRY_INTERVAL);
+    startDeadlineScheduler(DEADLINE_CHECK_INTERVAL);
+    startAuctionScheduler(AUCTION_CHECK_INTERVAL);
+    startTemplateScheduler(TEMPLATE_CHECK_INTERVAL);
+    startReviewScheduler(REVIEW_CHECK_INTERVAL);
     app.listen(PORT, () => {
       console.log(`[StacksTasker API] Running on http://localhost:${PORT}`);
       console.log(`[StacksTasker API] Facilitator: ${FACILITATOR_URL}`);
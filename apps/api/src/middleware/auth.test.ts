@@ -2,12 +2,42 @@
 
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
-import { verifyWalletSignature, optionalWalletAuth } from './auth.js';
+import { signMessageHashRsv, getAddressFromPrivateKey } from '@stacks/transactions';
+import { hashMessage } from '@stacks/encryption';
+import { bytesToHex } from '@stacks/common';
+import { verifyWalletSignature, optionalWalletAuth, requireWallet, buildAuthMessage } from './auth.js';
+
+// ─── Test wallet ──────────────────────────────────────
+
+const PRIVATE_KEY = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+const TESTNET_ADDRESS = getAddressFromPrivateKey(PRIVATE_KEY, 'testnet');
+const MAINNET_ADDRESS = getAddressFromPrivateKey(PRIVATE_KEY, 'mainnet');
+
+function sign(method: string, path: string, timestamp: string, body?: string): string {
+  const messageHash = bytesToHex(hashMessage(buildAuthMessage(method, path, timestamp, body)));
+  return signMessageHashRsv({ messageHash, privateKey: PRIVATE_KEY });
+}
 
 // ─── Mock Express objects ──────────────────────────────
 
-function createReq(headers: Record<string, string> = {}) {
-  return { headers } as any;
+function createReq(headers: Record<string, string> = {}, opts: { method?: string; url?: string; body?: string } = {}) {
+  return {
+    headers,
+    method: opts.method ?? 'POST',
+    originalUrl: opts.url ?? '/tasks',
+    rawBody: opts.body !== undefined ? Buffer.from(opts.body) : undefined,
+  } as any;
+}
+
+function signedReq(address: string, opts: { method?: string; url?: string; body?: string; timestamp?: string } = {}) {
+  const method = opts.method ?? 'POST';
+  const url = opts.url ?? '/tasks';
+  const timestamp = opts.timestamp ?? new Date().toISOString();
+  return createReq({
+    'x-wallet-address': address,
+    'x-wallet-signature': sign(method, url, timestamp, opts.body),
+    'x-wallet-timestamp': timestamp,
+  }, { method, url, body: opts.body });
 }
 
 function createRes() {
@@ -131,24 +161,68 @@ describe('verifyWalletSignature', () => {
     assert.match(res._body.error, /Invalid STX wallet address/);
   });
 
-  it('passes valid testnet auth headers (ST prefix)', () => {
-    const req = createReq({
-      'x-wallet-address': 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM',
-      'x-wallet-signature': 'sig_ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM_test',
-      'x-wallet-timestamp': new Date().toISOString(),
-    });
+  it('passes a valid testnet signature (ST prefix)', () => {
+    const req = signedReq(TESTNET_ADDRESS, { body: '{"title":"x"}' });
     const res = createRes();
     const next = createNext();
 
     verifyWalletSignature(req, res, next);
 
     assert.equal(next.wasCalled(), true);
-    assert.equal((req as any).walletAddress, 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM');
+    assert.equal((req as any).walletAddress, TESTNET_ADDRESS);
+  });
+
+  it('passes a valid mainnet signature (SP prefix)', () => {
+    const req = signedReq(MAINNET_ADDRESS, { method: 'GET', url: '/tasks?status=open' });
+    const res = createRes();
+    const next = createNext();
+
+    verifyWalletSignature(req, res, next);
+
+    assert.equal(next.wasCalled(), true);
+    assert.equal((req as any).walletAddress, MAINNET_ADDRESS);
   });
 
-  it('passes valid mainnet auth headers (SP prefix)', () => {
+  it('rejects a signature that does not match the claimed address', () => {
+    const req = signedReq(TESTNET_ADDRESS);
+    req.headers['x-wallet-address'] = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+    const res = createRes();
+    const next = createNext();
+
+    verifyWalletSignature(req, res, next);
+
+    assert.equal(next.wasCalled(), false);
+    assert.equal(res.statusCode, 401);
+    assert.match(res._body.error, /Invalid wallet signature/);
+  });
+
+  it('rejects when the body was tampered with', () => {
+    const req = signedReq(TESTNET_ADDRESS, { body: '{"bounty":"0.01"}' });
+    req.rawBody = Buffer.from('{"bounty":"999"}');
+    const res = createRes();
+    const next = createNext();
+
+    verifyWalletSignature(req, res, next);
+
+    assert.equal(next.wasCalled(), false);
+    assert.equal(res.statusCode, 401);
+  });
+
+  it('rejects when the path differs from the signed path', () => {
+    const req = signedReq(TESTNET_ADDRESS, { url: '/tasks/abc/approve' });
+    req.originalUrl = '/tasks/xyz/approve';
+    const res = createRes();
+    const next = createNext();
+
+    verifyWalletSignature(req, res, next);
+
+    assert.equal(next.wasCalled(), false);
+    assert.equal(res.statusCode, 401);
+  });
+
+  it('rejects a malformed signature', () => {
     const req = createReq({
-      'x-wallet-address': 'SP1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM',
+      'x-wallet-address': TESTNET_ADDRESS,
       'x-wallet-signature': 'sig_test',
       'x-wallet-timestamp': new Date().toISOString(),
     });
@@ -157,8 +231,42 @@ describe('verifyWalletSignature', () => {
 
     verifyWalletSignature(req, res, next);
 
-    assert.equal(next.wasCalled(), true);
-    assert.equal((req as any).walletAddress, 'SP1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM');
+    assert.equal(next.wasCalled(), false);
+    assert.equal(res.statusCode, 401);
+  });
+
+  it('rejects a replayed signature', () => {
+    const first = signedReq(TESTNET_ADDRESS, { url: '/tasks/replay/cancel' });
+    const replay = createReq({ ...first.headers }, { url: '/tasks/replay/cancel' });
+
+    const next1 = createNext();
+    verifyWalletSignature(first, createRes(), next1);
+    assert.equal(next1.wasCalled(), true);
+
+    const res = createRes();
+    const next2 = createNext();
+    verifyWalletSignature(replay, res, next2);
+
+    assert.equal(next2.wasCalled(), false);
+    assert.equal(res.statusCode, 401);
+    assert.match(res._body.error, /already used/);
+  });
+
+  it('rejects a replay whose signature is re-encoded with 0x or in upper case', () => {
+    const first = signedReq(TESTNET_ADDRESS, { url: '/tasks/reencoded/cancel' });
+    const signature = first.headers['x-wallet-signature'] as string;
+    verifyWalletSignature(first, createRes(), createNext());
+
+    for (const variant of [`0x${signature}`, signature.toUpperCase()]) {
+      const replay = createReq({ ...first.headers, 'x-wallet-signature': variant }, { url: '/tasks/reencoded/cancel' });
+      const res = createRes();
+      const next = createNext();
+      verifyWalletSignature(replay, res, next);
+
+      assert.equal(next.wasCalled(), false);
+      assert.equal(res.statusCode, 401);
+      assert.match(res._body.error, /already used/);
+    }
   });
 
   it('rejects invalid timestamp format', () => {
@@ -232,3 +340,28 @@ describe('optionalWalletAuth', () => {
     assert.equal((req as any).walletAddress, undefined);
   });
 });
+
+// ─── requireWallet ─────────────────────────────────────
+
+describe('requireWallet', () => {
+  it('rejects unauthenticated requests with 401', () => {
+    const req = createReq({});
+    const res = createRes();
+    const next = createNext();
+
+    requireWallet(req, res, next);
+
+    assert.equal(next.wasCalled(), false);
+    assert.equal(res.statusCode, 401);
+    assert.equal(res._body.code, 'unauthenticated');
+  });
+
+  it('calls next() once a signature has been verified', () => {
+    const req = signedReq(TESTNET_ADDRESS, { url: '/tasks/abc/cancel' });
+    const next = createNext();
+
+    verifyWalletSignature(req, createRes(), () => requireWallet(req, createRes(), next));
+
+    assert.equal(next.wasCalled(), true);
+  });
+});
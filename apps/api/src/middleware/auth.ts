@@ -2,16 +2,82 @@
 // Agents sign a message with their STX private key, server verifies
 
 import type { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { publicKeyFromSignatureRsv, getAddressFromPublicKey, PubKeyEncoding } from '@stacks/transactions';
+import { hashMessage } from '@stacks/encryption';
+import { bytesToHex } from '@stacks/common';
+
+/** Signed requests are valid for 5 minutes either side of server time */
+const SIGNATURE_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Signed requests already accepted inside the validity window, keyed by signer
+ * and message hash, mapped to their expiry. Keying on what was signed rather than
+ * the signature header means a re-encoded signature (0x prefix, upper case) of a
+ * captured request is rejected too. (Per-process: each serverless instance keeps its own cache.)
+ */
+const seenSignatures = new Map<string, number>();
+
+/**
+ * SHA-256 hex digest of the raw request body (empty string when there is no body)
+ */
+export function hashBody(body?: string | Buffer): string {
+  return createHash('sha256').update(body ?? '').digest('hex');
+}
+
+/**
+ * Canonical message a wallet signs to authenticate a request:
+ *   StacksTasker:<METHOD>:<path>:<timestamp>:<bodyHash>
+ */
+export function buildAuthMessage(method: string, path: string, timestamp: string, body?: string | Buffer): string {
+  return `StacksTasker:${method.toUpperCase()}:${path}:${timestamp}:${hashBody(body)}`;
+}
+
+/**
+ * Recover the signer from an RSV signature over a Stacks signed message
+ * and check it derives to the claimed address on the address's network.
+ */
+export function isSignatureFromAddress(message: string, signature: string, walletAddress: string): boolean {
+  const network = walletAddress[1] === 'P' || walletAddress[1] === 'M' ? 'mainnet' : 'testnet';
+  const messageHash = bytesToHex(hashMessage(message));
+
+  for (const encoding of [PubKeyEncoding.Compressed, PubKeyEncoding.Uncompressed]) {
+    try {
+      const publicKey = publicKeyFromSignatureRsv(messageHash, signature.replace(/^0x/, ''), encoding);
+      if (getAddressFromPublicKey(publicKey, network) === walletAddress) return true;
+    } catch {
+      continue;
+    }
+  }
+  return false;
+}
+
+/**
+ * Record a wallet's signed message as used. Returns false if it was already seen (replay).
+ */
+function consumeSignature(walletAddress: string, message: string, signedTime: number): boolean {
+  const now = Date.now();
+  for (const [key, expiresAt] of seenSignatures) {
+    if (expiresAt <= now) seenSignatures.delete(key);
+  }
+
+  const key = `${walletAddress}:${bytesToHex(hashMessage(message))}`;
+  if (seenSignatures.has(key)) return false;
+  seenSignatures.set(key, signedTime + SIGNATURE_WINDOW_MS);
+  return true;
+}
 
 /**
  * Verify wallet signature header for authenticated requests.
  * Expects:
  *   X-Wallet-Address: <STX address>
- *   X-Wallet-Signature: <signed timestamp>
+ *   X-Wallet-Signature: <RSV signature of the canonical message, hex>
  *   X-Wallet-Timestamp: <ISO timestamp>
  *
- * For the MVP, this performs basic validation.
- * In production, use @stacks/transactions verifyMessageSignatureRsv().
+ * The signature must recover to X-Wallet-Address over
+ * `StacksTasker:<method>:<path>:<timestamp>:<sha256(body)>` (see buildAuthMessage).
+ * Each signed request is accepted once; replays within the window are rejected,
+ * however the signature is encoded.
  */
 export function verifyWalletSignature(req: Request, res: Response, next: NextFunction): void {
   const walletAddress = req.headers['x-wallet-address'] as string | undefined;
@@ -33,9 +99,8 @@ export function verifyWalletSignature(req: Request, res: Response, next: NextFun
   // Validate timestamp is within 5 minute window
   const signedTime = new Date(timestamp).getTime();
   const now = Date.now();
-  const fiveMinutes = 5 * 60 * 1000;
 
-  if (isNaN(signedTime) || Math.abs(now - signedTime) > fiveMinutes) {
+  if (isNaN(signedTime) || Math.abs(now - signedTime) > SIGNATURE_WINDOW_MS) {
     res.status(401).json({ error: 'Signature timestamp expired or invalid (must be within 5 minutes)' });
     return;
   }
@@ -46,11 +111,18 @@ export function verifyWalletSignature(req: Request, res: Response, next: NextFun
     return;
   }
 
-  // For the MVP, we trust the signature if format is valid.
-  // In production, verify using @stacks/transactions:
-  //   import { verifyMessageSignatureRsv } from '@stacks/transactions';
-  //   const message = `StacksTasker:${timestamp}`;
-  //   const isValid = verifyMessageSignatureRsv({ message, publicKey, signature });
+  // Verify the signature was produced by the claimed wallet over this exact request
+  const rawBody = (req as any).rawBody as Buffer | undefined;
+  const message = buildAuthMessage(req.method, req.originalUrl ?? req.url, timestamp, rawBody);
+  if (!isSignatureFromAddress(message, signature, walletAddress)) {
+    res.status(401).json({ error: 'Invalid wallet signature' });
+    return;
+  }
+
+  if (!consumeSignature(walletAddress, message, signedTime)) {
+    res.status(401).json({ error: 'Signature already used (replayed request)' });
+    return;
+  }
 
   // Attach verified address to request for downstream use
   (req as any).walletAddress = walletAddress;
@@ -59,7 +131,8 @@ export function verifyWalletSignature(req: Request, res: Response, next: NextFun
 }
 
 /**
- * Optional auth middleware - adds wallet info if present, doesn't block if missing
+ * Optional auth middleware - adds wallet info if present, doesn't block if missing.
+ * The address is NOT verified; use verifyWalletSignature for anything that authorizes.
  */
 export function optionalWalletAuth(req: Request, _res: Response, next: NextFunction): void {
   const walletAddress = req.headers['x-wallet-address'] as string | undefined;
@@ -68,3 +141,21 @@ export function optionalWalletAuth(req: Request, _res: Response, next: NextFunct
   }
   next();
 }
+
+/**
+ * Verified wallet address attached by verifyWalletSignature, if any
+ */
+export function getWalletAddress(req: Request): string | undefined {
+  return (req as any).walletAddress as string | undefined;
+}
+
+/**
+ * Require a verified wallet signature - rejects unauthenticated requests with 401
+ */
+export function requireWallet(req: Request, res: Response, next: NextFunction): void {
+  if (!getWalletAddress(req)) {
+    res.status(401).json({ error: 'Wallet signature required', code: 'unauthenticated' });
+    return;
+  }
+  next();
+}
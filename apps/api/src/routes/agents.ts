@@ -9,12 +9,16 @@ import {
   updateAgent,
   submitReview,
   listReviews,
+  listAgentInvitations,
 } from '../services/task-engine.js';
-import type { RegisterAgentRequest, SubmitReviewRequest, TaskCategory } from '../types.js';
+import { recommendTasks } from '../services/recommendations.js';
+import type { InvitationStatus, RegisterAgentRequest, SubmitReviewRequest, TaskCategory } from '../types.js';
 
 const router = Router();
 
 const VALID_CATEGORIES: TaskCategory[] = ['web-scraping', 'data-pipeline', 'smart-contract', 'coding', 'api-integration', 'monitoring', 'testing', 'other'];
+const DEFAULT_RECOMMENDATIONS = 10;
+const MAX_RECOMMENDATIONS = 50;
 const STX_ADDRESS_RE = /^S[A-Z0-9]{39,40}$/;
 
 // POST /agents/register - Register a new AI agent
@@ -92,6 +96,35 @@ router.get('/:id/profile', async (req, res) => {
   res.json(profile);
 });
 
+// GET /agents/:id/recommended-tasks?network=&limit=10 - Open tasks ranked for this agent
+router.get('/:id/recommended-tasks', async (req, res) => {
+  const agent = await getAgent(req.params.id);
+  if (!agent) {
+    res.status(404).json({ error: 'Agent not found' });
+    return;
+  }
+
+  const network = req.query.network as string | undefined;
+  const limit = Math.min(parseInt(req.query.limit as string, 10) || DEFAULT_RECOMMENDATIONS, MAX_RECOMMENDATIONS);
+  const recommendations = await recommendTasks(agent, {
+    network: network === 'testnet' || network === 'mainnet' ? network : undefined,
+    limit: Math.max(limit, 1),
+  });
+  res.json({ recommendations, count: recommendations.length });
+});
+
+// GET /agents/:id/invitations?status=pending - Tasks this agent has been invited to
+router.get('/:id/invitations', async (req, res) => {
+  const status = req.query.status as InvitationStatus | undefined;
+  if (status !== undefined && !['pending', 'accepted', 'declined'].includes(status)) {
+    res.status(400).json({ error: 'status must be pending, accepted or declined' });
+    return;
+  }
+
+  const invitations = await listAgentInvitations(req.params.id, status);
+  res.json({ invitations, count: invitations.length });
+});
+
 // PUT /agents/:id - Update agent profile
 router.put('/:id', async (req, res) => {
   const { bio, capabilities, avatarUrl } = req.body as { bio?: string; capabilities?: TaskCategory[]; avatarUrl?: string };
@@ -0,0 +1,114 @@
+// StacksTasker API - Event log + stream routes
+
+import { Router, type Request } from 'express';
+import { isValidEventType } from '../services/webhook-dispatcher.js';
+import { getWalletAddress } from '../middleware/auth.js';
+import { subscribe } from '../services/event-stream.js';
+import { getLatestSeq, listEvents } from '../services/event-log.js';
+import type { EventFilter, TaskCategory, WebhookEventType } from '../types.js';
+
+const router = Router();
+
+/** Comment line sent periodically so proxies keep idle streams open */
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+/**
+ * Read `?types=a,b&category=&taskId=` into an event filter for the signing
+ * wallet, if any; events about invite-only tasks are kept to their audience
+ */
+function parseEventFilter(req: Request): EventFilter | { error: string } {
+  const types = (req.query.types as string | undefined)?.split(',').map((t) => t.trim()).filter(Boolean);
+  for (const type of types ?? []) {
+    if (!isValidEventType(type)) return { error: `Invalid event type: "${type}"` };
+  }
+  return {
+    types: types as WebhookEventType[] | undefined,
+    category: (req.query.category as TaskCategory | undefined) || undefined,
+    taskId: (req.query.taskId as string | undefined) || undefined,
+    viewer: getWalletAddress(req),
+  };
+}
+
+// GET /events?after=0&limit=100 - Replay logged events in order, for catching up after downtime
+router.get('/', async (req, res) => {
+  try {
+    const filter = parseEventFilter(req);
+    if ('error' in filter) {
+      res.status(400).json(filter);
+      return;
+    }
+
+    const after = req.query.after === undefined ? 0 : parseInt(req.query.after as string, 10);
+    if (!Number.isInteger(after) || after < 0) {
+      res.status(400).json({ error: 'after must be an event sequence number' });
+      return;
+    }
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    if (limit < 1) {
+      res.status(400).json({ error: 'limit must be a positive number' });
+      return;
+    }
+
+    const entries = await listEvents(after, filter, limit);
+    res.json({
+      events: entries.map((entry) => ({ seq: entry.seq, ...entry.event })),
+      // Pass back as ?after= for the next page; unchanged when nothing new has been logged
+      next: entries.length ? entries[entries.length - 1].seq : after,
+      hasMore: entries.length === limit,
+    });
+  } catch (err) {
+    console.error('[Events] List error:', err);
+    res.status(500).json({ error: 'Failed to list events' });
+  }
+});
+
+// GET /events/stream - Server-Sent Events stream of marketplace events (resume with Last-Event-ID)
+router.get('/stream', async (req, res) => {
+  const filter = parseEventFilter(req);
+  if ('error' in filter) {
+    res.status(400).json(filter);
+    return;
+  }
+
+  // EventSource sends Last-Event-ID on reconnect; the query form helps clients that can't set headers
+  const lastEventId = (req.headers['last-event-id'] as string | undefined) ?? (req.query.lastEventId as string | undefined);
+  let afterSeq: number;
+  if (lastEventId !== undefined) {
+    afterSeq = parseInt(lastEventId, 10);
+    if (!Number.isInteger(afterSeq) || afterSeq < 0) {
+      res.status(400).json({ error: 'Last-Event-ID must be an event sequence number' });
+      return;
+    }
+  } else {
+    try {
+      afterSeq = await getLatestSeq();
+    } catch (err) {
+      console.error('[Events] Stream error:', err);
+      res.status(500).json({ error: 'Failed to open event stream' });
+      return;
+    }
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 3000\n\n');
+
+  const unsubscribe = subscribe(afterSeq, filter, (entry) => {
+    res.write(`id: ${entry.seq}\nevent: ${entry.event.type}\ndata: ${JSON.stringify(entry.event)}\n\n`);
+  });
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
@@ -1,40 +1,218 @@
 // StacksTasker API - Task routes
 
-import { Router } from 'express';
+import { Router, type Request, type Response } from 'express';
+import { encodePayment, decodePaymentPayload, type StacksPaymentPayload } from '@x402/stacks';
 import {
   createTask,
+  fundTask,
   getTask,
+  canViewTask,
+  getTaskHistory,
   listTasks,
+  DEFAULT_TASK_PAGE_SIZE,
   acceptTask,
   startTask,
   cancelTask,
   submitResult,
   rejectResult,
+  requestRevision,
+  listSubmissions,
   approveTask,
   closeTask,
   placeBid,
   listBids,
   getBidCount,
   acceptBid,
+  reviseBid,
+  withdrawBid,
+  rejectBid,
   postMessage,
   listMessages,
+  authorizeAgent,
+  openDispute,
+  getDispute,
+  resolveDispute,
+  listMilestones,
+  submitMilestone,
+  inviteAgents,
+  listInvitations,
+  acceptInvitation,
+  declineInvitation,
+  approveMilestone,
+  rejectMilestone,
+  assignTeam,
+  listTeamMembers,
+  submitPortion,
 } from '../services/task-engine.js';
-import type { CreateTaskRequest, SubmitResultRequest, PlaceBidRequest, PostMessageRequest, TaskStatus, TaskCategory, NetworkType } from '../types.js';
+import { recommendAgents } from '../services/recommendations.js';
+import { listArtifacts, getArtifact, readArtifactContent, diffArtifactVersions } from '../services/artifacts.js';
+import { checkSchema } from '../services/json-schema.js';
+import { checkCriteria } from '../services/acceptance.js';
+import { createFundingRequirement, hasEscrow } from '../services/escrow.js';
+import { confirmPayment, confirmMilestonePayment, confirmFunding } from '../services/payment-confirmer.js';
+import { getWalletAddress, requireWallet } from '../middleware/auth.js';
+import type { ApiError, Task, CreateTaskRequest, MilestoneInput, SubmitResultRequest, PlaceBidRequest, ReviseBidRequest, PostMessageRequest, OpenDisputeRequest, ResolveDisputeRequest, DisputeOutcome, InviteAgentsRequest, RequestRevisionRequest, AssignTeamRequest, TeamMemberInput, RevisionEscalation, TaskStatus, TaskCategory, TaskSort, TaskVisibility, AuctionMode, NetworkType } from '../types.js';
 
 const router = Router();
 
 const VALID_CATEGORIES: TaskCategory[] = ['web-scraping', 'data-pipeline', 'smart-contract', 'coding', 'api-integration', 'monitoring', 'testing', 'other'];
 
-// POST /tasks - Create a new task
-router.post('/', async (req, res) => {
+const DISPUTE_OUTCOMES: DisputeOutcome[] = ['full', 'partial', 'refund'];
+const MAX_EVIDENCE_ITEMS = 10;
+
+const MAX_MILESTONES = 20;
+
+const VISIBILITIES: TaskVisibility[] = ['public', 'invite-only'];
+const AUCTION_MODES: AuctionMode[] = ['open', 'sealed', 'reverse-auction'];
+const MAX_RESULT_SCHEMA_LENGTH = 16 * 1024;
+const MAX_INVITATIONS = 20;
+/** A poster gets between an hour and 30 days to review each submission */
+const MIN_REVIEW_WINDOW_SECONDS = 60 * 60;
+const MAX_REVIEW_WINDOW_SECONDS = 30 * 24 * 60 * 60;
+const REVISION_ESCALATIONS: RevisionEscalation[] = ['dispute', 'cancel'];
+const MAX_REVISIONS = 10;
+const MAX_CHANGE_REQUESTS = 20;
+/** The pay-team contract call pays at most 10 members */
+const MAX_TEAM_SIZE = 10;
+
+const TASK_SORTS: TaskSort[] = ['created', 'bounty', 'deadline', 'bids'];
+const MAX_TASK_PAGE_SIZE = 200;
+
+const DEFAULT_RECOMMENDATIONS = 10;
+const MAX_RECOMMENDATIONS = 50;
+
+/** Longest ETA an agent can commit to on a bid */
+const MAX_ETA_SECONDS = 30 * 24 * 60 * 60;
+
+/** HTTP status for an engine error */
+function errorStatus(err: ApiError): number {
+  if (err.code === 'forbidden') return 403;
+  if (err.code === 'payment_failed') return 402;
+  return 400;
+}
+
+/**
+ * Escrow funding requirement for a task still awaiting its bounty, unless a
+ * funding transfer is already awaiting confirmation
+ */
+function fundingRequirementFor(task: Task) {
+  return task.status === 'pending-funding' && !task.fundingTxId && hasEscrow(task) ? createFundingRequirement(task) : undefined;
+}
+
+/**
+ * Validate a task's milestones: each needs a title and a positive amount, and
+ * the amounts must add up to the bounty exactly (compared in microSTX)
+ */
+function parseMilestones(raw: unknown, bounty: number): MilestoneInput[] | ApiError {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_MILESTONES) {
+    return { error: `milestones must be a list of 1 to ${MAX_MILESTONES} milestones` };
+  }
+
+  const milestones: MilestoneInput[] = [];
+  let totalMicro = 0;
+  for (const [i, item] of raw.entries()) {
+    const { title, amount, acceptanceCriteria } = (item ?? {}) as Partial<MilestoneInput>;
+    const milestoneTitle = String(title ?? '').trim();
+    if (milestoneTitle.length === 0 || milestoneTitle.length > 200) {
+      return { error: `Milestone ${i + 1}: title must be between 1 and 200 characters` };
+    }
+    const value = parseFloat(String(amount));
+    if (isNaN(value) || value <= 0) {
+      return { error: `Milestone ${i + 1}: amount must be a positive STX amount` };
+    }
+    const criteria = acceptanceCriteria === undefined ? '' : String(acceptanceCriteria).trim();
+    if (criteria.length > 2000) {
+      return { error: `Milestone ${i + 1}: acceptanceCriteria must be at most 2000 characters` };
+    }
+    totalMicro += Math.round(value * 1_000_000);
+    milestones.push({ title: milestoneTitle, amount: String(amount), acceptanceCriteria: criteria });
+  }
+
+  if (totalMicro !== Math.round(bounty * 1_000_000)) {
+    return { error: `Milestone amounts add up to ${(totalMicro / 1_000_000).toFixed(6)} STX, not the ${bounty} STX bounty` };
+  }
+  return milestones;
+}
+
+/**
+ * Validate a team: 2 or more distinct agents, each with a portion of the work
+ * and a whole-percent share of the payout, the shares adding up to 100
+ */
+function parseTeam(raw: unknown): TeamMemberInput[] | ApiError {
+  if (!Array.isArray(raw) || raw.length < 2 || raw.length > MAX_TEAM_SIZE) {
+    return { error: `members must be a list of 2 to ${MAX_TEAM_SIZE} agents` };
+  }
+
+  const members: TeamMemberInput[] = [];
+  let totalShare = 0;
+  for (const [i, item] of raw.entries()) {
+    const { agentId, sharePercent, portion } = (item ?? {}) as Partial<TeamMemberInput>;
+    if (typeof agentId !== 'string' || agentId.length === 0) {
+      return { error: `Member ${i + 1}: agentId is required` };
+    }
+    if (members.some((member) => member.agentId === agentId)) {
+      return { error: `Member ${i + 1}: agent ${agentId} is already on the team` };
+    }
+    if (!Number.isInteger(sharePercent) || sharePercent! < 1 || sharePercent! > 99) {
+      return { error: `Member ${i + 1}: sharePercent must be a whole number from 1 to 99` };
+    }
+    const portionText = String(portion ?? '').trim();
+    if (portionText.length === 0 || portionText.length > 200) {
+      return { error: `Member ${i + 1}: portion must be between 1 and 200 characters` };
+    }
+    totalShare += sharePercent!;
+    members.push({ agentId, sharePercent: sharePercent!, portion: portionText });
+  }
+
+  if (totalShare !== 100) return { error: `Shares add up to ${totalShare}%, not 100%` };
+  return members;
+}
+
+/**
+ * The poster acting on a request is the verified wallet.
+ * A posterAddress in the body is only tolerated if it matches.
+ */
+function resolvePoster(req: Request, res: Response): string | undefined {
+  const walletAddress = getWalletAddress(req)!;
+  const { posterAddress } = req.body as { posterAddress?: string };
+  if (posterAddress && posterAddress !== walletAddress) {
+    res.status(403).json({ error: 'posterAddress does not match authenticated wallet', code: 'forbidden' });
+    return undefined;
+  }
+  return walletAddress;
+}
+
+/**
+ * The agent acting on a request must be owned by the verified wallet.
+ */
+async function resolveAgent(req: Request, res: Response): Promise<string | undefined> {
+  const { agentId } = req.body as { agentId?: string };
+  if (!agentId) {
+    res.status(400).json({ error: 'Missing agentId' });
+    return undefined;
+  }
+
+  const agent = await authorizeAgent(agentId, getWalletAddress(req)!);
+  if ('error' in agent) {
+    res.status(errorStatus(agent)).json(agent);
+    return undefined;
+  }
+  return agent.id;
+}
+
+// POST /tasks - Create a new task, posted by the signing wallet
+router.post('/', requireWallet, async (req, res) => {
   try {
     const body = req.body as CreateTaskRequest;
 
-    if (!body.title || !body.description || !body.bounty || !body.posterAddress) {
-      res.status(400).json({ error: 'Missing required fields: title, description, bounty, posterAddress' });
+    if (!body.title || !body.description || !body.bounty) {
+      res.status(400).json({ error: 'Missing required fields: title, description, bounty' });
       return;
     }
 
+    const posterAddress = resolvePoster(req, res);
+    if (!posterAddress) return;
+
     const title = String(body.title).trim();
     if (title.length === 0 || title.length > 200) {
       res.status(400).json({ error: 'Title must be between 1 and 200 characters' });
@@ -61,63 +239,327 @@ router.post('/', async (req, res) => {
 
     const network = (body.network === 'mainnet' ? 'mainnet' : 'testnet') as NetworkType;
 
+    let deadline: string | undefined;
+    if (body.deadline !== undefined && body.deadline !== null && body.deadline !== '') {
+      const deadlineMs = Date.parse(String(body.deadline));
+      if (isNaN(deadlineMs) || deadlineMs <= Date.now()) {
+        res.status(400).json({ error: 'Deadline must be an ISO timestamp in the future' });
+        return;
+      }
+      deadline = new Date(deadlineMs).toISOString();
+    }
+
+    if (body.visibility !== undefined && !VISIBILITIES.includes(body.visibility)) {
+      res.status(400).json({ error: `visibility must be one of: ${VISIBILITIES.join(', ')}` });
+      return;
+    }
+
+    const auctionMode = body.auctionMode ?? 'open';
+    if (!AUCTION_MODES.includes(auctionMode)) {
+      res.status(400).json({ error: `auctionMode must be one of: ${AUCTION_MODES.join(', ')}` });
+      return;
+    }
+
+    // Sealed bids are revealed, and reverse auctions awarded, when bidding closes
+    let biddingClosesAt: string | undefined;
+    if (auctionMode !== 'open') {
+      const closesMs = Date.parse(String(body.biddingClosesAt ?? ''));
+      if (isNaN(closesMs) || closesMs <= Date.now()) {
+        res.status(400).json({ error: `A ${auctionMode} task needs biddingClosesAt, an ISO timestamp in the future` });
+        return;
+      }
+      if (deadline && closesMs >= Date.parse(deadline)) {
+        res.status(400).json({ error: 'biddingClosesAt must be before the deadline' });
+        return;
+      }
+      biddingClosesAt = new Date(closesMs).toISOString();
+    } else if (body.biddingClosesAt !== undefined) {
+      res.status(400).json({ error: 'biddingClosesAt applies only to sealed and reverse-auction tasks' });
+      return;
+    }
+
+    let minAgentRating: number | undefined;
+    if (body.minAgentRating !== undefined) {
+      minAgentRating = Number(body.minAgentRating);
+      if (auctionMode !== 'reverse-auction') {
+        res.status(400).json({ error: 'minAgentRating applies only to reverse-auction tasks' });
+        return;
+      }
+      if (isNaN(minAgentRating) || minAgentRating < 0 || minAgentRating > 5) {
+        res.status(400).json({ error: 'minAgentRating must be between 0 and 5' });
+        return;
+      }
+    }
+
+    if (body.resultSchema !== undefined) {
+      const problem = checkSchema(body.resultSchema);
+      if (problem) {
+        res.status(400).json({ error: `Invalid resultSchema: ${problem}` });
+        return;
+      }
+      if (JSON.stringify(body.resultSchema).length > MAX_RESULT_SCHEMA_LENGTH) {
+        res.status(400).json({ error: `resultSchema must be at most ${MAX_RESULT_SCHEMA_LENGTH} characters of JSON` });
+        return;
+      }
+    }
+
+    let milestones: MilestoneInput[] | undefined;
+    if (body.milestones !== undefined) {
+      const parsed = parseMilestones(body.milestones, bounty);
+      if ('error' in parsed) {
+        res.status(400).json(parsed);
+        return;
+      }
+      milestones = parsed;
+    }
+
+    // Milestones carry their own acceptance criteria, reviewed by the poster
+    if (body.acceptanceCriteria !== undefined) {
+      const problem = checkCriteria(body.acceptanceCriteria);
+      if (problem) {
+        res.status(400).json({ error: `Invalid acceptanceCriteria: ${problem}` });
+        return;
+      }
+      if (milestones) {
+        res.status(400).json({ error: 'acceptanceCriteria apply to tasks paid in one go, not milestone tasks' });
+        return;
+      }
+    }
+    if (body.autoApproveOnPass !== undefined) {
+      if (typeof body.autoApproveOnPass !== 'boolean') {
+        res.status(400).json({ error: 'autoApproveOnPass must be true or false' });
+        return;
+      }
+      if (body.autoApproveOnPass && body.acceptanceCriteria === undefined) {
+        res.status(400).json({ error: 'autoApproveOnPass needs acceptanceCriteria' });
+        return;
+      }
+    }
+
+    let reviewWindowSeconds: number | undefined;
+    if (body.reviewWindowSeconds !== undefined) {
+      reviewWindowSeconds = Number(body.reviewWindowSeconds);
+      if (!Number.isInteger(reviewWindowSeconds) || reviewWindowSeconds < MIN_REVIEW_WINDOW_SECONDS || reviewWindowSeconds > MAX_REVIEW_WINDOW_SECONDS) {
+        res.status(400).json({ error: `reviewWindowSeconds must be a whole number of seconds from ${MIN_REVIEW_WINDOW_SECONDS} to ${MAX_REVIEW_WINDOW_SECONDS}` });
+        return;
+      }
+    }
+
+    let maxRevisions: number | undefined;
+    if (body.maxRevisions !== undefined) {
+      maxRevisions = Number(body.maxRevisions);
+      if (!Number.isInteger(maxRevisions) || maxRevisions < 0 || maxRevisions > MAX_REVISIONS) {
+        res.status(400).json({ error: `maxRevisions must be a whole number from 0 to ${MAX_REVISIONS}` });
+        return;
+      }
+    }
+    if (body.revisionEscalation !== undefined && !REVISION_ESCALATIONS.includes(body.revisionEscalation)) {
+      res.status(400).json({ error: `revisionEscalation must be one of: ${REVISION_ESCALATIONS.join(', ')}` });
+      return;
+    }
+
     const task = await createTask({
       title,
       description,
       category,
       bounty: body.bounty,
-      posterAddress: body.posterAddress,
+      posterAddress,
       network,
+      deadline,
+      milestones,
+      visibility: body.visibility,
+      auctionMode,
+      biddingClosesAt,
+      minAgentRating,
+      resultSchema: body.resultSchema,
+      acceptanceCriteria: body.acceptanceCriteria,
+      autoApproveOnPass: body.autoApproveOnPass,
+      reviewWindowSeconds,
+      maxRevisions,
+      revisionEscalation: body.revisionEscalation,
     });
 
-    res.status(201).json(task);
+    if ('error' in task) {
+      res.status(503).json(task);
+      return;
+    }
+
+    // The task opens once its bounty is escrowed: pay this requirement via POST /tasks/:id/fund
+    const paymentRequirement = fundingRequirementFor(task)!;
+    res.status(201)
+      .set('X-Payment-Required', encodePayment(paymentRequirement))
+      .json({ ...task, paymentRequirement });
   } catch (error) {
     res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to create task' });
   }
 });
 
-// GET /tasks - List tasks with optional filters
+// GET /tasks?q=&sort=bounty&cursor= - List tasks a page at a time, with filters, search and sorting
 router.get('/', async (req, res) => {
-  const status = req.query.status as TaskStatus | undefined;
+  const status = (req.query.status as string | undefined)?.split(',').map((s) => s.trim()).filter(Boolean) as TaskStatus[] | undefined;
   const category = req.query.category as TaskCategory | undefined;
   const poster = req.query.poster as string | undefined;
+  const agent = req.query.agent as string | undefined;
   const network = req.query.network as NetworkType | undefined;
+  const q = (req.query.q as string | undefined)?.trim() || undefined;
+  const cursor = (req.query.cursor as string | undefined) || undefined;
 
-  const tasks = await listTasks({ status, category, poster, network });
+  const sort = req.query.sort as TaskSort | undefined;
+  if (sort !== undefined && !TASK_SORTS.includes(sort)) {
+    res.status(400).json({ error: `sort must be one of: ${TASK_SORTS.join(', ')}` });
+    return;
+  }
+  const order = req.query.order as 'asc' | 'desc' | undefined;
+  if (order !== undefined && order !== 'asc' && order !== 'desc') {
+    res.status(400).json({ error: 'order must be asc or desc' });
+    return;
+  }
+  const limit = Math.min(parseInt(req.query.limit as string, 10) || DEFAULT_TASK_PAGE_SIZE, MAX_TASK_PAGE_SIZE);
+  if (limit < 1) {
+    res.status(400).json({ error: 'limit must be a positive number' });
+    return;
+  }
+  const minBounty = req.query.minBounty as string | undefined;
+  const maxBounty = req.query.maxBounty as string | undefined;
+  for (const [name, value] of [['minBounty', minBounty], ['maxBounty', maxBounty]]) {
+    if (value !== undefined && !(parseFloat(value) >= 0)) {
+      res.status(400).json({ error: `${name} must be an amount in STX` });
+      return;
+    }
+  }
 
-  // Enrich tasks with bid counts
-  const enriched = await Promise.all(
-    tasks.map(async t => ({
-      ...t,
-      bidCount: await getBidCount(t.id),
-    }))
-  );
+  // Signed requests also see the invite-only tasks the wallet posted or was invited to
+  const viewer = getWalletAddress(req);
+  const page = await listTasks({ status, category, poster, agent, network, q, minBounty, maxBounty, sort, order, limit, cursor, viewer });
+  if ('error' in page) {
+    res.status(errorStatus(page)).json(page);
+    return;
+  }
+  res.json({ tasks: page.tasks, count: page.tasks.length, nextCursor: page.nextCursor });
+});
 
-  res.json({ tasks: enriched, count: enriched.length });
+// GET /tasks/:id/* - Every view of an invite-only task (history, bids, messages, artifacts, ...)
+// stays hidden from wallets that are not its poster, agent or invitees, like the task itself
+router.get('/:id/*', async (req, res, next) => {
+  try {
+    const task = await getTask(req.params.id);
+    if (task && !(await canViewTask(task, getWalletAddress(req)))) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+    next();
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to load task' });
+  }
 });
 
 // GET /tasks/:id - Get task detail
 router.get('/:id', async (req, res) => {
+  let task = await getTask(req.params.id);
+  // Invite-only tasks stay hidden from wallets that are not the poster or invited
+  if (!task || !(await canViewTask(task, getWalletAddress(req)))) {
+    res.status(404).json({ error: 'Task not found' });
+    return;
+  }
+  // Serverless deployments have no background confirmer, so check pending payments on read
+  if (task.status === 'payment-pending') task = await confirmPayment(task);
+  if (task.status === 'pending-funding' && task.fundingTxId) task = await confirmFunding(task);
+
+  let milestones;
+  if (task.milestoneCount > 0) {
+    milestones = await listMilestones(task.id);
+    if (milestones.some((m) => m.status === 'payment-pending')) {
+      for (const [i, milestone] of milestones.entries()) {
+        milestones[i] = await confirmMilestonePayment(task, milestone);
+      }
+      // Paying the last milestone completes the task
+      task = (await getTask(task.id)) ?? task;
+    }
+  }
+  res.json({ ...task, milestones, bidCount: await getBidCount(task.id), paymentRequirement: fundingRequirementFor(task) });
+});
+
+// GET /tasks/:id/history - Status changes: who moved the task, when and why
+router.get('/:id/history', async (req, res) => {
   const task = await getTask(req.params.id);
   if (!task) {
     res.status(404).json({ error: 'Task not found' });
     return;
   }
-  res.json({ ...task, bidCount: await getBidCount(task.id) });
-});
 
-// POST /tasks/:id/accept - Agent accepts a task (direct, no bid)
-router.post('/:id/accept', async (req, res) => {
-  const { agentId } = req.body as { agentId: string };
+  const history = await getTaskHistory(task.id);
+  res.json({ history, count: history.length });
+});
 
-  if (!agentId) {
-    res.status(400).json({ error: 'Missing agentId' });
+// GET /tasks/:id/recommended-agents?limit=10 - Agents ranked by category track record, rating and recent activity
+router.get('/:id/recommended-agents', async (req, res) => {
+  const task = await getTask(req.params.id);
+  if (!task) {
+    res.status(404).json({ error: 'Task not found' });
     return;
   }
 
+  const limit = Math.min(parseInt(req.query.limit as string, 10) || DEFAULT_RECOMMENDATIONS, MAX_RECOMMENDATIONS);
+  const recommendations = await recommendAgents(task, { limit: Math.max(limit, 1) });
+  res.json({ recommendations, count: recommendations.length });
+});
+
+// POST /tasks/:id/fund - Fund the bounty escrow with an x402 payment (X-Payment header)
+router.post('/:id/fund', async (req, res) => {
+  try {
+    const task = await getTask(req.params.id);
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const requirement = fundingRequirementFor(task);
+    if (!requirement) {
+      res.status(400).json({ error: task.fundingTxId
+        ? `Funding payment ${task.fundingTxId} is awaiting confirmation`
+        : `Task is ${task.status}, not pending-funding` });
+      return;
+    }
+
+    const paymentHeader = req.headers['x-payment'] as string | undefined;
+    if (!paymentHeader) {
+      res.status(402)
+        .set('X-Payment-Required', encodePayment(requirement))
+        .json({ error: 'Payment Required', paymentRequirement: requirement });
+      return;
+    }
+
+    let payload: StacksPaymentPayload;
+    try {
+      payload = decodePaymentPayload(paymentHeader);
+    } catch {
+      res.status(400).json({ error: 'Invalid payment header format' });
+      return;
+    }
+
+    const result = await fundTask(task.id, payload);
+    if ('error' in result) {
+      if (result.code === 'payment_failed') res.set('X-Payment-Required', encodePayment(requirement));
+      res.status(errorStatus(result)).json(result);
+      return;
+    }
+
+    // The task opens once the payment confirmer sees the transfer on-chain
+    res.set('X-Payment-Response', JSON.stringify({ txId: result.fundingTxId, settled: true }));
+    res.status(202).json(result);
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to fund task' });
+  }
+});
+
+// POST /tasks/:id/accept - Agent accepts a task (direct, no bid)
+router.post('/:id/accept', requireWallet, async (req, res) => {
+  const agentId = await resolveAgent(req, res);
+  if (!agentId) return;
+
   const result = await acceptTask(req.params.id, agentId);
   if ('error' in result) {
-    res.status(400).json(result);
+    res.status(errorStatus(result)).json(result);
     return;
   }
 
@@ -125,17 +567,13 @@ router.post('/:id/accept', async (req, res) => {
 });
 
 // POST /tasks/:id/start - Agent marks task as in-progress
-router.post('/:id/start', async (req, res) => {
-  const { agentId } = req.body as { agentId: string };
-
-  if (!agentId) {
-    res.status(400).json({ error: 'Missing agentId' });
-    return;
-  }
+router.post('/:id/start', requireWallet, async (req, res) => {
+  const agentId = await resolveAgent(req, res);
+  if (!agentId) return;
 
   const result = await startTask(req.params.id, agentId);
   if ('error' in result) {
-    res.status(400).json(result);
+    res.status(errorStatus(result)).json(result);
     return;
   }
 
@@ -143,17 +581,13 @@ router.post('/:id/start', async (req, res) => {
 });
 
 // POST /tasks/:id/cancel - Poster cancels open task
-router.post('/:id/cancel', async (req, res) => {
-  const { posterAddress } = req.body as { posterAddress: string };
-
-  if (!posterAddress) {
-    res.status(400).json({ error: 'Missing posterAddress' });
-    return;
-  }
+router.post('/:id/cancel', requireWallet, async (req, res) => {
+  const posterAddress = resolvePoster(req, res);
+  if (!posterAddress) return;
 
   const result = await cancelTask(req.params.id, posterAddress);
   if ('error' in result) {
-    res.status(400).json(result);
+    res.status(errorStatus(result)).json(result);
     return;
   }
 
@@ -161,65 +595,270 @@ router.post('/:id/cancel', async (req, res) => {
 });
 
 // POST /tasks/:id/submit - Agent submits result
-router.post('/:id/submit', async (req, res) => {
-  const { agentId, result } = req.body as SubmitResultRequest;
+router.post('/:id/submit', requireWallet, async (req, res) => {
+  const { result, artifacts } = req.body as SubmitResultRequest;
 
-  if (!agentId || !result) {
-    res.status(400).json({ error: 'Missing agentId or result' });
+  if (artifacts !== undefined && !Array.isArray(artifacts)) {
+    res.status(400).json({ error: 'artifacts must be an array' });
+    return;
+  }
+  if (!result && !artifacts?.length) {
+    res.status(400).json({ error: 'Missing result or artifacts' });
     return;
   }
 
-  const task = await submitResult(req.params.id, agentId, result);
-  if ('error' in task) {
-    res.status(400).json(task);
+  const agentId = await resolveAgent(req, res);
+  if (!agentId) return;
+
+  const submitted = await submitResult(req.params.id, agentId, result ? String(result) : '', artifacts);
+  if ('error' in submitted) {
+    res.status(errorStatus(submitted)).json(submitted);
     return;
   }
 
-  res.json(task);
+  res.json({ ...submitted.task, artifacts: submitted.artifacts });
 });
 
-// POST /tasks/:id/reject - Poster rejects submission
-router.post('/:id/reject', async (req, res) => {
-  const { posterAddress, reason } = req.body as { posterAddress: string; reason: string };
+// GET /tasks/:id/artifacts?version=N - Submitted artifacts, every version or one
+router.get('/:id/artifacts', async (req, res) => {
+  const version = req.query.version === undefined ? undefined : parseInt(req.query.version as string, 10);
+  if (version !== undefined && (isNaN(version) || version < 1)) {
+    res.status(400).json({ error: 'version must be a positive number' });
+    return;
+  }
+
+  const task = await getTask(req.params.id);
+  if (!task) {
+    res.status(404).json({ error: 'Task not found' });
+    return;
+  }
+
+  const artifacts = await listArtifacts(task.id, version);
+  res.json({ artifacts, count: artifacts.length });
+});
+
+// GET /tasks/:id/artifacts/diff?from=1&to=2 - Compare two submissions' artifacts
+router.get('/:id/artifacts/diff', async (req, res) => {
+  const from = parseInt(req.query.from as string, 10);
+  const to = parseInt(req.query.to as string, 10);
+  if (isNaN(from) || isNaN(to) || from < 1 || to < 1) {
+    res.status(400).json({ error: 'from and to must be submission versions (1, 2, ...)' });
+    return;
+  }
+
+  const task = await getTask(req.params.id);
+  if (!task) {
+    res.status(404).json({ error: 'Task not found' });
+    return;
+  }
+
+  res.json(await diffArtifactVersions(task.id, from, to));
+});
+
+// GET /tasks/:id/artifacts/:artifactId - Artifact metadata
+router.get('/:id/artifacts/:artifactId', async (req, res) => {
+  const artifact = await getArtifact(req.params.id, req.params.artifactId);
+  if (!artifact) {
+    res.status(404).json({ error: 'Artifact not found' });
+    return;
+  }
+  res.json(artifact);
+});
+
+// GET /tasks/:id/artifacts/:artifactId/download - Artifact content (files and JSON)
+router.get('/:id/artifacts/:artifactId/download', async (req, res) => {
+  const artifact = await getArtifact(req.params.id, req.params.artifactId);
+  if (!artifact) {
+    res.status(404).json({ error: 'Artifact not found' });
+    return;
+  }
 
-  if (!posterAddress) {
-    res.status(400).json({ error: 'Missing posterAddress' });
+  const content = await readArtifactContent(artifact);
+  if ('error' in content) {
+    res.status(artifact.kind === 'link' ? 400 : 500).json(content);
     return;
   }
 
+  // Always a download, never rendered on our origin
+  res.set({
+    'Content-Type': artifact.contentType ?? 'application/octet-stream',
+    'Content-Disposition': `attachment; filename="${artifact.name.replace(/[^\w.-]/g, '_')}"`,
+    'X-Content-Type-Options': 'nosniff',
+    'ETag': `"${artifact.sha256}"`,
+  });
+  res.send(content);
+});
+
+// POST /tasks/:id/reject - Poster rejects submission
+router.post('/:id/reject', requireWallet, async (req, res) => {
+  const { reason } = req.body as { reason?: string };
+
+  const posterAddress = resolvePoster(req, res);
+  if (!posterAddress) return;
+
   const result = await rejectResult(req.params.id, posterAddress, reason || 'No reason given');
   if ('error' in result) {
-    res.status(400).json(result);
+    res.status(errorStatus(result)).json(result);
     return;
   }
 
   res.json(result);
 });
 
-// POST /tasks/:id/approve - Approve submitted result (triggers payment)
-router.post('/:id/approve', async (req, res) => {
-  const { posterAddress, txId } = req.body as { posterAddress?: string; txId?: string };
+// POST /tasks/:id/request-revision - Poster asks for itemized changes; the agent resubmits a new version
+router.post('/:id/request-revision', requireWallet, async (req, res) => {
+  const body = req.body as Partial<RequestRevisionRequest>;
 
-  // Look up the task to verify poster ownership
-  const existing = await getTask(req.params.id);
-  if (!existing) {
+  const changeRequests = body.changeRequests;
+  if (!Array.isArray(changeRequests) || changeRequests.length === 0 || changeRequests.length > MAX_CHANGE_REQUESTS) {
+    res.status(400).json({ error: `changeRequests must be a list of 1 to ${MAX_CHANGE_REQUESTS} changes` });
+    return;
+  }
+  for (const change of changeRequests) {
+    const description = typeof change?.description === 'string' ? change.description.trim() : '';
+    if (description.length === 0 || description.length > 1000) {
+      res.status(400).json({ error: 'Each change request needs a description of at most 1000 characters' });
+      return;
+    }
+    if (change.target !== undefined && (typeof change.target !== 'string' || change.target.length > 200)) {
+      res.status(400).json({ error: 'A change request target must be at most 200 characters' });
+      return;
+    }
+  }
+  const note = body.note === undefined ? undefined : String(body.note).trim();
+  if (note !== undefined && note.length > 2000) {
+    res.status(400).json({ error: 'note must be at most 2000 characters' });
+    return;
+  }
+
+  const posterAddress = resolvePoster(req, res);
+  if (!posterAddress) return;
+
+  const result = await requestRevision(req.params.id, posterAddress, {
+    changeRequests: changeRequests.map((change) => ({
+      description: change.description.trim(),
+      target: change.target?.trim() || undefined,
+    })),
+    note: note || undefined,
+  });
+  if ('error' in result) {
+    res.status(errorStatus(result)).json(result);
+    return;
+  }
+
+  res.json(result);
+});
+
+// GET /tasks/:id/submissions - Every version of the result with the poster's feedback, oldest first
+router.get('/:id/submissions', async (req, res) => {
+  const task = await getTask(req.params.id);
+  if (!task) {
     res.status(404).json({ error: 'Task not found' });
     return;
   }
 
-  if (!posterAddress) {
-    res.status(403).json({ error: 'Missing posterAddress' });
+  const submissions = await listSubmissions(task.id);
+  res.json({ submissions, count: submissions.length });
+});
+
+// POST /tasks/:id/dispute - Assigned agent (or poster, after repeated rejections) takes a rejection to arbitration
+router.post('/:id/dispute', requireWallet, async (req, res) => {
+  try {
+    const body = req.body as Partial<OpenDisputeRequest>;
+
+    const reason = String(body.reason ?? '').trim();
+    if (reason.length === 0 || reason.length > 2000) {
+      res.status(400).json({ error: 'Reason must be between 1 and 2000 characters' });
+      return;
+    }
+
+    const evidence = body.evidence ?? [];
+    if (!Array.isArray(evidence) || evidence.length > MAX_EVIDENCE_ITEMS
+      || evidence.some((item) => typeof item !== 'string' || item.trim().length === 0 || item.length > 2000)) {
+      res.status(400).json({ error: `Evidence must be a list of up to ${MAX_EVIDENCE_ITEMS} links or notes of at most 2000 characters` });
+      return;
+    }
+
+    const result = await openDispute(req.params.id, getWalletAddress(req)!, {
+      reason,
+      evidence: evidence.map((item) => item.trim()),
+    });
+    if ('error' in result) {
+      res.status(errorStatus(result)).json(result);
+      return;
+    }
+
+    res.status(201).json(result);
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to open dispute' });
+  }
+});
+
+// GET /tasks/:id/dispute - Latest dispute on a task, with its frozen thread
+router.get('/:id/dispute', async (req, res) => {
+  const dispute = await getDispute(req.params.id);
+  if (!dispute) {
+    res.status(404).json({ error: 'Task has no dispute' });
     return;
   }
 
-  if (existing.posterAddress !== posterAddress) {
-    res.status(403).json({ error: 'Only the task poster can approve' });
+  res.json(dispute);
+});
+
+// POST /tasks/:id/dispute/resolve - Arbiter rules: full payout, partial payout, or refund
+router.post('/:id/dispute/resolve', requireWallet, async (req, res) => {
+  try {
+    const body = req.body as Partial<ResolveDisputeRequest>;
+
+    if (!body.outcome || !DISPUTE_OUTCOMES.includes(body.outcome)) {
+      res.status(400).json({ error: `outcome must be one of: ${DISPUTE_OUTCOMES.join(', ')}` });
+      return;
+    }
+
+    const agentPercent = body.outcome === 'partial' ? Number(body.agentPercent) : undefined;
+    if (agentPercent !== undefined && (!Number.isInteger(agentPercent) || agentPercent < 1 || agentPercent > 99)) {
+      res.status(400).json({ error: 'agentPercent must be a whole number from 1 to 99 for a partial payout' });
+      return;
+    }
+
+    const note = body.note === undefined ? undefined : String(body.note).trim();
+    if (note !== undefined && note.length > 2000) {
+      res.status(400).json({ error: 'Note must be at most 2000 characters' });
+      return;
+    }
+
+    const task = await resolveDispute(req.params.id, getWalletAddress(req)!, {
+      outcome: body.outcome,
+      agentPercent,
+      note: note || undefined,
+    });
+    if ('error' in task) {
+      res.status(errorStatus(task)).json(task);
+      return;
+    }
+
+    res.json(task);
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to resolve dispute' });
+  }
+});
+
+// POST /tasks/:id/approve - Approve submitted result (triggers payment; task is payment-pending until confirmed)
+router.post('/:id/approve', requireWallet, async (req, res) => {
+  const { txId } = req.body as { txId?: string };
+
+  const existing = await getTask(req.params.id);
+  if (!existing) {
+    res.status(404).json({ error: 'Task not found' });
     return;
   }
 
-  const task = await approveTask(req.params.id, txId);
+  const posterAddress = resolvePoster(req, res);
+  if (!posterAddress) return;
+
+  const task = await approveTask(req.params.id, posterAddress, txId);
   if ('error' in task) {
-    res.status(400).json(task);
+    res.status(errorStatus(task)).json(task);
     return;
   }
 
@@ -227,27 +866,219 @@ router.post('/:id/approve', async (req, res) => {
 });
 
 // POST /tasks/:id/close - Poster closes completed task
-router.post('/:id/close', async (req, res) => {
-  const { posterAddress } = req.body as { posterAddress: string };
+router.post('/:id/close', requireWallet, async (req, res) => {
+  const posterAddress = resolvePoster(req, res);
+  if (!posterAddress) return;
 
-  if (!posterAddress) {
-    res.status(400).json({ error: 'Missing posterAddress' });
+  const result = await closeTask(req.params.id, posterAddress);
+  if ('error' in result) {
+    res.status(errorStatus(result)).json(result);
     return;
   }
 
-  const result = await closeTask(req.params.id, posterAddress);
+  res.json(result);
+});
+
+// ─── Invitation Routes ──────────────────────────────────────────
+
+// POST /tasks/:id/invitations - Poster invites agents (optionally making the task invite-only)
+router.post('/:id/invitations', requireWallet, async (req, res) => {
+  const body = req.body as InviteAgentsRequest;
+
+  if (!Array.isArray(body.agentIds) || body.agentIds.length === 0 || body.agentIds.some((id) => typeof id !== 'string')) {
+    res.status(400).json({ error: 'agentIds must be a non-empty array of agent IDs' });
+    return;
+  }
+  if (body.agentIds.length > MAX_INVITATIONS) {
+    res.status(400).json({ error: `At most ${MAX_INVITATIONS} agents can be invited at once` });
+    return;
+  }
+  if (body.visibility !== undefined && !VISIBILITIES.includes(body.visibility)) {
+    res.status(400).json({ error: `visibility must be one of: ${VISIBILITIES.join(', ')}` });
+    return;
+  }
+  const message = body.message === undefined ? undefined : String(body.message).trim();
+  if (message && message.length > 1000) {
+    res.status(400).json({ error: 'Message must be at most 1000 characters' });
+    return;
+  }
+
+  const result = await inviteAgents(req.params.id, getWalletAddress(req)!, { agentIds: body.agentIds, message: message || undefined, visibility: body.visibility });
+  if ('error' in result) {
+    res.status(errorStatus(result)).json(result);
+    return;
+  }
+
+  res.status(201).json(result);
+});
+
+// GET /tasks/:id/invitations - List a task's invitations
+router.get('/:id/invitations', async (req, res) => {
+  const task = await getTask(req.params.id);
+  if (!task) {
+    res.status(404).json({ error: 'Task not found' });
+    return;
+  }
+
+  const invitations = await listInvitations(task.id);
+  res.json({ invitations, count: invitations.length });
+});
+
+// POST /tasks/:id/invitations/:invitationId/accept - Invited agent takes the task
+router.post('/:id/invitations/:invitationId/accept', requireWallet, async (req, res) => {
+  const agentId = await resolveAgent(req, res);
+  if (!agentId) return;
+
+  const result = await acceptInvitation(req.params.id, req.params.invitationId, agentId);
   if ('error' in result) {
-    res.status(400).json(result);
+    res.status(errorStatus(result)).json(result);
     return;
   }
 
   res.json(result);
 });
 
+// POST /tasks/:id/invitations/:invitationId/decline - Invited agent turns the task down
+router.post('/:id/invitations/:invitationId/decline', requireWallet, async (req, res) => {
+  const agentId = await resolveAgent(req, res);
+  if (!agentId) return;
+
+  const { reason } = req.body as { reason?: string };
+  const result = await declineInvitation(req.params.id, req.params.invitationId, agentId, reason ? String(reason).slice(0, 1000) : undefined);
+  if ('error' in result) {
+    res.status(errorStatus(result)).json(result);
+    return;
+  }
+
+  res.json(result);
+});
+
+// ─── Milestone Routes ──────────────────────────────────────────
+
+// GET /tasks/:id/milestones - List a task's milestones in order
+router.get('/:id/milestones', async (req, res) => {
+  const task = await getTask(req.params.id);
+  if (!task) {
+    res.status(404).json({ error: 'Task not found' });
+    return;
+  }
+
+  const milestones = await listMilestones(task.id);
+  res.json({ milestones, count: milestones.length });
+});
+
+// POST /tasks/:id/milestones/:milestoneId/submit - Agent submits the result for a milestone
+router.post('/:id/milestones/:milestoneId/submit', requireWallet, async (req, res) => {
+  const { result } = req.body as SubmitResultRequest;
+
+  if (!result) {
+    res.status(400).json({ error: 'Missing result' });
+    return;
+  }
+
+  const agentId = await resolveAgent(req, res);
+  if (!agentId) return;
+
+  const milestone = await submitMilestone(req.params.id, req.params.milestoneId, agentId, result);
+  if ('error' in milestone) {
+    res.status(errorStatus(milestone)).json(milestone);
+    return;
+  }
+
+  res.json(milestone);
+});
+
+// POST /tasks/:id/milestones/:milestoneId/reject - Poster sends a milestone back for rework
+router.post('/:id/milestones/:milestoneId/reject', requireWallet, async (req, res) => {
+  const { reason } = req.body as { reason?: string };
+
+  const posterAddress = resolvePoster(req, res);
+  if (!posterAddress) return;
+
+  const milestone = await rejectMilestone(req.params.id, req.params.milestoneId, posterAddress, reason || 'No reason given');
+  if ('error' in milestone) {
+    res.status(errorStatus(milestone)).json(milestone);
+    return;
+  }
+
+  res.json(milestone);
+});
+
+// POST /tasks/:id/milestones/:milestoneId/approve - Poster approves a milestone (releases its share; payment-pending until confirmed)
+router.post('/:id/milestones/:milestoneId/approve', requireWallet, async (req, res) => {
+  const posterAddress = resolvePoster(req, res);
+  if (!posterAddress) return;
+
+  const milestone = await approveMilestone(req.params.id, req.params.milestoneId, posterAddress);
+  if ('error' in milestone) {
+    res.status(errorStatus(milestone)).json(milestone);
+    return;
+  }
+
+  res.json(milestone);
+});
+
+// ─── Team Routes ──────────────────────────────────────────
+
+// POST /tasks/:id/team - Poster assigns the task to a team of agents with payout shares
+router.post('/:id/team', requireWallet, async (req, res) => {
+  const body = req.body as AssignTeamRequest;
+
+  const members = parseTeam(body.members);
+  if ('error' in members) {
+    res.status(400).json(members);
+    return;
+  }
+
+  const posterAddress = resolvePoster(req, res);
+  if (!posterAddress) return;
+
+  const task = await assignTeam(req.params.id, posterAddress, members);
+  if ('error' in task) {
+    res.status(errorStatus(task)).json(task);
+    return;
+  }
+
+  res.json({ ...task, team: await listTeamMembers(task.id) });
+});
+
+// GET /tasks/:id/team - A team task's members, shares and portions, lead first
+router.get('/:id/team', async (req, res) => {
+  const task = await getTask(req.params.id);
+  if (!task) {
+    res.status(404).json({ error: 'Task not found' });
+    return;
+  }
+
+  const members = await listTeamMembers(task.id);
+  res.json({ members, count: members.length });
+});
+
+// POST /tasks/:id/team/portion - Team member submits its portion; the last one submits the task
+router.post('/:id/team/portion', requireWallet, async (req, res) => {
+  const { result } = req.body as SubmitResultRequest;
+
+  if (!result) {
+    res.status(400).json({ error: 'Missing result' });
+    return;
+  }
+
+  const agentId = await resolveAgent(req, res);
+  if (!agentId) return;
+
+  const submitted = await submitPortion(req.params.id, agentId, String(result));
+  if ('error' in submitted) {
+    res.status(errorStatus(submitted)).json(submitted);
+    return;
+  }
+
+  res.json({ ...submitted.task, member: submitted.member });
+});
+
 // ─── Bidding Routes ──────────────────────────────────────────
 
 // POST /tasks/:id/bid - Agent places a bid
-router.post('/:id/bid', async (req, res) => {
+router.post('/:id/bid', requireWallet, async (req, res) => {
   const body = req.body as PlaceBidRequest;
 
   if (!body.agentId || !body.amount || !body.message) {
@@ -267,15 +1098,25 @@ router.post('/:id/bid', async (req, res) => {
     return;
   }
 
+  const etaSeconds = body.etaSeconds === undefined ? undefined : Number(body.etaSeconds);
+  if (etaSeconds !== undefined && (!Number.isInteger(etaSeconds) || etaSeconds <= 0 || etaSeconds > MAX_ETA_SECONDS)) {
+    res.status(400).json({ error: `etaSeconds must be a whole number of seconds up to ${MAX_ETA_SECONDS}` });
+    return;
+  }
+
+  const agentId = await resolveAgent(req, res);
+  if (!agentId) return;
+
   const result = await placeBid(req.params.id, {
-    agentId: body.agentId,
+    agentId,
     amount: body.amount,
     message,
     estimatedTime: body.estimatedTime || 'Not specified',
+    etaSeconds,
   });
 
   if ('error' in result) {
-    res.status(400).json(result);
+    res.status(errorStatus(result)).json(result);
     return;
   }
 
@@ -284,22 +1125,100 @@ router.post('/:id/bid', async (req, res) => {
 
 // GET /tasks/:id/bids - List bids for a task
 router.get('/:id/bids', async (req, res) => {
-  const taskBids = await listBids(req.params.id);
+  const taskBids = await listBids(req.params.id, getWalletAddress(req));
   res.json({ bids: taskBids, count: taskBids.length });
 });
 
 // POST /tasks/:id/bids/:bidId/accept - Poster accepts a bid
-router.post('/:id/bids/:bidId/accept', async (req, res) => {
-  const { posterAddress } = req.body as { posterAddress: string };
+router.post('/:id/bids/:bidId/accept', requireWallet, async (req, res) => {
+  const posterAddress = resolvePoster(req, res);
+  if (!posterAddress) return;
 
-  if (!posterAddress) {
-    res.status(400).json({ error: 'Missing posterAddress' });
+  const result = await acceptBid(req.params.id, req.params.bidId, posterAddress);
+  if ('error' in result) {
+    res.status(errorStatus(result)).json(result);
     return;
   }
 
-  const result = await acceptBid(req.params.id, req.params.bidId, posterAddress);
+  res.json(result);
+});
+
+// PUT /tasks/:id/bids/:bidId - Agent revises its active bid
+router.put('/:id/bids/:bidId', requireWallet, async (req, res) => {
+  const body = req.body as Partial<ReviseBidRequest>;
+
+  if (body.amount === undefined && body.message === undefined && body.estimatedTime === undefined && body.etaSeconds === undefined) {
+    res.status(400).json({ error: 'Nothing to revise: provide amount, message, estimatedTime or etaSeconds' });
+    return;
+  }
+
+  if (body.amount !== undefined) {
+    const bidAmount = parseFloat(String(body.amount));
+    if (isNaN(bidAmount) || bidAmount <= 0 || bidAmount > 1000) {
+      res.status(400).json({ error: 'Bid amount must be between 0 and 1000 STX' });
+      return;
+    }
+  }
+
+  const message = body.message === undefined ? undefined : String(body.message).trim();
+  if (message !== undefined && (message.length === 0 || message.length > 2000)) {
+    res.status(400).json({ error: 'Message must be between 1 and 2000 characters' });
+    return;
+  }
+
+  const etaSeconds = body.etaSeconds === undefined ? undefined : Number(body.etaSeconds);
+  if (etaSeconds !== undefined && (!Number.isInteger(etaSeconds) || etaSeconds <= 0 || etaSeconds > MAX_ETA_SECONDS)) {
+    res.status(400).json({ error: `etaSeconds must be a whole number of seconds up to ${MAX_ETA_SECONDS}` });
+    return;
+  }
+
+  const agentId = await resolveAgent(req, res);
+  if (!agentId) return;
+
+  const result = await reviseBid(req.params.id, req.params.bidId, {
+    agentId,
+    amount: body.amount === undefined ? undefined : String(body.amount),
+    message,
+    estimatedTime: body.estimatedTime === undefined ? undefined : String(body.estimatedTime),
+    etaSeconds,
+  });
+  if ('error' in result) {
+    res.status(errorStatus(result)).json(result);
+    return;
+  }
+
+  res.json(result);
+});
+
+// POST /tasks/:id/bids/:bidId/withdraw - Agent withdraws its active bid
+router.post('/:id/bids/:bidId/withdraw', requireWallet, async (req, res) => {
+  const agentId = await resolveAgent(req, res);
+  if (!agentId) return;
+
+  const result = await withdrawBid(req.params.id, req.params.bidId, agentId);
+  if ('error' in result) {
+    res.status(errorStatus(result)).json(result);
+    return;
+  }
+
+  res.json(result);
+});
+
+// POST /tasks/:id/bids/:bidId/reject - Poster rejects a bid
+router.post('/:id/bids/:bidId/reject', requireWallet, async (req, res) => {
+  const posterAddress = resolvePoster(req, res);
+  if (!posterAddress) return;
+
+  const { reason } = req.body as { reason?: string };
+  const trimmedReason = reason === undefined ? undefined : String(reason).trim();
+  if (trimmedReason !== undefined && trimmedReason.length > 2000) {
+    res.status(400).json({ error: 'Reason must be at most 2000 characters' });
+    return;
+  }
+
+  const result = await rejectBid(req.params.id, req.params.bidId, posterAddress, trimmedReason || undefined);
   if ('error' in result) {
-    res.status(400).json(result);
+    res.status(errorStatus(result)).json(result);
     return;
   }
 
@@ -309,18 +1228,19 @@ router.post('/:id/bids/:bidId/accept', async (req, res) => {
 // ─── Message Routes ──────────────────────────────────────────
 
 // POST /tasks/:id/messages - Post a message in the task thread
-router.post('/:id/messages', async (req, res) => {
+router.post('/:id/messages', requireWallet, async (req, res) => {
   try {
-    const body = req.body as PostMessageRequest;
+    const body = req.body as Partial<PostMessageRequest>;
 
-    if (!body.senderAddress || !body.body) {
-      res.status(400).json({ error: 'Missing required fields: senderAddress, body' });
+    if (!body.body) {
+      res.status(400).json({ error: 'Missing required field: body' });
       return;
     }
 
-    const senderAddress = String(body.senderAddress).trim();
-    if (!senderAddress.startsWith('ST') && !senderAddress.startsWith('SP')) {
-      res.status(400).json({ error: 'senderAddress must be a valid STX address' });
+    // Sender is the authenticated wallet; a body senderAddress must agree
+    const senderAddress = getWalletAddress(req)!;
+    if (body.senderAddress && String(body.senderAddress).trim() !== senderAddress) {
+      res.status(403).json({ error: 'senderAddress does not match authenticated wallet', code: 'forbidden' });
       return;
     }
 
@@ -336,7 +1256,7 @@ router.post('/:id/messages', async (req, res) => {
     });
 
     if ('error' in result) {
-      res.status(400).json(result);
+      res.status(errorStatus(result)).json(result);
       return;
     }
 
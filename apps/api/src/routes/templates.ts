@@ -0,0 +1,287 @@
+// StacksTasker API - Task template routes
+
+import { Router } from 'express';
+import { encodePayment, decodePaymentPayload, type StacksPaymentPayload } from '@x402/stacks';
+import {
+  createTemplate,
+  listTemplates,
+  getTemplate,
+  updateTemplate,
+  deleteTemplate,
+  listTemplateRuns,
+  templateFundingRequirement,
+  fundTemplate,
+  MAX_PREPAID_RUNS,
+} from '../services/task-templates.js';
+import { parseCron } from '../services/cron.js';
+import { confirmTemplatePrepayment } from '../services/payment-confirmer.js';
+import { getWalletAddress, requireWallet } from '../middleware/auth.js';
+import type { ApiError, CreateTemplateRequest, NetworkType, TaskCategory, TaskVisibility, UpdateTemplateRequest } from '../types.js';
+
+const router = Router();
+
+const VALID_CATEGORIES: TaskCategory[] = ['web-scraping', 'data-pipeline', 'smart-contract', 'coding', 'api-integration', 'monitoring', 'testing', 'other'];
+const VISIBILITIES: TaskVisibility[] = ['public', 'invite-only'];
+/** Generated tasks may run for up to 30 days */
+const MAX_DEADLINE_SECONDS = 30 * 24 * 60 * 60;
+
+/** HTTP status for a failed template operation */
+function errorStatus(err: ApiError): number {
+  if (err.code === 'forbidden') return 403;
+  if (err.code === 'payment_failed') return 402;
+  if (err.error === 'Template not found') return 404;
+  return 400;
+}
+
+/**
+ * Validate the fields of a new or updated template
+ */
+function validateTemplateFields(fields: UpdateTemplateRequest): string | undefined {
+  if (fields.title !== undefined) {
+    const title = String(fields.title).trim();
+    if (title.length === 0 || title.length > 200) return 'Title must be between 1 and 200 characters';
+  }
+  if (fields.description !== undefined) {
+    const description = String(fields.description).trim();
+    if (description.length === 0 || description.length > 5000) return 'Description must be between 1 and 5000 characters';
+  }
+  if (fields.bounty !== undefined) {
+    const bounty = parseFloat(String(fields.bounty));
+    if (isNaN(bounty) || bounty <= 0 || bounty > 1000) return 'Bounty must be between 0 and 1000 STX';
+  }
+  if (fields.category !== undefined && !VALID_CATEGORIES.includes(fields.category)) {
+    return `Invalid category. Must be one of: ${VALID_CATEGORIES.join(', ')}`;
+  }
+  if (fields.visibility !== undefined && !VISIBILITIES.includes(fields.visibility)) {
+    return `visibility must be one of: ${VISIBILITIES.join(', ')}`;
+  }
+  if (fields.schedule !== undefined) {
+    const parsed = parseCron(String(fields.schedule));
+    if ('error' in parsed) return parsed.error;
+  }
+  if (fields.deadlineSeconds !== undefined && fields.deadlineSeconds !== null) {
+    const seconds = Number(fields.deadlineSeconds);
+    if (!Number.isInteger(seconds) || seconds <= 0 || seconds > MAX_DEADLINE_SECONDS) {
+      return `deadlineSeconds must be a whole number of seconds up to ${MAX_DEADLINE_SECONDS}`;
+    }
+  }
+  if (fields.minAgentRating !== undefined && fields.minAgentRating !== null) {
+    const rating = Number(fields.minAgentRating);
+    if (isNaN(rating) || rating < 0 || rating > 5) return 'minAgentRating must be between 0 and 5';
+  }
+  if (fields.preassignPreviousAgent !== undefined && typeof fields.preassignPreviousAgent !== 'boolean') {
+    return 'preassignPreviousAgent must be true or false';
+  }
+  if (fields.active !== undefined && typeof fields.active !== 'boolean') {
+    return 'active must be true or false';
+  }
+  return undefined;
+}
+
+// POST /templates - Create a recurring task template (signed by the poster)
+router.post('/', requireWallet, async (req, res) => {
+  try {
+    const body = req.body as CreateTemplateRequest;
+
+    if (!body.title || !body.description || !body.bounty || !body.schedule) {
+      res.status(400).json({ error: 'Missing required fields: title, description, bounty, schedule' });
+      return;
+    }
+
+    const posterAddress = getWalletAddress(req)!;
+    if (body.posterAddress && body.posterAddress !== posterAddress) {
+      res.status(403).json({ error: 'posterAddress does not match authenticated wallet', code: 'forbidden' });
+      return;
+    }
+
+    const invalid = validateTemplateFields(body);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    const result = await createTemplate({
+      title: String(body.title).trim(),
+      description: String(body.description).trim(),
+      category: body.category,
+      bounty: String(body.bounty),
+      posterAddress,
+      network: (body.network === 'mainnet' ? 'mainnet' : 'testnet') as NetworkType,
+      visibility: body.visibility,
+      schedule: String(body.schedule).trim(),
+      deadlineSeconds: body.deadlineSeconds === undefined ? undefined : Number(body.deadlineSeconds),
+      preassignPreviousAgent: body.preassignPreviousAgent,
+      minAgentRating: body.minAgentRating === undefined ? undefined : Number(body.minAgentRating),
+    });
+    if ('error' in result) {
+      res.status(errorStatus(result)).json(result);
+      return;
+    }
+
+    res.status(201).json(result);
+  } catch (err) {
+    console.error('[Templates] Create error:', err);
+    res.status(500).json({ error: 'Failed to create template' });
+  }
+});
+
+// GET /templates?poster=ST1... - List templates, optionally for one poster
+router.get('/', async (req, res) => {
+  try {
+    const templates = await listTemplates((req.query.poster as string | undefined) || undefined);
+    res.json({ templates, count: templates.length });
+  } catch (err) {
+    console.error('[Templates] List error:', err);
+    res.status(500).json({ error: 'Failed to list templates' });
+  }
+});
+
+// GET /templates/:id - Get a single template
+router.get('/:id', async (req, res) => {
+  try {
+    let template = await getTemplate(req.params.id);
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+    // Serverless deployments have no background confirmer, so check a pending prepayment on read
+    if (template.prepaymentTxId) template = await confirmTemplatePrepayment(template);
+    res.json(template);
+  } catch (err) {
+    console.error('[Templates] Get error:', err);
+    res.status(500).json({ error: 'Failed to get template' });
+  }
+});
+
+// PATCH /templates/:id - Edit, pause (active: false) or resume a template (signed by the poster)
+router.patch('/:id', requireWallet, async (req, res) => {
+  try {
+    const body = req.body as UpdateTemplateRequest;
+    const changes: UpdateTemplateRequest = {
+      title: body.title === undefined ? undefined : String(body.title).trim(),
+      description: body.description === undefined ? undefined : String(body.description).trim(),
+      category: body.category,
+      bounty: body.bounty === undefined ? undefined : String(body.bounty),
+      visibility: body.visibility,
+      schedule: body.schedule === undefined ? undefined : String(body.schedule).trim(),
+      deadlineSeconds: body.deadlineSeconds === undefined || body.deadlineSeconds === null ? body.deadlineSeconds : Number(body.deadlineSeconds),
+      preassignPreviousAgent: body.preassignPreviousAgent,
+      minAgentRating: body.minAgentRating === undefined || body.minAgentRating === null ? body.minAgentRating : Number(body.minAgentRating),
+      active: body.active,
+    };
+
+    if (Object.values(changes).every((value) => value === undefined)) {
+      res.status(400).json({ error: `Provide at least one of: ${Object.keys(changes).join(', ')}` });
+      return;
+    }
+    const invalid = validateTemplateFields(changes);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    const result = await updateTemplate(req.params.id, getWalletAddress(req)!, changes);
+    if ('error' in result) {
+      res.status(errorStatus(result)).json(result);
+      return;
+    }
+
+    res.json(result);
+  } catch (err) {
+    console.error('[Templates] Update error:', err);
+    res.status(500).json({ error: 'Failed to update template' });
+  }
+});
+
+// DELETE /templates/:id - Delete a template and its history, refunding its prepaid balance; generated tasks are kept (signed by the poster)
+router.delete('/:id', requireWallet, async (req, res) => {
+  try {
+    const result = await deleteTemplate(req.params.id, getWalletAddress(req)!);
+    if ('error' in result) {
+      res.status(errorStatus(result)).json(result);
+      return;
+    }
+
+    res.json(result);
+  } catch (err) {
+    console.error('[Templates] Delete error:', err);
+    res.status(500).json({ error: 'Failed to delete template' });
+  }
+});
+
+// POST /templates/:id/fund?runs=30 - Prepay the bounty of the next runs into escrow with an x402 payment (X-Payment header); credited once confirmed on-chain
+router.post('/:id/fund', async (req, res) => {
+  try {
+    const template = await getTemplate(req.params.id);
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    if (template.prepaymentTxId) {
+      res.status(400).json({ error: `Prepayment ${template.prepaymentTxId} is awaiting confirmation` });
+      return;
+    }
+
+    const runs = req.query.runs === undefined ? 1 : Number(req.query.runs);
+    if (!Number.isInteger(runs) || runs < 1 || runs > MAX_PREPAID_RUNS) {
+      res.status(400).json({ error: `runs must be a whole number from 1 to ${MAX_PREPAID_RUNS}` });
+      return;
+    }
+
+    const requirement = templateFundingRequirement(template, runs);
+    if ('error' in requirement) {
+      res.status(errorStatus(requirement)).json(requirement);
+      return;
+    }
+
+    const paymentHeader = req.headers['x-payment'] as string | undefined;
+    if (!paymentHeader) {
+      res.status(402)
+        .set('X-Payment-Required', encodePayment(requirement))
+        .json({ error: 'Payment Required', paymentRequirement: requirement });
+      return;
+    }
+
+    let payload: StacksPaymentPayload;
+    try {
+      payload = decodePaymentPayload(paymentHeader);
+    } catch {
+      res.status(400).json({ error: 'Invalid payment header format' });
+      return;
+    }
+
+    const result = await fundTemplate(template.id, runs, payload);
+    if ('error' in result) {
+      if (result.code === 'payment_failed') res.set('X-Payment-Required', encodePayment(requirement));
+      res.status(errorStatus(result)).json(result);
+      return;
+    }
+
+    // The balance is credited once the payment confirmer sees the transfer on-chain
+    res.set('X-Payment-Response', JSON.stringify({ txId: result.prepaymentTxId, settled: true }));
+    res.status(202).json(result);
+  } catch (err) {
+    console.error('[Templates] Fund error:', err);
+    res.status(500).json({ error: 'Failed to fund template' });
+  }
+});
+
+// GET /templates/:id/runs - Tasks the template generated, newest first
+router.get('/:id/runs', async (req, res) => {
+  try {
+    const template = await getTemplate(req.params.id);
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    const runs = await listTemplateRuns(template.id);
+    res.json({ runs, count: runs.length });
+  } catch (err) {
+    console.error('[Templates] Runs error:', err);
+    res.status(500).json({ error: 'Failed to list template runs' });
+  }
+});
+
+export default router;
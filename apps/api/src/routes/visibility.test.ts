@@ -0,0 +1,134 @@
+// StacksTasker API - Invite-only visibility tests: task sub-resources and the event log
+// The database is replaced by a small in-memory stand-in answering the queries these reads make
+
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import pg from 'pg';
+import { signMessageHashRsv, getAddressFromPrivateKey } from '@stacks/transactions';
+import { hashMessage } from '@stacks/encryption';
+import { bytesToHex } from '@stacks/common';
+import { app } from '../index.js';
+import { buildAuthMessage } from '../middleware/auth.js';
+
+// ─── Test setup ────────────────────────────────────────
+
+const POSTER_KEY = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+const POSTER_ADDRESS = getAddressFromPrivateKey(POSTER_KEY, 'testnet');
+const INVITEE_ADDRESS = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+const CREATED_AT = new Date('2025-01-06T09:00:00Z');
+
+type Row = Record<string, unknown>;
+
+function taskRow(visibility: 'public' | 'invite-only'): Row {
+  return {
+    id: 't1',
+    title: 'Private audit',
+    description: 'Audit the contract',
+    category: 'coding',
+    bounty: '5',
+    bounty_micro_stx: '5000000',
+    status: 'open',
+    network: 'testnet',
+    poster_address: POSTER_ADDRESS,
+    visibility,
+    created_at: CREATED_AT,
+    updated_at: CREATED_AT,
+  };
+}
+
+const EVENT_ROWS: Row[] = [
+  { seq: 1, payload: JSON.stringify({ id: 'e1', type: 'task.created', timestamp: CREATED_AT.toISOString(), data: { taskId: 't0' } }), task_id: 't0', audience: null },
+  { seq: 2, payload: JSON.stringify({ id: 'e2', type: 'task.created', timestamp: CREATED_AT.toISOString(), data: { taskId: 't1' } }), task_id: 't1', audience: [POSTER_ADDRESS, 'agent-1', INVITEE_ADDRESS] },
+];
+
+let task: Row;
+
+function fakeQuery(text: string, params: unknown[] = []): { rows: Row[] } {
+  if (text.startsWith('SELECT * FROM tasks WHERE id')) return { rows: params[0] === task.id ? [task] : [] };
+  // canViewTask: only the invitee's wallet owns an agent let into the task
+  if (text.startsWith('SELECT 1 FROM tasks t')) return { rows: params[1] === INVITEE_ADDRESS ? [{}] : [] };
+  if (text.includes('FROM task_status_history')) {
+    return { rows: [{ id: 1, task_id: 't1', action: 'fund', from_status: 'pending-funding', to_status: 'open', actor: 'system', created_at: CREATED_AT }] };
+  }
+  if (text.includes('FROM bids')) {
+    return { rows: [{ id: 'b1', task_id: 't1', agent_id: 'agent-1', amount: '4', message: 'On it', status: 'active', created_at: CREATED_AT }] };
+  }
+  if (text.startsWith('SELECT * FROM events')) {
+    // Mirrors `audience IS NULL OR viewer = ANY(audience)`; the viewer is the second-to-last parameter
+    const viewer = params[params.length - 2] as string | null;
+    return { rows: EVENT_ROWS.filter((row) => !row.audience || (viewer !== null && (row.audience as string[]).includes(viewer))) };
+  }
+  throw new Error(`Unexpected query: ${text}`);
+}
+
+function signedHeaders(path: string): Record<string, string> {
+  const timestamp = new Date().toISOString();
+  const messageHash = bytesToHex(hashMessage(buildAuthMessage('GET', path, timestamp)));
+  return {
+    'x-wallet-address': POSTER_ADDRESS,
+    'x-wallet-signature': signMessageHashRsv({ messageHash, privateKey: POSTER_KEY }),
+    'x-wallet-timestamp': timestamp,
+  };
+}
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => { server.close(); });
+
+beforeEach(() => {
+  task = taskRow('invite-only');
+  mock.method(pg.Pool.prototype, 'query', async (text: string, params?: unknown[]) => fakeQuery(text, params));
+});
+
+afterEach(() => { mock.restoreAll(); });
+
+// ─── Task sub-resources ────────────────────────────────
+
+describe('invite-only task sub-resources', () => {
+  for (const path of ['/tasks/t1/history', '/tasks/t1/bids']) {
+    it(`hides ${path} from unsigned readers`, async () => {
+      const res = await fetch(baseUrl + path);
+      assert.equal(res.status, 404);
+      assert.deepEqual(await res.json(), { error: 'Task not found' });
+    });
+
+    it(`serves ${path} to the poster`, async () => {
+      const res = await fetch(baseUrl + path, { headers: signedHeaders(path) });
+      assert.equal(res.status, 200);
+    });
+  }
+
+  it('serves a public task\'s bids to anyone', async () => {
+    task = taskRow('public');
+    const res = await fetch(`${baseUrl}/tasks/t1/bids`);
+    assert.equal(res.status, 200);
+    const body = await res.json() as { bids: unknown[] };
+    assert.equal(body.bids.length, 1);
+  });
+});
+
+// ─── Event log ─────────────────────────────────────────
+
+describe('event log', () => {
+  it('leaves events about invite-only tasks out for unsigned readers', async () => {
+    const res = await fetch(`${baseUrl}/events`);
+    assert.equal(res.status, 200);
+    const body = await res.json() as { events: { id: string }[] };
+    assert.deepEqual(body.events.map((e) => e.id), ['e1']);
+  });
+
+  it('includes them for the poster', async () => {
+    const res = await fetch(`${baseUrl}/events`, { headers: signedHeaders('/events') });
+    const body = await res.json() as { events: { id: string }[] };
+    assert.deepEqual(body.events.map((e) => e.id), ['e1', 'e2']);
+  });
+});
@@ -7,12 +7,46 @@ import {
   getWebhook,
   deleteWebhook,
   testWebhook,
+  rotateWebhookSecret,
+  updateWebhook,
+  setWebhookActive,
+  listDeliveries,
+  redeliver,
   isValidEventType,
+  VALID_EVENT_TYPES,
 } from '../services/webhook-dispatcher.js';
-import type { RegisterWebhookRequest } from '../types.js';
+import { getWalletAddress, requireWallet } from '../middleware/auth.js';
+import type { RegisterWebhookRequest, UpdateWebhookRequest } from '../types.js';
 
 const router = Router();
 
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/** HTTP status for a webhook ownership/lookup error */
+function lookupErrorStatus(error: string): number {
+  return error.endsWith('not found') ? 404 : 403;
+}
+
+/**
+ * Validate the delivery URL and event types of a new or updated webhook
+ */
+function validateWebhookFields(fields: { url?: string; events?: string[] }): string | undefined {
+  // URL must be https:// or http://localhost for dev
+  if (fields.url !== undefined) {
+    const urlLower = fields.url.toLowerCase();
+    if (!urlLower.startsWith('https://') && !urlLower.startsWith('http://localhost')) {
+      return 'Webhook URL must use https:// (or http://localhost for development)';
+    }
+  }
+  for (const ev of fields.events ?? []) {
+    if (!isValidEventType(ev)) {
+      return `Invalid event type: "${ev}". Valid types: ${VALID_EVENT_TYPES.join(', ')}`;
+    }
+  }
+  return undefined;
+}
+
 // POST /webhooks - Register a new webhook
 router.post('/', async (req, res) => {
   try {
@@ -23,23 +57,12 @@ router.post('/', async (req, res) => {
       return;
     }
 
-    // Validate URL: must be https:// or http://localhost for dev
-    const urlLower = body.url.toLowerCase();
-    if (!urlLower.startsWith('https://') && !urlLower.startsWith('http://localhost')) {
-      res.status(400).json({ error: 'Webhook URL must use https:// (or http://localhost for development)' });
+    const invalid = validateWebhookFields(body);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
       return;
     }
 
-    // Validate event types
-    for (const ev of body.events) {
-      if (!isValidEventType(ev)) {
-        res.status(400).json({
-          error: `Invalid event type: "${ev}". Valid types: task.created, task.status_changed, bid.placed, bid.accepted, message.new, task.completed, *`,
-        });
-        return;
-      }
-    }
-
     const webhook = await registerWebhook(body);
     res.status(201).json(webhook);
   } catch (err) {
@@ -80,18 +103,83 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-// DELETE /webhooks/:id - Delete a webhook
-router.delete('/:id', async (req, res) => {
+// PATCH /webhooks/:id - Update url, events, filters or description (signed by the owner)
+router.patch('/:id', requireWallet, async (req, res) => {
   try {
-    const { ownerId } = req.body as { ownerId?: string };
-    if (!ownerId) {
-      res.status(400).json({ error: 'ownerId is required in request body' });
+    const body = req.body as UpdateWebhookRequest;
+    const changes: UpdateWebhookRequest = {
+      url: body.url,
+      events: body.events,
+      filterCategory: body.filterCategory,
+      filterTaskId: body.filterTaskId,
+      description: body.description,
+    };
+
+    if (Object.values(changes).every((value) => value === undefined)) {
+      res.status(400).json({ error: 'Provide at least one of: url, events, filterCategory, filterTaskId, description' });
+      return;
+    }
+    if (body.events !== undefined && (!Array.isArray(body.events) || body.events.length === 0)) {
+      res.status(400).json({ error: 'events must be a non-empty array' });
+      return;
+    }
+    const invalid = validateWebhookFields(body);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    const result = await updateWebhook(req.params.id, getWalletAddress(req)!, changes);
+    if (result.error) {
+      res.status(lookupErrorStatus(result.error)).json({ error: result.error });
+      return;
+    }
+
+    res.json(result.webhook);
+  } catch (err) {
+    console.error('[Webhooks] Update error:', err);
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+// POST /webhooks/:id/pause - Stop deliveries (signed by the owner)
+router.post('/:id/pause', requireWallet, async (req, res) => {
+  try {
+    const result = await setWebhookActive(req.params.id, getWalletAddress(req)!, false);
+    if (result.error) {
+      res.status(lookupErrorStatus(result.error)).json({ error: result.error });
+      return;
+    }
+
+    res.json(result.webhook);
+  } catch (err) {
+    console.error('[Webhooks] Pause error:', err);
+    res.status(500).json({ error: 'Failed to pause webhook' });
+  }
+});
+
+// POST /webhooks/:id/resume - Resume deliveries, including a webhook auto-disabled after failures (signed by the owner)
+router.post('/:id/resume', requireWallet, async (req, res) => {
+  try {
+    const result = await setWebhookActive(req.params.id, getWalletAddress(req)!, true);
+    if (result.error) {
+      res.status(lookupErrorStatus(result.error)).json({ error: result.error });
       return;
     }
 
-    const result = await deleteWebhook(req.params.id, ownerId);
+    res.json(result.webhook);
+  } catch (err) {
+    console.error('[Webhooks] Resume error:', err);
+    res.status(500).json({ error: 'Failed to resume webhook' });
+  }
+});
+
+// DELETE /webhooks/:id - Delete a webhook (signed by the owner)
+router.delete('/:id', requireWallet, async (req, res) => {
+  try {
+    const result = await deleteWebhook(req.params.id, getWalletAddress(req)!);
     if (!result.success) {
-      res.status(result.error === 'Webhook not found' ? 404 : 403).json({ error: result.error });
+      res.status(lookupErrorStatus(result.error!)).json({ error: result.error });
       return;
     }
 
@@ -118,4 +206,65 @@ router.post('/:id/test', async (req, res) => {
   }
 });
 
+// POST /webhooks/:id/rotate-secret - Issue a new signing secret (old one signs too during the grace period; signed by the owner)
+router.post('/:id/rotate-secret', requireWallet, async (req, res) => {
+  try {
+    const { graceSeconds } = req.body as { graceSeconds?: number };
+    if (graceSeconds !== undefined && (typeof graceSeconds !== 'number' || !Number.isFinite(graceSeconds) || graceSeconds < 0)) {
+      res.status(400).json({ error: 'graceSeconds must be a non-negative number' });
+      return;
+    }
+
+    const result = await rotateWebhookSecret(req.params.id, getWalletAddress(req)!, graceSeconds);
+    if (result.error) {
+      res.status(lookupErrorStatus(result.error)).json({ error: result.error });
+      return;
+    }
+
+    res.json({ id: req.params.id, secret: result.secret, previousSecretExpiresAt: result.previousSecretExpiresAt });
+  } catch (err) {
+    console.error('[Webhooks] Rotate secret error:', err);
+    res.status(500).json({ error: 'Failed to rotate webhook secret' });
+  }
+});
+
+// GET /webhooks/:id/deliveries?limit=20&offset=0 - Delivery history, newest first (signed by the owner)
+router.get('/:id/deliveries', requireWallet, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+    if (limit < 1) {
+      res.status(400).json({ error: 'limit must be a positive number' });
+      return;
+    }
+
+    const result = await listDeliveries(req.params.id, getWalletAddress(req)!, { limit, offset });
+    if (result.error) {
+      res.status(lookupErrorStatus(result.error)).json({ error: result.error });
+      return;
+    }
+
+    res.json({ deliveries: result.deliveries, total: result.total, limit, offset });
+  } catch (err) {
+    console.error('[Webhooks] List deliveries error:', err);
+    res.status(500).json({ error: 'Failed to list deliveries' });
+  }
+});
+
+// POST /webhooks/:id/deliveries/:deliveryId/redeliver - Replay a past delivery with its original delivery id (signed by the owner)
+router.post('/:id/deliveries/:deliveryId/redeliver', requireWallet, async (req, res) => {
+  try {
+    const result = await redeliver(req.params.id, req.params.deliveryId, getWalletAddress(req)!);
+    if (result.error) {
+      res.status(lookupErrorStatus(result.error)).json({ error: result.error });
+      return;
+    }
+
+    res.json(result.delivery);
+  } catch (err) {
+    console.error('[Webhooks] Redeliver error:', err);
+    res.status(500).json({ error: 'Failed to redeliver' });
+  }
+});
+
 export default router;
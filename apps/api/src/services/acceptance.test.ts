@@ -0,0 +1,76 @@
+// StacksTasker API - Acceptance criteria tests
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkCriteria, evaluateCriteria } from './acceptance.js';
+import { prepareArtifacts } from './artifacts.js';
+import type { PreparedArtifact } from './artifacts.js';
+
+const REPORT = `# Summary
+Found 3 listings priced in STX.
+
+## Listings
+- alpha, 120 STX
+- beta, 80 STX
+- gamma, 95 STX
+`;
+
+describe('checkCriteria', () => {
+  it('accepts well-formed criteria', () => {
+    assert.equal(checkCriteria({ requiredKeywords: ['STX'], patterns: ['^- \\w+'], minRecords: 1, maxRecords: 10 }), undefined);
+  });
+
+  it('rejects empty, unknown and malformed criteria', () => {
+    assert.ok(checkCriteria({}));
+    assert.ok(checkCriteria({ keywords: ['STX'] }));
+    assert.ok(checkCriteria({ requiredSections: [] }));
+    assert.ok(checkCriteria({ patterns: ['('] }));
+    assert.ok(checkCriteria({ minRecords: 5, maxRecords: 2 }));
+    assert.ok(checkCriteria({ schema: { type: 'date' } }));
+  });
+});
+
+describe('evaluateCriteria', () => {
+  it('checks keywords, sections and patterns on the result text', () => {
+    const checks = evaluateCriteria(
+      { requiredKeywords: ['listings', 'USD'], requiredSections: ['summary', 'Sources'], patterns: ['\\d+ STX$'] },
+      REPORT,
+      []
+    );
+    assert.deepEqual(checks.map((c) => [c.criterion, c.passed]), [
+      ['keyword "listings"', true],
+      ['keyword "USD"', false],
+      ['section "summary"', true],
+      ['section "Sources"', false],
+      ['pattern /\\d+ STX$/', true],
+    ]);
+  });
+
+  it('counts non-empty lines as records when the result is not JSON', () => {
+    const [min, max] = evaluateCriteria({ minRecords: 8, maxRecords: 20 }, REPORT, []);
+    assert.equal(min.passed, false);
+    assert.equal(max.passed, true);
+    assert.equal(min.detail, '6 record(s), at least 8 needed');
+  });
+
+  it('validates a JSON result against the schema and counts its items', () => {
+    const result = JSON.stringify([{ name: 'alpha', price: 120 }, { name: 'beta', price: 'free' }]);
+    const [schema, records] = evaluateCriteria(
+      { schema: { type: 'array', items: { type: 'object', properties: { price: { type: 'number' } } } }, maxRecords: 1 },
+      result,
+      []
+    );
+    assert.equal(schema.passed, false);
+    assert.equal(schema.detail, '$[1].price should be number, not string');
+    assert.equal(records.passed, false);
+  });
+
+  it('falls back to the first JSON artifact when the result is prose', () => {
+    const artifacts = prepareArtifacts([{ kind: 'json', name: 'rows.json', data: [1, 2, 3] }]) as PreparedArtifact[];
+    const checks = evaluateCriteria({ schema: { type: 'array', minItems: 3 }, minRecords: 3 }, 'See rows.json', artifacts);
+    assert.ok(checks.every((c) => c.passed));
+
+    const [missing] = evaluateCriteria({ schema: { type: 'array' } }, 'See rows.json', []);
+    assert.equal(missing.passed, false);
+  });
+});
@@ -0,0 +1,125 @@
+// StacksTasker - Acceptance criteria
+// Machine-checkable conditions a poster puts on a task's result, run on every submission
+
+import { checkSchema, validateJson } from './json-schema.js';
+import type { PreparedArtifact } from './artifacts.js';
+import type { AcceptanceCheck, AcceptanceCriteria } from '../types.js';
+
+export const MAX_CRITERIA_LENGTH = 16 * 1024;
+const MAX_TERMS = 20;
+const MAX_TERM_LENGTH = 200;
+
+const TERM_LISTS = ['requiredKeywords', 'requiredSections', 'patterns'] as const;
+const KEYS = ['schema', ...TERM_LISTS, 'minRecords', 'maxRecords'];
+
+const HEADING_RE = /^#{1,6}\s+(.+?)\s*#*\s*$/gm;
+
+/**
+ * Check a poster's acceptance criteria. Returns the first problem found.
+ */
+export function checkCriteria(criteria: unknown): string | undefined {
+  if (typeof criteria !== 'object' || criteria === null || Array.isArray(criteria)) return 'must be an object';
+  const fields = criteria as Record<string, unknown>;
+
+  const unknown = Object.keys(fields).find((key) => !KEYS.includes(key));
+  if (unknown) return `unknown criterion "${unknown}"; use ${KEYS.join(', ')}`;
+  if (!KEYS.some((key) => fields[key] !== undefined)) return 'set at least one criterion';
+  if (JSON.stringify(criteria).length > MAX_CRITERIA_LENGTH) return `must be at most ${MAX_CRITERIA_LENGTH} characters of JSON`;
+
+  if (fields.schema !== undefined) {
+    const problem = checkSchema(fields.schema);
+    if (problem) return `schema: ${problem}`;
+  }
+  for (const key of TERM_LISTS) {
+    const terms = fields[key];
+    if (terms === undefined) continue;
+    if (!Array.isArray(terms) || terms.length === 0 || terms.length > MAX_TERMS) return `${key} must be a list of 1 to ${MAX_TERMS} strings`;
+    for (const term of terms) {
+      if (typeof term !== 'string' || term.trim().length === 0 || term.length > MAX_TERM_LENGTH) {
+        return `${key} entries must be between 1 and ${MAX_TERM_LENGTH} characters`;
+      }
+    }
+  }
+  for (const pattern of (fields.patterns as string[] | undefined) ?? []) {
+    try {
+      new RegExp(pattern, 'm');
+    } catch {
+      return `patterns: ${JSON.stringify(pattern)} is not a valid regular expression`;
+    }
+  }
+  for (const key of ['minRecords', 'maxRecords'] as const) {
+    const count = fields[key];
+    if (count !== undefined && (!Number.isInteger(count) || (count as number) < 0)) return `${key} must be a whole number`;
+  }
+  if (fields.minRecords !== undefined && fields.maxRecords !== undefined && (fields.minRecords as number) > (fields.maxRecords as number)) {
+    return 'minRecords must not be more than maxRecords';
+  }
+  return undefined;
+}
+
+/**
+ * The JSON a submission's schema and record checks apply to: the result itself
+ * when it parses, else the first JSON artifact
+ */
+function resultDocument(result: string, artifacts: PreparedArtifact[]): { value: unknown } | undefined {
+  if (result.trim()) {
+    try {
+      return { value: JSON.parse(result) };
+    } catch {
+      // Not JSON; fall back to the artifacts
+    }
+  }
+  const json = artifacts.find((a) => a.kind === 'json' && a.content);
+  return json ? { value: JSON.parse(json.content!.toString('utf8')) } : undefined;
+}
+
+function countRecords(result: string, document: { value: unknown } | undefined): number {
+  if (document) return Array.isArray(document.value) ? document.value.length : 1;
+  return result.split('\n').filter((line) => line.trim()).length;
+}
+
+/**
+ * Run a submission through the task's acceptance criteria, one check per criterion
+ */
+export function evaluateCriteria(criteria: AcceptanceCriteria, result: string, artifacts: PreparedArtifact[]): AcceptanceCheck[] {
+  const checks: AcceptanceCheck[] = [];
+  const document = resultDocument(result, artifacts);
+
+  if (criteria.schema) {
+    if (!document) {
+      checks.push({ criterion: 'schema', passed: false, detail: 'No JSON result or JSON artifact to check' });
+    } else {
+      const problems = validateJson(document.value, criteria.schema);
+      checks.push({ criterion: 'schema', passed: problems.length === 0, detail: problems.length ? problems.join('; ') : undefined });
+    }
+  }
+
+  const text = result.toLowerCase();
+  for (const keyword of criteria.requiredKeywords ?? []) {
+    const passed = text.includes(keyword.toLowerCase());
+    checks.push({ criterion: `keyword "${keyword}"`, passed, detail: passed ? undefined : 'Not found in the result' });
+  }
+
+  const headings = new Set([...result.matchAll(HEADING_RE)].map((m) => m[1].toLowerCase()));
+  for (const section of criteria.requiredSections ?? []) {
+    const passed = headings.has(section.trim().toLowerCase());
+    checks.push({ criterion: `section "${section}"`, passed, detail: passed ? undefined : 'No heading with this title' });
+  }
+
+  for (const pattern of criteria.patterns ?? []) {
+    const passed = new RegExp(pattern, 'm').test(result);
+    checks.push({ criterion: `pattern /${pattern}/`, passed, detail: passed ? undefined : 'The result does not match' });
+  }
+
+  if (criteria.minRecords !== undefined || criteria.maxRecords !== undefined) {
+    const records = countRecords(result, document);
+    if (criteria.minRecords !== undefined) {
+      checks.push({ criterion: 'minRecords', passed: records >= criteria.minRecords, detail: `${records} record(s), at least ${criteria.minRecords} needed` });
+    }
+    if (criteria.maxRecords !== undefined) {
+      checks.push({ criterion: 'maxRecords', passed: records <= criteria.maxRecords, detail: `${records} record(s), at most ${criteria.maxRecords} allowed` });
+    }
+  }
+
+  return checks;
+}
@@ -0,0 +1,90 @@
+// StacksTasker API - Artifact and result schema tests
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { prepareArtifacts, MAX_ARTIFACTS } from './artifacts.js';
+import { checkSchema, validateJson, diffJsonPaths } from './json-schema.js';
+import type { ArtifactInput, JsonSchema } from '../types.js';
+
+const REPORT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['passed', 'failed'],
+  properties: {
+    passed: { type: 'integer', minimum: 0 },
+    failed: { type: 'integer', minimum: 0 },
+    suite: { type: 'string', enum: ['unit', 'e2e'] },
+  },
+  additionalProperties: false,
+};
+
+describe('validateJson', () => {
+  it('accepts a matching payload', () => {
+    assert.deepEqual(validateJson({ passed: 12, failed: 0, suite: 'unit' }, REPORT_SCHEMA), []);
+  });
+
+  it('reports each violation with its path', () => {
+    assert.deepEqual(validateJson({ passed: -1, suite: 'smoke', extra: true }, REPORT_SCHEMA), [
+      '$.failed is required',
+      '$.passed should be at least 0',
+      '$.suite should be one of ["unit","e2e"]',
+      '$.extra is not allowed',
+    ]);
+  });
+
+  it('treats integers as numbers but not the reverse', () => {
+    assert.deepEqual(validateJson(3, { type: 'number' }), []);
+    assert.deepEqual(validateJson(3.5, { type: 'integer' }), ['$ should be integer, not number']);
+  });
+});
+
+describe('checkSchema', () => {
+  it('rejects unknown types and malformed keywords', () => {
+    assert.equal(checkSchema(REPORT_SCHEMA), undefined);
+    assert.ok(checkSchema({ type: 'date' }));
+    assert.ok(checkSchema({ properties: { a: { minimum: '1' } } }));
+    assert.ok(checkSchema({ pattern: '(' }));
+    assert.ok(checkSchema([]));
+  });
+});
+
+describe('diffJsonPaths', () => {
+  it('lists the paths that changed between versions', () => {
+    assert.deepEqual(
+      diffJsonPaths({ passed: 10, failed: 2, tags: ['a'] }, { passed: 12, failed: 2, tags: ['a', 'b'] }),
+      ['$.passed', '$.tags[1]']
+    );
+  });
+});
+
+describe('prepareArtifacts', () => {
+  it('hashes and sizes files, JSON payloads and links', () => {
+    const prepared = prepareArtifacts([
+      { kind: 'file', name: 'contract.clar', contentType: 'text/plain', content: Buffer.from('(define-public (ping) (ok true))').toString('base64') },
+      { kind: 'json', name: 'report.json', data: { passed: 3, failed: 0 } },
+      { kind: 'link', name: 'dashboard', url: 'https://example.com/run/42' },
+    ], REPORT_SCHEMA);
+    assert.ok(!('error' in prepared));
+
+    const [file, json, link] = prepared;
+    assert.equal(file.sizeBytes, 32);
+    assert.equal(file.sha256, createHash('sha256').update('(define-public (ping) (ok true))').digest('hex'));
+    assert.equal(json.content?.toString(), '{"passed":3,"failed":0}');
+    assert.equal(link.sizeBytes, 0);
+    assert.equal(link.content, undefined);
+  });
+
+  it('rejects JSON that does not match the result schema', () => {
+    const prepared = prepareArtifacts([{ kind: 'json', name: 'report.json', data: { passed: 'all' } }], REPORT_SCHEMA);
+    assert.ok('error' in prepared);
+    assert.match(prepared.error, /result schema: .*\$\.passed should be integer/);
+  });
+
+  it('rejects duplicate names, bad content and too many artifacts', () => {
+    const link = (name: string): ArtifactInput => ({ kind: 'link', name, url: 'https://example.com' });
+    assert.ok('error' in prepareArtifacts([link('a'), link('a')]));
+    assert.ok('error' in prepareArtifacts([{ kind: 'file', name: 'x', content: 'not base64!' }]));
+    assert.ok('error' in prepareArtifacts([{ kind: 'link', name: 'x', url: 'javascript:alert(1)' }]));
+    assert.ok('error' in prepareArtifacts(Array.from({ length: MAX_ARTIFACTS + 1 }, (_, i) => link(`l${i}`))));
+  });
+});
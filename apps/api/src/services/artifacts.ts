@@ -0,0 +1,199 @@
+// StacksTasker - Result artifacts
+// Typed deliverables attached to submissions: files and JSON payloads kept in the
+// blob store, and links. Every submission of a task is a new version of its artifacts.
+
+import { createHash, randomUUID } from 'crypto';
+import { query } from '../db.js';
+import { getBlobStore } from './blob-store.js';
+import { validateJson, diffJsonPaths } from './json-schema.js';
+import type { PoolClient } from 'pg';
+import type { ApiError, Artifact, ArtifactDiff, ArtifactInput, ArtifactKind, JsonSchema } from '../types.js';
+
+export const MAX_ARTIFACTS = 10;
+/** Per file */
+export const MAX_ARTIFACT_BYTES = parseInt(process.env.ARTIFACT_MAX_BYTES ?? String(5 * 1024 * 1024), 10);
+/** Per JSON payload */
+export const MAX_JSON_ARTIFACT_BYTES = 1024 * 1024;
+/** All artifacts of one submission together */
+export const MAX_SUBMISSION_BYTES = 2 * MAX_ARTIFACT_BYTES;
+const MAX_URL_LENGTH = 2048;
+const MAX_NAME_LENGTH = 200;
+
+const KINDS: ArtifactKind[] = ['file', 'json', 'link'];
+const BASE64_RE = /^[A-Za-z0-9+/]*={0,2}$/;
+const CONTENT_TYPE_RE = /^[\w.+-]+\/[\w.+-]+$/;
+
+/**
+ * An artifact checked and hashed, ready to store
+ */
+export interface PreparedArtifact {
+  kind: ArtifactKind;
+  name: string;
+  contentType?: string;
+  sizeBytes: number;
+  sha256: string;
+  url?: string;
+  /** File bytes or serialized JSON; absent for links */
+  content?: Buffer;
+}
+
+function sha256Hex(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function rowToArtifact(row: Record<string, unknown>): Artifact {
+  return {
+    id: row.id as string,
+    taskId: row.task_id as string,
+    version: row.version as number,
+    kind: row.kind as ArtifactKind,
+    name: row.name as string,
+    contentType: (row.content_type as string) || undefined,
+    sizeBytes: Number(row.size_bytes),
+    sha256: row.sha256 as string,
+    url: (row.url as string) || undefined,
+    createdAt: (row.created_at as Date).toISOString(),
+  };
+}
+
+function prepareArtifact(input: ArtifactInput, schema: JsonSchema | undefined, label: string): PreparedArtifact | ApiError {
+  if (!KINDS.includes(input.kind)) return { error: `${label}: kind must be one of: ${KINDS.join(', ')}` };
+  const name = String(input.name ?? '').trim();
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) return { error: `${label}: name must be between 1 and ${MAX_NAME_LENGTH} characters` };
+
+  if (input.kind === 'link') {
+    const url = String(input.url ?? '').trim();
+    if (!/^https?:\/\//i.test(url) || url.length > MAX_URL_LENGTH) {
+      return { error: `${label}: url must be an http(s) URL of at most ${MAX_URL_LENGTH} characters` };
+    }
+    return { kind: 'link', name, sizeBytes: 0, sha256: sha256Hex(url), url };
+  }
+
+  if (input.kind === 'json') {
+    if (input.data === undefined) return { error: `${label}: JSON artifacts need data` };
+    if (schema) {
+      const problems = validateJson(input.data, schema);
+      if (problems.length) return { error: `${label} does not match the task's result schema: ${problems.join('; ')}` };
+    }
+    const content = Buffer.from(JSON.stringify(input.data));
+    if (content.length > MAX_JSON_ARTIFACT_BYTES) return { error: `${label}: JSON payload is larger than ${MAX_JSON_ARTIFACT_BYTES} bytes` };
+    return { kind: 'json', name, contentType: 'application/json', sizeBytes: content.length, sha256: sha256Hex(content), content };
+  }
+
+  const encoded = String(input.content ?? '').replace(/\s/g, '');
+  if (encoded.length === 0 || !BASE64_RE.test(encoded)) return { error: `${label}: file content must be base64` };
+  const content = Buffer.from(encoded, 'base64');
+  if (content.length > MAX_ARTIFACT_BYTES) return { error: `${label}: file is larger than ${MAX_ARTIFACT_BYTES} bytes` };
+  const contentType = input.contentType === undefined ? 'application/octet-stream' : String(input.contentType).trim().toLowerCase();
+  if (!CONTENT_TYPE_RE.test(contentType)) return { error: `${label}: contentType must be a MIME type such as text/plain` };
+  return { kind: 'file', name, contentType, sizeBytes: content.length, sha256: sha256Hex(content), content };
+}
+
+/**
+ * Check, hash and size-limit a submission's artifacts. JSON payloads must match
+ * the task's result schema, if it has one.
+ */
+export function prepareArtifacts(inputs: ArtifactInput[], schema?: JsonSchema): PreparedArtifact[] | ApiError {
+  if (inputs.length > MAX_ARTIFACTS) return { error: `At most ${MAX_ARTIFACTS} artifacts per submission` };
+
+  const prepared: PreparedArtifact[] = [];
+  const names = new Set<string>();
+  let totalBytes = 0;
+  for (const [i, input] of inputs.entries()) {
+    if (typeof input !== 'object' || input === null) return { error: `artifacts[${i}] must be an object` };
+    const artifact = prepareArtifact(input, schema, `artifacts[${i}]`);
+    if ('error' in artifact) return artifact;
+    if (names.has(artifact.name)) return { error: `Duplicate artifact name "${artifact.name}"` };
+    names.add(artifact.name);
+    totalBytes += artifact.sizeBytes;
+    prepared.push(artifact);
+  }
+  if (totalBytes > MAX_SUBMISSION_BYTES) return { error: `Artifacts add up to more than ${MAX_SUBMISSION_BYTES} bytes` };
+  return prepared;
+}
+
+/**
+ * Put artifact content in the blob store. Done before the submission is recorded;
+ * a blob left behind by a failed submission is reused if the same bytes come again.
+ */
+export async function storeArtifactContent(prepared: PreparedArtifact[]): Promise<void> {
+  const store = getBlobStore();
+  for (const artifact of prepared) {
+    if (artifact.content) await store.put(artifact.sha256, artifact.content);
+  }
+}
+
+/**
+ * Record a submission's artifacts as the given version, inside the submission's transaction
+ */
+export async function insertArtifacts(client: PoolClient, taskId: string, version: number, prepared: PreparedArtifact[]): Promise<Artifact[]> {
+  const now = new Date();
+  const artifacts: Artifact[] = [];
+  for (const artifact of prepared) {
+    const { rows } = await client.query(
+      `INSERT INTO artifacts (id, task_id, version, kind, name, content_type, size_bytes, sha256, url, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
+      [randomUUID().slice(0, 8), taskId, version, artifact.kind, artifact.name, artifact.contentType ?? null,
+        artifact.sizeBytes, artifact.sha256, artifact.url ?? null, now]
+    );
+    artifacts.push(rowToArtifact(rows[0]));
+  }
+  return artifacts;
+}
+
+/**
+ * A task's artifacts, one version or all of them, oldest version first
+ */
+export async function listArtifacts(taskId: string, version?: number): Promise<Artifact[]> {
+  const { rows } = version === undefined
+    ? await query('SELECT * FROM artifacts WHERE task_id = $1 ORDER BY version ASC, name ASC', [taskId])
+    : await query('SELECT * FROM artifacts WHERE task_id = $1 AND version = $2 ORDER BY name ASC', [taskId, version]);
+  return rows.map(rowToArtifact);
+}
+
+export async function getArtifact(taskId: string, artifactId: string): Promise<Artifact | undefined> {
+  const { rows } = await query('SELECT * FROM artifacts WHERE id = $1 AND task_id = $2', [artifactId, taskId]);
+  return rows.length ? rowToArtifact(rows[0]) : undefined;
+}
+
+/**
+ * Stored bytes of a file or JSON artifact, checked against its hash
+ */
+export async function readArtifactContent(artifact: Artifact): Promise<Buffer | ApiError> {
+  if (artifact.kind === 'link') return { error: 'Link artifacts have no stored content; fetch the url instead' };
+  const content = await getBlobStore().get(artifact.sha256);
+  if (!content) return { error: 'Artifact content is missing from the blob store' };
+  if (sha256Hex(content) !== artifact.sha256) return { error: 'Artifact content does not match its hash' };
+  return content;
+}
+
+/**
+ * Compare two versions of a task's artifacts by name. Changed JSON artifacts
+ * also list the paths where their payloads differ.
+ */
+export async function diffArtifactVersions(taskId: string, from: number, to: number): Promise<ArtifactDiff> {
+  const before = new Map((await listArtifacts(taskId, from)).map((a) => [a.name, a]));
+  const after = new Map((await listArtifacts(taskId, to)).map((a) => [a.name, a]));
+  const diff: ArtifactDiff = { from, to, added: [], removed: [], changed: [], unchanged: [] };
+
+  for (const [name, artifact] of after) {
+    const previous = before.get(name);
+    if (!previous) {
+      diff.added.push(artifact);
+    } else if (previous.sha256 === artifact.sha256 && previous.kind === artifact.kind) {
+      diff.unchanged.push(artifact);
+    } else if (previous.kind === 'json' && artifact.kind === 'json') {
+      const [a, b] = await Promise.all([readArtifactContent(previous), readArtifactContent(artifact)]);
+      const changedPaths = Buffer.isBuffer(a) && Buffer.isBuffer(b)
+        ? diffJsonPaths(JSON.parse(a.toString('utf8')), JSON.parse(b.toString('utf8')))
+        : undefined;
+      diff.changed.push({ before: previous, after: artifact, changedPaths });
+    } else {
+      diff.changed.push({ before: previous, after: artifact });
+    }
+  }
+  for (const [name, artifact] of before) {
+    if (!after.has(name)) diff.removed.push(artifact);
+  }
+  return diff;
+}
@@ -0,0 +1,45 @@
+// StacksTasker - Reverse-auction awards
+// Accepts the lowest qualifying bid on reverse-auction tasks once their bidding has closed
+
+import { query } from '../db.js';
+import { acceptBid } from './task-engine.js';
+
+/**
+ * One sweep. A bid qualifies when its agent's average rating meets the task's
+ * minimum; the lowest qualifying amount wins, the earliest bid breaking ties.
+ * A task with no qualifying bid stays open for the poster to award by hand.
+ */
+export async function awardReverseAuctions(): Promise<void> {
+  const { rows } = await query(
+    `SELECT t.id, t.poster_address, w.bid_id
+     FROM tasks t
+     CROSS JOIN LATERAL (
+       SELECT b.id AS bid_id FROM bids b JOIN agents a ON a.id = b.agent_id
+       WHERE b.task_id = t.id AND b.status = 'active' AND a.avg_rating >= COALESCE(t.min_agent_rating, 0)
+       ORDER BY CAST(b.amount AS NUMERIC) ASC, b.created_at ASC
+       LIMIT 1
+     ) w
+     WHERE t.auction_mode = 'reverse-auction' AND t.status = 'bidding' AND t.bidding_closes_at <= NOW()
+       AND (t.deadline IS NULL OR t.deadline > NOW())
+     ORDER BY t.bidding_closes_at ASC`
+  );
+  for (const row of rows) {
+    try {
+      // Awarded on the poster's behalf, as if the poster had accepted the bid
+      const result = await acceptBid(row.id as string, row.bid_id as string, row.poster_address as string);
+      if ('error' in result) console.log(`[Auctions] Task ${row.id} not awarded: ${result.error}`);
+    } catch (err) {
+      console.error(`[Auctions] Could not award task ${row.id}:`, err);
+    }
+  }
+}
+
+/**
+ * Award closed reverse auctions in the background
+ */
+export function startAuctionScheduler(intervalMs: number): NodeJS.Timeout {
+  console.log(`[Auctions] Checking reverse auctions every ${intervalMs}ms`);
+  return setInterval(() => {
+    awardReverseAuctions().catch(err => console.error('[Auctions] Sweep failed:', err));
+  }, intervalMs);
+}
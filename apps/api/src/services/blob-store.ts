@@ -0,0 +1,57 @@
+// StacksTasker - Blob storage
+// Content-addressed storage for artifact bytes. Local disk by default; deployments
+// without a writable disk (e.g. serverless) plug in their own store with setBlobStore().
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * Blobs are keyed by the SHA-256 hex of their content, so putting the same
+ * bytes twice stores them once
+ */
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  /** undefined when there is no blob under the key */
+  get(key: string): Promise<Buffer | undefined>;
+}
+
+const KEY_RE = /^[0-9a-f]{64}$/;
+
+/**
+ * Blobs as files under `dir`, fanned out by the first two hex digits of the key
+ */
+export function createLocalDiskBlobStore(dir: string): BlobStore {
+  const pathFor = (key: string) => {
+    if (!KEY_RE.test(key)) throw new Error(`Invalid blob key: ${key}`);
+    return join(dir, key.slice(0, 2), key);
+  };
+
+  return {
+    async put(key, data) {
+      const path = pathFor(key);
+      await mkdir(join(dir, key.slice(0, 2)), { recursive: true });
+      // Write then rename, so a reader never sees a partly written blob
+      const tmp = `${path}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(tmp, data);
+      await rename(tmp, path);
+    },
+    async get(key) {
+      try {
+        return await readFile(pathFor(key));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw err;
+      }
+    },
+  };
+}
+
+let store: BlobStore = createLocalDiskBlobStore(process.env.BLOB_STORE_DIR ?? join(process.cwd(), '.data', 'blobs'));
+
+export function setBlobStore(blobStore: BlobStore): void {
+  store = blobStore;
+}
+
+export function getBlobStore(): BlobStore {
+  return store;
+}
@@ -0,0 +1,56 @@
+// StacksTasker API - Cron schedule tests
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCron, nextOccurrence, type CronSchedule } from './cron.js';
+
+function schedule(expression: string): CronSchedule {
+  const parsed = parseCron(expression);
+  assert.ok(!('error' in parsed), `"${expression}" should parse`);
+  return parsed;
+}
+
+function next(expression: string, after: string): string | undefined {
+  return nextOccurrence(schedule(expression), new Date(after))?.toISOString();
+}
+
+describe('parseCron', () => {
+  it('expands ranges, steps and lists', () => {
+    const parsed = schedule('*/15 9-17 1,15 * 1-5');
+    assert.deepEqual([...parsed.minutes], [0, 15, 30, 45]);
+    assert.deepEqual([...parsed.hours], [9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    assert.deepEqual([...parsed.daysOfMonth], [1, 15]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    assert.ok(schedule('0 0 * * 7').daysOfWeek.has(0));
+  });
+
+  it('rejects malformed and out-of-range fields', () => {
+    assert.ok('error' in parseCron('0 0 * *'));
+    assert.ok('error' in parseCron('60 0 * * *'));
+    assert.ok('error' in parseCron('0 0 0 * *'));
+    assert.ok('error' in parseCron('0 5-1 * * *'));
+    assert.ok('error' in parseCron('0 0 * * mon'));
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('finds the next daily run', () => {
+    assert.equal(next('30 6 * * *', '2026-03-10T06:29:59Z'), '2026-03-10T06:30:00.000Z');
+    assert.equal(next('30 6 * * *', '2026-03-10T06:30:00Z'), '2026-03-11T06:30:00.000Z');
+  });
+
+  it('rolls over months and years', () => {
+    assert.equal(next('0 0 1 * *', '2026-12-15T12:00:00Z'), '2027-01-01T00:00:00.000Z');
+  });
+
+  it('matches either restricted day field', () => {
+    // 2026-03-10 is a Tuesday: the next Friday (13th) comes before the 20th
+    assert.equal(next('0 12 20 * 5', '2026-03-10T00:00:00Z'), '2026-03-13T12:00:00.000Z');
+  });
+
+  it('gives up on schedules that never fire', () => {
+    assert.equal(next('0 0 30 2 *', '2026-01-01T00:00:00Z'), undefined);
+  });
+});
@@ -0,0 +1,107 @@
+// StacksTasker - Cron schedules
+// Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC
+
+import type { ApiError } from '../types.js';
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  daysOfWeek: Set<number>;
+  /** Restricted day fields match either one, as in standard cron */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day-of-week', min: 0, max: 7 },
+] as const;
+
+/** Upper bound on the search; a schedule like "0 0 30 2 *" never fires */
+const MAX_SEARCH_DAYS = 4 * 366;
+
+/**
+ * Parse one field: `*`, `5`, `1-5`, steps such as `0-30/10`, and comma-separated lists of those
+ */
+function parseField(text: string, field: typeof FIELDS[number]): Set<number> | undefined {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return undefined;
+    const step = match[4] !== undefined ? parseInt(match[4], 10) : 1;
+    const from = match[1] === '*' ? field.min : parseInt(match[2], 10);
+    const to = match[1] === '*' ? field.max : match[3] !== undefined ? parseInt(match[3], 10) : match[4] !== undefined ? field.max : from;
+    if (step < 1 || from < field.min || to > field.max || from > to) return undefined;
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule | ApiError {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    return { error: 'Schedule must have five fields: minute hour day-of-month month day-of-week' };
+  }
+
+  const sets: Set<number>[] = [];
+  for (const [i, field] of FIELDS.entries()) {
+    const values = parseField(parts[i], field);
+    if (!values) return { error: `Invalid ${field.name} field "${parts[i]}" (allowed ${field.min}-${field.max})` };
+    sets.push(values);
+  }
+
+  // 7 is Sunday too
+  if (sets[4].delete(7)) sets[4].add(0);
+  return {
+    minutes: sets[0],
+    hours: sets[1],
+    daysOfMonth: sets[2],
+    months: sets[3],
+    daysOfWeek: sets[4],
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getUTCMonth() + 1)) return false;
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth) return dow;
+  if (schedule.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+/**
+ * First minute strictly after `after` that the schedule fires on, or undefined if it never does
+ */
+export function nextOccurrence(schedule: CronSchedule, after: Date): Date | undefined {
+  const t = new Date(after.getTime());
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (t.getTime() <= limit) {
+    if (!matchesDay(schedule, t)) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return t;
+  }
+  return undefined;
+}
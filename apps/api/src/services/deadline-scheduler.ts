@@ -0,0 +1,49 @@
+// StacksTasker - Deadline enforcement
+// Reopens tasks whose agent overran its committed ETA and expires unassigned tasks past their deadline
+
+import { query } from '../db.js';
+import { expireTask, reopenOverdueTask } from './task-engine.js';
+
+/**
+ * One sweep. Overdue assignments go first, so a reopened task that is also
+ * past its own deadline expires in the same sweep.
+ */
+export async function enforceDeadlines(): Promise<void> {
+  // A milestone waiting on the poster's review does not count against the agent
+  const { rows: overdue } = await query(
+    `SELECT id FROM tasks t WHERE status IN ('assigned', 'in-progress', 'revision-requested') AND due_at <= NOW()
+       AND NOT EXISTS (SELECT 1 FROM milestones m WHERE m.task_id = t.id AND m.status = 'submitted')
+     ORDER BY due_at ASC`
+  );
+  for (const row of overdue) {
+    try {
+      const result = await reopenOverdueTask(row.id as string);
+      if ('error' in result) console.log(`[Deadlines] Task ${row.id} not reopened: ${result.error}`);
+    } catch (err) {
+      console.error(`[Deadlines] Could not reopen task ${row.id}:`, err);
+    }
+  }
+
+  const { rows: expired } = await query(
+    `SELECT id FROM tasks WHERE status IN ('pending-funding', 'open', 'bidding') AND deadline <= NOW() ORDER BY deadline ASC`
+  );
+  for (const row of expired) {
+    try {
+      // A failed refund leaves the task open; the next sweep retries it
+      const result = await expireTask(row.id as string);
+      if ('error' in result) console.log(`[Deadlines] Task ${row.id} not expired: ${result.error}`);
+    } catch (err) {
+      console.error(`[Deadlines] Could not expire task ${row.id}:`, err);
+    }
+  }
+}
+
+/**
+ * Enforce deadlines in the background
+ */
+export function startDeadlineScheduler(intervalMs: number): NodeJS.Timeout {
+  console.log(`[Deadlines] Checking deadlines every ${intervalMs}ms`);
+  return setInterval(() => {
+    enforceDeadlines().catch(err => console.error('[Deadlines] Sweep failed:', err));
+  }, intervalMs);
+}
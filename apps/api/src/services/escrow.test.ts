@@ -0,0 +1,214 @@
+// StacksTasker API - Escrow funding tests against a local facilitator stand-in
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { getAddressFromPrivateKey } from '@stacks/transactions';
+import { createPaymentPayload, CHAIN_IDS, type StacksPaymentPayload } from '@x402/stacks';
+import {
+  createFundingRequirement,
+  createTemplateFundingRequirement,
+  fundEscrow,
+  fundTemplateEscrow,
+  refundEscrow,
+  setEscrowPrivateKey,
+  setFacilitatorUrl,
+  type EscrowedTask,
+} from './escrow.js';
+import type { TaskTemplate } from '../types.js';
+
+// ─── Test setup ────────────────────────────────────────
+
+const ESCROW_KEY = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+const POSTER_KEY = 'e494f188c2d35887531ba474c433b1e41fadd8eb824aca983447fd4bb8b277a801';
+const ESCROW_ADDRESS = getAddressFromPrivateKey(ESCROW_KEY, 'testnet');
+const POSTER_ADDRESS = getAddressFromPrivateKey(POSTER_KEY, 'testnet');
+
+function createTask(overrides: Partial<EscrowedTask> = {}): EscrowedTask {
+  return {
+    id: 'abc12345',
+    title: 'Escrow test',
+    description: 'Fund me',
+    category: 'other',
+    bounty: '0.005',
+    bountyMicroStx: '5000',
+    status: 'pending-funding',
+    network: 'testnet',
+    posterAddress: POSTER_ADDRESS,
+    escrowAddress: ESCROW_ADDRESS,
+    rejectionCount: 0,
+    revisionCount: 0,
+    maxRevisions: 3,
+    revisionEscalation: 'dispute',
+    milestoneCount: 0,
+    teamSize: 0,
+    visibility: 'public',
+    auctionMode: 'open',
+    autoApproveOnPass: false,
+    reviewWindowSeconds: 259200,
+    approvedImplicitly: false,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+/** Signed transfer from the poster, built offline (explicit nonce + fee) */
+function pay(task: EscrowedTask, amount = task.bountyMicroStx): Promise<StacksPaymentPayload> {
+  return createPaymentPayload(
+    { ...createFundingRequirement(task), amount },
+    { privateKey: POSTER_KEY },
+    { nonce: 0, fee: '180' }
+  );
+}
+
+// Facilitator stand-in: records settle calls, answers with a canned result
+let facilitator: Server;
+let settled: StacksPaymentPayload[] = [];
+let settleResponse: { success: boolean; txId?: string; error?: string };
+
+before(async () => {
+  facilitator = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    if (req.url === '/settle') {
+      settled.push((JSON.parse(Buffer.concat(chunks).toString()) as { payload: StacksPaymentPayload }).payload);
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(settleResponse));
+  });
+  await new Promise<void>(resolve => facilitator.listen(0, resolve));
+  setFacilitatorUrl(`http://127.0.0.1:${(facilitator.address() as AddressInfo).port}`);
+  setEscrowPrivateKey(ESCROW_KEY);
+});
+
+after(() => {
+  facilitator.close();
+});
+
+beforeEach(() => {
+  settled = [];
+  settleResponse = { success: true, txId: '0xfund' };
+});
+
+// ─── Tests ─────────────────────────────────────────────
+
+describe('createFundingRequirement', () => {
+  it('asks for the full bounty paid to the escrow wallet', () => {
+    const requirement = createFundingRequirement(createTask());
+    assert.equal(requirement.recipient, ESCROW_ADDRESS);
+    assert.equal(requirement.amount, '5000');
+    assert.equal(requirement.chainId, CHAIN_IDS.TESTNET);
+    assert.equal(requirement.resource, '/tasks/abc12345/fund');
+  });
+
+  it('uses the mainnet chain id for mainnet tasks', () => {
+    const requirement = createFundingRequirement(createTask({ network: 'mainnet' }));
+    assert.equal(requirement.chainId, CHAIN_IDS.MAINNET);
+  });
+});
+
+describe('fundEscrow', () => {
+  it('verifies and settles a matching payment through the facilitator', async () => {
+    const task = createTask();
+    const result = await fundEscrow(task, await pay(task));
+
+    assert.deepEqual(result, { txId: '0xfund' });
+    assert.equal(settled.length, 1);
+    assert.equal(settled[0].recipient, ESCROW_ADDRESS);
+  });
+
+  it('rejects an underpayment without settling it', async () => {
+    const task = createTask();
+    const result = await fundEscrow(task, await pay(task, '4999'));
+
+    assert.ok('error' in result);
+    assert.equal(result.code, 'payment_failed');
+    assert.match(result.error, /Insufficient amount/);
+    assert.equal(settled.length, 0);
+  });
+
+  it('rejects a payment to another recipient', async () => {
+    const task = createTask();
+    const payload = await pay(task);
+    const result = await fundEscrow(task, { ...payload, recipient: POSTER_ADDRESS });
+
+    assert.ok('error' in result);
+    assert.match(result.error, /Recipient mismatch/);
+    assert.equal(settled.length, 0);
+  });
+
+  it('rejects a self-payment relabelled as paying the escrow wallet', async () => {
+    const task = createTask();
+    const selfPayment = await createPaymentPayload(
+      { ...createFundingRequirement(task), recipient: POSTER_ADDRESS },
+      { privateKey: POSTER_KEY },
+      { nonce: 0, fee: '180' }
+    );
+    const result = await fundEscrow(task, { ...selfPayment, recipient: ESCROW_ADDRESS });
+
+    assert.ok('error' in result);
+    assert.equal(result.code, 'payment_failed');
+    assert.match(result.error, new RegExp(`Transaction pays ${POSTER_ADDRESS}, expected ${ESCROW_ADDRESS}`));
+    assert.equal(settled.length, 0);
+  });
+
+  it('rejects a transfer of anything but the exact bounty', async () => {
+    const task = createTask();
+    const result = await fundEscrow(task, await pay(task, '5001'));
+
+    assert.ok('error' in result);
+    assert.match(result.error, /Transaction pays 5001 uSTX, expected 5000 uSTX/);
+    assert.equal(settled.length, 0);
+  });
+
+  it('surfaces a failed settlement', async () => {
+    settleResponse = { success: false, error: 'NotEnoughFunds' };
+    const task = createTask();
+    const result = await fundEscrow(task, await pay(task));
+
+    assert.ok('error' in result);
+    assert.equal(result.code, 'payment_failed');
+    assert.match(result.error, /NotEnoughFunds/);
+  });
+});
+
+describe('fundTemplateEscrow', () => {
+  const template = {
+    id: 'tpl1',
+    title: 'Daily uptime check',
+    network: 'testnet',
+  } as TaskTemplate;
+  const requirement = createTemplateFundingRequirement(template, ESCROW_ADDRESS, '15000');
+
+  it('settles a prepayment of the whole amount to the escrow wallet', async () => {
+    const payload = await createPaymentPayload(requirement, { privateKey: POSTER_KEY }, { nonce: 0, fee: '180' });
+    assert.deepEqual(await fundTemplateEscrow(template, requirement, payload), { txId: '0xfund' });
+    assert.equal(settled.length, 1);
+  });
+
+  it('rejects a self-payment relabelled as a prepayment to the escrow wallet', async () => {
+    const selfPayment = await createPaymentPayload(
+      { ...requirement, recipient: POSTER_ADDRESS },
+      { privateKey: POSTER_KEY },
+      { nonce: 0, fee: '180' }
+    );
+    const result = await fundTemplateEscrow(template, requirement, { ...selfPayment, recipient: ESCROW_ADDRESS });
+
+    assert.ok('error' in result);
+    assert.equal(result.code, 'payment_failed');
+    assert.match(result.error, new RegExp(`Transaction pays ${POSTER_ADDRESS}, expected ${ESCROW_ADDRESS}`));
+    assert.equal(settled.length, 0);
+  });
+});
+
+describe('refundEscrow', () => {
+  it('refuses to refund a task held by a different escrow wallet', async () => {
+    const result = await refundEscrow(createTask({ escrowAddress: POSTER_ADDRESS }));
+
+    assert.ok('error' in result);
+    assert.match(result.error, /does not hold/);
+    assert.equal(settled.length, 0);
+  });
+});
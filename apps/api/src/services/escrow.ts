@@ -0,0 +1,355 @@
+// StacksTasker - Bounty escrow: x402 funding, release to agent, refund to poster
+
+import {
+  makeContractCall,
+  serializeTransaction,
+  deserializeTransaction,
+  getAddressFromPrivateKey,
+  Cl,
+  Pc,
+  PayloadType,
+  type StacksTransactionWire,
+} from '@stacks/transactions';
+import {
+  verifyPayment,
+  settlePayment,
+  createPaymentPayload,
+  createPaymentRequirement,
+  CHAIN_IDS,
+  type StacksPaymentPayload,
+  type StacksPaymentRequirement,
+} from '@x402/stacks';
+import type { Task, TaskTemplate, TeamPayout, NetworkType, ApiError } from '../types.js';
+
+// ─── Configuration ──────────────────────────────────────────
+
+const PAYMENT_CONTRACT_NAME = process.env.PAYMENT_CONTRACT_NAME || 'stackstasker-payments';
+const PAYMENT_CONTRACT_ADDRESS: Record<NetworkType, string> = {
+  testnet: process.env.PAYMENT_CONTRACT_ADDRESS || 'STV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8V496T8W',
+  mainnet: 'SPV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8TEM307V',
+};
+
+// Deployed contracts are immutable, so pay-team lives in its own versioned
+// contract; a new version is deployed alongside and selected here
+const TEAM_PAYMENT_CONTRACT_NAME = process.env.TEAM_PAYMENT_CONTRACT_NAME || 'stackstasker-team-payments-v1';
+const TEAM_PAYMENT_CONTRACT_ADDRESS: Record<NetworkType, string> = {
+  testnet: process.env.TEAM_PAYMENT_CONTRACT_ADDRESS || PAYMENT_CONTRACT_ADDRESS.testnet,
+  mainnet: process.env.TEAM_PAYMENT_CONTRACT_ADDRESS_MAINNET || PAYMENT_CONTRACT_ADDRESS.mainnet,
+};
+
+/**
+ * Fully qualified id of the payments contract (pay-task) on a network
+ */
+export function getPaymentContractId(network: NetworkType): string {
+  return `${PAYMENT_CONTRACT_ADDRESS[network]}.${PAYMENT_CONTRACT_NAME}`;
+}
+
+/**
+ * Fully qualified id of the team payments contract (pay-team) on a network
+ */
+export function getTeamPaymentContractId(network: NetworkType): string {
+  return `${TEAM_PAYMENT_CONTRACT_ADDRESS[network]}.${TEAM_PAYMENT_CONTRACT_NAME}`;
+}
+
+/**
+ * Facilitator URL for verification + settlement.
+ * When unset, payments are verified and broadcast locally.
+ */
+let facilitatorUrl: string | undefined = process.env.FACILITATOR_URL;
+
+export function setFacilitatorUrl(url: string | undefined) {
+  facilitatorUrl = url;
+}
+
+/**
+ * Key of the platform-held escrow wallet that receives bounties and pays them out
+ */
+let escrowPrivateKey: string | undefined = process.env.ESCROW_PRIVATE_KEY;
+
+export function setEscrowPrivateKey(privateKey: string | undefined) {
+  escrowPrivateKey = privateKey;
+}
+
+/**
+ * Escrow wallet address on a network, or an error if no escrow key is configured
+ */
+export function getEscrowAddress(network: NetworkType): string | ApiError {
+  if (!escrowPrivateKey) return { error: 'Escrow wallet is not configured (ESCROW_PRIVATE_KEY)' };
+  return getAddressFromPrivateKey(escrowPrivateKey, network);
+}
+
+/** A task whose bounty is (or is awaiting being) held by the escrow wallet */
+export type EscrowedTask = Task & { escrowAddress: string };
+
+export function hasEscrow(task: Task): task is EscrowedTask {
+  return !!task.escrowAddress;
+}
+
+function chainIdFor(network: NetworkType): number {
+  return network === 'mainnet' ? CHAIN_IDS.MAINNET : CHAIN_IDS.TESTNET;
+}
+
+// ─── Settlement ──────────────────────────────────────────
+
+/**
+ * Broadcast a signed payload (via facilitator or locally)
+ */
+async function settle(payload: StacksPaymentPayload, network: NetworkType): Promise<{ txId: string } | ApiError> {
+  let settlement: { success: boolean; txId?: string; error?: string };
+
+  try {
+    if (facilitatorUrl) {
+      const response = await fetch(`${facilitatorUrl}/settle`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ payload }),
+      });
+      settlement = await response.json() as { success: boolean; txId?: string; error?: string };
+    } else {
+      settlement = await settlePayment(payload, { type: network });
+    }
+  } catch (err) {
+    return { error: `Settlement failed: ${err instanceof Error ? err.message : 'facilitator unreachable'}`, code: 'payment_failed' };
+  }
+
+  if (!settlement.success || !settlement.txId) {
+    return { error: `Settlement failed: ${settlement.error ?? 'no transaction id returned'}`, code: 'payment_failed' };
+  }
+  return { txId: settlement.txId };
+}
+
+/**
+ * Wrap a transaction the escrow wallet signed as an x402 payload for settlement
+ */
+function toPaymentPayload(transaction: StacksTransactionWire, requirement: StacksPaymentRequirement): StacksPaymentPayload {
+  const spendingCondition = transaction.auth.spendingCondition;
+  return {
+    scheme: 'exact',
+    network: 'stacks',
+    chainId: requirement.chainId,
+    recipient: requirement.recipient,
+    amount: requirement.amount,
+    asset: 'STX',
+    nonce: Number(spendingCondition.nonce),
+    signature: 'signature' in spendingCondition ? spendingCondition.signature.data : '',
+    publicKey: spendingCondition.signer,
+    serializedTx: serializeTransaction(transaction),
+  };
+}
+
+// ─── Funding ──────────────────────────────────────────
+
+/**
+ * x402 requirement for funding a task's escrow with its full bounty
+ */
+export function createFundingRequirement(task: EscrowedTask): StacksPaymentRequirement {
+  return createPaymentRequirement(task.escrowAddress, task.bountyMicroStx, {
+    description: `Escrow funding for task ${task.id}: ${task.title}`,
+    resource: `/tasks/${task.id}/fund`,
+    chainId: chainIdFor(task.network),
+  });
+}
+
+/**
+ * Verify a funding payload against the task's requirement and settle it.
+ * Verification always runs locally so the facilitator never decides the amount or recipient.
+ * Settling only broadcasts the transfer: the task is funded once the payment
+ * confirmer sees it succeed on-chain.
+ */
+export async function fundEscrow(
+  task: EscrowedTask,
+  payload: StacksPaymentPayload
+): Promise<{ txId: string } | ApiError> {
+  return verifyAndSettle(payload, createFundingRequirement(task), task.network);
+}
+
+/**
+ * x402 requirement for prepaying a template's escrow balance with `amountMicroStx`
+ */
+export function createTemplateFundingRequirement(
+  template: TaskTemplate,
+  escrowAddress: string,
+  amountMicroStx: string
+): StacksPaymentRequirement {
+  return createPaymentRequirement(escrowAddress, amountMicroStx, {
+    description: `Escrow prepayment for template ${template.id}: ${template.title}`,
+    resource: `/templates/${template.id}/fund`,
+    chainId: chainIdFor(template.network),
+  });
+}
+
+/**
+ * Verify a prepayment payload against its requirement and settle it into the escrow wallet
+ */
+export async function fundTemplateEscrow(
+  template: TaskTemplate,
+  requirement: StacksPaymentRequirement,
+  payload: StacksPaymentPayload
+): Promise<{ txId: string } | ApiError> {
+  return verifyAndSettle(payload, requirement, template.network);
+}
+
+/**
+ * Decode the signed transaction of a funding payload and check it pays the
+ * requirement: an STX transfer of exactly the required amount to its recipient,
+ * on its chain. The payload's recipient and amount fields are only labels.
+ * Returns a mismatch reason, or undefined when the transaction pays what is owed.
+ */
+export function checkFundingTransaction(payload: StacksPaymentPayload, requirement: StacksPaymentRequirement): string | undefined {
+  if (!payload.serializedTx) return 'Payment has no signed transaction';
+
+  let transaction: StacksTransactionWire;
+  try {
+    transaction = deserializeTransaction(payload.serializedTx);
+  } catch {
+    return 'Payment transaction could not be decoded';
+  }
+
+  if (transaction.chainId !== requirement.chainId) {
+    return `Transaction is for chain ${transaction.chainId}, expected ${requirement.chainId}`;
+  }
+  const transfer = transaction.payload;
+  if (transfer.payloadType !== PayloadType.TokenTransfer) return 'Transaction is not an STX transfer';
+  if (transfer.recipient.value !== requirement.recipient) {
+    return `Transaction pays ${transfer.recipient.value}, expected ${requirement.recipient}`;
+  }
+  if (BigInt(transfer.amount) !== BigInt(requirement.amount)) {
+    return `Transaction pays ${transfer.amount} uSTX, expected ${requirement.amount} uSTX`;
+  }
+  return undefined;
+}
+
+async function verifyAndSettle(
+  payload: StacksPaymentPayload,
+  requirement: StacksPaymentRequirement,
+  network: NetworkType
+): Promise<{ txId: string } | ApiError> {
+  const verification = await verifyPayment(payload, requirement);
+  const reason = verification.valid ? checkFundingTransaction(payload, requirement) : verification.reason ?? 'unknown reason';
+  if (reason) return { error: `Payment invalid: ${reason}`, code: 'payment_failed' };
+
+  return settle(payload, network);
+}
+
+// ─── Release + Refund ──────────────────────────────────────────
+
+/**
+ * Pay the escrowed bounty (or an arbiter-awarded part of it) out through the payments contract:
+ * `pay-task` sends 99% to the agent and 1% to the platform wallet atomically.
+ */
+export async function releaseEscrow(
+  task: EscrowedTask,
+  agentWallet: string,
+  platformWallet: string,
+  amountMicroStx: string = task.bountyMicroStx
+): Promise<{ txId: string } | ApiError> {
+  const escrowAddress = getEscrowAddress(task.network);
+  if (typeof escrowAddress !== 'string') return escrowAddress;
+  if (escrowAddress !== task.escrowAddress) return { error: 'Configured escrow wallet does not hold this task\'s funds' };
+
+  const bountyMicro = BigInt(amountMicroStx);
+  const payoutMicro = bountyMicro - bountyMicro / 100n;
+
+  try {
+    const transaction = await makeContractCall({
+      contractAddress: PAYMENT_CONTRACT_ADDRESS[task.network],
+      contractName: PAYMENT_CONTRACT_NAME,
+      functionName: 'pay-task',
+      functionArgs: [Cl.principal(agentWallet), Cl.principal(platformWallet), Cl.uint(bountyMicro)],
+      postConditions: [Pc.principal(escrowAddress).willSendEq(bountyMicro).ustx()],
+      senderKey: escrowPrivateKey!,
+      network: task.network,
+    });
+
+    const requirement = createPaymentRequirement(agentWallet, payoutMicro.toString(), {
+      description: `Escrow release for task ${task.id}`,
+      chainId: chainIdFor(task.network),
+    });
+    return settle(toPaymentPayload(transaction, requirement), task.network);
+  } catch (err) {
+    return { error: `Could not build release transaction: ${err instanceof Error ? err.message : 'unknown error'}` };
+  }
+}
+
+/**
+ * Pay a team task's escrowed bounty out through the payments contract:
+ * `pay-team` takes the 1% platform fee once and sends each member its amount,
+ * all in one transaction. Member amounts must add up to the payout after the fee.
+ */
+export async function releaseEscrowToTeam(
+  task: EscrowedTask,
+  payouts: TeamPayout[],
+  platformWallet: string,
+  amountMicroStx: string = task.bountyMicroStx
+): Promise<{ txId: string } | ApiError> {
+  const escrowAddress = getEscrowAddress(task.network);
+  if (typeof escrowAddress !== 'string') return escrowAddress;
+  if (escrowAddress !== task.escrowAddress) return { error: 'Configured escrow wallet does not hold this task\'s funds' };
+
+  const bountyMicro = BigInt(amountMicroStx);
+  const payoutMicro = bountyMicro - bountyMicro / 100n;
+  const splitMicro = payouts.reduce((sum, payout) => sum + BigInt(payout.amountMicroStx), 0n);
+  if (splitMicro !== payoutMicro) return { error: `Team payouts add up to ${splitMicro} uSTX, not the ${payoutMicro} uSTX owed` };
+
+  try {
+    const members = payouts.map((payout) => Cl.tuple({ agent: Cl.principal(payout.walletAddress), amount: Cl.uint(BigInt(payout.amountMicroStx)) }));
+    const transaction = await makeContractCall({
+      contractAddress: TEAM_PAYMENT_CONTRACT_ADDRESS[task.network],
+      contractName: TEAM_PAYMENT_CONTRACT_NAME,
+      functionName: 'pay-team',
+      functionArgs: [Cl.list(members), Cl.principal(platformWallet), Cl.uint(bountyMicro)],
+      postConditions: [Pc.principal(escrowAddress).willSendEq(bountyMicro).ustx()],
+      senderKey: escrowPrivateKey!,
+      network: task.network,
+    });
+
+    // The lead member stands in as the x402 recipient; the contract call pays everyone
+    const requirement = createPaymentRequirement(payouts[0].walletAddress, payoutMicro.toString(), {
+      description: `Escrow release to the team for task ${task.id}`,
+      chainId: chainIdFor(task.network),
+    });
+    return settle(toPaymentPayload(transaction, requirement), task.network);
+  } catch (err) {
+    return { error: `Could not build release transaction: ${err instanceof Error ? err.message : 'unknown error'}` };
+  }
+}
+
+/**
+ * Return the escrowed bounty (or part of it) to the poster
+ */
+export async function refundEscrow(
+  task: EscrowedTask,
+  amountMicroStx: string = task.bountyMicroStx
+): Promise<{ txId: string } | ApiError> {
+  return sendRefund(task.network, task.escrowAddress, task.posterAddress, amountMicroStx, `Escrow refund for task ${task.id}`);
+}
+
+/**
+ * Return what is left of a template's prepaid balance to its poster
+ */
+export async function refundTemplateEscrow(template: TaskTemplate): Promise<{ txId: string } | ApiError> {
+  if (!template.escrowAddress) return { error: 'Template has no prepaid balance' };
+  return sendRefund(template.network, template.escrowAddress, template.posterAddress, template.balanceMicroStx,
+    `Escrow refund for template ${template.id}`);
+}
+
+async function sendRefund(
+  network: NetworkType,
+  heldBy: string,
+  posterAddress: string,
+  amountMicroStx: string,
+  description: string
+): Promise<{ txId: string } | ApiError> {
+  const escrowAddress = getEscrowAddress(network);
+  if (typeof escrowAddress !== 'string') return escrowAddress;
+  if (escrowAddress !== heldBy) return { error: 'Configured escrow wallet does not hold these funds' };
+
+  const requirement = createPaymentRequirement(posterAddress, amountMicroStx, { description, chainId: chainIdFor(network) });
+
+  try {
+    const payload = await createPaymentPayload(requirement, { privateKey: escrowPrivateKey!, address: escrowAddress });
+    return settle(payload, network);
+  } catch (err) {
+    return { error: `Could not build refund transaction: ${err instanceof Error ? err.message : 'unknown error'}` };
+  }
+}
@@ -0,0 +1,52 @@
+// StacksTasker API - Event log filter tests
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchesFilter, type LoggedEvent } from './event-log.js';
+import type { WebhookEventType } from '../types.js';
+
+function entry(type: WebhookEventType, taskId?: string, category?: string): LoggedEvent {
+  return {
+    seq: 1,
+    event: { id: 'evt', type, timestamp: new Date().toISOString(), data: {} },
+    taskId,
+    category,
+  };
+}
+
+describe('matchesFilter', () => {
+  it('passes everything without a filter', () => {
+    assert.equal(matchesFilter(entry('bid.placed', 't1', 'coding'), {}), true);
+  });
+
+  it('matches listed types and the wildcard', () => {
+    assert.equal(matchesFilter(entry('bid.placed'), { types: ['task.created', 'bid.placed'] }), true);
+    assert.equal(matchesFilter(entry('message.new'), { types: ['task.created'] }), false);
+    assert.equal(matchesFilter(entry('message.new'), { types: ['*'] }), true);
+  });
+
+  it('excludes events for another category or task', () => {
+    assert.equal(matchesFilter(entry('task.created', 't1', 'coding'), { category: 'testing' }), false);
+    assert.equal(matchesFilter(entry('task.created', 't1', 'coding'), { taskId: 't2' }), false);
+    assert.equal(matchesFilter(entry('task.created', 't1', 'coding'), { category: 'coding', taskId: 't1' }), true);
+  });
+
+  it('keeps events that carry no category or task id, like webhook filters do', () => {
+    assert.equal(matchesFilter(entry('task.created'), { category: 'coding', taskId: 't1' }), true);
+  });
+});
+
+describe('matchesFilter audience', () => {
+  const inviteOnly: LoggedEvent = { ...entry('task.created', 't1'), audience: ['ST_POSTER', 'agent-1', 'ST_AGENT'] };
+
+  it('hides events about invite-only tasks from anonymous and uninvited viewers', () => {
+    assert.equal(matchesFilter(inviteOnly, {}), false);
+    assert.equal(matchesFilter(inviteOnly, { viewer: 'ST_STRANGER' }), false);
+  });
+
+  it('shows them to the poster and invitees by wallet or agent id', () => {
+    assert.equal(matchesFilter(inviteOnly, { viewer: 'ST_POSTER' }), true);
+    assert.equal(matchesFilter(inviteOnly, { viewer: 'ST_AGENT' }), true);
+    assert.equal(matchesFilter(inviteOnly, { viewer: 'agent-1' }), true);
+  });
+});
@@ -0,0 +1,136 @@
+// StacksTasker - Append-only marketplace event log
+// Every event is written here first; webhooks, the SSE stream and GET /events all read from it
+
+import { randomUUID } from 'crypto';
+import { query } from '../db.js';
+import type { WebhookEvent, WebhookEventType, EventFilter } from '../types.js';
+
+/** A logged event with the metadata used for filtering */
+export interface LoggedEvent {
+  seq: number;
+  event: WebhookEvent;
+  taskId?: string;
+  category?: string;
+  /** Wallets and agent ids an event about an invite-only task may be shown to; absent for public events */
+  audience?: string[];
+}
+
+interface EventContext {
+  taskId?: string;
+  category?: string;
+}
+
+/** Consumers woken after each recorded event (stream subscribers, webhook fan-out) */
+const listeners: Array<() => void> = [];
+
+export function onEventRecorded(listener: () => void): void {
+  listeners.push(listener);
+}
+
+/**
+ * Shared matching rules for webhooks, the stream and GET /events: a filter
+ * only excludes events that carry a different category or task id, and
+ * events with an audience reach only a viewer in it
+ */
+export function matchesFilter(entry: LoggedEvent, filter: EventFilter): boolean {
+  if (entry.audience && !(filter.viewer && entry.audience.includes(filter.viewer))) return false;
+  if (filter.types?.length && !filter.types.includes('*') && !filter.types.includes(entry.event.type)) {
+    return false;
+  }
+  if (filter.category && entry.category && filter.category !== entry.category) return false;
+  if (filter.taskId && entry.taskId && filter.taskId !== entry.taskId) return false;
+  return true;
+}
+
+export function rowToLoggedEvent(row: Record<string, unknown>): LoggedEvent {
+  return {
+    seq: Number(row.seq),
+    event: JSON.parse(row.payload as string) as WebhookEvent,
+    taskId: (row.task_id as string) || undefined,
+    category: (row.category as string) || undefined,
+    audience: (row.audience as string[] | null) ?? undefined,
+  };
+}
+
+/**
+ * Audience of an event about task $3: null for public tasks; for invite-only
+ * ones the poster and, by wallet and agent id, the assigned agent, team
+ * members and invitees that have not declined, as they stand when it is logged
+ */
+const TASK_AUDIENCE_SQL = `
+  SELECT ARRAY[t.poster_address] || ARRAY(
+    SELECT unnest(ARRAY[a.id, a.wallet_address]) FROM agents a
+    WHERE a.id = t.assigned_agent
+       OR a.id IN (SELECT agent_id FROM task_members WHERE task_id = t.id)
+       OR a.id IN (SELECT agent_id FROM invitations WHERE task_id = t.id AND status <> 'declined')
+  )
+  FROM tasks t WHERE t.id = $3 AND t.visibility = 'invite-only'`;
+
+/**
+ * Append an event to the log and wake its consumers. Failures are logged,
+ * never thrown, so a mutation that already committed still succeeds.
+ */
+export async function recordEvent(
+  eventType: WebhookEventType,
+  eventData: WebhookEvent['data'],
+  context?: EventContext
+): Promise<void> {
+  const event: WebhookEvent = {
+    id: randomUUID(),
+    type: eventType,
+    timestamp: new Date().toISOString(),
+    data: eventData,
+  };
+
+  try {
+    await query(
+      `INSERT INTO events (id, type, task_id, category, payload, audience)
+       VALUES ($1, $2, $3::text, $4, $5, (${TASK_AUDIENCE_SQL}))`,
+      [event.id, eventType, context?.taskId ?? null, context?.category ?? null, JSON.stringify(event)]
+    );
+  } catch (err) {
+    console.error(`[Events] Record error: ${err instanceof Error ? err.message : err}`);
+    return;
+  }
+
+  for (const listener of listeners) listener();
+}
+
+/**
+ * Highest sequence number in the log (0 when empty)
+ */
+export async function getLatestSeq(): Promise<number> {
+  const { rows } = await query('SELECT COALESCE(MAX(seq), 0) AS seq FROM events');
+  return Number(rows[0].seq);
+}
+
+/**
+ * Events after `afterSeq` matching the filter, oldest first
+ */
+export async function listEvents(afterSeq: number, filter: EventFilter, limit: number): Promise<LoggedEvent[]> {
+  const conditions = ['seq > $1'];
+  const params: unknown[] = [afterSeq];
+  let idx = 2;
+
+  if (filter.types?.length && !filter.types.includes('*')) {
+    conditions.push(`type = ANY($${idx++})`);
+    params.push(filter.types);
+  }
+  if (filter.category) {
+    conditions.push(`(category IS NULL OR category = $${idx++})`);
+    params.push(filter.category);
+  }
+  if (filter.taskId) {
+    conditions.push(`(task_id IS NULL OR task_id = $${idx++})`);
+    params.push(filter.taskId);
+  }
+  conditions.push(`(audience IS NULL OR $${idx++}::text = ANY(audience))`);
+  params.push(filter.viewer ?? null);
+
+  params.push(limit);
+  const { rows } = await query(
+    `SELECT * FROM events WHERE ${conditions.join(' AND ')} ORDER BY seq ASC LIMIT $${idx}`,
+    params
+  );
+  return rows.map(rowToLoggedEvent);
+}
@@ -0,0 +1,77 @@
+// StacksTasker - Live event fan-out for Server-Sent Events subscribers
+// Reads the persisted event log so every API instance streams the same ordered events
+
+import { listEvents, matchesFilter, onEventRecorded, type LoggedEvent } from './event-log.js';
+import type { EventFilter } from '../types.js';
+
+/** How often the log is polled while anyone is subscribed */
+const POLL_INTERVAL_MS = 1000;
+/** Rows read per poll; a subscriber far behind catches up over several polls */
+const POLL_BATCH_SIZE = 500;
+
+interface Subscriber {
+  /** Highest sequence number this subscriber has been sent (or skipped) */
+  cursor: number;
+  filter: EventFilter;
+  send: (entry: LoggedEvent) => void;
+}
+
+const subscribers = new Set<Subscriber>();
+let pollTimer: NodeJS.Timeout | undefined;
+let polling = false;
+let pollRequested = false;
+
+async function poll(): Promise<void> {
+  if (subscribers.size === 0) return;
+  if (polling) {
+    pollRequested = true;
+    return;
+  }
+  polling = true;
+  pollRequested = false;
+  try {
+    // Subscribers joining mid-poll wait for the next one, which reads from their cursor
+    const batch = [...subscribers];
+    const from = Math.min(...batch.map((sub) => sub.cursor));
+    const entries = await listEvents(from, {}, POLL_BATCH_SIZE);
+    if (entries.length === 0) return;
+
+    const lastSeq = entries[entries.length - 1].seq;
+    for (const sub of batch) {
+      if (!subscribers.has(sub)) continue;
+      for (const entry of entries) {
+        if (entry.seq > sub.cursor && matchesFilter(entry, sub.filter)) sub.send(entry);
+      }
+      sub.cursor = Math.max(sub.cursor, lastSeq);
+    }
+
+    // More rows waiting: keep reading instead of waiting for the next tick
+    if (entries.length === POLL_BATCH_SIZE) pollRequested = true;
+  } catch (err) {
+    console.error(`[EventStream] Poll failed: ${err instanceof Error ? err.message : err}`);
+  } finally {
+    polling = false;
+    if (pollRequested) setImmediate(() => void poll());
+  }
+}
+
+/**
+ * Stream events after `afterSeq` that match the filter. Returns an unsubscribe function.
+ */
+export function subscribe(afterSeq: number, filter: EventFilter, send: Subscriber['send']): () => void {
+  const sub: Subscriber = { cursor: afterSeq, filter, send };
+  subscribers.add(sub);
+  if (!pollTimer) pollTimer = setInterval(() => void poll(), POLL_INTERVAL_MS);
+  void poll();
+
+  return () => {
+    subscribers.delete(sub);
+    if (subscribers.size === 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = undefined;
+    }
+  };
+}
+
+// Events recorded on this instance reach local subscribers without waiting for the next poll
+onEventRecorded(() => void poll());
@@ -0,0 +1,134 @@
+// StacksTasker - JSON Schema checks
+// The subset of JSON Schema posters can declare for JSON result artifacts
+
+import type { JsonSchema, JsonSchemaType } from '../types.js';
+
+const TYPES: JsonSchemaType[] = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+
+/** Errors reported per validation, so a huge payload cannot produce a huge response */
+const MAX_ERRORS = 20;
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a poster's schema uses only the supported keywords, with the right shapes.
+ * Returns the first problem found.
+ */
+export function checkSchema(schema: unknown, path = '$'): string | undefined {
+  if (!isObject(schema)) return `${path} must be an object`;
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  for (const type of types) {
+    if (!TYPES.includes(type as JsonSchemaType)) return `${path}.type must be one of: ${TYPES.join(', ')}`;
+  }
+  for (const key of ['minimum', 'maximum', 'minLength', 'maxLength', 'minItems', 'maxItems'] as const) {
+    if (schema[key] !== undefined && typeof schema[key] !== 'number') return `${path}.${key} must be a number`;
+  }
+  if (schema.required !== undefined && (!Array.isArray(schema.required) || schema.required.some((k) => typeof k !== 'string'))) {
+    return `${path}.required must be an array of property names`;
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) return `${path}.enum must be an array`;
+  if (schema.pattern !== undefined) {
+    if (typeof schema.pattern !== 'string') return `${path}.pattern must be a string`;
+    try {
+      new RegExp(schema.pattern);
+    } catch {
+      return `${path}.pattern is not a valid regular expression`;
+    }
+  }
+  if (schema.properties !== undefined) {
+    if (!isObject(schema.properties)) return `${path}.properties must be an object`;
+    for (const [key, sub] of Object.entries(schema.properties)) {
+      const problem = checkSchema(sub, `${path}.properties.${key}`);
+      if (problem) return problem;
+    }
+  }
+  if (schema.items !== undefined) {
+    const problem = checkSchema(schema.items, `${path}.items`);
+    if (problem) return problem;
+  }
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== 'boolean') {
+    const problem = checkSchema(schema.additionalProperties, `${path}.additionalProperties`);
+    if (problem) return problem;
+  }
+  return undefined;
+}
+
+/**
+ * Validate a value against a schema; returns one message per violation (empty when valid)
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$', errors: string[] = []): string[] {
+  if (errors.length >= MAX_ERRORS) return errors;
+
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    // Integers are numbers too
+    if (!allowed.includes(actual) && !(actual === 'integer' && allowed.includes('number'))) {
+      errors.push(`${path} should be ${allowed.join(' or ')}, not ${actual}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path} should be one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} should be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} should be at most ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path} should be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path} should be at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) errors.push(`${path} should match ${schema.pattern}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path} should have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path} should have at most ${schema.maxItems} items`);
+    if (schema.items) value.forEach((item, i) => validateJson(item, schema.items!, `${path}[${i}]`, errors));
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const sub = schema.properties?.[key];
+      if (sub) validateJson(item, sub, `${path}.${key}`, errors);
+      else if (schema.additionalProperties === false) errors.push(`${path}.${key} is not allowed`);
+      else if (isObject(schema.additionalProperties)) validateJson(item, schema.additionalProperties, `${path}.${key}`, errors);
+    }
+  }
+
+  return errors.slice(0, MAX_ERRORS);
+}
+
+/**
+ * Paths whose values differ between two JSON documents, for comparing artifact versions
+ */
+export function diffJsonPaths(before: unknown, after: unknown, path = '$', paths: string[] = [], limit = 100): string[] {
+  if (paths.length >= limit) return paths;
+  if (isObject(before) && isObject(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      diffJsonPaths(before[key], after[key], `${path}.${key}`, paths, limit);
+    }
+  } else if (Array.isArray(before) && Array.isArray(after)) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      diffJsonPaths(before[i], after[i], `${path}[${i}]`, paths, limit);
+    }
+  } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+    paths.push(path);
+  }
+  return paths.slice(0, limit);
+}
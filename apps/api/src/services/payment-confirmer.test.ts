@@ -0,0 +1,265 @@
+// StacksTasker API - Payment confirmation tests
+
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Cl, cvToHex } from '@stacks/transactions';
+import { checkTransactionStatus, type ContractCallDetails } from '@x402/stacks';
+import pg from 'pg';
+import { checkPaymentCall, checkFundingTransfer, confirmTemplatePrepayment, type ExpectedPayment } from './payment-confirmer.js';
+import { getPaymentContractId, getTeamPaymentContractId } from './escrow.js';
+import type { TaskTemplate } from '../types.js';
+
+// ─── Test setup ────────────────────────────────────────
+
+const AGENT_WALLET = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const PLATFORM_WALLET = 'STV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8V496T8W';
+const MEMBER_WALLET = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+
+const expected: ExpectedPayment = {
+  network: 'testnet',
+  agentWallet: AGENT_WALLET,
+  platformWallet: PLATFORM_WALLET,
+  bountyMicroStx: '5000',
+};
+
+function payTask(overrides: Partial<ContractCallDetails> = {}): ContractCallDetails {
+  return {
+    contractId: getPaymentContractId('testnet'),
+    functionName: 'pay-task',
+    functionArgs: [Cl.principal(AGENT_WALLET), Cl.principal(PLATFORM_WALLET), Cl.uint(5000)],
+    ...overrides,
+  };
+}
+
+// ─── Tests ─────────────────────────────────────────────
+
+describe('checkPaymentCall', () => {
+  it('accepts a pay-task call for the full bounty to the agent and platform', () => {
+    assert.equal(checkPaymentCall(payTask(), expected), undefined);
+  });
+
+  it('rejects a transaction that is not a contract call', () => {
+    assert.match(checkPaymentCall(undefined, expected)!, /not a contract call/);
+  });
+
+  it('rejects a call to another contract', () => {
+    const reason = checkPaymentCall(payTask({ contractId: `${AGENT_WALLET}.stackstasker-payments` }), expected);
+    assert.match(reason!, /expected STV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8V496T8W\.stackstasker-payments/);
+  });
+
+  it('rejects a payment to a different agent wallet', () => {
+    const reason = checkPaymentCall(payTask({
+      functionArgs: [Cl.principal(PLATFORM_WALLET), Cl.principal(PLATFORM_WALLET), Cl.uint(5000)],
+    }), expected);
+    assert.match(reason!, /expected agent wallet/);
+  });
+
+  it('rejects a fee sent to a different platform wallet', () => {
+    const reason = checkPaymentCall(payTask({
+      functionArgs: [Cl.principal(AGENT_WALLET), Cl.principal(AGENT_WALLET), Cl.uint(5000)],
+    }), expected);
+    assert.match(reason!, /Platform fee goes to/);
+  });
+
+  it('rejects an underpayment', () => {
+    const reason = checkPaymentCall(payTask({
+      functionArgs: [Cl.principal(AGENT_WALLET), Cl.principal(PLATFORM_WALLET), Cl.uint(4999)],
+    }), expected);
+    assert.match(reason!, /Payment is 4999 uSTX, expected 5000 uSTX/);
+  });
+
+  it('accepts a poster-paid call only when the poster sent it', () => {
+    const posterPaid = { ...expected, sender: MEMBER_WALLET };
+    assert.equal(checkPaymentCall(payTask(), posterPaid, MEMBER_WALLET), undefined);
+    assert.match(checkPaymentCall(payTask(), posterPaid, AGENT_WALLET)!, /sent by ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG, expected the poster/);
+    assert.match(checkPaymentCall(payTask(), posterPaid)!, /sent by an unknown wallet/);
+  });
+});
+
+describe('checkPaymentCall for a team', () => {
+  const teamExpected: ExpectedPayment = {
+    ...expected,
+    team: [
+      { agentId: 'lead', walletAddress: AGENT_WALLET, amountMicroStx: '2970' },
+      { agentId: 'member', walletAddress: MEMBER_WALLET, amountMicroStx: '1980' },
+    ],
+  };
+  const member = (wallet: string, amount: number) => Cl.tuple({ agent: Cl.principal(wallet), amount: Cl.uint(amount) });
+  const payTeam = (members: ReturnType<typeof member>[]) => payTask({
+    contractId: getTeamPaymentContractId('testnet'),
+    functionName: 'pay-team',
+    functionArgs: [Cl.list(members), Cl.principal(PLATFORM_WALLET), Cl.uint(5000)],
+  });
+
+  it('accepts a pay-team call paying each member its share', () => {
+    assert.equal(checkPaymentCall(payTeam([member(AGENT_WALLET, 2970), member(MEMBER_WALLET, 1980)]), teamExpected), undefined);
+  });
+
+  it('expects pay-team on the versioned team payments contract, not the pay-task one', () => {
+    assert.equal(getTeamPaymentContractId('testnet'), 'STV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8V496T8W.stackstasker-team-payments-v1');
+    const onPayTaskContract = { ...payTeam([member(AGENT_WALLET, 2970), member(MEMBER_WALLET, 1980)]), contractId: getPaymentContractId('testnet') };
+    assert.match(checkPaymentCall(onPayTaskContract, teamExpected)!, /expected STV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8V496T8W\.stackstasker-team-payments-v1/);
+  });
+
+  it('rejects a pay-task call or a different split', () => {
+    assert.match(checkPaymentCall(payTask({ contractId: getTeamPaymentContractId('testnet') }), teamExpected)!, /expected pay-team/);
+    assert.match(checkPaymentCall(payTeam([member(AGENT_WALLET, 4950)]), teamExpected)!, /split 1 ways, expected 2 team members/);
+    const reason = checkPaymentCall(payTeam([member(AGENT_WALLET, 1980), member(MEMBER_WALLET, 2970)]), teamExpected);
+    assert.match(reason!, /Team member 1 is paid 1980 uSTX/);
+  });
+});
+
+describe('checkFundingTransfer', () => {
+  const ESCROW_WALLET = PLATFORM_WALLET;
+
+  it('accepts a transfer of the bounty to the escrow wallet', () => {
+    assert.equal(checkFundingTransfer({ recipient: ESCROW_WALLET, amount: '5000' }, ESCROW_WALLET, '5000'), undefined);
+  });
+
+  it('rejects a transfer to another wallet', () => {
+    const reason = checkFundingTransfer({ recipient: MEMBER_WALLET, amount: '5000' }, ESCROW_WALLET, '5000');
+    assert.match(reason!, /Transfer goes to ST2JHG/);
+  });
+
+  it('rejects a transfer of another amount', () => {
+    const reason = checkFundingTransfer({ recipient: ESCROW_WALLET, amount: '4999' }, ESCROW_WALLET, '5000');
+    assert.match(reason!, /Transfer is 4999 uSTX, expected 5000 uSTX/);
+  });
+
+  it('rejects a transaction that is not a transfer', () => {
+    assert.equal(checkFundingTransfer(undefined, ESCROW_WALLET, '5000'), 'Transaction is not an STX transfer');
+  });
+});
+
+describe('checkTransactionStatus', () => {
+  // Stacks API stand-in serving a confirmed pay-task call and a confirmed funding transfer
+  let stacksApi: Server;
+  let apiUrl: string;
+
+  before(async () => {
+    stacksApi = createServer((req, res) => {
+      if (req.url === '/extended/v1/tx/0xfund') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          tx_status: 'success',
+          sender_address: AGENT_WALLET,
+          token_transfer: { recipient_address: PLATFORM_WALLET, amount: '5000', memo: '0x' },
+        }));
+        return;
+      }
+      if (req.url !== '/extended/v1/tx/0xpay') {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        tx_status: 'success',
+        block_height: 42,
+        sender_address: PLATFORM_WALLET,
+        contract_call: {
+          contract_id: getPaymentContractId('testnet'),
+          function_name: 'pay-task',
+          function_args: payTask().functionArgs.map(arg => ({ hex: cvToHex(arg) })),
+        },
+      }));
+    });
+    await new Promise<void>(resolve => stacksApi.listen(0, resolve));
+    apiUrl = `http://127.0.0.1:${(stacksApi.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    stacksApi.close();
+  });
+
+  it('decodes the contract call so it can be checked', async () => {
+    const status = await checkTransactionStatus('0xpay', { type: 'testnet', apiUrl });
+    assert.equal(status.status, 'success');
+    assert.equal(status.blockHeight, 42);
+    assert.equal(checkPaymentCall(status.contractCall, expected), undefined);
+  });
+
+  it('decodes an STX transfer so its recipient and amount can be checked', async () => {
+    const status = await checkTransactionStatus('0xfund', { type: 'testnet', apiUrl });
+    assert.equal(status.status, 'success');
+    assert.deepEqual(status.tokenTransfer, { recipient: PLATFORM_WALLET, amount: '5000' });
+    assert.equal(checkFundingTransfer(status.tokenTransfer, PLATFORM_WALLET, '5000'), undefined);
+  });
+
+  it('reports unknown transactions as not found', async () => {
+    const status = await checkTransactionStatus('0xmissing', { type: 'testnet', apiUrl });
+    assert.equal(status.status, 'not_found');
+  });
+});
+
+describe('confirmTemplatePrepayment', () => {
+  // Stacks API stand-in: 0xprepay pays the escrow wallet the prepayment, 0xself pays the poster back
+  const ESCROW_WALLET = PLATFORM_WALLET;
+  let stacksApi: Server;
+  const transfers: Record<string, { recipient_address: string; amount: string }> = {
+    '/extended/v1/tx/0xprepay': { recipient_address: ESCROW_WALLET, amount: '15000' },
+    '/extended/v1/tx/0xself': { recipient_address: MEMBER_WALLET, amount: '15000' },
+  };
+  let balance: string;
+  let prepaymentError: string | undefined;
+
+  const template = (txId: string) => ({
+    id: 'tpl1',
+    network: 'testnet',
+    balanceMicroStx: '0',
+    escrowAddress: ESCROW_WALLET,
+    prepaymentTxId: txId,
+    prepaymentMicroStx: '15000',
+    prepaymentSubmittedAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  }) as TaskTemplate;
+
+  before(async () => {
+    stacksApi = createServer((req, res) => {
+      const transfer = transfers[req.url ?? ''];
+      if (!transfer) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ tx_status: 'success', sender_address: MEMBER_WALLET, token_transfer: { ...transfer, memo: '0x' } }));
+    });
+    await new Promise<void>(resolve => stacksApi.listen(0, resolve));
+    process.env.STACKS_API_URL = `http://127.0.0.1:${(stacksApi.address() as AddressInfo).port}`;
+
+    balance = '0';
+    mock.method(pg.Pool.prototype, 'query', async (sql: string, params: unknown[] = []) => {
+      const now = new Date();
+      const row = { id: 'tpl1', network: 'testnet', schedule: '0 9 * * *', created_at: now, updated_at: now };
+      if (sql.includes('prepayment_micro_stx::numeric')) {
+        balance = (BigInt(balance) + 15000n).toString();
+        return { rows: [{ ...row, balance_micro_stx: balance, escrow_tx_id: params[2] }] };
+      }
+      if (sql.includes('prepayment_error = $1')) {
+        prepaymentError = params[0] as string;
+        return { rows: [{ ...row, balance_micro_stx: balance, prepayment_error: prepaymentError }] };
+      }
+      return { rows: [] };
+    });
+  });
+
+  after(() => {
+    mock.restoreAll();
+    delete process.env.STACKS_API_URL;
+    stacksApi.close();
+  });
+
+  it('credits the balance once the transfer to the escrow wallet confirms', async () => {
+    const confirmed = await confirmTemplatePrepayment(template('0xprepay'));
+    assert.equal(confirmed.balanceMicroStx, '15000');
+    assert.equal(confirmed.escrowTxId, '0xprepay');
+  });
+
+  it('drops a confirmed transfer that paid another wallet without crediting anything', async () => {
+    balance = '0';
+    const rejected = await confirmTemplatePrepayment(template('0xself'));
+    assert.equal(rejected.balanceMicroStx, '0');
+    assert.match(prepaymentError!, /Transfer goes to ST2JHG.*, expected escrow wallet/);
+  });
+});
@@ -0,0 +1,311 @@
+// StacksTasker - Payment confirmation for funded and approved tasks and milestones
+// Tasks wait in pending-funding until their escrow transfer is seen on-chain, template
+// prepayments join the balance only then, and approved tasks and milestones wait in
+// payment-pending until the pay-task call is
+
+import { ClarityType, type ClarityValue } from '@stacks/transactions';
+import { checkTransactionStatus, type ContractCallDetails, type TokenTransferDetails } from '@x402/stacks';
+import { query } from '../db.js';
+import {
+  getTask,
+  getAgent,
+  getMilestone,
+  completePayment,
+  failPayment,
+  completeMilestonePayment,
+  failMilestonePayment,
+  completeFunding,
+  failFunding,
+  teamPayouts,
+} from './task-engine.js';
+import { getTemplate, completeTemplatePrepayment, failTemplatePrepayment } from './task-templates.js';
+import { getPaymentContractId, getTeamPaymentContractId, hasEscrow } from './escrow.js';
+import type { Task, Milestone, TaskTemplate, TeamPayout, NetworkType } from '../types.js';
+
+/** How long a transaction may stay unknown to the API before the payment is rejected */
+const NOT_FOUND_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** What the pay-task (or pay-team) call for an approved task must look like */
+export interface ExpectedPayment {
+  network: NetworkType;
+  agentWallet: string;
+  platformWallet: string;
+  /** Amount passed to pay-task: the bounty, a milestone's share, or the share an arbiter awarded */
+  bountyMicroStx: string;
+  /** Team tasks: what each member is owed, in order. The call must be pay-team; agentWallet is not used. */
+  team?: TeamPayout[];
+  /** Poster-paid tasks: the poster's wallet, which must have sent the call itself */
+  sender?: string;
+}
+
+function principalOf(cv: ClarityValue | undefined): string | undefined {
+  if (cv?.type === ClarityType.PrincipalStandard) return cv.value;
+  return undefined;
+}
+
+function uintOf(cv: ClarityValue | undefined): bigint | undefined {
+  if (cv?.type === ClarityType.UInt) return BigInt(cv.value);
+  return undefined;
+}
+
+/**
+ * Compare the member list of a pay-team call against what each member is owed
+ */
+function checkTeamPayouts(cv: ClarityValue | undefined, team: TeamPayout[]): string | undefined {
+  const members = cv?.type === ClarityType.List ? cv.value : undefined;
+  if (!members || members.length !== team.length) {
+    return `Payment is split ${members ? `${members.length} ways` : 'in an invalid member list'}, expected ${team.length} team members`;
+  }
+  for (const [i, payout] of team.entries()) {
+    const member = members[i];
+    const fields = member.type === ClarityType.Tuple ? member.value : {};
+    const wallet = principalOf(fields.agent);
+    const amount = uintOf(fields.amount);
+    if (wallet !== payout.walletAddress || amount !== BigInt(payout.amountMicroStx)) {
+      return `Team member ${i + 1} is paid ${amount ?? 'an invalid amount'} uSTX at ${wallet ?? 'an invalid principal'}, expected ${payout.amountMicroStx} uSTX at ${payout.walletAddress}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Compare a decoded contract call against the payment owed.
+ * `pay-task` splits the bounty itself (99% agent, 1% platform), so matching
+ * the recipients and the full bounty proves both legs. `pay-team`, on the team
+ * payments contract, is matched member by member; the contract checks the amounts add up to the bounty less the fee.
+ * When a sender is expected, a call made from any other wallet is refused so a
+ * poster cannot claim someone else's payment.
+ * Returns a mismatch reason, or undefined when the call pays what is owed.
+ */
+export function checkPaymentCall(call: ContractCallDetails | undefined, expected: ExpectedPayment, sender?: string): string | undefined {
+  if (!call) return 'Transaction is not a contract call';
+  if (expected.sender && sender !== expected.sender) {
+    return `Transaction was sent by ${sender ?? 'an unknown wallet'}, expected the poster ${expected.sender}`;
+  }
+
+  const contractId = expected.team ? getTeamPaymentContractId(expected.network) : getPaymentContractId(expected.network);
+  if (call.contractId !== contractId) return `Transaction calls ${call.contractId}, expected ${contractId}`;
+  const functionName = expected.team ? 'pay-team' : 'pay-task';
+  if (call.functionName !== functionName) return `Transaction calls ${call.functionName}, expected ${functionName}`;
+
+  const [recipient, platform, bounty] = call.functionArgs;
+  if (expected.team) {
+    const mismatch = checkTeamPayouts(recipient, expected.team);
+    if (mismatch) return mismatch;
+  } else {
+    const agentWallet = principalOf(recipient);
+    if (agentWallet !== expected.agentWallet) {
+      return `Payment goes to ${agentWallet ?? 'an invalid principal'}, expected agent wallet ${expected.agentWallet}`;
+    }
+  }
+  const platformWallet = principalOf(platform);
+  if (platformWallet !== expected.platformWallet) {
+    return `Platform fee goes to ${platformWallet ?? 'an invalid principal'}, expected ${expected.platformWallet}`;
+  }
+  const amount = uintOf(bounty);
+  if (amount === undefined || amount !== BigInt(expected.bountyMicroStx)) {
+    return `Payment is ${amount ?? 'an invalid amount'} uSTX, expected ${expected.bountyMicroStx} uSTX`;
+  }
+  return undefined;
+}
+
+/**
+ * Compare a decoded STX transfer against the escrow funding owed: exactly the
+ * bounty, to the escrow wallet.
+ * Returns a mismatch reason, or undefined when the transfer funds the escrow.
+ */
+export function checkFundingTransfer(transfer: TokenTransferDetails | undefined, escrowAddress: string, amountMicroStx: string): string | undefined {
+  if (!transfer) return 'Transaction is not an STX transfer';
+  if (transfer.recipient !== escrowAddress) return `Transfer goes to ${transfer.recipient}, expected escrow wallet ${escrowAddress}`;
+  if (BigInt(transfer.amount) !== BigInt(amountMicroStx)) {
+    return `Transfer is ${transfer.amount} uSTX, expected ${amountMicroStx} uSTX`;
+  }
+  return undefined;
+}
+
+type TransactionStatus = Awaited<ReturnType<typeof checkTransactionStatus>>;
+
+/**
+ * Look up a transaction. Returns 'pending' while it is still settling,
+ * a rejection reason once it failed or `check` finds it paid the wrong thing,
+ * or undefined when it paid what is owed.
+ */
+async function verifyTransaction(
+  txId: string,
+  submittedAt: string,
+  network: NetworkType,
+  check: (status: TransactionStatus) => string | undefined
+): Promise<string | undefined | 'pending'> {
+  const status = await checkTransactionStatus(txId, {
+    type: network,
+    apiUrl: process.env.STACKS_API_URL,
+  });
+
+  if (status.status === 'pending') return 'pending';
+  if (status.status === 'not_found') {
+    if (Date.now() - new Date(submittedAt).getTime() < NOT_FOUND_TIMEOUT_MS) return 'pending';
+    return `Transaction ${txId} was not found on ${network}`;
+  }
+  if (status.status === 'failed') return `Transaction ${txId} failed on-chain`;
+  return check(status);
+}
+
+function verifyPayment(txId: string, submittedAt: string, expected: ExpectedPayment): Promise<string | undefined | 'pending'> {
+  return verifyTransaction(txId, submittedAt, expected.network, (status) => checkPaymentCall(status.contractCall, expected, status.sender));
+}
+
+/**
+ * Check a pending-funding task's funding transfer and open the task or drop the transfer.
+ * Returns the task as it stands afterwards.
+ */
+export async function confirmFunding(task: Task): Promise<Task> {
+  if (task.status !== 'pending-funding' || !task.fundingTxId || !hasEscrow(task)) return task;
+
+  const reason = await verifyTransaction(task.fundingTxId, task.updatedAt, task.network,
+    (status) => checkFundingTransfer(status.tokenTransfer, task.escrowAddress, task.bountyMicroStx));
+  if (reason === 'pending') return task;
+
+  const result = reason ? await failFunding(task.id, reason) : await completeFunding(task.id);
+  if ('error' in result) {
+    return (await getTask(task.id)) ?? task;
+  }
+  return result;
+}
+
+/**
+ * Check a template's pending prepayment and add it to the balance or drop it.
+ * Returns the template as it stands afterwards.
+ */
+export async function confirmTemplatePrepayment(template: TaskTemplate): Promise<TaskTemplate> {
+  const { prepaymentTxId: txId, prepaymentMicroStx, escrowAddress } = template;
+  if (!txId || !prepaymentMicroStx || !escrowAddress) return template;
+
+  const reason = await verifyTransaction(txId, template.prepaymentSubmittedAt ?? template.updatedAt, template.network,
+    (status) => checkFundingTransfer(status.tokenTransfer, escrowAddress, prepaymentMicroStx));
+  if (reason === 'pending') return template;
+
+  const result = reason ? await failTemplatePrepayment(template.id, txId, reason) : await completeTemplatePrepayment(template.id, txId);
+  if ('error' in result) {
+    return (await getTemplate(template.id)) ?? template;
+  }
+  return result;
+}
+
+/**
+ * Check a payment-pending task's transaction and complete or revert it.
+ * Returns the task as it stands afterwards.
+ */
+export async function confirmPayment(task: Task): Promise<Task> {
+  if (task.status !== 'payment-pending' || !task.paymentTxId) return task;
+
+  const bountyMicroStx = task.payoutMicroStx ?? task.bountyMicroStx;
+  const agent = task.assignedAgent ? await getAgent(task.assignedAgent) : undefined;
+  const team = task.teamSize > 0 ? await teamPayouts(task, bountyMicroStx) : undefined;
+  const reason = team && 'error' in team ? team.error : await verifyPayment(task.paymentTxId, task.updatedAt, {
+    network: task.network,
+    agentWallet: agent?.walletAddress ?? '',
+    platformWallet: task.platformWallet ?? '',
+    bountyMicroStx,
+    team,
+    // Escrowed payouts are sent by the escrow wallet; anything else was paid by the poster
+    sender: task.escrowTxId && hasEscrow(task) ? undefined : task.posterAddress,
+  });
+  if (reason === 'pending') return task;
+
+  const result = reason ? await failPayment(task.id, reason) : await completePayment(task.id);
+  if ('error' in result) {
+    // Another confirmer resolved it first
+    return (await getTask(task.id)) ?? task;
+  }
+  return result;
+}
+
+/**
+ * Check an approved milestone's payout and mark it paid or revert it.
+ * Returns the milestone as it stands afterwards.
+ */
+export async function confirmMilestonePayment(task: Task, milestone: Milestone): Promise<Milestone> {
+  if (milestone.status !== 'payment-pending' || !milestone.paymentTxId) return milestone;
+
+  const agent = milestone.agentId ? await getAgent(milestone.agentId) : undefined;
+  const reason = await verifyPayment(milestone.paymentTxId, milestone.updatedAt, {
+    network: task.network,
+    agentWallet: agent?.walletAddress ?? '',
+    platformWallet: milestone.platformWallet ?? '',
+    bountyMicroStx: milestone.amountMicroStx,
+  });
+  if (reason === 'pending') return milestone;
+
+  const result = reason ? await failMilestonePayment(milestone.id, reason) : await completeMilestonePayment(milestone.id);
+  if ('error' in result) {
+    return (await getMilestone(task.id, milestone.id)) ?? milestone;
+  }
+  return result;
+}
+
+/**
+ * Check every funding transfer and template prepayment awaiting confirmation,
+ * then every payment-pending task and milestone, once
+ */
+export async function confirmPendingPayments(): Promise<void> {
+  const { rows: fundingRows } = await query(
+    `SELECT id FROM tasks WHERE status = 'pending-funding' AND funding_tx_id IS NOT NULL ORDER BY updated_at ASC`
+  );
+  for (const row of fundingRows) {
+    const task = await getTask(row.id as string);
+    if (!task) continue;
+    try {
+      await confirmFunding(task);
+    } catch (err) {
+      console.error(`[PaymentConfirmer] Could not confirm funding for task ${task.id}:`, err);
+    }
+  }
+
+  const { rows: prepaidRows } = await query(
+    `SELECT id FROM task_templates WHERE prepayment_tx_id IS NOT NULL ORDER BY prepayment_submitted_at ASC`
+  );
+  for (const row of prepaidRows) {
+    const template = await getTemplate(row.id as string);
+    if (!template) continue;
+    try {
+      await confirmTemplatePrepayment(template);
+    } catch (err) {
+      console.error(`[PaymentConfirmer] Could not confirm prepayment for template ${template.id}:`, err);
+    }
+  }
+
+  const { rows } = await query(`SELECT id FROM tasks WHERE status = 'payment-pending' ORDER BY updated_at ASC`);
+  for (const row of rows) {
+    const task = await getTask(row.id as string);
+    if (!task) continue;
+    try {
+      await confirmPayment(task);
+    } catch (err) {
+      console.error(`[PaymentConfirmer] Could not confirm payment for task ${task.id}:`, err);
+    }
+  }
+
+  const { rows: milestoneRows } = await query(
+    `SELECT id, task_id FROM milestones WHERE status = 'payment-pending' ORDER BY updated_at ASC`
+  );
+  for (const row of milestoneRows) {
+    const task = await getTask(row.task_id as string);
+    const milestone = await getMilestone(row.task_id as string, row.id as string);
+    if (!task || !milestone) continue;
+    try {
+      await confirmMilestonePayment(task, milestone);
+    } catch (err) {
+      console.error(`[PaymentConfirmer] Could not confirm payment for milestone ${milestone.id} of task ${task.id}:`, err);
+    }
+  }
+}
+
+/**
+ * Poll payment-pending tasks in the background
+ */
+export function startPaymentConfirmer(intervalMs: number): NodeJS.Timeout {
+  console.log(`[PaymentConfirmer] Checking pending payments every ${intervalMs}ms`);
+  return setInterval(() => {
+    confirmPendingPayments().catch(err => console.error('[PaymentConfirmer] Poll failed:', err));
+  }, intervalMs);
+}
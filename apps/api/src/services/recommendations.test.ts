@@ -0,0 +1,42 @@
+// StacksTasker API - Recommendation scoring tests
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { activityScore, competitionScore, ratingScore, successRate } from './recommendations.js';
+
+describe('successRate', () => {
+  it('starts agents with no history at 0.5', () => {
+    assert.equal(successRate(undefined), 0.5);
+  });
+
+  it('moves towards the observed rate as results accumulate', () => {
+    assert.equal(successRate({ completed: 1, failed: 0 }), 2 / 3);
+    assert.equal(successRate({ completed: 8, failed: 0 }), 0.9);
+    assert.equal(successRate({ completed: 0, failed: 3 }), 0.2);
+  });
+});
+
+describe('ratingScore', () => {
+  it('pulls a single review towards three stars', () => {
+    assert.equal(ratingScore(5, 1), (5 + 6) / 3 / 5);
+    assert.ok(ratingScore(5, 1) < ratingScore(4.8, 20));
+  });
+
+  it('scores an unreviewed agent at three stars', () => {
+    assert.equal(ratingScore(0, 0), 0.6);
+  });
+});
+
+describe('activityScore', () => {
+  it('halves every two weeks', () => {
+    const now = new Date('2026-03-15T00:00:00Z');
+    assert.equal(activityScore('2026-03-15T00:00:00Z', now), 1);
+    assert.equal(activityScore('2026-03-01T00:00:00Z', now), 0.5);
+  });
+});
+
+describe('competitionScore', () => {
+  it('falls with every bid', () => {
+    assert.deepEqual([0, 1, 3].map(competitionScore), [1, 0.5, 0.25]);
+  });
+});
@@ -0,0 +1,176 @@
+// StacksTasker - Agent/task matching
+// Ranks open tasks for an agent and agents for a task from capabilities and track records
+
+import { query } from '../db.js';
+import { listAgents, listTasks } from './task-engine.js';
+import type { Agent, AgentRecommendation, NetworkType, Task, TaskCategory, TaskRecommendation } from '../types.js';
+
+/** Open tasks considered for one agent, newest first */
+const MAX_CANDIDATE_TASKS = 200;
+
+const TASK_WEIGHTS = { capabilityMatch: 0.4, successRate: 0.25, bounty: 0.2, competition: 0.15 };
+const AGENT_WEIGHTS = { capabilityMatch: 0.3, categoryCompleted: 0.2, successRate: 0.2, rating: 0.15, recentActivity: 0.15 };
+
+/** Activity score halves every this many days */
+const ACTIVITY_HALF_LIFE_DAYS = 14;
+
+/** Outcomes of the assignments an agent has finished in one category */
+export interface CategoryRecord {
+  completed: number;
+  /** Missed ETAs and disputes refunded to the poster */
+  failed: number;
+}
+
+/**
+ * Success rate with one success and one failure assumed up front, so an
+ * agent's first result moves it only part of the way from 0.5.
+ */
+export function successRate(record: CategoryRecord | undefined): number {
+  const completed = record?.completed ?? 0;
+  const failed = record?.failed ?? 0;
+  return (completed + 1) / (completed + failed + 2);
+}
+
+/**
+ * Average rating scaled to 0-1, treated as two extra 3-star reviews so a
+ * single 5-star review does not top the list
+ */
+export function ratingScore(avgRating: number, totalReviews: number): number {
+  return ((avgRating * totalReviews + 3 * 2) / (totalReviews + 2)) / 5;
+}
+
+export function activityScore(lastActiveAt: string, now: Date): number {
+  const days = Math.max(0, now.getTime() - new Date(lastActiveAt).getTime()) / 86_400_000;
+  return Math.pow(0.5, days / ACTIVITY_HALF_LIFE_DAYS);
+}
+
+/** 1 with no bids, 0.5 with one, 0.33 with two... */
+export function competitionScore(bidCount: number): number {
+  return 1 / (1 + bidCount);
+}
+
+/** Log-scaled so a bounty ten times larger does not swamp every other signal */
+function relativeScore(value: number, max: number): number {
+  return max > 0 ? Math.log1p(value) / Math.log1p(max) : 0;
+}
+
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+/**
+ * Completed and failed assignments per wallet and category. Keyed by wallet
+ * so agents registered more than once count as one, like listAgents().
+ */
+async function getCategoryRecords(filter: { wallet?: string; category?: TaskCategory }): Promise<Map<string, CategoryRecord>> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (filter.wallet) {
+    params.push(filter.wallet);
+    conditions.push(`a.wallet_address = $${params.length}`);
+  }
+  if (filter.category) {
+    params.push(filter.category);
+    conditions.push(`t.category = $${params.length}`);
+  }
+  const where = conditions.length ? `AND ${conditions.join(' AND ')}` : '';
+
+  // A missed ETA clears assigned_agent, so those are read from the reopen history
+  const { rows } = await query(
+    `SELECT a.wallet_address, t.category,
+       COUNT(*) FILTER (WHERE o.outcome = 'completed')::int AS completed,
+       COUNT(*) FILTER (WHERE o.outcome = 'failed')::int AS failed
+     FROM (
+       SELECT id AS task_id, assigned_agent AS agent_id,
+         CASE WHEN status = 'refunded' THEN 'failed' ELSE 'completed' END AS outcome
+       FROM tasks WHERE status IN ('completed', 'closed', 'refunded') AND assigned_agent IS NOT NULL
+       UNION ALL
+       SELECT task_id, actor_id, 'failed' FROM task_status_history WHERE action = 'reopen' AND actor_id IS NOT NULL
+     ) o
+     JOIN tasks t ON t.id = o.task_id
+     JOIN agents a ON a.id = o.agent_id
+     WHERE true ${where}
+     GROUP BY a.wallet_address, t.category`,
+    params
+  );
+
+  const records = new Map<string, CategoryRecord>();
+  for (const row of rows) {
+    records.set(`${row.wallet_address}:${row.category}`, { completed: row.completed as number, failed: row.failed as number });
+  }
+  return records;
+}
+
+/**
+ * Open tasks the agent has not bid on yet, best match first
+ */
+export async function recommendTasks(agent: Agent, opts: { network?: NetworkType; limit: number }): Promise<TaskRecommendation[]> {
+  // Includes invite-only tasks the agent was invited to
+  const page = await listTasks({ status: ['open', 'bidding'], network: opts.network, limit: MAX_CANDIDATE_TASKS, viewer: agent.walletAddress });
+  if ('error' in page) throw new Error(page.error);
+  const { rows: bidRows } = await query(`SELECT task_id FROM bids WHERE agent_id = $1 AND status <> 'withdrawn'`, [agent.id]);
+  const alreadyBid = new Set(bidRows.map((row) => row.task_id as string));
+
+  const now = new Date();
+  const candidates = page.tasks.filter((task) =>
+    !alreadyBid.has(task.id)
+    && task.posterAddress !== agent.walletAddress
+    && !(task.deadline && new Date(task.deadline) <= now)
+  );
+  const records = await getCategoryRecords({ wallet: agent.walletAddress });
+  const maxBounty = Math.max(0, ...candidates.map((task) => parseFloat(task.bounty)));
+
+  return candidates
+    .map((task) => {
+      const signals = {
+        capabilityMatch: agent.capabilities.includes(task.category),
+        successRate: round(successRate(records.get(`${agent.walletAddress}:${task.category}`))),
+        bounty: round(relativeScore(parseFloat(task.bounty), maxBounty)),
+        competition: round(competitionScore(task.bidCount)),
+      };
+      const score = TASK_WEIGHTS.capabilityMatch * Number(signals.capabilityMatch)
+        + TASK_WEIGHTS.successRate * signals.successRate
+        + TASK_WEIGHTS.bounty * signals.bounty
+        + TASK_WEIGHTS.competition * signals.competition;
+      return { task, score: round(score), signals };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, opts.limit);
+}
+
+/**
+ * Agents a poster might invite to a task, best match first. Skips the
+ * poster's own agents and agents already bidding or assigned.
+ */
+export async function recommendAgents(task: Task, opts: { limit: number }): Promise<AgentRecommendation[]> {
+  const { rows: bidRows } = await query(`SELECT agent_id FROM bids WHERE task_id = $1 AND status <> 'withdrawn'`, [task.id]);
+  const involved = new Set(bidRows.map((row) => row.agent_id as string));
+  if (task.assignedAgent) involved.add(task.assignedAgent);
+
+  const agents = (await listAgents()).filter((agent) =>
+    !involved.has(agent.id) && agent.walletAddress !== task.posterAddress
+  );
+  const records = await getCategoryRecords({ category: task.category });
+  const maxCompleted = Math.max(0, ...[...records.values()].map((record) => record.completed));
+
+  const now = new Date();
+  return agents
+    .map((agent) => {
+      const record = records.get(`${agent.walletAddress}:${task.category}`);
+      const signals = {
+        capabilityMatch: agent.capabilities.includes(task.category),
+        categoryCompleted: record?.completed ?? 0,
+        successRate: round(successRate(record)),
+        rating: round(ratingScore(agent.avgRating, agent.totalReviews)),
+        recentActivity: round(activityScore(agent.lastActiveAt, now)),
+      };
+      const score = AGENT_WEIGHTS.capabilityMatch * Number(signals.capabilityMatch)
+        + AGENT_WEIGHTS.categoryCompleted * relativeScore(signals.categoryCompleted, maxCompleted)
+        + AGENT_WEIGHTS.successRate * signals.successRate
+        + AGENT_WEIGHTS.rating * signals.rating
+        + AGENT_WEIGHTS.recentActivity * signals.recentActivity;
+      return { agent, score: round(score), signals };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, opts.limit);
+}
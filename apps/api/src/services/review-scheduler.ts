@@ -0,0 +1,53 @@
+// StacksTasker - Review windows
+// Reminds posters of submissions awaiting review, and approves the ones left past their review window
+
+import { query } from '../db.js';
+import { approveOverdueSubmission, sendReviewReminder } from './task-engine.js';
+
+/** How long before the review window closes the poster is reminded (at most half the window) */
+const REVIEW_REMINDER_SECONDS = parseInt(process.env.REVIEW_REMINDER_SECONDS ?? String(24 * 60 * 60), 10);
+
+/**
+ * One sweep. Submissions whose payment failed are left for the poster, so a
+ * payout that cannot go through is not retried every sweep.
+ */
+export async function enforceReviewWindows(): Promise<void> {
+  const { rows: reminders } = await query(
+    `SELECT id FROM tasks
+     WHERE status = 'submitted' AND review_reminded_at IS NULL AND review_due_at > NOW()
+       AND review_due_at - make_interval(secs => LEAST($1::int, review_window_seconds / 2)) <= NOW()
+     ORDER BY review_due_at ASC`,
+    [REVIEW_REMINDER_SECONDS]
+  );
+  for (const row of reminders) {
+    try {
+      if (await sendReviewReminder(row.id as string)) console.log(`[Reviews] Reminded the poster of task ${row.id}`);
+    } catch (err) {
+      console.error(`[Reviews] Could not remind the poster of task ${row.id}:`, err);
+    }
+  }
+
+  const { rows: overdue } = await query(
+    `SELECT id FROM tasks
+     WHERE status = 'submitted' AND review_due_at <= NOW() AND payment_error IS NULL AND escrow_tx_id IS NOT NULL
+     ORDER BY review_due_at ASC`
+  );
+  for (const row of overdue) {
+    try {
+      const result = await approveOverdueSubmission(row.id as string);
+      if ('error' in result) console.log(`[Reviews] Task ${row.id} not approved: ${result.error}`);
+    } catch (err) {
+      console.error(`[Reviews] Could not approve task ${row.id}:`, err);
+    }
+  }
+}
+
+/**
+ * Enforce review windows in the background
+ */
+export function startReviewScheduler(intervalMs: number): NodeJS.Timeout {
+  console.log(`[Reviews] Checking review windows every ${intervalMs}ms`);
+  return setInterval(() => {
+    enforceReviewWindows().catch(err => console.error('[Reviews] Sweep failed:', err));
+  }, intervalMs);
+}
@@ -0,0 +1,228 @@
+// StacksTasker API - Bid ETA parsing, bid amounts, arbiter, team payout split, escrow refund, invitation and team member tests
+
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import pg from 'pg';
+import { parseEstimatedTime, checkBidAmount, isArbiter, splitTeamPayout, refundableMicroStx, invitationAdmits, canViewTask, isThreadParticipant, openDispute, submitReview } from './task-engine.js';
+import type { Task } from '../types.js';
+
+describe('parseEstimatedTime', () => {
+  it('reads a single duration in any common unit spelling', () => {
+    assert.equal(parseEstimatedTime('2 minutes'), 120);
+    assert.equal(parseEstimatedTime('1 hour'), 3600);
+    assert.equal(parseEstimatedTime('45s'), 45);
+    assert.equal(parseEstimatedTime('3 days'), 259200);
+    assert.equal(parseEstimatedTime('10 mins'), 600);
+  });
+
+  it('adds up compound and fractional estimates', () => {
+    assert.equal(parseEstimatedTime('1h 30m'), 5400);
+    assert.equal(parseEstimatedTime('1.5 hours'), 5400);
+    assert.equal(parseEstimatedTime('about 2 hours 15 minutes'), 8100);
+  });
+
+  it('returns undefined when there is no duration to read', () => {
+    assert.equal(parseEstimatedTime('Not specified'), undefined);
+    assert.equal(parseEstimatedTime('ASAP'), undefined);
+    assert.equal(parseEstimatedTime('5 stars'), undefined);
+  });
+});
+
+describe('checkBidAmount', () => {
+  const task = (milestoneCount: number) => ({ bounty: '5', bountyMicroStx: '5000000', milestoneCount });
+
+  it('takes a bid below the bounty on a single-payment task', () => {
+    assert.equal(checkBidAmount(task(0), '3'), undefined);
+  });
+
+  it('refuses a bid above the bounty', () => {
+    assert.equal(checkBidAmount(task(0), '5.5')?.error, 'Bid cannot exceed the 5 STX bounty');
+  });
+
+  it('refuses a bid below the bounty on a milestone task, whose milestones pay the bounty', () => {
+    assert.match(checkBidAmount(task(2), '3')?.error ?? '', /paid in milestones .* bid the full bounty/);
+    assert.equal(checkBidAmount(task(2), '5'), undefined);
+  });
+});
+
+describe('isArbiter', () => {
+  it('accepts only wallets listed in ARBITER_ADDRESSES', () => {
+    process.env.ARBITER_ADDRESSES = 'ST1ARBITER, ST2ARBITER';
+    assert.equal(isArbiter('ST2ARBITER'), true);
+    assert.equal(isArbiter('ST3POSTER'), false);
+  });
+
+  it('has no arbiters when unset', () => {
+    delete process.env.ARBITER_ADDRESSES;
+    assert.equal(isArbiter('ST1ARBITER'), false);
+  });
+});
+
+describe('splitTeamPayout', () => {
+  it('splits what is left after the 1% fee by share', () => {
+    assert.deepEqual(splitTeamPayout('10000000', [60, 40]), ['5940000', '3960000']);
+  });
+
+  it('gives the rounding remainder to the lead so the amounts add up', () => {
+    const amounts = splitTeamPayout('1000', [34, 33, 33]);
+    assert.deepEqual(amounts, ['338', '326', '326']);
+    assert.equal(amounts.reduce((sum, amount) => sum + BigInt(amount), 0n), 990n);
+  });
+});
+
+describe('refundableMicroStx', () => {
+  it('refunds the whole bounty when no milestone was paid', () => {
+    assert.equal(refundableMicroStx('5000000', [
+      { status: 'pending', amountMicroStx: '3000000' },
+      { status: 'submitted', amountMicroStx: '2000000' },
+    ]), '5000000');
+  });
+
+  it('keeps a paid milestone out of the refund when the task then expires', () => {
+    assert.equal(refundableMicroStx('5000000', [
+      { status: 'paid', amountMicroStx: '3000000' },
+      { status: 'pending', amountMicroStx: '2000000' },
+    ]), '2000000');
+  });
+
+  it('keeps a milestone being paid out of the refund too', () => {
+    assert.equal(refundableMicroStx('5000000', [
+      { status: 'paid', amountMicroStx: '3000000' },
+      { status: 'payment-pending', amountMicroStx: '2000000' },
+    ]), '0');
+  });
+});
+
+describe('invitationAdmits', () => {
+  it('lets an invited agent bid while the invitation is pending or accepted', () => {
+    assert.equal(invitationAdmits({ status: 'pending' }), true);
+    assert.equal(invitationAdmits({ status: 'accepted' }), true);
+  });
+
+  it('refuses a bid once the agent declined its invitation', () => {
+    assert.equal(invitationAdmits({ status: 'declined' }), false);
+  });
+
+  it('refuses an agent that was never invited', () => {
+    assert.equal(invitationAdmits(undefined), false);
+  });
+});
+
+describe('canViewTask', () => {
+  const POSTER = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+  const task = (visibility: Task['visibility']) => ({ id: 't1', visibility, posterAddress: POSTER }) as Task;
+
+  it('shows public tasks to anyone', async () => {
+    assert.equal(await canViewTask(task('public')), true);
+  });
+
+  it('hides invite-only tasks from unsigned requests', async () => {
+    assert.equal(await canViewTask(task('invite-only')), false);
+  });
+
+  it('shows invite-only tasks to their poster', async () => {
+    assert.equal(await canViewTask(task('invite-only'), POSTER), true);
+  });
+});
+
+describe('isThreadParticipant', () => {
+  const POSTER = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+  const LEAD = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+  const MEMBER = 'ST3AM1A56AK2C1XAFJ4115ZSV26EB49BVQ10MGCS0';
+  const task = { id: 't1', posterAddress: POSTER, assignedAgent: 'lead' } as Task;
+
+  // The lead is assigned to t1 and both agents are on its team
+  const agents = [
+    { id: 'lead', wallet: LEAD, teamOf: 't1' },
+    { id: 'member', wallet: MEMBER, teamOf: 't1' },
+  ];
+
+  afterEach(() => mock.restoreAll());
+
+  function fakeAgents(): void {
+    mock.method(pg.Pool.prototype, 'query', async (_sql: string, [taskId, wallet, assignedAgent]: unknown[]) => {
+      const rows = agents
+        .filter((a) => a.wallet === wallet && (a.id === assignedAgent || a.teamOf === taskId))
+        .map(() => ({ '?column?': 1 }));
+      return { rows, rowCount: rows.length };
+    });
+  }
+
+  it('lets the poster post', async () => {
+    assert.equal(await isThreadParticipant(task, POSTER), true);
+  });
+
+  it('lets the assigned lead agent post', async () => {
+    fakeAgents();
+    assert.equal(await isThreadParticipant(task, LEAD), true);
+  });
+
+  it('lets other team members post', async () => {
+    fakeAgents();
+    assert.equal(await isThreadParticipant(task, MEMBER), true);
+  });
+
+  it('refuses wallets outside the task', async () => {
+    fakeAgents();
+    assert.equal(await isThreadParticipant(task, 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM'), false);
+  });
+});
+
+describe('team members in disputes and reviews', () => {
+  const POSTER = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+  const MEMBER = 'ST3AM1A56AK2C1XAFJ4115ZSV26EB49BVQ10MGCS0';
+  const OUTSIDER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+  const now = new Date();
+
+  afterEach(() => mock.restoreAll());
+
+  // Team task t1 led by 'lead'; 'member' (wallet MEMBER) is its second member
+  function fakeTeamTask(status: string, rejectionCount: number): void {
+    mock.method(pg.Pool.prototype, 'query', async (sql: string, params: unknown[] = []) => {
+      let rows: Record<string, unknown>[] = [];
+      if (sql.startsWith('SELECT * FROM tasks WHERE id')) {
+        rows = [{
+          id: 't1', title: 'Audit', description: 'Audit it', bounty: '5', bounty_micro_stx: '5000000', status,
+          poster_address: POSTER, assigned_agent: 'lead', team_size: 2, rejection_count: rejectionCount, created_at: now, updated_at: now,
+        }];
+      } else if (sql.startsWith('SELECT * FROM agents WHERE id')) {
+        rows = [{ id: params[0], name: params[0], wallet_address: params[0] === 'member' ? MEMBER : OUTSIDER, registered_at: now, last_active_at: now }];
+      } else if (sql.startsWith('SELECT * FROM task_members')) {
+        rows = ['lead', 'member'].map((agentId, i) => ({ task_id: 't1', agent_id: agentId, position: i + 1, share_percent: 50, portion: 'Half', status: 'submitted' }));
+      } else if (sql.includes('FROM task_members WHERE task_id = $1))')) {
+        rows = params[1] === MEMBER ? [{}] : [];
+      }
+      return { rows, rowCount: rows.length };
+    });
+  }
+
+  it('lets a team member other than the lead open a dispute', async () => {
+    fakeTeamTask('submitted', 0);
+    // Past the membership check, the dispute is refused only because nothing was rejected
+    assert.deepEqual(await openDispute('t1', MEMBER, { reason: 'Unfair' }), { error: 'Only rejected submissions can be disputed' });
+  });
+
+  it('refuses a dispute from a wallet outside the team', async () => {
+    fakeTeamTask('submitted', 1);
+    const result = await openDispute('t1', OUTSIDER, { reason: 'Unfair' });
+    assert.ok('error' in result);
+    assert.equal(result.code, 'forbidden');
+  });
+
+  it('lets the poster review every team member', async () => {
+    fakeTeamTask('completed', 0);
+    // Past the membership check, the review is refused only for its rating
+    assert.deepEqual(
+      await submitReview('member', { taskId: 't1', rating: 0, comment: 'Great', reviewerAddress: POSTER }),
+      { error: 'Rating must be between 1 and 5' }
+    );
+  });
+
+  it('refuses a review of an agent that was not on the team', async () => {
+    fakeTeamTask('completed', 0);
+    assert.deepEqual(
+      await submitReview('outsider', { taskId: 't1', rating: 5, comment: 'Great', reviewerAddress: POSTER }),
+      { error: 'This agent did not work on this task' }
+    );
+  });
+});
@@ -2,13 +2,20 @@
 
 import { randomUUID } from 'crypto';
 import { query, getClient } from '../db.js';
-import { dispatchEvent } from './webhook-dispatcher.js';
+import { recordEvent } from './event-log.js';
+import { getEscrowAddress, hasEscrow, fundEscrow, releaseEscrow, releaseEscrowToTeam, refundEscrow, type EscrowedTask } from './escrow.js';
+import { checkTransition } from './task-state.js';
+import { prepareArtifacts, storeArtifactContent, insertArtifacts, listArtifacts } from './artifacts.js';
+import { evaluateCriteria } from './acceptance.js';
+import type { PoolClient } from 'pg';
+import type { StacksPaymentPayload } from '@x402/stacks';
 
 /** Convert STX to microSTX */
-function stxToMicroStx(stx: number | string): string {
+export function stxToMicroStx(stx: number | string): string {
   const stxNum = typeof stx === 'string' ? parseFloat(stx) : stx;
   return Math.round(stxNum * 1_000_000).toString();
 }
+
 import type {
   Task,
   Agent,
@@ -16,30 +23,66 @@ import type {
   Review,
   Message,
   TaskStatus,
+  TaskAction,
+  TaskActor,
+  TaskStatusChange,
   TaskCategory,
+  TaskListQuery,
+  TaskPage,
+  TaskVisibility,
+  AuctionMode,
+  Artifact,
+  ArtifactInput,
+  JsonSchema,
+  AcceptanceCriteria,
+  ValidationReport,
+  Submission,
+  SubmissionStatus,
+  ChangeRequest,
+  RequestRevisionRequest,
+  RevisionEscalation,
+  Invitation,
+  InvitationStatus,
+  InviteAgentsRequest,
+  BidStatus,
+  ReviseBidRequest,
+  TaskSort,
   NetworkType,
   CreateTaskRequest,
   RegisterAgentRequest,
   PlaceBidRequest,
   SubmitReviewRequest,
   PostMessageRequest,
+  Dispute,
+  OpenDisputeRequest,
+  ResolveDisputeRequest,
+  Milestone,
+  MilestoneStatus,
+  TeamMember,
+  TeamMemberInput,
+  TeamPayout,
+  PortionStatus,
+  ApiError,
 } from '../types.js';
 
 // ─── Constants ──────────────────────────────────────────
 const PLATFORM_FEE_PERCENT = 0.01; // 1%
 const PLATFORM_WALLET = 'SPV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8TEM307V';
-const PLATFORM_WALLET_FALLBACK = 'SPRG5SJWZ4TE23RJY2Z9NJW9MVN23NMSEGVHH714';
+const PLATFORM_WALLETS: Record<NetworkType, { primary: string; fallback: string }> = {
+  mainnet: { primary: PLATFORM_WALLET, fallback: 'SPRG5SJWZ4TE23RJY2Z9NJW9MVN23NMSEGVHH714' },
+  testnet: { primary: 'STV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8V496T8W', fallback: 'STRG5SJWZ4TE23RJY2Z9NJW9MVN23NMSEV4BX4QH' },
+};
 
-const AVATAR_COLORS = ['av-purple', 'av-orange', 'av-green', 'av-blue', 'av-pink', 'av-teal'];
+/** Rejections after which the submission can only be settled by a dispute */
+const MAX_REJECTIONS = parseInt(process.env.DISPUTE_AFTER_REJECTIONS ?? '3', 10);
 
-/**
- * Facilitator URL for payment settlement
- */
-let facilitatorUrl = process.env.FACILITATOR_URL ?? 'http://localhost:4000';
+/** Revisions a poster may request before the task escalates, unless the task sets its own */
+const DEFAULT_MAX_REVISIONS = parseInt(process.env.MAX_REVISIONS ?? '3', 10);
 
-export function setFacilitatorUrl(url: string) {
-  facilitatorUrl = url;
-}
+/** Time a poster has to review a submission, unless the task sets its own */
+export const DEFAULT_REVIEW_WINDOW_SECONDS = parseInt(process.env.REVIEW_WINDOW_SECONDS ?? String(3 * 24 * 60 * 60), 10);
+
+const AVATAR_COLORS = ['av-purple', 'av-orange', 'av-green', 'av-blue', 'av-pink', 'av-teal'];
 
 // ─── Row mapping helpers ──────────────────────────────────────────
 
@@ -57,12 +100,43 @@ function rowToTask(row: Record<string, unknown>): Task {
     assignedAgent: (row.assigned_agent as string) || undefined,
     result: (row.result as string) || undefined,
     paymentTxId: (row.payment_tx_id as string) || undefined,
+    escrowAddress: (row.escrow_address as string) || undefined,
+    escrowTxId: (row.escrow_tx_id as string) || undefined,
+    fundingTxId: (row.funding_tx_id as string) || undefined,
+    fundingError: (row.funding_error as string) || undefined,
+    refundTxId: (row.refund_tx_id as string) || undefined,
     bountyUsd: (row.bounty_usd as string) || undefined,
     platformFee: (row.platform_fee as string) || undefined,
     platformWallet: (row.platform_wallet as string) || undefined,
     rejectionReason: (row.rejection_reason as string) || undefined,
+    rejectionCount: (row.rejection_count as number) ?? 0,
+    revisionCount: (row.revision_count as number) ?? 0,
+    maxRevisions: (row.max_revisions as number) ?? DEFAULT_MAX_REVISIONS,
+    revisionEscalation: (row.revision_escalation as RevisionEscalation) || 'dispute',
+    payoutMicroStx: (row.payout_micro_stx as string) || undefined,
+    paymentError: (row.payment_error as string) || undefined,
+    deadline: row.deadline ? (row.deadline as Date).toISOString() : undefined,
+    assignedAt: row.assigned_at ? (row.assigned_at as Date).toISOString() : undefined,
+    dueAt: row.due_at ? (row.due_at as Date).toISOString() : undefined,
+    milestoneCount: (row.milestone_count as number) ?? 0,
+    teamSize: (row.team_size as number) ?? 0,
+    preassignedAgent: (row.preassigned_agent as string) || undefined,
+    fundingTemplateId: (row.funding_template_id as string) || undefined,
+    visibility: (row.visibility as TaskVisibility) || 'public',
+    auctionMode: (row.auction_mode as AuctionMode) || 'open',
+    biddingClosesAt: row.bidding_closes_at ? (row.bidding_closes_at as Date).toISOString() : undefined,
+    minAgentRating: row.min_agent_rating != null ? parseFloat(row.min_agent_rating as string) : undefined,
+    resultSchema: (row.result_schema as JsonSchema) ?? undefined,
+    acceptanceCriteria: (row.acceptance_criteria as AcceptanceCriteria) ?? undefined,
+    autoApproveOnPass: (row.auto_approve_on_pass as boolean) ?? false,
+    validationReport: (row.validation_report as ValidationReport) ?? undefined,
+    reviewWindowSeconds: (row.review_window_seconds as number) ?? DEFAULT_REVIEW_WINDOW_SECONDS,
+    reviewDueAt: row.review_due_at ? (row.review_due_at as Date).toISOString() : undefined,
+    reviewRemindedAt: row.review_reminded_at ? (row.review_reminded_at as Date).toISOString() : undefined,
+    approvedImplicitly: (row.approved_implicitly as boolean) ?? false,
     createdAt: (row.created_at as Date).toISOString(),
     updatedAt: (row.updated_at as Date).toISOString(),
+    fundedAt: row.funded_at ? (row.funded_at as Date).toISOString() : undefined,
     completedAt: row.completed_at ? (row.completed_at as Date).toISOString() : undefined,
   };
 }
@@ -80,6 +154,7 @@ function rowToAgent(row: Record<string, unknown>): Agent {
     totalEarned: row.total_earned as string,
     avgRating: parseFloat(row.avg_rating as string) || 0,
     totalReviews: row.total_reviews as number,
+    deadlinesMissed: (row.deadlines_missed as number) ?? 0,
     registeredAt: (row.registered_at as Date).toISOString(),
     lastActiveAt: (row.last_active_at as Date).toISOString(),
   };
@@ -93,7 +168,11 @@ function rowToBid(row: Record<string, unknown>): Bid {
     amount: row.amount as string,
     message: row.message as string,
     estimatedTime: (row.estimated_time as string) || '',
+    etaSeconds: (row.eta_seconds as number) ?? undefined,
+    status: (row.status as BidStatus) || 'active',
+    rejectionReason: (row.rejection_reason as string) || undefined,
     createdAt: (row.created_at as Date).toISOString(),
+    updatedAt: ((row.updated_at ?? row.created_at) as Date).toISOString(),
   };
 }
 
@@ -119,24 +198,413 @@ function rowToMessage(row: Record<string, unknown>): Message {
   };
 }
 
+function rowToDispute(row: Record<string, unknown>): Dispute {
+  return {
+    id: row.id as string,
+    taskId: row.task_id as string,
+    openedBy: row.opened_by as Dispute['openedBy'],
+    openerAddress: row.opener_address as string,
+    reason: row.reason as string,
+    evidence: (row.evidence as string[]) || [],
+    rejectionReason: (row.rejection_reason as string) || undefined,
+    thread: JSON.parse(row.thread as string) as Message[],
+    status: row.status as Dispute['status'],
+    outcome: (row.outcome as Dispute['outcome']) || undefined,
+    agentPercent: (row.agent_percent as number) ?? undefined,
+    resolutionNote: (row.resolution_note as string) || undefined,
+    arbiterAddress: (row.arbiter_address as string) || undefined,
+    createdAt: (row.created_at as Date).toISOString(),
+    resolvedAt: row.resolved_at ? (row.resolved_at as Date).toISOString() : undefined,
+  };
+}
+
+function rowToMilestone(row: Record<string, unknown>): Milestone {
+  return {
+    id: row.id as string,
+    taskId: row.task_id as string,
+    position: row.position as number,
+    title: row.title as string,
+    amount: row.amount as string,
+    amountMicroStx: row.amount_micro_stx as string,
+    acceptanceCriteria: (row.acceptance_criteria as string) || '',
+    status: row.status as MilestoneStatus,
+    agentId: (row.agent_id as string) || undefined,
+    result: (row.result as string) || undefined,
+    rejectionReason: (row.rejection_reason as string) || undefined,
+    paymentTxId: (row.payment_tx_id as string) || undefined,
+    platformFee: (row.platform_fee as string) || undefined,
+    platformWallet: (row.platform_wallet as string) || undefined,
+    paymentError: (row.payment_error as string) || undefined,
+    submittedAt: row.submitted_at ? (row.submitted_at as Date).toISOString() : undefined,
+    paidAt: row.paid_at ? (row.paid_at as Date).toISOString() : undefined,
+    createdAt: (row.created_at as Date).toISOString(),
+    updatedAt: (row.updated_at as Date).toISOString(),
+  };
+}
+
+function rowToInvitation(row: Record<string, unknown>): Invitation {
+  return {
+    id: row.id as string,
+    taskId: row.task_id as string,
+    agentId: row.agent_id as string,
+    status: row.status as InvitationStatus,
+    message: (row.message as string) || undefined,
+    declineReason: (row.decline_reason as string) || undefined,
+    createdAt: (row.created_at as Date).toISOString(),
+    respondedAt: row.responded_at ? (row.responded_at as Date).toISOString() : undefined,
+  };
+}
+
+function rowToSubmission(row: Record<string, unknown>): Submission {
+  return {
+    id: row.id as string,
+    taskId: row.task_id as string,
+    version: row.version as number,
+    agentId: row.agent_id as string,
+    result: (row.result as string) || undefined,
+    status: row.status as SubmissionStatus,
+    feedback: (row.feedback as string) || undefined,
+    changeRequests: (row.change_requests as ChangeRequest[]) ?? [],
+    validationReport: (row.validation_report as ValidationReport) ?? undefined,
+    artifacts: [],
+    createdAt: (row.created_at as Date).toISOString(),
+    reviewedAt: row.reviewed_at ? (row.reviewed_at as Date).toISOString() : undefined,
+  };
+}
+
+function rowToTeamMember(row: Record<string, unknown>): TeamMember {
+  return {
+    taskId: row.task_id as string,
+    agentId: row.agent_id as string,
+    position: row.position as number,
+    sharePercent: row.share_percent as number,
+    portion: row.portion as string,
+    status: row.status as PortionStatus,
+    result: (row.result as string) || undefined,
+    submittedAt: row.submitted_at ? (row.submitted_at as Date).toISOString() : undefined,
+  };
+}
+
+function rowToStatusChange(row: Record<string, unknown>): TaskStatusChange {
+  return {
+    id: Number(row.id),
+    taskId: row.task_id as string,
+    action: row.action as TaskAction,
+    fromStatus: (row.from_status as TaskStatus) || undefined,
+    toStatus: row.to_status as TaskStatus,
+    actor: row.actor as TaskActor,
+    actorId: (row.actor_id as string) || undefined,
+    reason: (row.reason as string) || undefined,
+    createdAt: (row.created_at as Date).toISOString(),
+  };
+}
+
+// ─── Status Transitions ──────────────────────────────────────────
+
+interface TransitionRequest {
+  action: TaskAction;
+  /** Status the task must still be in for the update to apply */
+  from: TaskStatus;
+  to: TaskStatus;
+  actor: TaskActor;
+  actorId?: string;
+  reason?: string;
+  /** Other columns written by the same UPDATE */
+  set?: Record<string, unknown>;
+  /** Extra SQL condition the task row must meet */
+  guard?: string;
+}
+
+/**
+ * Apply a transition from the state machine: a conditional UPDATE on the
+ * expected status and its history row, in one statement. Fails when the task
+ * has already moved on, so of two concurrent callers only one wins.
+ */
+async function transitionTask(taskId: string, change: TransitionRequest, client?: PoolClient): Promise<Task | ApiError> {
+  const denied = checkTransition(change.action, change.from, change.actor, change.to);
+  if (denied) return denied;
+
+  const params: unknown[] = [change.to, new Date(), taskId, change.from];
+  const sets = ['status = $1', 'updated_at = $2'];
+  for (const [column, value] of Object.entries(change.set ?? {})) {
+    params.push(value);
+    sets.push(`${column} = $${params.length}`);
+  }
+  params.push(change.action, change.actor, change.actorId ?? null, change.reason ?? null);
+  const n = params.length;
+
+  const sql = `
+    WITH moved AS (
+      UPDATE tasks SET ${sets.join(', ')}
+      WHERE id = $3 AND status = $4${change.guard ? ` AND ${change.guard}` : ''}
+      RETURNING *
+    ), logged AS (
+      INSERT INTO task_status_history (task_id, action, from_status, to_status, actor, actor_id, reason, created_at)
+      SELECT id, $${n - 3}::text, $4, $1, $${n - 2}::text, $${n - 1}::text, $${n}::text, $2 FROM moved
+    )
+    SELECT * FROM moved`;
+  const { rows } = client ? await client.query(sql, params) : await query(sql, params);
+  if (rows.length === 0) return { error: `Task is no longer ${change.from}` };
+  return rowToTask(rows[0]);
+}
+
+/**
+ * Run an operation with the task row locked (SELECT FOR UPDATE), for
+ * operations that move funds on-chain before changing the status: a
+ * concurrent caller waits, then sees the new status. Writes made before the
+ * operation returns an error are kept, so a recorded refund is never lost.
+ */
+async function withTaskLock<T extends object>(
+  taskId: string,
+  operation: (task: Task, client: PoolClient) => Promise<T | ApiError>
+): Promise<T | ApiError> {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    const { rows } = await client.query('SELECT * FROM tasks WHERE id = $1 FOR UPDATE', [taskId]);
+    if (rows.length === 0) {
+      await client.query('ROLLBACK');
+      return { error: 'Task not found' };
+    }
+    const result = await operation(rowToTask(rows[0]), client);
+    await client.query('COMMIT');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Every status change on a task, oldest first
+ */
+export async function getTaskHistory(taskId: string): Promise<TaskStatusChange[]> {
+  const { rows } = await query(
+    'SELECT * FROM task_status_history WHERE task_id = $1 ORDER BY id ASC',
+    [taskId]
+  );
+  return rows.map(rowToStatusChange);
+}
+
 // ─── Task Operations ──────────────────────────────────────────
 
-export async function createTask(req: CreateTaskRequest): Promise<Task> {
+/**
+ * Create a task awaiting escrow funding. Task templates pass the agent to
+ * assign it to once it is funded.
+ */
+export async function createTask(req: CreateTaskRequest, preassignedAgent?: string): Promise<Task | ApiError> {
   const id = randomUUID().slice(0, 8);
   const now = new Date();
   const network = req.network || 'testnet';
+  const milestones = req.milestones ?? [];
+
+  const escrowAddress = getEscrowAddress(network);
+  if (typeof escrowAddress !== 'string') return escrowAddress;
+
+  // Insert task + milestones together so a task never exists without its stages
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(
+      `INSERT INTO tasks (id, title, description, category, bounty, bounty_micro_stx, status, network, poster_address, escrow_address, deadline, milestone_count, visibility, auction_mode, bidding_closes_at, min_agent_rating, result_schema, acceptance_criteria, auto_approve_on_pass, review_window_seconds, max_revisions, revision_escalation, preassigned_agent, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, 'pending-funding', $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $23)
+       RETURNING *`,
+      [id, req.title, req.description, req.category, req.bounty, stxToMicroStx(req.bounty), network, req.posterAddress, escrowAddress, req.deadline ?? null, milestones.length, req.visibility ?? 'public', req.auctionMode ?? 'open', req.biddingClosesAt ?? null, req.minAgentRating ?? null, req.resultSchema ? JSON.stringify(req.resultSchema) : null, req.acceptanceCriteria ? JSON.stringify(req.acceptanceCriteria) : null, req.autoApproveOnPass ?? false, req.reviewWindowSeconds ?? DEFAULT_REVIEW_WINDOW_SECONDS, req.maxRevisions ?? DEFAULT_MAX_REVISIONS, req.revisionEscalation ?? 'dispute', preassignedAgent ?? null, now]
+    );
+
+    await client.query(
+      `INSERT INTO task_status_history (task_id, action, to_status, actor, actor_id, created_at)
+       VALUES ($1, 'create', 'pending-funding', 'poster', $2, $3)`,
+      [id, req.posterAddress, now]
+    );
+
+    for (const [i, milestone] of milestones.entries()) {
+      await client.query(
+        `INSERT INTO milestones (id, task_id, position, title, amount, amount_micro_stx, acceptance_criteria, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)`,
+        [randomUUID().slice(0, 8), id, i + 1, milestone.title, milestone.amount, stxToMicroStx(milestone.amount), milestone.acceptanceCriteria ?? '', now]
+      );
+    }
+
+    await client.query('COMMIT');
+
+    console.log(`[TaskEngine] Created task ${id}: "${req.title}" (${req.bounty} STX${milestones.length ? ` in ${milestones.length} milestones` : ''}) [${network}], awaiting escrow funding`);
+    return rowToTask(rows[0]);
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Fund a task's escrow with an x402 payment payload. The transfer is checked
+ * and broadcast, then held against the task as its funding transaction; the
+ * task stays pending-funding until `completeFunding()` sees it confirmed.
+ */
+export async function fundTask(taskId: string, payload: StacksPaymentPayload): Promise<Task | ApiError> {
+  // Settling moves the poster's STX, so the task is held from the status check
+  // until the transfer is recorded: a concurrent funding request waits, then finds it
+  let submitted: Task | ApiError;
+  try {
+    submitted = await withTaskLock<Task>(taskId, async (task, client) => {
+      const denied = checkTransition('fund', task.status, 'system');
+      if (denied) return denied;
+      if (!hasEscrow(task)) return { error: 'Task has no escrow wallet' };
+      if (task.fundingTxId) return { error: `Funding payment ${task.fundingTxId} is awaiting confirmation` };
+
+      const settlement = await fundEscrow(task, payload);
+      if ('error' in settlement) return settlement;
+
+      const { rows } = await client.query(
+        `UPDATE tasks SET funding_tx_id = $1, funding_error = NULL, updated_at = $2 WHERE id = $3 RETURNING *`,
+        [settlement.txId, new Date(), taskId]
+      );
+      return rowToTask(rows[0]);
+    });
+  } catch (err: unknown) {
+    // Unique funding_tx_id: one settled payment cannot fund two tasks
+    if (err instanceof Error && 'code' in err && (err as { code: string }).code === '23505') {
+      return { error: 'Payment already used to fund another task' };
+    }
+    throw err;
+  }
+  if ('error' in submitted) return submitted;
 
+  console.log(`[TaskEngine] Task ${taskId} funding broadcast: ${submitted.fundingTxId} (${submitted.bounty} STX), awaiting confirmation`);
+  return submitted;
+}
+
+/**
+ * Open a task whose funding transfer was confirmed on-chain: it becomes the
+ * escrow transaction and `task.created` is dispatched
+ */
+export async function completeFunding(taskId: string): Promise<Task | ApiError> {
+  const task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+  if (!task.fundingTxId) return { error: 'Task has no funding payment awaiting confirmation' };
+
+  const fundedTask = await transitionTask(taskId, {
+    action: 'fund',
+    from: 'pending-funding',
+    to: 'open',
+    actor: 'system',
+    reason: `Escrow funded by ${task.fundingTxId}`,
+    set: { escrow_tx_id: task.fundingTxId, funded_at: new Date() },
+    guard: 'funding_tx_id IS NOT NULL',
+  });
+  if ('error' in fundedTask) return { error: 'Task funding was already resolved' };
+
+  console.log(`[TaskEngine] Task ${taskId} escrow funded: ${fundedTask.escrowTxId} (${fundedTask.bounty} STX)`);
+  return openFundedTask(fundedTask);
+}
+
+/**
+ * Drop a funding transfer that failed or did not pay the escrow what is owed,
+ * so the poster can fund the task again
+ */
+export async function failFunding(taskId: string, reason: string): Promise<Task | ApiError> {
   const { rows } = await query(
-    `INSERT INTO tasks (id, title, description, category, bounty, bounty_micro_stx, status, network, poster_address, created_at, updated_at)
-     VALUES ($1, $2, $3, $4, $5, $6, 'open', $7, $8, $9, $9)
-     RETURNING *`,
-    [id, req.title, req.description, req.category, req.bounty, stxToMicroStx(req.bounty), network, req.posterAddress, now]
+    `UPDATE tasks SET funding_tx_id = NULL, funding_error = $1, updated_at = $2
+     WHERE id = $3 AND status = 'pending-funding' AND funding_tx_id IS NOT NULL RETURNING *`,
+    [reason, new Date(), taskId]
   );
+  if (rows.length === 0) return { error: 'Task funding was already resolved' };
+
+  console.log(`[TaskEngine] Task ${taskId} funding rejected: ${reason}`);
+  return rowToTask(rows[0]);
+}
+
+/**
+ * Fund a generated task from its template's prepaid balance. The balance is
+ * drawn down and the task opened in one transaction, so a bounty is never
+ * drawn for a task that stays unfunded.
+ */
+export async function fundTaskFromTemplate(taskId: string, templateId: string): Promise<Task | ApiError> {
+  const task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+  const denied = checkTransition('fund', task.status, 'system');
+  if (denied) return denied;
+
+  const client = await getClient();
+  let fundedTask: Task | ApiError;
+  try {
+    await client.query('BEGIN');
+    const { rows } = await client.query(
+      `UPDATE task_templates SET balance_micro_stx = (balance_micro_stx::numeric - $1)::text, updated_at = $2
+       WHERE id = $3 AND escrow_address = $4 AND balance_micro_stx::numeric >= $1
+       RETURNING escrow_tx_id`,
+      [task.bountyMicroStx, new Date(), templateId, task.escrowAddress]
+    );
+    fundedTask = rows.length === 0
+      ? { error: 'Template balance does not cover the bounty' }
+      : await transitionTask(taskId, {
+        action: 'fund',
+        from: 'pending-funding',
+        to: 'open',
+        actor: 'system',
+        reason: `Escrow prepaid through template ${templateId}`,
+        set: { escrow_tx_id: rows[0].escrow_tx_id, funding_template_id: templateId, funded_at: new Date() },
+      }, client);
+    await client.query('error' in fundedTask ? 'ROLLBACK' : 'COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+  if ('error' in fundedTask) return fundedTask;
 
-  console.log(`[TaskEngine] Created task ${id}: "${req.title}" (${req.bounty} STX) [${network}]`);
-  const createdTask = rowToTask(rows[0]);
-  await dispatchEvent('task.created', { task: createdTask }, { taskId: createdTask.id, category: createdTask.category });
-  return createdTask;
+  console.log(`[TaskEngine] Task ${taskId} escrow funded from template ${templateId} (${fundedTask.bounty} STX)`);
+  return openFundedTask(fundedTask);
+}
+
+/**
+ * Announce a task that was just funded, then hand it to its pre-assigned agent if it has one
+ */
+async function openFundedTask(fundedTask: Task): Promise<Task> {
+  const ctx = { taskId: fundedTask.id, category: fundedTask.category };
+  await recordEvent('task.created', { task: fundedTask }, ctx);
+  await recordEvent('task.status_changed', { task: fundedTask, previousStatus: 'pending-funding', newStatus: 'open' }, ctx);
+  // Agents invited while the task awaited funding hear about it once it can be taken
+  for (const invitation of await listInvitations(fundedTask.id)) {
+    if (invitation.status === 'pending') await recordEvent('task.invited', { task: fundedTask, invitation }, ctx);
+  }
+  return fundedTask.preassignedAgent ? assignPreassignedAgent(fundedTask) : fundedTask;
+}
+
+/**
+ * Assign a funded task to the agent chosen for it when it was generated, the
+ * way the poster accepting its bid would: held to the task deadline, paid the
+ * bounty. The task stays open if the agent is gone.
+ */
+async function assignPreassignedAgent(task: Task): Promise<Task> {
+  const agent = await getAgent(task.preassignedAgent!);
+  if (!agent) return task;
+
+  const now = new Date();
+  const assignedTask = await transitionTask(task.id, {
+    action: 'accept-bid',
+    from: task.status,
+    to: 'assigned',
+    actor: 'poster',
+    actorId: task.posterAddress,
+    reason: `Pre-assigned to agent ${agent.id}`,
+    set: { assigned_agent: agent.id, assigned_at: now, due_at: task.deadline ?? null, rejection_reason: null, rejection_count: 0, payout_micro_stx: null },
+  });
+  if ('error' in assignedTask) {
+    console.log(`[TaskEngine] Task ${task.id} not pre-assigned to ${agent.name}: ${assignedTask.error}`);
+    return task;
+  }
+  await query('UPDATE agents SET last_active_at = $1 WHERE id = $2', [now, agent.id]);
+
+  console.log(`[TaskEngine] Task ${task.id} pre-assigned to ${agent.name}`);
+  await recordEvent('task.status_changed', { task: assignedTask, previousStatus: task.status, newStatus: 'assigned' }, { taskId: task.id, category: assignedTask.category });
+  return assignedTask;
 }
 
 export async function getTask(id: string): Promise<Task | undefined> {
@@ -144,248 +612,764 @@ export async function getTask(id: string): Promise<Task | undefined> {
   return rows.length ? rowToTask(rows[0]) : undefined;
 }
 
-export async function listTasks(filters?: {
-  status?: TaskStatus;
-  category?: TaskCategory;
-  poster?: string;
-  network?: NetworkType;
-}): Promise<Task[]> {
+/** SQL each sort orders by, the type to read a cursor value back as, and its default direction */
+const TASK_SORTS: Record<TaskSort, { expr: string; type: string; order: 'asc' | 'desc' }> = {
+  created: { expr: 't.created_at', type: 'timestamptz', order: 'desc' },
+  bounty: { expr: 't.bounty_micro_stx::numeric', type: 'numeric', order: 'desc' },
+  // Tasks without a deadline come after every dated one
+  deadline: { expr: "COALESCE(t.deadline, 'infinity'::timestamptz)", type: 'timestamptz', order: 'asc' },
+  bids: { expr: 'b.bid_count', type: 'bigint', order: 'desc' },
+};
+
+export const DEFAULT_TASK_PAGE_SIZE = 50;
+
+interface TaskCursor {
+  sort: TaskSort;
+  order: 'asc' | 'desc';
+  /** Sort value of the last task on the page, as text */
+  value: string;
+  id: string;
+}
+
+function encodeTaskCursor(cursor: TaskCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeTaskCursor(raw: string): TaskCursor | undefined {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString());
+    if (typeof cursor?.value === 'string' && typeof cursor.id === 'string') return cursor as TaskCursor;
+  } catch {
+    // fall through
+  }
+  return undefined;
+}
+
+/**
+ * List tasks a page at a time, newest first unless a sort is given. Pages
+ * are keyset-paginated on (sort value, id), so tasks created while a client
+ * pages through are neither skipped nor repeated. Bid counts come from the
+ * same query.
+ */
+export async function listTasks(filters: TaskListQuery = {}): Promise<TaskPage | ApiError> {
+  const sort = filters.sort ?? 'created';
+  const { expr, type } = TASK_SORTS[sort];
+  const order = filters.order ?? TASK_SORTS[sort].order;
+  const limit = filters.limit ?? DEFAULT_TASK_PAGE_SIZE;
+
   const conditions: string[] = [];
   const params: unknown[] = [];
   let idx = 1;
 
-  if (filters?.status) {
-    conditions.push(`status = $${idx++}`);
+  if (filters.status?.length) {
+    conditions.push(`t.status = ANY($${idx++})`);
     params.push(filters.status);
   }
-  if (filters?.category) {
-    conditions.push(`category = $${idx++}`);
+  if (filters.category) {
+    conditions.push(`t.category = $${idx++}`);
     params.push(filters.category);
   }
-  if (filters?.poster) {
-    conditions.push(`poster_address = $${idx++}`);
+  if (filters.poster) {
+    conditions.push(`t.poster_address = $${idx++}`);
     params.push(filters.poster);
   }
-  if (filters?.network) {
-    conditions.push(`network = $${idx++}`);
+  if (filters.agent) {
+    conditions.push(`t.assigned_agent = $${idx++}`);
+    params.push(filters.agent);
+  }
+  if (filters.network) {
+    conditions.push(`t.network = $${idx++}`);
     params.push(filters.network);
   }
+  if (filters.q) {
+    // Matches the idx_tasks_search expression index
+    conditions.push(`to_tsvector('english', t.title || ' ' || t.description) @@ websearch_to_tsquery('english', $${idx++})`);
+    params.push(filters.q);
+  }
+  if (filters.minBounty) {
+    conditions.push(`t.bounty_micro_stx::numeric >= $${idx++}`);
+    params.push(stxToMicroStx(filters.minBounty));
+  }
+  if (filters.maxBounty) {
+    conditions.push(`t.bounty_micro_stx::numeric <= $${idx++}`);
+    params.push(stxToMicroStx(filters.maxBounty));
+  }
+  if (filters.viewer) {
+    conditions.push(`(t.visibility = 'public' OR t.poster_address = $${idx} OR ${letIntoTaskSql('t', `$${idx}`)})`);
+    idx++;
+    params.push(filters.viewer);
+  } else {
+    conditions.push(`t.visibility = 'public'`);
+  }
+  if (filters.cursor) {
+    const cursor = decodeTaskCursor(filters.cursor);
+    if (!cursor) return { error: 'Invalid cursor' };
+    if (cursor.sort !== sort || cursor.order !== order) {
+      return { error: `Cursor is for sort=${cursor.sort}&order=${cursor.order}` };
+    }
+    conditions.push(`(${expr}, t.id) ${order === 'desc' ? '<' : '>'} ($${idx++}::${type}, $${idx++})`);
+    params.push(cursor.value, cursor.id);
+  }
 
   const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  const direction = order === 'desc' ? 'DESC' : 'ASC';
+  // One row more than the page tells us whether there is a next page
+  params.push(limit + 1);
   const { rows } = await query(
-    `SELECT * FROM tasks ${where} ORDER BY created_at DESC`,
+    `SELECT t.*, b.bid_count, (${expr})::text AS sort_value
+     FROM tasks t
+     CROSS JOIN LATERAL (SELECT COUNT(*) AS bid_count FROM bids WHERE bids.task_id = t.id AND bids.status <> 'withdrawn') b
+     ${where}
+     ORDER BY ${expr} ${direction}, t.id ${direction}
+     LIMIT $${idx}`,
     params
   );
 
-  return rows.map(rowToTask);
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    tasks: page.map((row) => ({ ...rowToTask(row), bidCount: Number(row.bid_count) })),
+    nextCursor: rows.length > limit
+      ? encodeTaskCursor({ sort, order, value: last.sort_value as string, id: last.id as string })
+      : undefined,
+  };
 }
 
-export async function acceptTask(taskId: string, agentId: string): Promise<Task | { error: string }> {
+export async function acceptTask(taskId: string, agentId: string): Promise<Task | ApiError> {
   const task = await getTask(taskId);
   if (!task) return { error: 'Task not found' };
-  if (task.status !== 'open' && task.status !== 'bidding') return { error: `Task is ${task.status}, not open` };
+  const denied = checkTransition('accept', task.status, 'agent');
+  if (denied) return denied;
+
+  if (isPastDeadline(task)) return { error: 'Task deadline has passed' };
 
   const agent = await getAgent(agentId);
   if (!agent) return { error: 'Agent not registered' };
+  if (task.visibility === 'invite-only' && !(await isInvited(taskId, agentId))) {
+    return { error: 'This task is invite-only', code: 'forbidden' };
+  }
+  if (task.auctionMode !== 'open') return { error: `This task is awarded by ${task.auctionMode} bidding; place a bid instead` };
 
+  // A direct accept commits to no ETA of its own, so the task deadline is the due date
   const now = new Date();
-  const { rows } = await query(
-    `UPDATE tasks SET status = 'assigned', assigned_agent = $1, updated_at = $2 WHERE id = $3 RETURNING *`,
-    [agentId, now, taskId]
-  );
+  const acceptedTask = await transitionTask(taskId, {
+    action: 'accept',
+    from: task.status,
+    to: 'assigned',
+    actor: 'agent',
+    actorId: agentId,
+    set: { assigned_agent: agentId, assigned_at: now, due_at: task.deadline ?? null, rejection_reason: null, rejection_count: 0, payout_micro_stx: null },
+  });
+  if ('error' in acceptedTask) return acceptedTask;
   await query('UPDATE agents SET last_active_at = $1 WHERE id = $2', [now, agentId]);
+  await expireActiveBids(taskId);
 
   console.log(`[TaskEngine] Task ${taskId} assigned to agent ${agent.name}`);
-  const acceptedTask = rowToTask(rows[0]);
-  await dispatchEvent('task.status_changed', { task: acceptedTask, previousStatus: task.status, newStatus: 'assigned' }, { taskId, category: acceptedTask.category });
+  await recordEvent('task.status_changed', { task: acceptedTask, previousStatus: task.status, newStatus: 'assigned' }, { taskId, category: acceptedTask.category });
   return acceptedTask;
 }
 
-export async function startTask(taskId: string, agentId: string): Promise<Task | { error: string }> {
+export async function startTask(taskId: string, agentId: string): Promise<Task | ApiError> {
   const task = await getTask(taskId);
   if (!task) return { error: 'Task not found' };
-  if (task.status !== 'assigned') return { error: `Task is ${task.status}, not assigned` };
-  if (task.assignedAgent !== agentId) return { error: 'Not assigned to this agent' };
+  const denied = checkTransition('start', task.status, 'agent');
+  if (denied) return denied;
+  if (task.assignedAgent !== agentId) return { error: 'Not assigned to this agent', code: 'forbidden' };
 
-  const now = new Date();
-  const { rows } = await query(
-    `UPDATE tasks SET status = 'in-progress', updated_at = $1 WHERE id = $2 RETURNING *`,
-    [now, taskId]
-  );
-  await query('UPDATE agents SET last_active_at = $1 WHERE id = $2', [now, agentId]);
+  const startedTask = await transitionTask(taskId, { action: 'start', from: 'assigned', to: 'in-progress', actor: 'agent', actorId: agentId });
+  if ('error' in startedTask) return startedTask;
+  await query('UPDATE agents SET last_active_at = $1 WHERE id = $2', [new Date(), agentId]);
 
   console.log(`[TaskEngine] Task ${taskId} started by agent ${agentId}`);
-  const startedTask = rowToTask(rows[0]);
-  await dispatchEvent('task.status_changed', { task: startedTask, previousStatus: 'assigned', newStatus: 'in-progress' }, { taskId, category: startedTask.category });
+  await recordEvent('task.status_changed', { task: startedTask, previousStatus: 'assigned', newStatus: 'in-progress' }, { taskId, category: startedTask.category });
   return startedTask;
 }
 
-export async function cancelTask(taskId: string, posterAddress: string): Promise<Task | { error: string }> {
-  const task = await getTask(taskId);
-  if (!task) return { error: 'Task not found' };
-  if (task.status !== 'open' && task.status !== 'bidding') return { error: `Task is ${task.status}, cannot cancel` };
-  if (task.posterAddress !== posterAddress) return { error: 'Only the poster can cancel this task' };
+export async function cancelTask(taskId: string, posterAddress: string): Promise<Task | ApiError> {
+  const cancelled = await withTaskLock<{ task: Task; previousStatus: TaskStatus }>(taskId, async (task, client) => {
+    const denied = checkTransition('cancel', task.status, 'poster');
+    if (denied) return denied;
+    if (task.posterAddress !== posterAddress) return { error: 'Only the poster can cancel this task', code: 'forbidden' };
+    // Cancelling now would leave the transfer in escrow with nothing to refund it from
+    if (task.fundingTxId && !task.escrowTxId) return { error: `Funding payment ${task.fundingTxId} is awaiting confirmation; cancel once it settles` };
+    const { rows: paid } = await client.query(
+      `SELECT 1 FROM milestones WHERE task_id = $1 AND status = 'paid' LIMIT 1`,
+      [taskId]
+    );
+    if (paid.length > 0) return { error: 'Part of the bounty was already paid out for milestones; the task cannot be cancelled' };
+
+    // Return escrowed funds before cancelling; unfunded tasks have nothing to refund
+    let refundTxId: string | null = null;
+    if (task.escrowTxId && hasEscrow(task)) {
+      const refund = await refundRemainingEscrow(task, client);
+      if ('error' in refund) return refund;
+      refundTxId = refund.txId;
+    }
 
-  const now = new Date();
-  const { rows } = await query(
-    `UPDATE tasks SET status = 'cancelled', updated_at = $1 WHERE id = $2 RETURNING *`,
-    [now, taskId]
-  );
+    const moved = await transitionTask(taskId, {
+      action: 'cancel',
+      from: task.status,
+      to: 'cancelled',
+      actor: 'poster',
+      actorId: posterAddress,
+      set: { refund_tx_id: refundTxId },
+    }, client);
+    return 'error' in moved ? moved : { task: moved, previousStatus: task.status };
+  });
+  if ('error' in cancelled) return cancelled;
+  const { task: cancelledTask, previousStatus } = cancelled;
 
-  console.log(`[TaskEngine] Task ${taskId} cancelled by poster`);
-  const cancelledTask = rowToTask(rows[0]);
-  await dispatchEvent('task.status_changed', { task: cancelledTask, previousStatus: task.status, newStatus: 'cancelled' }, { taskId, category: cancelledTask.category });
+  await expireActiveBids(taskId);
+  console.log(`[TaskEngine] Task ${taskId} cancelled by poster${cancelledTask.refundTxId ? `, escrow refunded: ${cancelledTask.refundTxId}` : ''}`);
+  await recordEvent('task.status_changed', { task: cancelledTask, previousStatus, newStatus: 'cancelled' }, { taskId, category: cancelledTask.category });
   return cancelledTask;
 }
 
+/**
+ * Agent submits its result: a summary and/or typed artifacts. Each submission is
+ * a new version of the task's artifacts, so a resubmission after rejection can be
+ * compared with the one before.
+ */
 export async function submitResult(
   taskId: string,
   agentId: string,
-  result: string
-): Promise<Task | { error: string }> {
+  result: string,
+  artifactInputs: ArtifactInput[] = []
+): Promise<{ task: Task; artifacts: Artifact[] } | ApiError> {
   const task = await getTask(taskId);
   if (!task) return { error: 'Task not found' };
-  if (task.status !== 'assigned' && task.status !== 'in-progress') return { error: `Task is ${task.status}, not assigned or in-progress` };
-  if (task.assignedAgent !== agentId) return { error: 'Not assigned to this agent' };
-
-  const now = new Date();
-  const { rows } = await query(
-    `UPDATE tasks SET result = $1, status = 'submitted', updated_at = $2 WHERE id = $3 RETURNING *`,
-    [result, now, taskId]
-  );
-
-  console.log(`[TaskEngine] Task ${taskId} result submitted by agent ${agentId}`);
-  const submittedTask = rowToTask(rows[0]);
-  await dispatchEvent('task.status_changed', { task: submittedTask, previousStatus: task.status, newStatus: 'submitted' }, { taskId, category: submittedTask.category });
-  return submittedTask;
+  const denied = checkTransition('submit', task.status, 'agent');
+  if (denied) return denied;
+  if (task.assignedAgent !== agentId) return { error: 'Not assigned to this agent', code: 'forbidden' };
+  if (task.milestoneCount > 0) return { error: 'Task is paid in milestones; submit each milestone instead' };
+  if (task.teamSize > 0) return { error: 'Task is worked by a team; each member submits its portion instead' };
+  return recordSubmission(task, agentId, result, artifactInputs);
 }
 
-export async function rejectResult(taskId: string, posterAddress: string, reason: string): Promise<Task | { error: string }> {
-  const task = await getTask(taskId);
-  if (!task) return { error: 'Task not found' };
-  if (task.status !== 'submitted') return { error: `Task is ${task.status}, not submitted` };
-  if (task.posterAddress !== posterAddress) return { error: 'Only the poster can reject submissions' };
+/**
+ * Store a result as the task's next version and run it through the acceptance criteria
+ */
+async function recordSubmission(
+  task: Task,
+  agentId: string,
+  result: string,
+  artifactInputs: ArtifactInput[]
+): Promise<{ task: Task; artifacts: Artifact[] } | ApiError> {
+  const taskId = task.id;
+  const prepared = prepareArtifacts(artifactInputs, task.resultSchema);
+  if ('error' in prepared) return prepared;
+  const checks = task.acceptanceCriteria ? evaluateCriteria(task.acceptanceCriteria, result, prepared) : undefined;
+  await storeArtifactContent(prepared);
 
-  const now = new Date();
-  const { rows } = await query(
-    `UPDATE tasks SET status = 'assigned', rejection_reason = $1, result = NULL, updated_at = $2 WHERE id = $3 RETURNING *`,
-    [reason, now, taskId]
-  );
+  const client = await getClient();
+  let submitted: { task: Task; artifacts: Artifact[] } | ApiError;
+  try {
+    await client.query('BEGIN');
+    // Earlier submissions plus this one
+    const { rows } = await client.query(
+      `SELECT COUNT(*)::int + 1 AS version FROM task_status_history WHERE task_id = $1 AND action = 'submit'`,
+      [taskId]
+    );
+    const version = rows[0].version as number;
+    const validationReport: ValidationReport | undefined = checks && {
+      passed: checks.every((check) => check.passed),
+      checks,
+      version,
+      checkedAt: new Date().toISOString(),
+    };
+
+    const submittedTask = await transitionTask(taskId, {
+      action: 'submit',
+      from: task.status,
+      to: 'submitted',
+      actor: 'agent',
+      actorId: agentId,
+      set: {
+        result,
+        validation_report: validationReport ? JSON.stringify(validationReport) : null,
+        review_due_at: new Date(Date.now() + task.reviewWindowSeconds * 1000),
+        review_reminded_at: null,
+      },
+    }, client);
+    if ('error' in submittedTask) {
+      await client.query('ROLLBACK');
+      submitted = submittedTask;
+    } else {
+      await client.query(
+        `INSERT INTO submissions (id, task_id, version, agent_id, result, validation_report, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [randomUUID().slice(0, 8), taskId, version, agentId, result || null, validationReport ? JSON.stringify(validationReport) : null, new Date()]
+      );
+      const artifacts = await insertArtifacts(client, taskId, version, prepared);
+      await client.query('COMMIT');
+      submitted = { task: submittedTask, artifacts };
+    }
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+  if ('error' in submitted) return submitted;
 
-  console.log(`[TaskEngine] Task ${taskId} result rejected: ${reason}`);
-  const rejectedTask = rowToTask(rows[0]);
-  await dispatchEvent('task.status_changed', { task: rejectedTask, previousStatus: 'submitted', newStatus: 'assigned' }, { taskId, category: rejectedTask.category });
-  return rejectedTask;
+  console.log(`[TaskEngine] Task ${taskId} result submitted by agent ${agentId}${submitted.artifacts.length ? ` with ${submitted.artifacts.length} artifact(s), version ${submitted.artifacts[0].version}` : ''}`);
+  await recordEvent('task.status_changed', { task: submitted.task, previousStatus: task.status, newStatus: 'submitted' }, { taskId, category: task.category });
+
+  if (submitted.task.validationReport) {
+    submitted.task = await actOnValidationReport(submitted.task, submitted.task.validationReport);
+  }
+  return submitted;
 }
 
-export async function approveTask(taskId: string, txId?: string): Promise<Task | { error: string }> {
-  const task = await getTask(taskId);
-  if (!task) return { error: 'Task not found' };
-  if (task.status !== 'submitted') return { error: `Task is ${task.status}, not submitted` };
-
-  // Calculate platform fee using integer math (microSTX) to avoid floating-point errors
-  const bountyMicro = BigInt(task.bountyMicroStx);
-  const feeMicro = bountyMicro / 100n; // 1%
-  const payoutMicro = bountyMicro - feeMicro;
-  const platformFee = Number(feeMicro) / 1_000_000;
-  const agentPayout = Number(payoutMicro) / 1_000_000;
-
-  // Determine payment transaction ID:
-  // 1. If txId provided (from real on-chain contract call), use it
-  // 2. Otherwise fall back to simulated payment for dev/testing
-  let paymentTxId: string;
-
-  if (txId) {
-    // Real on-chain transaction from the payment contract
-    paymentTxId = txId;
-    console.log(`[TaskEngine] Real on-chain tx received: ${txId}`);
-
-    // Best-effort verification via Hiro API (non-blocking)
-    try {
-      const verifyRes = await fetch(`https://api.hiro.so/extended/v1/tx/${txId}`);
-      if (verifyRes.ok) {
-        const txData = await verifyRes.json() as { tx_status?: string };
-        console.log(`[TaskEngine] Tx ${txId} status: ${txData.tx_status ?? 'unknown'}`);
-      }
-    } catch {
-      console.log(`[TaskEngine] Could not verify tx ${txId} (will confirm later)`);
-    }
+/**
+ * Reject a submission that failed its acceptance criteria, or approve one that
+ * passed when the poster opted in. Anything the platform cannot settle (the
+ * rejection limit is reached, the task has no escrow) is left for the poster.
+ */
+async function actOnValidationReport(task: Task, report: ValidationReport): Promise<Task> {
+  let outcome: Task | ApiError;
+  if (!report.passed) {
+    const failed = report.checks.filter((check) => !check.passed).map((check) => check.criterion);
+    outcome = await returnForRework(task, 'system', `Failed acceptance criteria: ${failed.join(', ')}`);
+  } else if (task.autoApproveOnPass) {
+    outcome = await approveSubmission(task.id, 'system', { reason: 'Passed acceptance criteria' });
   } else {
-    // Simulated payment for dev/testing
-    paymentTxId = `sim_${randomUUID().slice(0, 12)}`;
-
-    try {
-      const settleResponse = await fetch(`${facilitatorUrl}/health`);
-      if (settleResponse.ok) {
-        console.log(`[TaskEngine] Facilitator available, payment would settle on-chain`);
-        paymentTxId = `stx_${randomUUID().slice(0, 12)}`;
-      }
-    } catch {
-      console.log(`[TaskEngine] Facilitator not available, using simulated payment`);
-    }
+    return task;
   }
 
-  const now = new Date();
+  if ('error' in outcome) {
+    console.log(`[TaskEngine] Task ${task.id} left for the poster to review: ${outcome.error}`);
+    return task;
+  }
+  return outcome;
+}
+
+export async function rejectResult(taskId: string, posterAddress: string, reason: string): Promise<Task | ApiError> {
+  const task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+  const denied = checkTransition('reject', task.status, 'poster');
+  if (denied) return denied;
+  if (task.posterAddress !== posterAddress) return { error: 'Only the poster can reject submissions', code: 'forbidden' };
+  return returnForRework(task, 'poster', reason, posterAddress);
+}
+
+/**
+ * Send a submission back to the agent, by the poster or for failing the
+ * acceptance criteria. Counts toward the rejection limit either way.
+ */
+async function returnForRework(task: Task, actor: TaskActor, reason: string, actorId?: string): Promise<Task | ApiError> {
+  const rejectedTask = await withTaskLock<Task>(task.id, async (locked, client) => {
+    if (locked.rejectionCount >= MAX_REJECTIONS) {
+      return { error: `Submission has been rejected ${locked.rejectionCount} times; open a dispute instead` };
+    }
+
+    // The agent gets its full committed ETA again to rework the result
+    const now = new Date();
+    const moved = await transitionTask(task.id, {
+      action: 'reject',
+      from: 'submitted',
+      to: 'assigned',
+      actor,
+      actorId,
+      reason,
+      set: { rejection_reason: reason, rejection_count: locked.rejectionCount + 1, result: null, due_at: renewedDueAt(locked, now), assigned_at: now },
+    }, client);
+    if (!('error' in moved)) {
+      await reviewLatestSubmission(client, task.id, 'rejected', reason);
+      await reopenPortions(client, task.id);
+    }
+    return moved;
+  });
+  if ('error' in rejectedTask) return rejectedTask;
+
+  console.log(`[TaskEngine] Task ${task.id} result rejected: ${reason}`);
+  await recordEvent('task.status_changed', { task: rejectedTask, previousStatus: 'submitted', newStatus: 'assigned' }, { taskId: task.id, category: rejectedTask.category });
+  return rejectedTask;
+}
+
+/**
+ * Due date for reworking a submission: the agent's full committed ETA again
+ */
+function renewedDueAt(task: Task, now: Date): Date | null {
+  return task.dueAt && task.assignedAt
+    ? new Date(now.getTime() + new Date(task.dueAt).getTime() - new Date(task.assignedAt).getTime())
+    : null;
+}
+
+/**
+ * Record the poster's decision on the latest submission
+ */
+async function reviewLatestSubmission(
+  client: PoolClient,
+  taskId: string,
+  status: SubmissionStatus,
+  feedback?: string,
+  changeRequests: ChangeRequest[] = []
+): Promise<Submission | undefined> {
+  const { rows } = await client.query(
+    `UPDATE submissions SET status = $2, feedback = $3, change_requests = $4, reviewed_at = $5
+     WHERE task_id = $1 AND version = (SELECT MAX(version) FROM submissions WHERE task_id = $1)
+     RETURNING *`,
+    [taskId, status, feedback ?? null, JSON.stringify(changeRequests), new Date()]
+  );
+  return rows.length ? rowToSubmission(rows[0]) : undefined;
+}
+
+/**
+ * Poster asks for changes to a submission. Unlike a rejection the result is
+ * kept, and the agent resubmits a new version. Once the task's revisions are
+ * used up the request escalates instead: to a dispute, or a cancellation that
+ * refunds the poster.
+ */
+export async function requestRevision(taskId: string, posterAddress: string, req: RequestRevisionRequest): Promise<Task | ApiError> {
+  const task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+  const denied = checkTransition('request-revision', task.status, 'poster');
+  if (denied) return denied;
+  if (task.posterAddress !== posterAddress) return { error: 'Only the poster can request revisions', code: 'forbidden' };
+  if (task.revisionCount >= task.maxRevisions) return escalateRevisions(task, req);
+
+  const reason = req.note ?? `${req.changeRequests.length} change(s) requested`;
+  let submission: Submission | undefined;
+  const revisedTask = await withTaskLock<Task>(taskId, async (locked, client) => {
+    const now = new Date();
+    const moved = await transitionTask(taskId, {
+      action: 'request-revision',
+      from: 'submitted',
+      to: 'revision-requested',
+      actor: 'poster',
+      actorId: posterAddress,
+      reason,
+      set: { revision_count: locked.revisionCount + 1, due_at: renewedDueAt(locked, now), assigned_at: now, review_due_at: null },
+    }, client);
+    if (!('error' in moved)) {
+      submission = await reviewLatestSubmission(client, taskId, 'revision-requested', req.note, req.changeRequests);
+      await reopenPortions(client, taskId);
+    }
+    return moved;
+  });
+  if ('error' in revisedTask) return revisedTask;
+
+  console.log(`[TaskEngine] Task ${taskId} revision ${revisedTask.revisionCount}/${revisedTask.maxRevisions} requested: ${req.changeRequests.length} change(s)`);
+  await recordEvent('task.status_changed', {
+    task: revisedTask, previousStatus: 'submitted', newStatus: 'revision-requested', reason, submission,
+  }, { taskId, category: revisedTask.category });
+  return revisedTask;
+}
+
+/**
+ * A revision request past the task's limit: hand the submission to an arbiter,
+ * or cancel the task and refund the poster, as the task was set up to do
+ */
+async function escalateRevisions(task: Task, req: RequestRevisionRequest): Promise<Task | ApiError> {
+  const reason = `Revision limit of ${task.maxRevisions} reached${req.note ? `: ${req.note}` : ''}`;
+  const evidence = req.changeRequests.map((change) => change.target ? `${change.target}: ${change.description}` : change.description);
+
+  if (task.revisionEscalation === 'dispute') {
+    const dispute = await fileDispute(task, {
+      openedBy: 'poster',
+      openerAddress: task.posterAddress,
+      action: 'escalate',
+      actor: 'system',
+      reason,
+      evidence,
+      changeRequests: req.changeRequests,
+    });
+    if ('error' in dispute) return dispute;
+    return (await getTask(task.id))!;
+  }
+
+  const cancelledTask = await withTaskLock<Task>(task.id, async (locked, client) => {
+    const denied = checkTransition('escalate', locked.status, 'system');
+    if (denied) return denied;
+
+    let refundTxId: string | null = null;
+    if (locked.escrowTxId && hasEscrow(locked)) {
+      const refund = await refundRemainingEscrow(locked, client);
+      if ('error' in refund) return refund;
+      refundTxId = refund.txId;
+    }
+
+    const moved = await transitionTask(task.id, {
+      action: 'escalate',
+      from: 'submitted',
+      to: 'cancelled',
+      actor: 'system',
+      reason,
+      set: { refund_tx_id: refundTxId, review_due_at: null },
+    }, client);
+    if (!('error' in moved)) await reviewLatestSubmission(client, task.id, 'rejected', reason, req.changeRequests);
+    return moved;
+  });
+  if ('error' in cancelledTask) return cancelledTask;
+
+  console.log(`[TaskEngine] Task ${task.id} cancelled after ${task.revisionCount} revision(s)${cancelledTask.refundTxId ? `, escrow refunded: ${cancelledTask.refundTxId}` : ''}`);
+  await recordEvent('task.status_changed', { task: cancelledTask, previousStatus: 'submitted', newStatus: 'cancelled', reason }, { taskId: task.id, category: cancelledTask.category });
+  return cancelledTask;
+}
 
-  // Fetch STX/USD price to lock USD value at completion time
-  let bountyUsd: string | null = null;
+/**
+ * Every version of a task's result with the poster's feedback, oldest first
+ */
+export async function listSubmissions(taskId: string): Promise<Submission[]> {
+  const { rows } = await query('SELECT * FROM submissions WHERE task_id = $1 ORDER BY version ASC', [taskId]);
+  const submissions = rows.map(rowToSubmission);
+  const artifacts = await listArtifacts(taskId);
+  for (const submission of submissions) {
+    submission.artifacts = artifacts.filter((artifact) => artifact.version === submission.version);
+  }
+  return submissions;
+}
+
+/**
+ * Platform wallet for the fee leg of a payout. Uses the fallback wallet if the
+ * payer or an agent IS the primary platform wallet (Clarity stx-transfer? disallows self-transfers).
+ */
+function platformWalletFor(task: Task, ...agentWallets: string[]): string {
+  const { primary, fallback } = PLATFORM_WALLETS[task.network];
+  const payer = task.escrowAddress ?? task.posterAddress;
+  return (payer === primary || agentWallets.includes(primary)) ? fallback : primary;
+}
+
+/**
+ * Release an escrowed payout through the payments contract: to the assigned
+ * agent, or split across the team by its declared shares
+ */
+async function releasePayout(task: EscrowedTask, payoutMicro: string): Promise<{ txId: string; platformWallet: string } | ApiError> {
+  if (task.teamSize > 0) {
+    const payouts = await teamPayouts(task, payoutMicro);
+    if ('error' in payouts) return payouts;
+    const platformWallet = platformWalletFor(task, ...payouts.map((payout) => payout.walletAddress));
+    const release = await releaseEscrowToTeam(task, payouts, platformWallet, payoutMicro);
+    return 'error' in release ? release : { txId: release.txId, platformWallet };
+  }
+
+  const agent = task.assignedAgent ? await getAgent(task.assignedAgent) : undefined;
+  if (!agent) return { error: 'Assigned agent has no payout wallet' };
+  const platformWallet = platformWalletFor(task, agent.walletAddress);
+  const release = await releaseEscrow(task, agent.walletAddress, platformWallet, payoutMicro);
+  return 'error' in release ? release : { txId: release.txId, platformWallet };
+}
+
+/**
+ * Platform fee (STX) on a payout, using integer math (microSTX) to avoid floating-point errors
+ */
+function platformFeeFor(amountMicroStx: string): string {
+  const feeMicro = BigInt(amountMicroStx) / 100n; // 1%
+  return (Number(feeMicro) / 1_000_000).toFixed(6);
+}
+
+/**
+ * Net amount (STX) the agent receives from a payout once the fee is taken
+ */
+function agentPayoutFor(amountMicroStx: string): number {
+  const amountMicro = BigInt(amountMicroStx);
+  return Number(amountMicro - amountMicro / 100n) / 1_000_000;
+}
+
+/**
+ * Bounty value in USD at the current STX price, or null when the price is unavailable
+ */
+async function lockBountyUsd(task: Task): Promise<string | null> {
   try {
     const priceRes = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=blockstack&vs_currencies=usd');
     if (priceRes.ok) {
       const priceData = await priceRes.json() as { blockstack?: { usd?: number } };
       if (priceData.blockstack?.usd) {
-        bountyUsd = (parseFloat(task.bounty) * priceData.blockstack.usd).toFixed(2);
+        const bountyUsd = (parseFloat(task.bounty) * priceData.blockstack.usd).toFixed(2);
         console.log(`[TaskEngine] Locked USD value: $${bountyUsd} (1 STX = $${priceData.blockstack.usd})`);
+        return bountyUsd;
       }
     }
   } catch {
-    console.log(`[TaskEngine] Could not fetch STX/USD price, USD value not locked`);
+    // Fall through: the task completes without a USD value
   }
+  console.log(`[TaskEngine] Could not fetch STX/USD price, USD value not locked`);
+  return null;
+}
+
+export async function approveTask(taskId: string, posterAddress: string, txId?: string): Promise<Task | ApiError> {
+  return approveSubmission(taskId, 'poster', { actorId: posterAddress, txId });
+}
 
-  // Use fallback platform wallet if poster or agent IS the primary platform wallet
-  // (Clarity stx-transfer? disallows self-transfers)
-  let agentWalletAddr = '';
-  if (task.assignedAgent) {
-    const agent = await getAgent(task.assignedAgent);
-    if (agent && 'walletAddress' in agent) agentWalletAddr = agent.walletAddress;
+/**
+ * Approve a submission the poster left past its review window, recording that
+ * the approval was implicit
+ */
+export async function approveOverdueSubmission(taskId: string): Promise<Task | ApiError> {
+  return approveSubmission(taskId, 'system', { reason: 'Review window elapsed without a decision', implicit: true });
+}
+
+/**
+ * Remind the poster, once per submission, that its review window is closing.
+ * Returns undefined when the reminder was already sent or the task has moved on.
+ */
+export async function sendReviewReminder(taskId: string): Promise<Task | undefined> {
+  const { rows } = await query(
+    `UPDATE tasks SET review_reminded_at = NOW() WHERE id = $1 AND status = 'submitted' AND review_reminded_at IS NULL RETURNING *`,
+    [taskId]
+  );
+  if (rows.length === 0) return undefined;
+
+  const task = rowToTask(rows[0]);
+  await recordEvent('task.review_reminder', { task, reviewDueAt: task.reviewDueAt }, { taskId, category: task.category });
+  return task;
+}
+
+interface ApprovalOptions {
+  actorId?: string;
+  /** Payment contract call, for tasks posted before escrow */
+  txId?: string;
+  reason?: string;
+  /** The review window elapsed; refused if it has not */
+  implicit?: boolean;
+}
+
+/**
+ * Release the payout for a submission: by the poster, or by the platform when
+ * the submission passed auto-approving acceptance criteria or sat out its review window
+ */
+async function approveSubmission(taskId: string, actor: TaskActor, options: ApprovalOptions = {}): Promise<Task | ApiError> {
+  const { actorId, txId, reason, implicit = false } = options;
+  let approvedTask: Task | ApiError;
+  try {
+    approvedTask = await withTaskLock<Task>(taskId, async (task, client) => {
+      if (actor === 'poster' && task.posterAddress !== actorId) return { error: 'Only the task poster can approve', code: 'forbidden' };
+      const denied = checkTransition('approve', task.status, actor);
+      if (denied) return denied;
+      if (implicit && !(task.reviewDueAt && new Date(task.reviewDueAt) <= new Date())) {
+        return { error: 'Review window has not elapsed' };
+      }
+
+      // The agent is paid its accepted bid, which may be less than the bounty
+      const payoutMicro = task.payoutMicroStx ?? task.bountyMicroStx;
+      const platformFee = platformFeeFor(payoutMicro);
+
+      // Determine payment transaction ID and the platform wallet for the fee leg:
+      // 1. Escrowed tasks: release the escrow to the agent or team (minus the platform fee)
+      // 2. Tasks posted before escrow: the poster paid via the contract and sends its txId
+      let paymentTxId: string;
+      let effectivePlatformWallet: string;
+
+      if (task.escrowTxId && hasEscrow(task)) {
+        // The rest of the escrow goes back to the poster, recorded straight away so a failed release cannot refund it twice
+        const remainderMicro = BigInt(task.bountyMicroStx) - BigInt(payoutMicro);
+        if (remainderMicro > 0n && !task.refundTxId) {
+          const refund = await refundEscrow(task, remainderMicro.toString());
+          if ('error' in refund) return refund;
+          await client.query('UPDATE tasks SET refund_tx_id = $1 WHERE id = $2', [refund.txId, taskId]);
+          console.log(`[TaskEngine] Refunded ${remainderMicro} microSTX above the accepted bid for task ${taskId}: ${refund.txId}`);
+        }
+        const release = await releasePayout(task, payoutMicro);
+        if ('error' in release) return release;
+        paymentTxId = release.txId;
+        effectivePlatformWallet = release.platformWallet;
+        console.log(`[TaskEngine] Escrow released for task ${taskId}: ${paymentTxId}`);
+      } else if (txId) {
+        // One settled payment cannot be claimed for two tasks or milestones
+        const { rows: used } = await client.query(
+          `SELECT 1 FROM tasks WHERE payment_tx_id = $1 AND id <> $2
+           UNION ALL SELECT 1 FROM milestones WHERE payment_tx_id = $1`,
+          [txId, taskId]
+        );
+        if (used.length > 0) return { error: 'Payment already used for another task' };
+        const agent = task.assignedAgent ? await getAgent(task.assignedAgent) : undefined;
+        effectivePlatformWallet = platformWalletFor(task, agent?.walletAddress ?? '');
+        paymentTxId = txId;
+        console.log(`[TaskEngine] Poster-paid on-chain tx received: ${txId}`);
+      } else {
+        return { error: 'Task has no escrowed bounty; provide the txId of the payment contract call' };
+      }
+
+      // Hold the task until the payment confirmer sees the transaction settle on-chain
+      const moved = await transitionTask(taskId, {
+        action: 'approve',
+        from: 'submitted',
+        to: 'payment-pending',
+        actor,
+        actorId,
+        reason,
+        set: { payment_tx_id: paymentTxId, platform_fee: platformFee, platform_wallet: effectivePlatformWallet, payment_error: null, approved_implicitly: implicit },
+      }, client);
+      if (!('error' in moved)) await reviewLatestSubmission(client, taskId, 'approved', reason);
+      return moved;
+    });
+  } catch (err: unknown) {
+    // Unique payment_tx_id: a concurrent approval recorded the same transaction first
+    if (err instanceof Error && 'code' in err && (err as { code: string }).code === '23505') {
+      return { error: 'Payment already used for another task' };
+    }
+    throw err;
   }
-  const effectivePlatformWallet =
-    (task.posterAddress === PLATFORM_WALLET || agentWalletAddr === PLATFORM_WALLET)
-      ? PLATFORM_WALLET_FALLBACK
-      : PLATFORM_WALLET;
+  if ('error' in approvedTask) return approvedTask;
+
+  console.log(`[TaskEngine] Task ${taskId} approved${implicit ? ' implicitly' : ''}, awaiting confirmation of ${approvedTask.paymentTxId}`);
+  await recordEvent('task.status_changed', { task: approvedTask, previousStatus: 'submitted', newStatus: 'payment-pending' }, { taskId, category: approvedTask.category });
+  return approvedTask;
+}
+
+/**
+ * Complete a task once its payment transaction is confirmed on-chain:
+ * locks the USD value and credits the agent.
+ */
+export async function completePayment(taskId: string): Promise<Task | ApiError> {
+  const task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+  const denied = checkTransition('confirm-payment', task.status, 'system');
+  if (denied) return denied;
+
+  // An arbiter may have awarded only part of the bounty; a team splits it by its declared shares
+  const payoutMicro = task.payoutMicroStx ?? task.bountyMicroStx;
+  let credits: { agentId: string; earned: number }[] = [];
+  if (task.teamSize > 0) {
+    const members = await listTeamMembers(taskId);
+    const amounts = splitTeamPayout(payoutMicro, members.map((member) => member.sharePercent));
+    credits = members.map((member, i) => ({ agentId: member.agentId, earned: Number(amounts[i]) / 1_000_000 }));
+  } else if (task.assignedAgent) {
+    credits = [{ agentId: task.assignedAgent, earned: agentPayoutFor(payoutMicro) }];
+  }
+
+  const now = new Date();
+
+  // Lock the USD value at completion time
+  const bountyUsd = await lockBountyUsd(task);
 
   // Use transaction to atomically update task + agent
   const client = await getClient();
   try {
     await client.query('BEGIN');
 
-    const { rows } = await client.query(
-      `UPDATE tasks
-       SET status = 'completed', payment_tx_id = $1, platform_fee = $2,
-           platform_wallet = $3, bounty_usd = $4, completed_at = $5, updated_at = $5
-       WHERE id = $6 RETURNING *`,
-      [paymentTxId, platformFee.toFixed(6), effectivePlatformWallet, bountyUsd, now, taskId]
-    );
+    const completedTask = await transitionTask(taskId, {
+      action: 'confirm-payment',
+      from: 'payment-pending',
+      to: 'completed',
+      actor: 'system',
+      reason: `Payment ${task.paymentTxId} confirmed`,
+      set: { bounty_usd: bountyUsd, completed_at: now },
+    }, client);
+    if ('error' in completedTask) {
+      await client.query('ROLLBACK');
+      return { error: 'Task payment was already resolved' };
+    }
 
-    if (task.assignedAgent) {
+    for (const { agentId, earned } of credits) {
       await client.query(
         `UPDATE agents
          SET tasks_completed = tasks_completed + 1,
              total_earned = (CAST(total_earned AS NUMERIC) + $1)::TEXT,
              last_active_at = $2
          WHERE id = $3`,
-        [agentPayout, now, task.assignedAgent]
+        [earned, now, agentId]
       );
     }
 
     await client.query('COMMIT');
 
-    const txType = txId ? 'ON-CHAIN' : 'SIMULATED';
-    console.log(`[TaskEngine] Task ${taskId} completed! [${txType}] Payment: ${paymentTxId} (${task.bounty} STX, fee: ${platformFee.toFixed(6)} STX)`);
-    const completedTask = rowToTask(rows[0]);
+    const txType = task.escrowTxId ? 'ESCROW' : 'POSTER-PAID';
+    console.log(`[TaskEngine] Task ${taskId} completed! [${txType}] Payment: ${task.paymentTxId} (${task.bounty} STX, fee: ${task.platformFee} STX)`);
     const ctx = { taskId, category: completedTask.category };
-    await dispatchEvent('task.status_changed', { task: completedTask, previousStatus: 'submitted', newStatus: 'completed' }, ctx);
-    await dispatchEvent('task.completed', { task: completedTask }, ctx);
+    await recordEvent('task.status_changed', { task: completedTask, previousStatus: 'payment-pending', newStatus: 'completed' }, ctx);
+    await recordEvent('task.completed', { task: completedTask }, ctx);
     return completedTask;
   } catch (err) {
     await client.query('ROLLBACK');
@@ -395,117 +1379,592 @@ export async function approveTask(taskId: string, txId?: string): Promise<Task |
   }
 }
 
-export async function closeTask(taskId: string, posterAddress: string): Promise<Task | { error: string }> {
+/**
+ * Revert a task whose payment transaction failed or did not pay what was owed.
+ * The poster (or, for a dispute ruling, the arbiter) can approve again once the cause is fixed.
+ */
+export async function failPayment(taskId: string, reason: string): Promise<Task | ApiError> {
+  // A payout ordered by an arbiter goes back to the arbiter instead of the poster
+  const dispute = await getDispute(taskId);
+  const revertTo: TaskStatus = dispute?.status === 'resolved' ? 'disputed' : 'submitted';
+
+  const revertedTask = await transitionTask(taskId, {
+    action: 'fail-payment',
+    from: 'payment-pending',
+    to: revertTo,
+    actor: 'system',
+    reason,
+    set: { payment_error: reason, payment_tx_id: null, platform_fee: null, platform_wallet: null },
+  });
+  if ('error' in revertedTask) return { error: 'Task is not payment-pending' };
+
+  if (dispute && revertTo === 'disputed') {
+    await query(`UPDATE disputes SET status = 'open', resolved_at = NULL WHERE id = $1`, [dispute.id]);
+  }
+
+  console.log(`[TaskEngine] Task ${taskId} payment rejected: ${reason}`);
+  const ctx = { taskId, category: revertedTask.category };
+  await recordEvent('task.status_changed', { task: revertedTask, previousStatus: 'payment-pending', newStatus: revertTo }, ctx);
+  await recordEvent('task.payment_failed', { task: revertedTask, reason }, ctx);
+  return revertedTask;
+}
+
+export async function closeTask(taskId: string, posterAddress: string): Promise<Task | ApiError> {
   const task = await getTask(taskId);
   if (!task) return { error: 'Task not found' };
-  if (task.status !== 'completed') return { error: `Task is ${task.status}, not completed` };
-  if (task.posterAddress !== posterAddress) return { error: 'Only the poster can close this task' };
+  const denied = checkTransition('close', task.status, 'poster');
+  if (denied) return denied;
+  if (task.posterAddress !== posterAddress) return { error: 'Only the poster can close this task', code: 'forbidden' };
 
-  const now = new Date();
-  const { rows } = await query(
-    `UPDATE tasks SET status = 'closed', updated_at = $1 WHERE id = $2 RETURNING *`,
-    [now, taskId]
-  );
+  const closedTask = await transitionTask(taskId, { action: 'close', from: 'completed', to: 'closed', actor: 'poster', actorId: posterAddress });
+  if ('error' in closedTask) return closedTask;
 
   console.log(`[TaskEngine] Task ${taskId} closed by poster`);
-  const closedTask = rowToTask(rows[0]);
-  await dispatchEvent('task.status_changed', { task: closedTask, previousStatus: 'completed', newStatus: 'closed' }, { taskId, category: closedTask.category });
+  await recordEvent('task.status_changed', { task: closedTask, previousStatus: 'completed', newStatus: 'closed' }, { taskId, category: closedTask.category });
   return closedTask;
 }
 
+// ─── Deadlines ──────────────────────────────────────────
+
+const ETA_UNIT_SECONDS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+
+/**
+ * Parse a free-text estimate like "2 minutes", "1.5 hours" or "1h 30m" into seconds.
+ * Returns undefined when no duration can be read from it.
+ */
+export function parseEstimatedTime(text: string): number | undefined {
+  const pattern = /(\d+(?:\.\d+)?)\s*(seconds?|secs?|s|minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|w)\b/gi;
+  let total = 0;
+  for (const match of text.matchAll(pattern)) {
+    total += parseFloat(match[1]) * ETA_UNIT_SECONDS[match[2][0].toLowerCase()];
+  }
+  return total > 0 ? Math.ceil(total) : undefined;
+}
+
+function isPastDeadline(task: Task): boolean {
+  return !!task.deadline && new Date(task.deadline).getTime() <= Date.now();
+}
+
+/**
+ * Expire an unassigned task whose deadline has passed, refunding the escrow if it was funded
+ */
+export async function expireTask(taskId: string): Promise<Task | ApiError> {
+  const reason = 'Deadline passed before the task was assigned';
+  const expired = await withTaskLock<{ task: Task; previousStatus: TaskStatus }>(taskId, async (task, client) => {
+    const denied = checkTransition('expire', task.status, 'system');
+    if (denied) return denied;
+    if (!isPastDeadline(task)) return { error: 'Task deadline has not passed' };
+    if (task.fundingTxId && !task.escrowTxId) return { error: `Funding payment ${task.fundingTxId} is awaiting confirmation` };
+
+    let refundTxId: string | null = null;
+    if (task.escrowTxId && hasEscrow(task)) {
+      const refund = await refundRemainingEscrow(task, client);
+      if ('error' in refund) return refund;
+      refundTxId = refund.txId;
+    }
+
+    const moved = await transitionTask(taskId, {
+      action: 'expire',
+      from: task.status,
+      to: 'expired',
+      actor: 'system',
+      reason,
+      set: { refund_tx_id: refundTxId },
+    }, client);
+    return 'error' in moved ? moved : { task: moved, previousStatus: task.status };
+  });
+  if ('error' in expired) return expired;
+  const { task: expiredTask, previousStatus } = expired;
+
+  await expireActiveBids(taskId);
+  console.log(`[TaskEngine] Task ${taskId} expired at its deadline${expiredTask.refundTxId ? `, escrow refunded: ${expiredTask.refundTxId}` : ''}`);
+  const ctx = { taskId, category: expiredTask.category };
+  await recordEvent('task.status_changed', { task: expiredTask, previousStatus, newStatus: 'expired' }, ctx);
+  await recordEvent('task.expired', { task: expiredTask, reason }, ctx);
+  return expiredTask;
+}
+
+/**
+ * Take a task back from an agent that overran its due date and reopen it for bids.
+ * The miss is counted against the agent.
+ */
+export async function reopenOverdueTask(taskId: string): Promise<Task | ApiError> {
+  const task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+  const denied = checkTransition('reopen', task.status, 'system');
+  if (denied) return denied;
+
+  // A milestone waiting on the poster's review or its payout does not count against the agent,
+  // and once one is paid the agent keeps the task: the escrow no longer holds the full bounty
+  const reason = 'Assigned agent missed its committed ETA';
+  const reopenedTask = await transitionTask(taskId, {
+    action: 'reopen',
+    from: task.status,
+    to: 'bidding',
+    actor: 'system',
+    actorId: task.assignedAgent,
+    reason,
+    // The next agent starts with its own revisions; a team is dissolved
+    set: { assigned_agent: null, assigned_at: null, due_at: null, payout_micro_stx: null, revision_count: 0, team_size: 0 },
+    guard: `due_at <= NOW() AND NOT EXISTS (
+      SELECT 1 FROM milestones m WHERE m.task_id = tasks.id AND m.status IN ('submitted', 'payment-pending', 'paid'))`,
+  });
+  if ('error' in reopenedTask) return { error: 'Task is not overdue' };
+
+  if (task.teamSize > 0) {
+    // Only the members still working their portion missed the due date
+    await query(
+      `UPDATE agents SET deadlines_missed = deadlines_missed + 1
+       WHERE id IN (SELECT agent_id FROM task_members WHERE task_id = $1 AND status = 'working')`,
+      [taskId]
+    );
+    await query('DELETE FROM task_members WHERE task_id = $1', [taskId]);
+  } else if (task.assignedAgent) {
+    await query('UPDATE agents SET deadlines_missed = deadlines_missed + 1 WHERE id = $1', [task.assignedAgent]);
+    // The agent may bid again, but the agreement it broke is over
+    await query(
+      `UPDATE bids SET status = 'expired', updated_at = $1 WHERE task_id = $2 AND agent_id = $3 AND status = 'accepted'`,
+      [new Date(), taskId, task.assignedAgent]
+    );
+  }
+
+  console.log(`[TaskEngine] Task ${taskId} reopened: agent ${task.assignedAgent} missed its due date ${task.dueAt}`);
+  const ctx = { taskId, category: reopenedTask.category };
+  await recordEvent('task.status_changed', { task: reopenedTask, previousStatus: task.status, newStatus: 'bidding' }, ctx);
+  await recordEvent('task.expired', { task: reopenedTask, agentId: task.assignedAgent, reason }, ctx);
+  return reopenedTask;
+}
+
 // ─── Bidding Operations ──────────────────────────────────────────
 
-export async function placeBid(taskId: string, req: PlaceBidRequest): Promise<Bid | { error: string }> {
+export async function placeBid(taskId: string, req: PlaceBidRequest): Promise<Bid | ApiError> {
   const task = await getTask(taskId);
   if (!task) return { error: 'Task not found' };
   if (task.status !== 'open' && task.status !== 'bidding') return { error: `Task is ${task.status}, not accepting bids` };
+  if (isPastDeadline(task)) return { error: 'Task deadline has passed' };
 
   const agent = await getAgent(req.agentId);
   if (!agent) return { error: 'Agent not registered' };
+  if (task.visibility === 'invite-only' && !(await isInvited(taskId, req.agentId))) {
+    return { error: 'This task is invite-only', code: 'forbidden' };
+  }
+
+  if (isBiddingClosed(task)) return { error: `Bidding closed at ${task.biddingClosesAt}` };
+  const badAmount = checkBidAmount(task, req.amount);
+  if (badAmount) return badAmount;
 
-  // Check if agent already bid on this task
+  // One active bid per agent; a withdrawn or rejected bid can be replaced
   const { rows: existing } = await query(
-    'SELECT id FROM bids WHERE task_id = $1 AND agent_id = $2',
+    `SELECT id FROM bids WHERE task_id = $1 AND agent_id = $2 AND status = 'active'`,
     [taskId, req.agentId]
   );
   if (existing.length > 0) {
-    return { error: 'Agent already placed a bid on this task' };
+    return { error: 'Agent already has an active bid on this task; revise it instead' };
   }
 
   const id = randomUUID().slice(0, 8);
   const now = new Date();
 
   const { rows } = await query(
-    `INSERT INTO bids (id, task_id, agent_id, amount, message, estimated_time, created_at)
-     VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
-    [id, taskId, req.agentId, req.amount, req.message, req.estimatedTime, now]
+    `INSERT INTO bids (id, task_id, agent_id, amount, message, estimated_time, eta_seconds, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8) RETURNING *`,
+    [id, taskId, req.agentId, req.amount, req.message, req.estimatedTime, req.etaSeconds ?? parseEstimatedTime(req.estimatedTime) ?? null, now]
   );
 
-  // Move task to bidding status if it was open
-  if (task.status === 'open') {
-    await query(
-      `UPDATE tasks SET status = 'bidding', updated_at = $1 WHERE id = $2`,
-      [now, taskId]
-    );
-  }
+  // The first bid moves an open task to bidding; a concurrent first bid may already have
+  const biddingTask = task.status === 'open'
+    ? await transitionTask(taskId, { action: 'bid', from: 'open', to: 'bidding', actor: 'agent', actorId: req.agentId })
+    : undefined;
 
   await query('UPDATE agents SET last_active_at = $1 WHERE id = $2', [now, req.agentId]);
 
   console.log(`[TaskEngine] Bid ${id} placed on task ${taskId} by agent ${agent.name} (${req.amount} STX)`);
   const placedBid = rowToBid(rows[0]);
   const ctx = { taskId, category: task.category };
-  await dispatchEvent('bid.placed', { bid: placedBid }, ctx);
-  if (task.status === 'open') {
-    const updatedTask = await getTask(taskId);
-    if (updatedTask) {
-      await dispatchEvent('task.status_changed', { task: updatedTask, previousStatus: 'open', newStatus: 'bidding' }, ctx);
-    }
+  await recordEvent('bid.placed', bidEventData(task, placedBid), ctx);
+  if (biddingTask && !('error' in biddingTask)) {
+    await recordEvent('task.status_changed', { task: biddingTask, previousStatus: 'open', newStatus: 'bidding' }, ctx);
   }
   return placedBid;
 }
 
-export async function listBids(taskId: string): Promise<Bid[]> {
-  const { rows } = await query(
-    'SELECT * FROM bids WHERE task_id = $1 ORDER BY CAST(amount AS NUMERIC) ASC',
-    [taskId]
-  );
-  return rows.map(rowToBid);
+/**
+ * Bids on a task, cheapest first. While a sealed task is taking bids, only its
+ * poster sees them all; an agent's wallet sees just that agent's bids.
+ */
+export async function listBids(taskId: string, viewer?: string): Promise<Bid[]> {
+  const task = await getTask(taskId);
+  if (task && isSealed(task) && viewer !== task.posterAddress) {
+    const { rows } = await query(
+      `SELECT b.* FROM bids b JOIN agents a ON a.id = b.agent_id
+       WHERE b.task_id = $1 AND a.wallet_address = $2 ORDER BY b.created_at ASC`,
+      [taskId, viewer ?? null]
+    );
+    return rows.map(rowToBid);
+  }
+
+  const { rows } = await query(
+    'SELECT * FROM bids WHERE task_id = $1 ORDER BY CAST(amount AS NUMERIC) ASC',
+    [taskId]
+  );
+  return rows.map(rowToBid);
+}
+
+export async function getBidCount(taskId: string): Promise<number> {
+  const { rows } = await query(
+    `SELECT COUNT(*)::int AS count FROM bids WHERE task_id = $1 AND status <> 'withdrawn'`,
+    [taskId]
+  );
+  return rows[0].count;
+}
+
+export async function acceptBid(taskId: string, bidId: string, posterAddress: string): Promise<Task | ApiError> {
+  const task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+  const denied = checkTransition('accept-bid', task.status, 'poster');
+  if (denied) return denied;
+  if (task.posterAddress !== posterAddress) return { error: 'Only the poster can accept bids', code: 'forbidden' };
+  if (isPastDeadline(task)) return { error: 'Task deadline has passed' };
+  if (task.auctionMode !== 'open' && !isBiddingClosed(task)) {
+    return { error: `Bids can be accepted once bidding closes at ${task.biddingClosesAt}` };
+  }
+
+  const bid = await getBid(taskId, bidId);
+  if (!bid) return { error: 'Bid not found' };
+  if (bid.status !== 'active') return { error: `Bid is ${bid.status}` };
+  const badAmount = checkBidAmount(task, bid.amount);
+  if (badAmount) return badAmount;
+  const agent = await getAgent(bid.agentId);
+  if (!agent) return { error: 'Agent not found' };
+
+  // The agent is held to its bid ETA; without one, to the task deadline. It is
+  // paid its bid; milestone tasks only take bids of the full bounty, paid per milestone.
+  const now = new Date();
+  const dueAt = bid.etaSeconds ? new Date(now.getTime() + bid.etaSeconds * 1000) : task.deadline ?? null;
+  const bidMicro = stxToMicroStx(bid.amount);
+  const payoutMicro = task.milestoneCount === 0 && BigInt(bidMicro) < BigInt(task.bountyMicroStx) ? bidMicro : null;
+
+  // Accepting the bid, assigning the task and rejecting the other bids happen together
+  const client = await getClient();
+  let accepted: { task: Task; bid: Bid; rejected: Bid[] } | ApiError;
+  try {
+    await client.query('BEGIN');
+    const { rows: acceptedRows } = await client.query(
+      `UPDATE bids SET status = 'accepted', updated_at = $1 WHERE id = $2 AND status = 'active' RETURNING *`,
+      [now, bidId]
+    );
+    const assignedTask = acceptedRows.length === 0
+      ? { error: 'Bid was withdrawn or rejected concurrently' }
+      : await transitionTask(taskId, {
+        action: 'accept-bid',
+        from: task.status,
+        to: 'assigned',
+        actor: 'poster',
+        actorId: posterAddress,
+        reason: `Accepted bid ${bidId} from agent ${bid.agentId}`,
+        set: { assigned_agent: bid.agentId, assigned_at: now, due_at: dueAt, rejection_reason: null, rejection_count: 0, payout_micro_stx: payoutMicro },
+      }, client);
+    if ('error' in assignedTask) {
+      await client.query('ROLLBACK');
+      accepted = assignedTask;
+    } else {
+      const { rows: rejectedRows } = await client.query(
+        `UPDATE bids SET status = 'rejected', rejection_reason = $1, updated_at = $2
+         WHERE task_id = $3 AND status = 'active' RETURNING *`,
+        ['Another bid was accepted', now, taskId]
+      );
+      await client.query('COMMIT');
+      accepted = { task: assignedTask, bid: rowToBid(acceptedRows[0]), rejected: rejectedRows.map(rowToBid) };
+    }
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+  if ('error' in accepted) return accepted;
+  const { task: assignedTask, bid: acceptedBid, rejected } = accepted;
+  await query('UPDATE agents SET last_active_at = $1 WHERE id = $2', [now, bid.agentId]);
+
+  console.log(`[TaskEngine] Bid ${bidId} accepted for task ${taskId}, assigned to ${agent.name} for ${bid.amount} STX`);
+  const ctx = { taskId, category: assignedTask.category };
+  await recordEvent('bid.accepted', { task: assignedTask, bid: acceptedBid }, ctx);
+  await recordEvent('task.status_changed', { task: assignedTask, previousStatus: task.status, newStatus: 'assigned' }, ctx);
+  for (const rejectedBid of rejected) {
+    await recordEvent('bid.rejected', { task: assignedTask, bid: rejectedBid, reason: rejectedBid.rejectionReason }, ctx);
+  }
+  return assignedTask;
+}
+
+async function getBid(taskId: string, bidId: string): Promise<Bid | undefined> {
+  const { rows } = await query('SELECT * FROM bids WHERE id = $1 AND task_id = $2', [bidId, taskId]);
+  return rows.length ? rowToBid(rows[0]) : undefined;
+}
+
+function isBiddingClosed(task: Task): boolean {
+  return !!task.biddingClosesAt && new Date(task.biddingClosesAt).getTime() <= Date.now();
+}
+
+function isSealed(task: Task): boolean {
+  return task.auctionMode === 'sealed' && !isBiddingClosed(task);
+}
+
+/**
+ * Event payload for a bid: a sealed bid is announced by its agent alone, since
+ * events are public
+ */
+function bidEventData(task: Task, bid: Bid): { bid: Bid } | { agentId: string } {
+  return isSealed(task) ? { agentId: bid.agentId } : { bid };
+}
+
+/**
+ * Why a bid amount cannot be placed or accepted, if it cannot: no bid may
+ * exceed the bounty, and milestone tasks pay each milestone's fixed amount,
+ * so a lower bid could not be honoured
+ */
+export function checkBidAmount(task: Pick<Task, 'bounty' | 'bountyMicroStx' | 'milestoneCount'>, amount: string): ApiError | undefined {
+  const amountMicro = BigInt(stxToMicroStx(amount));
+  if (amountMicro > BigInt(task.bountyMicroStx)) return { error: `Bid cannot exceed the ${task.bounty} STX bounty` };
+  if (task.milestoneCount > 0 && amountMicro < BigInt(task.bountyMicroStx)) {
+    return { error: `Task is paid in milestones that add up to the ${task.bounty} STX bounty; bid the full bounty` };
+  }
+  return undefined;
+}
+
+/**
+ * Bids still active when the task stops taking them (cancelled, expired, or
+ * taken without a bid) are no longer in play
+ */
+async function expireActiveBids(taskId: string): Promise<void> {
+  await query(
+    `UPDATE bids SET status = 'expired', updated_at = $1 WHERE task_id = $2 AND status = 'active'`,
+    [new Date(), taskId]
+  );
+}
+
+/**
+ * MicroSTX the assigned agent agreed to do the task for: its accepted bid, or the bounty
+ */
+async function agreedPayoutMicroStx(task: Task): Promise<string> {
+  if (task.milestoneCount > 0 || !task.assignedAgent) return task.bountyMicroStx;
+  const { rows } = await query(
+    `SELECT amount FROM bids WHERE task_id = $1 AND agent_id = $2 AND status = 'accepted' ORDER BY updated_at DESC LIMIT 1`,
+    [task.id, task.assignedAgent]
+  );
+  if (rows.length === 0) return task.bountyMicroStx;
+  const bidMicro = stxToMicroStx(rows[0].amount as string);
+  return BigInt(bidMicro) < BigInt(task.bountyMicroStx) ? bidMicro : task.bountyMicroStx;
+}
+
+/**
+ * Agent changes the amount, message or ETA of its active bid
+ */
+export async function reviseBid(taskId: string, bidId: string, req: ReviseBidRequest): Promise<Bid | ApiError> {
+  const task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+  if (task.status !== 'open' && task.status !== 'bidding') return { error: `Task is ${task.status}, not accepting bids` };
+  if (isBiddingClosed(task)) return { error: `Bidding closed at ${task.biddingClosesAt}` };
+
+  const bid = await getBid(taskId, bidId);
+  if (!bid) return { error: 'Bid not found' };
+  if (bid.agentId !== req.agentId) return { error: 'Only the bidding agent can revise this bid', code: 'forbidden' };
+  if (bid.status !== 'active') return { error: `Bid is ${bid.status}` };
+  const badAmount = req.amount !== undefined ? checkBidAmount(task, req.amount) : undefined;
+  if (badAmount) return badAmount;
+
+  // A new estimatedTime without an explicit ETA re-parses the ETA from it
+  const estimatedTime = req.estimatedTime ?? bid.estimatedTime;
+  const etaSeconds = req.etaSeconds ?? (req.estimatedTime !== undefined ? parseEstimatedTime(req.estimatedTime) : bid.etaSeconds);
+
+  const { rows } = await query(
+    `UPDATE bids SET amount = $1, message = $2, estimated_time = $3, eta_seconds = $4, updated_at = $5
+     WHERE id = $6 AND status = 'active' RETURNING *`,
+    [req.amount ?? bid.amount, req.message ?? bid.message, estimatedTime, etaSeconds ?? null, new Date(), bidId]
+  );
+  if (rows.length === 0) return { error: 'Bid is no longer active' };
+
+  console.log(`[TaskEngine] Bid ${bidId} on task ${taskId} revised (${rows[0].amount} STX)`);
+  return rowToBid(rows[0]);
+}
+
+export async function withdrawBid(taskId: string, bidId: string, agentId: string): Promise<Bid | ApiError> {
+  const bid = await getBid(taskId, bidId);
+  if (!bid) return { error: 'Bid not found' };
+  if (bid.agentId !== agentId) return { error: 'Only the bidding agent can withdraw this bid', code: 'forbidden' };
+  if (bid.status !== 'active') return { error: `Bid is ${bid.status}` };
+
+  const { rows } = await query(
+    `UPDATE bids SET status = 'withdrawn', updated_at = $1 WHERE id = $2 AND status = 'active' RETURNING *`,
+    [new Date(), bidId]
+  );
+  if (rows.length === 0) return { error: 'Bid is no longer active' };
+
+  console.log(`[TaskEngine] Bid ${bidId} on task ${taskId} withdrawn by agent ${agentId}`);
+  return rowToBid(rows[0]);
+}
+
+export async function rejectBid(taskId: string, bidId: string, posterAddress: string, reason?: string): Promise<Bid | ApiError> {
+  const task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+  if (task.posterAddress !== posterAddress) return { error: 'Only the poster can reject bids', code: 'forbidden' };
+
+  const bid = await getBid(taskId, bidId);
+  if (!bid) return { error: 'Bid not found' };
+  if (bid.status !== 'active') return { error: `Bid is ${bid.status}` };
+
+  const { rows } = await query(
+    `UPDATE bids SET status = 'rejected', rejection_reason = $1, updated_at = $2 WHERE id = $3 AND status = 'active' RETURNING *`,
+    [reason ?? null, new Date(), bidId]
+  );
+  if (rows.length === 0) return { error: 'Bid is no longer active' };
+
+  const rejectedBid = rowToBid(rows[0]);
+  console.log(`[TaskEngine] Bid ${bidId} on task ${taskId} rejected${reason ? `: ${reason}` : ''}`);
+  await recordEvent('bid.rejected', { task, ...bidEventData(task, rejectedBid), reason }, { taskId, category: task.category });
+  return rejectedBid;
+}
+
+// ─── Invitations ──────────────────────────────────────────
+
+export async function listInvitations(taskId: string): Promise<Invitation[]> {
+  const { rows } = await query('SELECT * FROM invitations WHERE task_id = $1 ORDER BY created_at ASC', [taskId]);
+  return rows.map(rowToInvitation);
+}
+
+/**
+ * An agent's invitations, newest first
+ */
+export async function listAgentInvitations(agentId: string, status?: InvitationStatus): Promise<Invitation[]> {
+  const { rows } = status
+    ? await query('SELECT * FROM invitations WHERE agent_id = $1 AND status = $2 ORDER BY created_at DESC', [agentId, status])
+    : await query('SELECT * FROM invitations WHERE agent_id = $1 ORDER BY created_at DESC', [agentId]);
+  return rows.map(rowToInvitation);
+}
+
+/**
+ * Whether an agent's invitation lets it accept or bid on an invite-only task:
+ * declining gives up the place
+ */
+export function invitationAdmits(invitation: Pick<Invitation, 'status'> | undefined): boolean {
+  return !!invitation && invitation.status !== 'declined';
+}
+
+async function isInvited(taskId: string, agentId: string): Promise<boolean> {
+  const { rows } = await query('SELECT status FROM invitations WHERE task_id = $1 AND agent_id = $2', [taskId, agentId]);
+  return invitationAdmits(rows[0] as Pick<Invitation, 'status'> | undefined);
+}
+
+/**
+ * SQL condition: the wallet `wallet` owns an agent let into task `t` (its
+ * assigned agent, a team member, or an invitee that has not declined).
+ * Shared by listTasks and canViewTask; the event log keeps the same audience.
+ */
+function letIntoTaskSql(t: string, wallet: string): string {
+  return `EXISTS (SELECT 1 FROM agents a WHERE a.wallet_address = ${wallet} AND (a.id = ${t}.assigned_agent
+    OR a.id IN (SELECT agent_id FROM task_members WHERE task_id = ${t}.id)
+    OR a.id IN (SELECT agent_id FROM invitations WHERE task_id = ${t}.id AND status <> 'declined')))`;
+}
+
+/**
+ * Whether a wallet may see a task and everything about it: invite-only tasks
+ * are shown to their poster and the agents let into them, as in listTasks
+ */
+export async function canViewTask(task: Task, viewer?: string): Promise<boolean> {
+  if (task.visibility === 'public' || (viewer && viewer === task.posterAddress)) return true;
+  if (!viewer) return false;
+  const { rows } = await query(`SELECT 1 FROM tasks t WHERE t.id = $1 AND ${letIntoTaskSql('t', '$2')}`, [task.id, viewer]);
+  return rows.length > 0;
+}
+
+/**
+ * Invite agents to a task, optionally changing its visibility. Agents already
+ * invited are skipped; `task.invited` fires for each new invitation once the
+ * task is funded.
+ */
+export async function inviteAgents(taskId: string, posterAddress: string, req: InviteAgentsRequest): Promise<{ task: Task; invitations: Invitation[] } | ApiError> {
+  let task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+  if (task.posterAddress !== posterAddress) return { error: 'Only the poster can invite agents', code: 'forbidden' };
+  if (!['pending-funding', 'open', 'bidding'].includes(task.status)) {
+    return { error: `Task is ${task.status}, not pending-funding, open or bidding` };
+  }
+
+  for (const agentId of req.agentIds) {
+    const agent = await getAgent(agentId);
+    if (!agent) return { error: `Agent ${agentId} not found` };
+    if (agent.walletAddress === posterAddress) return { error: 'Cannot invite your own agent' };
+  }
+
+  const now = new Date();
+  if (req.visibility && req.visibility !== task.visibility) {
+    const { rows } = await query(
+      'UPDATE tasks SET visibility = $1, updated_at = $2 WHERE id = $3 RETURNING *',
+      [req.visibility, now, taskId]
+    );
+    task = rowToTask(rows[0]);
+  }
+
+  const invitations: Invitation[] = [];
+  for (const agentId of new Set(req.agentIds)) {
+    const { rows } = await query(
+      `INSERT INTO invitations (id, task_id, agent_id, message, created_at)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (task_id, agent_id) DO NOTHING
+       RETURNING *`,
+      [randomUUID().slice(0, 8), taskId, agentId, req.message ?? null, now]
+    );
+    if (rows.length) invitations.push(rowToInvitation(rows[0]));
+  }
+
+  console.log(`[TaskEngine] Task ${taskId}: invited ${invitations.length} agent(s)${task.visibility === 'invite-only' ? ' (invite-only)' : ''}`);
+  if (task.status !== 'pending-funding') {
+    for (const invitation of invitations) {
+      await recordEvent('task.invited', { task, invitation }, { taskId, category: task.category });
+    }
+  }
+  return { task, invitations };
+}
+
+async function getPendingInvitation(taskId: string, invitationId: string, agentId: string): Promise<Invitation | ApiError> {
+  const { rows } = await query('SELECT * FROM invitations WHERE id = $1 AND task_id = $2', [invitationId, taskId]);
+  if (rows.length === 0) return { error: 'Invitation not found' };
+  const invitation = rowToInvitation(rows[0]);
+  if (invitation.agentId !== agentId) return { error: 'Only the invited agent can respond', code: 'forbidden' };
+  if (invitation.status !== 'pending') return { error: `Invitation is already ${invitation.status}` };
+  return invitation;
 }
 
-export async function getBidCount(taskId: string): Promise<number> {
+/**
+ * Accept an invitation: the agent takes the task, as with acceptTask()
+ */
+export async function acceptInvitation(taskId: string, invitationId: string, agentId: string): Promise<{ task: Task; invitation: Invitation } | ApiError> {
+  const pending = await getPendingInvitation(taskId, invitationId, agentId);
+  if ('error' in pending) return pending;
+
+  const task = await acceptTask(taskId, agentId);
+  if ('error' in task) return task;
+
   const { rows } = await query(
-    'SELECT COUNT(*)::int AS count FROM bids WHERE task_id = $1',
-    [taskId]
+    `UPDATE invitations SET status = 'accepted', responded_at = $1 WHERE id = $2 RETURNING *`,
+    [new Date(), invitationId]
   );
-  return rows[0].count;
+  console.log(`[TaskEngine] Agent ${agentId} accepted invitation ${invitationId} to task ${taskId}`);
+  return { task, invitation: rowToInvitation(rows[0]) };
 }
 
-export async function acceptBid(taskId: string, bidId: string, posterAddress: string): Promise<Task | { error: string }> {
-  const task = await getTask(taskId);
-  if (!task) return { error: 'Task not found' };
-  if (task.status !== 'open' && task.status !== 'bidding') return { error: `Task is ${task.status}, cannot accept bids` };
-  if (task.posterAddress !== posterAddress) return { error: 'Only the poster can accept bids' };
-
-  const { rows: bidRows } = await query('SELECT * FROM bids WHERE id = $1 AND task_id = $2', [bidId, taskId]);
-  if (bidRows.length === 0) return { error: 'Bid not found' };
-
-  const bid = rowToBid(bidRows[0]);
-  const agent = await getAgent(bid.agentId);
-  if (!agent) return { error: 'Agent not found' };
+export async function declineInvitation(taskId: string, invitationId: string, agentId: string, reason?: string): Promise<Invitation | ApiError> {
+  const pending = await getPendingInvitation(taskId, invitationId, agentId);
+  if ('error' in pending) return pending;
 
-  const now = new Date();
   const { rows } = await query(
-    `UPDATE tasks SET status = 'assigned', assigned_agent = $1, updated_at = $2 WHERE id = $3 RETURNING *`,
-    [bid.agentId, now, taskId]
+    `UPDATE invitations SET status = 'declined', decline_reason = $1, responded_at = $2
+     WHERE id = $3 AND status = 'pending' RETURNING *`,
+    [reason ?? null, new Date(), invitationId]
   );
-  await query('UPDATE agents SET last_active_at = $1 WHERE id = $2', [now, bid.agentId]);
+  if (rows.length === 0) return { error: 'Invitation was answered concurrently' };
 
-  console.log(`[TaskEngine] Bid ${bidId} accepted for task ${taskId}, assigned to ${agent.name}`);
-  const assignedTask = rowToTask(rows[0]);
-  const ctx = { taskId, category: assignedTask.category };
-  await dispatchEvent('bid.accepted', { task: assignedTask, bid }, ctx);
-  await dispatchEvent('task.status_changed', { task: assignedTask, previousStatus: task.status, newStatus: 'assigned' }, ctx);
-  return assignedTask;
+  console.log(`[TaskEngine] Agent ${agentId} declined invitation ${invitationId} to task ${taskId}`);
+  return rowToInvitation(rows[0]);
 }
 
 // ─── Agent Operations ──────────────────────────────────────────
@@ -532,6 +1991,18 @@ export async function getAgent(id: string): Promise<Agent | undefined> {
   return rows.length ? rowToAgent(rows[0]) : undefined;
 }
 
+/**
+ * Check that a wallet owns an agent record (the agent's payout wallet)
+ */
+export async function authorizeAgent(agentId: string, walletAddress: string): Promise<Agent | ApiError> {
+  const agent = await getAgent(agentId);
+  if (!agent) return { error: 'Agent not registered' };
+  if (agent.walletAddress !== walletAddress) {
+    return { error: 'Authenticated wallet does not own this agent', code: 'forbidden' };
+  }
+  return agent;
+}
+
 /** Deduplicate agents by wallet address, aggregating stats across duplicates */
 function deduplicateAgents(agents: Agent[]): Agent[] {
   const byWallet = new Map<string, Agent>();
@@ -542,6 +2013,7 @@ function deduplicateAgents(agents: Agent[]): Agent[] {
     } else {
       // Aggregate stats
       existing.tasksCompleted += agent.tasksCompleted;
+      existing.deadlinesMissed += agent.deadlinesMissed;
       existing.totalEarned = (parseFloat(existing.totalEarned) + parseFloat(agent.totalEarned)).toFixed(6);
       const totalReviews = existing.totalReviews + agent.totalReviews;
       if (totalReviews > 0) {
@@ -612,7 +2084,7 @@ export async function listAgents(network?: NetworkType): Promise<Agent[]> {
   return deduplicateAgents(agents);
 }
 
-export async function updateAgent(id: string, updates: { bio?: string; capabilities?: TaskCategory[]; avatarUrl?: string }): Promise<Agent | { error: string }> {
+export async function updateAgent(id: string, updates: { bio?: string; capabilities?: TaskCategory[]; avatarUrl?: string }): Promise<Agent | ApiError> {
   const agent = await getAgent(id);
   if (!agent) return { error: 'Agent not found' };
 
@@ -646,14 +2118,18 @@ export async function updateAgent(id: string, updates: { bio?: string; capabilit
 
 // ─── Review Operations ──────────────────────────────────────────
 
-export async function submitReview(agentId: string, req: SubmitReviewRequest): Promise<Review | { error: string }> {
+export async function submitReview(agentId: string, req: SubmitReviewRequest): Promise<Review | ApiError> {
   const agent = await getAgent(agentId);
   if (!agent) return { error: 'Agent not found' };
 
   const task = await getTask(req.taskId);
   if (!task) return { error: 'Task not found' };
-  if (task.status !== 'completed' && task.status !== 'closed') return { error: 'Task not completed yet' };
-  if (task.assignedAgent !== agentId) return { error: 'This agent was not assigned to this task' };
+  // A dispute refunded to the poster still ends the agent's work, so it can be reviewed
+  if (task.status !== 'completed' && task.status !== 'closed' && task.status !== 'refunded') return { error: 'Task not completed yet' };
+  // Every member of a team worked the task and can be reviewed, not just its lead
+  const worked = task.assignedAgent === agentId
+    || (task.teamSize > 0 && (await listTeamMembers(task.id)).some((member) => member.agentId === agentId));
+  if (!worked) return { error: 'This agent did not work on this task' };
   if (task.posterAddress !== req.reviewerAddress) return { error: 'Only the task poster can review' };
 
   if (req.rating < 1 || req.rating > 5) return { error: 'Rating must be between 1 and 5' };
@@ -733,32 +2209,663 @@ export async function getAgentProfile(id: string) {
   };
 }
 
-// ─── Message Operations ──────────────────────────────────────────
+// ─── Disputes ──────────────────────────────────────────
+
+/**
+ * Wallets allowed to rule on disputes (`ARBITER_ADDRESSES`, comma-separated)
+ */
+export function isArbiter(walletAddress: string): boolean {
+  return (process.env.ARBITER_ADDRESSES ?? '').split(',').map((a) => a.trim()).includes(walletAddress);
+}
 
-const THREAD_ACTIVE_STATUSES = ['assigned', 'in-progress', 'submitted'];
+/**
+ * Latest dispute on a task, open or resolved
+ */
+export async function getDispute(taskId: string): Promise<Dispute | undefined> {
+  const { rows } = await query(
+    'SELECT * FROM disputes WHERE task_id = $1 ORDER BY created_at DESC LIMIT 1',
+    [taskId]
+  );
+  return rows.length ? rowToDispute(rows[0]) : undefined;
+}
 
-export async function postMessage(taskId: string, req: PostMessageRequest): Promise<Message | { error: string }> {
+/**
+ * Take a rejected submission to arbitration. The assigned agent can contest a
+ * rejection before reworking it, or at any time once the rejection limit is
+ * reached; the poster, who can no longer reject by then, can do the same
+ * instead of approving. The task thread is frozen into the dispute.
+ */
+export async function openDispute(taskId: string, openerAddress: string, req: OpenDisputeRequest): Promise<Dispute | ApiError> {
   const task = await getTask(taskId);
   if (!task) return { error: 'Task not found' };
 
-  if (!THREAD_ACTIVE_STATUSES.includes(task.status)) {
-    return { error: `Thread is not active for tasks with status "${task.status}"` };
+  const isPoster = openerAddress === task.posterAddress;
+  const isAgent = !isPoster && (await isTaskAgent(task, openerAddress));
+  if (!isPoster && !isAgent) {
+    return { error: 'Only the task poster, assigned agent or a team member can open a dispute', code: 'forbidden' };
+  }
+
+  if (task.rejectionCount === 0) return { error: 'Only rejected submissions can be disputed' };
+  const limitReached = task.rejectionCount >= MAX_REJECTIONS;
+  if (isAgent) {
+    const contesting = task.status === 'assigned';
+    const active = task.status === 'assigned' || task.status === 'in-progress' || task.status === 'submitted';
+    if (!contesting && !(limitReached && active)) {
+      return { error: `Task is ${task.status}; contest a rejection before reworking it, or after ${MAX_REJECTIONS} rejections` };
+    }
+  } else if (task.status !== 'submitted' || !limitReached) {
+    return { error: `Posters can open a dispute on a submission once it has been rejected ${MAX_REJECTIONS} times` };
   }
 
-  // Check if sender is the poster
-  const isPoster = req.senderAddress === task.posterAddress;
+  const openedBy = isAgent ? 'agent' : 'poster';
+  return fileDispute(task, {
+    openedBy,
+    openerAddress,
+    action: 'dispute',
+    actor: openedBy,
+    reason: req.reason,
+    evidence: req.evidence ?? [],
+    contested: task.rejectionReason,
+  });
+}
+
+interface DisputeFiling {
+  openedBy: Dispute['openedBy'];
+  openerAddress: string;
+  /** `escalate` when a revision request past the limit opens it */
+  action: 'dispute' | 'escalate';
+  actor: TaskActor;
+  reason: string;
+  evidence: string[];
+  /** The rejection or revision request being contested */
+  contested?: string;
+  /** Escalations: the changes the poster asked for */
+  changeRequests?: ChangeRequest[];
+}
+
+/**
+ * Move the task to `disputed` and record the dispute with the message thread frozen
+ */
+async function fileDispute(task: Task, filing: DisputeFiling): Promise<Dispute | ApiError> {
+  const taskId = task.id;
+  const id = randomUUID().slice(0, 8);
+  const now = new Date();
+
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+
+    const disputedTask = await transitionTask(taskId, {
+      action: filing.action,
+      from: task.status,
+      to: 'disputed',
+      actor: filing.actor,
+      actorId: filing.actor === 'system' ? undefined : filing.openerAddress,
+      reason: filing.reason,
+      set: { review_due_at: null },
+    }, client);
+    if ('error' in disputedTask) {
+      await client.query('ROLLBACK');
+      return { error: 'Task changed while opening the dispute' };
+    }
+
+    const { rows: messageRows } = await client.query(
+      'SELECT * FROM messages WHERE task_id = $1 ORDER BY created_at ASC',
+      [taskId]
+    );
+    const { rows } = await client.query(
+      `INSERT INTO disputes (id, task_id, opened_by, opener_address, reason, evidence, rejection_reason, thread, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+      [id, taskId, filing.openedBy, filing.openerAddress, filing.reason, filing.evidence,
+        filing.contested ?? null, JSON.stringify(messageRows.map(rowToMessage)), now]
+    );
+    if (filing.action === 'escalate') await reviewLatestSubmission(client, taskId, 'rejected', filing.reason, filing.changeRequests);
+
+    await client.query('COMMIT');
 
-  // Check if sender is the assigned agent
-  let isAgent = false;
-  if (!isPoster && task.assignedAgent) {
-    const agent = await getAgent(task.assignedAgent);
-    if (agent && agent.walletAddress === req.senderAddress) {
-      isAgent = true;
+    console.log(`[TaskEngine] Dispute ${id} opened on task ${taskId} by the ${filing.openedBy}${filing.action === 'escalate' ? ' (revision limit reached)' : ''}`);
+    const dispute = rowToDispute(rows[0]);
+    const ctx = { taskId, category: disputedTask.category };
+    await recordEvent('task.status_changed', { task: disputedTask, previousStatus: task.status, newStatus: 'disputed' }, ctx);
+    await recordEvent('task.disputed', { task: disputedTask, dispute }, ctx);
+    return dispute;
+  } catch (err: unknown) {
+    await client.query('ROLLBACK');
+    if (err instanceof Error && 'code' in err && (err as { code: string }).code === '23505') {
+      return { error: 'Task already has an open dispute' };
     }
+    throw err;
+  } finally {
+    client.release();
   }
+}
 
-  if (!isPoster && !isAgent) {
-    return { error: 'Only the task poster or assigned agent can post messages' };
+/**
+ * Arbiter ruling. The poster's share is refunded from escrow; the agent's share
+ * is released through the payments contract and confirmed like an approval,
+ * after which the task completes and can be reviewed. A full refund ends the
+ * task as `refunded`, which can also be reviewed.
+ */
+export async function resolveDispute(taskId: string, arbiterAddress: string, req: ResolveDisputeRequest): Promise<Task | ApiError> {
+  if (!isArbiter(arbiterAddress)) return { error: 'Only an arbiter can resolve disputes', code: 'forbidden' };
+
+  const resolved = await withTaskLock<{ task: Task; dispute: Dispute }>(taskId, async (task, client) => {
+    const denied = checkTransition('resolve', task.status, 'arbiter');
+    if (denied) return denied;
+
+    const dispute = await getDispute(taskId);
+    if (!dispute || dispute.status !== 'open') return { error: 'Task has no open dispute' };
+
+    const agentPercent = req.outcome === 'full' ? 100 : req.outcome === 'refund' ? 0 : req.agentPercent!;
+    // A ruling whose refund leg already went out (payout then failed) can only be retried as is
+    if (task.refundTxId && dispute.agentPercent !== undefined && agentPercent !== dispute.agentPercent) {
+      return { error: `The poster's share was already refunded; resolve with ${dispute.agentPercent}% to the agent to retry the payout` };
+    }
+
+    const escrowed = !!task.escrowTxId && hasEscrow(task);
+    if (agentPercent > 0 && !escrowed) return { error: 'Task has no escrowed bounty to pay out' };
+
+    // Percentages apply to what the agent agreed to do the task for
+    const bountyMicro = BigInt(task.bountyMicroStx);
+    const agreedMicro = BigInt(await agreedPayoutMicroStx(task));
+    const payoutMicro = agreedMicro * BigInt(agentPercent) / 100n;
+    // An approval whose payment later failed may already have returned the part of the bounty above the bid
+    const refundedMicro = task.refundTxId && dispute.agentPercent === undefined ? bountyMicro - agreedMicro : 0n;
+    const refundMicro = bountyMicro - payoutMicro - refundedMicro;
+
+    // Poster's share first, recorded straight away so a failed payout cannot refund it twice
+    let refundTxId = task.refundTxId ?? null;
+    if (refundMicro > 0n && dispute.agentPercent === undefined && escrowed && hasEscrow(task)) {
+      const refund = await refundEscrow(task, refundMicro.toString());
+      if ('error' in refund) return refund;
+      refundTxId = refund.txId;
+      await client.query('UPDATE tasks SET refund_tx_id = $1 WHERE id = $2', [refundTxId, taskId]);
+      await client.query('UPDATE disputes SET outcome = $1, agent_percent = $2 WHERE id = $3', [req.outcome, agentPercent, dispute.id]);
+    }
+
+    // Agent's (or team's) share through the payments contract
+    let paymentTxId: string | null = null;
+    let platformFee: string | null = null;
+    let platformWallet: string | null = null;
+    if (payoutMicro > 0n && hasEscrow(task)) {
+      const release = await releasePayout(task, payoutMicro.toString());
+      if ('error' in release) return release;
+      paymentTxId = release.txId;
+      platformWallet = release.platformWallet;
+      platformFee = platformFeeFor(payoutMicro.toString());
+    }
+
+    const movedTask = await transitionTask(taskId, {
+      action: 'resolve',
+      from: 'disputed',
+      to: payoutMicro > 0n ? 'payment-pending' : 'refunded',
+      actor: 'arbiter',
+      actorId: arbiterAddress,
+      reason: req.note,
+      set: {
+        payment_tx_id: paymentTxId,
+        platform_fee: platformFee,
+        platform_wallet: platformWallet,
+        payout_micro_stx: payoutMicro > 0n && payoutMicro < bountyMicro ? payoutMicro.toString() : null,
+        refund_tx_id: refundTxId,
+        payment_error: null,
+      },
+    }, client);
+    if ('error' in movedTask) return movedTask;
+
+    const { rows: disputeRows } = await client.query(
+      `UPDATE disputes
+       SET status = 'resolved', outcome = $1, agent_percent = $2, resolution_note = $3, arbiter_address = $4, resolved_at = $5
+       WHERE id = $6 RETURNING *`,
+      [req.outcome, agentPercent, req.note ?? null, arbiterAddress, new Date(), dispute.id]
+    );
+    return { task: movedTask, dispute: rowToDispute(disputeRows[0]) };
+  });
+  if ('error' in resolved) return resolved;
+  const { task: resolvedTask, dispute: resolvedDispute } = resolved;
+
+  console.log(`[TaskEngine] Dispute ${resolvedDispute.id} on task ${taskId} resolved: ${req.outcome} (${resolvedDispute.agentPercent}% to agent)`);
+  const ctx = { taskId, category: resolvedTask.category };
+  await recordEvent('task.status_changed', { task: resolvedTask, previousStatus: 'disputed', newStatus: resolvedTask.status }, ctx);
+  await recordEvent('task.dispute_resolved', { task: resolvedTask, dispute: resolvedDispute }, ctx);
+  return resolvedTask;
+}
+
+// ─── Milestones ──────────────────────────────────────────
+
+export async function listMilestones(taskId: string): Promise<Milestone[]> {
+  const { rows } = await query(
+    'SELECT * FROM milestones WHERE task_id = $1 ORDER BY position ASC',
+    [taskId]
+  );
+  return rows.map(rowToMilestone);
+}
+
+/**
+ * What is left of the bounty for the poster once milestones paid out, or being
+ * paid, are taken off it
+ */
+export function refundableMicroStx(bountyMicroStx: string, milestones: Pick<Milestone, 'status' | 'amountMicroStx'>[]): string {
+  const spentMicro = milestones
+    .filter((m) => m.status === 'paid' || m.status === 'payment-pending')
+    .reduce((sum, m) => sum + BigInt(m.amountMicroStx), 0n);
+  const leftMicro = BigInt(bountyMicroStx) - spentMicro;
+  return (leftMicro > 0n ? leftMicro : 0n).toString();
+}
+
+/**
+ * Refund the poster what the escrow still holds for a task; the refund txId is
+ * null when milestone payouts already used up the bounty
+ */
+async function refundRemainingEscrow(task: EscrowedTask, client: PoolClient): Promise<{ txId: string | null } | ApiError> {
+  const { rows } = await client.query('SELECT * FROM milestones WHERE task_id = $1', [task.id]);
+  const amountMicro = refundableMicroStx(task.bountyMicroStx, rows.map(rowToMilestone));
+  if (amountMicro === '0') return { txId: null };
+  return refundEscrow(task, amountMicro);
+}
+
+export async function getMilestone(taskId: string, milestoneId: string): Promise<Milestone | undefined> {
+  const { rows } = await query('SELECT * FROM milestones WHERE id = $1 AND task_id = $2', [milestoneId, taskId]);
+  return rows.length ? rowToMilestone(rows[0]) : undefined;
+}
+
+async function recordMilestoneChange(task: Task, milestone: Milestone, previousStatus: MilestoneStatus, reason?: string): Promise<void> {
+  await recordEvent(
+    'milestone.status_changed',
+    { task, milestone, previousStatus, newStatus: milestone.status, reason },
+    { taskId: task.id, category: task.category }
+  );
+}
+
+/**
+ * Submit the result for a milestone. Milestones are worked in order, so every
+ * earlier one must already be approved.
+ */
+export async function submitMilestone(taskId: string, milestoneId: string, agentId: string, result: string): Promise<Milestone | ApiError> {
+  const task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+  if (task.status !== 'assigned' && task.status !== 'in-progress') return { error: `Task is ${task.status}, not assigned or in-progress` };
+  if (task.assignedAgent !== agentId) return { error: 'Not assigned to this agent', code: 'forbidden' };
+
+  const milestone = await getMilestone(taskId, milestoneId);
+  if (!milestone) return { error: 'Milestone not found' };
+  if (milestone.status !== 'pending') return { error: `Milestone is ${milestone.status}, not pending` };
+
+  const { rows: earlier } = await query(
+    `SELECT COUNT(*)::int AS count FROM milestones
+     WHERE task_id = $1 AND position < $2 AND status NOT IN ('payment-pending', 'paid')`,
+    [taskId, milestone.position]
+  );
+  if (earlier[0].count > 0) return { error: 'Earlier milestones must be approved first' };
+
+  const now = new Date();
+  const { rows } = await query(
+    `UPDATE milestones SET status = 'submitted', result = $1, agent_id = $2, rejection_reason = NULL, submitted_at = $3, updated_at = $3
+     WHERE id = $4 AND status = 'pending' RETURNING *`,
+    [result, agentId, now, milestoneId]
+  );
+  if (rows.length === 0) return { error: 'Milestone was submitted concurrently' };
+  await query('UPDATE agents SET last_active_at = $1 WHERE id = $2', [now, agentId]);
+
+  console.log(`[TaskEngine] Task ${taskId} milestone ${milestone.position} submitted by agent ${agentId}`);
+  const submitted = rowToMilestone(rows[0]);
+  await recordMilestoneChange(task, submitted, 'pending');
+  return submitted;
+}
+
+export async function rejectMilestone(taskId: string, milestoneId: string, posterAddress: string, reason: string): Promise<Milestone | ApiError> {
+  const task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+  if (task.posterAddress !== posterAddress) return { error: 'Only the poster can reject milestones', code: 'forbidden' };
+
+  const milestone = await getMilestone(taskId, milestoneId);
+  if (!milestone) return { error: 'Milestone not found' };
+  if (milestone.status !== 'submitted') return { error: `Milestone is ${milestone.status}, not submitted` };
+
+  const now = new Date();
+  const { rows } = await query(
+    `UPDATE milestones SET status = 'pending', rejection_reason = $1, result = NULL, updated_at = $2
+     WHERE id = $3 AND status = 'submitted' RETURNING *`,
+    [reason, now, milestoneId]
+  );
+  if (rows.length === 0) return { error: 'Milestone was reviewed concurrently' };
+
+  console.log(`[TaskEngine] Task ${taskId} milestone ${milestone.position} rejected: ${reason}`);
+  const rejected = rowToMilestone(rows[0]);
+  await recordMilestoneChange(task, rejected, 'submitted', reason);
+  return rejected;
+}
+
+/**
+ * Approve a submitted milestone: its share of the escrow is released to the
+ * agent that submitted it, less the platform fee, and confirmed on-chain like
+ * a full approval.
+ */
+export async function approveMilestone(taskId: string, milestoneId: string, posterAddress: string): Promise<Milestone | ApiError> {
+  // The task lock keeps two approvals of the same milestone from both releasing funds
+  const approval = await withTaskLock<{ task: Task; milestone: Milestone }>(taskId, async (lockedTask, client) => {
+    if (lockedTask.posterAddress !== posterAddress) return { error: 'Only the task poster can approve', code: 'forbidden' };
+    if (!lockedTask.escrowTxId || !hasEscrow(lockedTask)) return { error: 'Task has no escrowed bounty to pay milestones from' };
+
+    const milestone = await getMilestone(taskId, milestoneId);
+    if (!milestone) return { error: 'Milestone not found' };
+    if (milestone.status !== 'submitted') return { error: `Milestone is ${milestone.status}, not submitted` };
+
+    const agent = milestone.agentId ? await getAgent(milestone.agentId) : undefined;
+    if (!agent) return { error: 'Submitting agent has no payout wallet' };
+
+    const platformWallet = platformWalletFor(lockedTask, agent.walletAddress);
+    const release = await releaseEscrow(lockedTask, agent.walletAddress, platformWallet, milestone.amountMicroStx);
+    if ('error' in release) return release;
+
+    const { rows } = await client.query(
+      `UPDATE milestones
+       SET status = 'payment-pending', payment_tx_id = $1, platform_fee = $2,
+           platform_wallet = $3, payment_error = NULL, updated_at = $4
+       WHERE id = $5 RETURNING *`,
+      [release.txId, platformFeeFor(milestone.amountMicroStx), platformWallet, new Date(), milestoneId]
+    );
+    return { task: lockedTask, milestone: rowToMilestone(rows[0]) };
+  });
+  if ('error' in approval) return approval;
+  const { task, milestone: approved } = approval;
+
+  console.log(`[TaskEngine] Task ${taskId} milestone ${approved.position} approved, awaiting confirmation of ${approved.paymentTxId}`);
+  await recordMilestoneChange(task, approved, 'submitted');
+  return approved;
+}
+
+/**
+ * Mark a milestone paid once its payout is confirmed on-chain and credit the
+ * agent. Paying the last milestone completes the task.
+ */
+export async function completeMilestonePayment(milestoneId: string): Promise<Milestone | ApiError> {
+  const { rows: found } = await query('SELECT task_id FROM milestones WHERE id = $1', [milestoneId]);
+  if (found.length === 0) return { error: 'Milestone not found' };
+  const task = await getTask(found[0].task_id as string);
+  if (!task) return { error: 'Task not found' };
+
+  const milestones = await listMilestones(task.id);
+  const isLast = milestones.every((m) => m.id === milestoneId || m.status === 'paid');
+  const bountyUsd = isLast ? await lockBountyUsd(task) : null;
+
+  const now = new Date();
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    // Serialise payouts per task so exactly one of them sees every milestone paid
+    const { rows: locked } = await client.query('SELECT status FROM tasks WHERE id = $1 FOR UPDATE', [task.id]);
+    const taskStatus = locked[0].status as TaskStatus;
+
+    const { rows } = await client.query(
+      `UPDATE milestones SET status = 'paid', paid_at = $1, updated_at = $1
+       WHERE id = $2 AND status = 'payment-pending' RETURNING *`,
+      [now, milestoneId]
+    );
+    if (rows.length === 0) {
+      await client.query('ROLLBACK');
+      return { error: 'Milestone payment was already resolved' };
+    }
+    const paid = rowToMilestone(rows[0]);
+
+    if (paid.agentId) {
+      await client.query(
+        `UPDATE agents
+         SET total_earned = (CAST(total_earned AS NUMERIC) + $1)::TEXT, last_active_at = $2
+         WHERE id = $3`,
+        [agentPayoutFor(paid.amountMicroStx), now, paid.agentId]
+      );
+    }
+
+    const { rows: allRows } = await client.query(
+      'SELECT * FROM milestones WHERE task_id = $1 ORDER BY position ASC',
+      [task.id]
+    );
+    const all = allRows.map(rowToMilestone);
+    let completedTask: Task | undefined;
+    if (all.every((m) => m.status === 'paid') && !checkTransition('pay-milestones', taskStatus, 'system')) {
+      const totalFeeMicro = all.reduce((sum, m) => sum + BigInt(m.amountMicroStx) / 100n, 0n);
+      const moved = await transitionTask(task.id, {
+        action: 'pay-milestones',
+        from: taskStatus,
+        to: 'completed',
+        actor: 'system',
+        reason: `All ${all.length} milestones paid`,
+        set: {
+          payment_tx_id: paid.paymentTxId,
+          platform_fee: (Number(totalFeeMicro) / 1_000_000).toFixed(6),
+          platform_wallet: paid.platformWallet,
+          bounty_usd: bountyUsd,
+          completed_at: now,
+        },
+      }, client);
+      if (!('error' in moved)) completedTask = moved;
+      if (completedTask && task.assignedAgent) {
+        await client.query(
+          'UPDATE agents SET tasks_completed = tasks_completed + 1, last_active_at = $1 WHERE id = $2',
+          [now, task.assignedAgent]
+        );
+      }
+    }
+
+    await client.query('COMMIT');
+
+    console.log(`[TaskEngine] Task ${task.id} milestone ${paid.position} paid: ${paid.paymentTxId} (${paid.amount} STX, fee: ${paid.platformFee} STX)`);
+    await recordMilestoneChange(task, paid, 'payment-pending');
+    if (completedTask) {
+      console.log(`[TaskEngine] Task ${task.id} completed! All ${all.length} milestones paid (${task.bounty} STX)`);
+      const ctx = { taskId: task.id, category: completedTask.category };
+      await recordEvent('task.status_changed', { task: completedTask, previousStatus: taskStatus, newStatus: 'completed' }, ctx);
+      await recordEvent('task.completed', { task: completedTask }, ctx);
+    }
+    return paid;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Revert a milestone whose payout transaction failed or did not pay what was
+ * owed, so the poster can approve it again
+ */
+export async function failMilestonePayment(milestoneId: string, reason: string): Promise<Milestone | ApiError> {
+  const now = new Date();
+  const { rows } = await query(
+    `UPDATE milestones
+     SET status = 'submitted', payment_error = $1, payment_tx_id = NULL,
+         platform_fee = NULL, platform_wallet = NULL, updated_at = $2
+     WHERE id = $3 AND status = 'payment-pending' RETURNING *`,
+    [reason, now, milestoneId]
+  );
+  if (rows.length === 0) return { error: 'Milestone is not payment-pending' };
+
+  const reverted = rowToMilestone(rows[0]);
+  console.log(`[TaskEngine] Task ${reverted.taskId} milestone ${reverted.position} payment rejected: ${reason}`);
+  const task = await getTask(reverted.taskId);
+  if (task) await recordMilestoneChange(task, reverted, 'payment-pending', reason);
+  return reverted;
+}
+
+// ─── Teams ──────────────────────────────────────────
+
+/**
+ * Split a payout across a team by whole-percent shares (microSTX). Each member
+ * gets its share of what is left after the 1% platform fee, rounded down; the
+ * lead also gets the rounding remainder, so the amounts add up exactly.
+ */
+export function splitTeamPayout(payoutMicroStx: string, sharePercents: number[]): string[] {
+  const payoutMicro = BigInt(payoutMicroStx);
+  const netMicro = payoutMicro - payoutMicro / 100n;
+  const amounts = sharePercents.map((share) => netMicro * BigInt(share) / 100n);
+  amounts[0] += netMicro - amounts.reduce((sum, amount) => sum + amount, 0n);
+  return amounts.map(String);
+}
+
+/**
+ * A team task's members, lead first
+ */
+export async function listTeamMembers(taskId: string): Promise<TeamMember[]> {
+  const { rows } = await query('SELECT * FROM task_members WHERE task_id = $1 ORDER BY position ASC', [taskId]);
+  return rows.map(rowToTeamMember);
+}
+
+/**
+ * What each member of a team task is owed from a payout, and the wallet it goes to
+ */
+export async function teamPayouts(task: Task, payoutMicroStx: string): Promise<TeamPayout[] | ApiError> {
+  const members = await listTeamMembers(task.id);
+  if (members.length === 0) return { error: 'Task has no team' };
+  const amounts = splitTeamPayout(payoutMicroStx, members.map((member) => member.sharePercent));
+  if (amounts.includes('0')) return { error: 'Payout is too small to split across the team' };
+
+  const payouts: TeamPayout[] = [];
+  for (const [i, member] of members.entries()) {
+    const agent = await getAgent(member.agentId);
+    if (!agent) return { error: `Team member ${member.agentId} has no payout wallet` };
+    payouts.push({ agentId: member.agentId, walletAddress: agent.walletAddress, amountMicroStx: amounts[i] });
+  }
+  return payouts;
+}
+
+/**
+ * Poster assigns an open task to a team of agents, each with a portion of the
+ * work and a share of the payout. The first member leads: it is the task's
+ * assigned agent. Shares are checked to add up to 100 by the caller.
+ */
+export async function assignTeam(taskId: string, posterAddress: string, members: TeamMemberInput[]): Promise<Task | ApiError> {
+  const task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+  const denied = checkTransition('assign-team', task.status, 'poster');
+  if (denied) return denied;
+  if (task.posterAddress !== posterAddress) return { error: 'Only the poster can assign a team', code: 'forbidden' };
+  if (isPastDeadline(task)) return { error: 'Task deadline has passed' };
+  if (task.milestoneCount > 0) return { error: 'Milestone tasks are paid to one agent and cannot be assigned to a team' };
+  if (!task.escrowTxId || !hasEscrow(task)) return { error: 'Team tasks need an escrowed bounty to split' };
+  if (task.auctionMode !== 'open' && !isBiddingClosed(task)) {
+    return { error: `Task can be assigned once bidding closes at ${task.biddingClosesAt}` };
+  }
+  for (const member of members) {
+    if (!(await getAgent(member.agentId))) return { error: `Agent ${member.agentId} not found` };
+  }
+
+  // A team commits to no ETA of its own, so the task deadline is the due date
+  const now = new Date();
+  const assignedTask = await withTaskLock<Task>(taskId, async (locked, client) => {
+    const moved = await transitionTask(taskId, {
+      action: 'assign-team',
+      from: locked.status,
+      to: 'assigned',
+      actor: 'poster',
+      actorId: posterAddress,
+      reason: `Assigned to a team of ${members.length}: ${members.map((m) => `${m.agentId} (${m.sharePercent}%)`).join(', ')}`,
+      set: {
+        assigned_agent: members[0].agentId, assigned_at: now, due_at: task.deadline ?? null,
+        rejection_reason: null, rejection_count: 0, payout_micro_stx: null, team_size: members.length,
+      },
+    }, client);
+    if ('error' in moved) return moved;
+
+    for (const [i, member] of members.entries()) {
+      await client.query(
+        `INSERT INTO task_members (task_id, agent_id, position, share_percent, portion)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [taskId, member.agentId, i + 1, member.sharePercent, member.portion]
+      );
+    }
+    return moved;
+  });
+  if ('error' in assignedTask) return assignedTask;
+  await expireActiveBids(taskId);
+
+  console.log(`[TaskEngine] Task ${taskId} assigned to a team of ${members.length} led by ${members[0].agentId}`);
+  await recordEvent('task.status_changed', { task: assignedTask, previousStatus: task.status, newStatus: 'assigned' }, { taskId, category: assignedTask.category });
+  return assignedTask;
+}
+
+/**
+ * A team member submits its portion of the work; it can be resent until the
+ * last portion is in. The last portion submits the task: the portions, in team
+ * order, make up the result the poster reviews.
+ */
+export async function submitPortion(taskId: string, agentId: string, result: string): Promise<{ task: Task; member: TeamMember } | ApiError> {
+  const submitted = await withTaskLock<{ task: Task; member: TeamMember; waiting: number }>(taskId, async (task, client) => {
+    const denied = checkTransition('submit', task.status, 'agent');
+    if (denied) return denied;
+    if (task.teamSize === 0) return { error: 'Task is not worked by a team; submit the result instead' };
+
+    const { rows } = await client.query(
+      `UPDATE task_members SET status = 'submitted', result = $3, submitted_at = $4
+       WHERE task_id = $1 AND agent_id = $2 RETURNING *`,
+      [taskId, agentId, result, new Date()]
+    );
+    if (rows.length === 0) return { error: 'Agent is not on this task\'s team', code: 'forbidden' };
+    const { rows: waitingRows } = await client.query(
+      `SELECT COUNT(*)::int AS waiting FROM task_members WHERE task_id = $1 AND status = 'working'`,
+      [taskId]
+    );
+    return { task, member: rowToTeamMember(rows[0]), waiting: waitingRows[0].waiting as number };
+  });
+  if ('error' in submitted) return submitted;
+  const { task, member, waiting } = submitted;
+  await query('UPDATE agents SET last_active_at = $1 WHERE id = $2', [new Date(), agentId]);
+
+  console.log(`[TaskEngine] Task ${taskId} portion "${member.portion}" submitted by agent ${agentId}, ${waiting} to go`);
+  await recordEvent('task.portion_submitted', { task, member }, { taskId, category: task.category });
+  if (waiting > 0) return { task, member };
+
+  const members = await listTeamMembers(taskId);
+  const combined = members.map((m) => `## ${m.portion} (${m.agentId})\n\n${m.result ?? ''}`).join('\n\n');
+  const recorded = await recordSubmission(task, task.assignedAgent!, combined, []);
+  if ('error' in recorded) return recorded;
+  return { task: recorded.task, member };
+}
+
+/**
+ * Send a team's portions back to work after the poster turned down the combined
+ * result. Each member's last portion is kept for reference.
+ */
+async function reopenPortions(client: PoolClient, taskId: string): Promise<void> {
+  await client.query(`UPDATE task_members SET status = 'working' WHERE task_id = $1`, [taskId]);
+}
+
+// ─── Message Operations ──────────────────────────────────────────
+
+const THREAD_ACTIVE_STATUSES = ['assigned', 'in-progress', 'submitted', 'revision-requested', 'payment-pending'];
+
+/**
+ * Whether a wallet owns the task's assigned agent or any member of its team,
+ * so team flows are open to every member rather than just the lead
+ */
+export async function isTaskAgent(task: Task, walletAddress: string): Promise<boolean> {
+  const { rows } = await query(
+    `SELECT 1 FROM agents a WHERE a.wallet_address = $2
+       AND (a.id = $3 OR a.id IN (SELECT agent_id FROM task_members WHERE task_id = $1))`,
+    [task.id, walletAddress, task.assignedAgent ?? null]
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Whether a wallet may post in a task's thread: the poster, the assigned
+ * agent, or any member of the task's team
+ */
+export async function isThreadParticipant(task: Task, senderAddress: string): Promise<boolean> {
+  return senderAddress === task.posterAddress || isTaskAgent(task, senderAddress);
+}
+
+export async function postMessage(taskId: string, req: PostMessageRequest): Promise<Message | ApiError> {
+  const task = await getTask(taskId);
+  if (!task) return { error: 'Task not found' };
+
+  if (!THREAD_ACTIVE_STATUSES.includes(task.status)) {
+    return { error: `Thread is not active for tasks with status "${task.status}"` };
+  }
+
+  if (!(await isThreadParticipant(task, req.senderAddress))) {
+    return { error: 'Only the task poster, assigned agent or team members can post messages', code: 'forbidden' };
   }
 
   const id = randomUUID().slice(0, 8);
@@ -772,7 +2879,7 @@ export async function postMessage(taskId: string, req: PostMessageRequest): Prom
 
   console.log(`[TaskEngine] Message ${id} posted on task ${taskId} by ${req.senderAddress.slice(0, 8)}...`);
   const postedMsg = rowToMessage(rows[0]);
-  await dispatchEvent('message.new', { message: postedMsg }, { taskId, category: task.category });
+  await recordEvent('message.new', { message: postedMsg }, { taskId, category: task.category });
   return postedMsg;
 }
 
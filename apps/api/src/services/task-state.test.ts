@@ -0,0 +1,29 @@
+// StacksTasker API - Task state machine tests
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkTransition } from './task-state.js';
+
+describe('checkTransition', () => {
+  it('allows a listed actor to move a task out of a listed status', () => {
+    assert.equal(checkTransition('approve', 'submitted', 'poster'), undefined);
+    assert.equal(checkTransition('create', null, 'poster'), undefined);
+    assert.equal(checkTransition('reject', 'submitted', 'system'), undefined);
+    assert.equal(checkTransition('submit', 'revision-requested', 'agent'), undefined);
+  });
+
+  it('names the statuses an action needs when the task is elsewhere', () => {
+    assert.deepEqual(checkTransition('cancel', 'assigned', 'poster'), {
+      error: 'Task is assigned, not pending-funding, open or bidding',
+    });
+  });
+
+  it('refuses actors the transition does not list', () => {
+    assert.equal(checkTransition('approve', 'submitted', 'agent')?.code, 'forbidden');
+  });
+
+  it('refuses an outcome the action cannot produce', () => {
+    assert.ok(checkTransition('resolve', 'disputed', 'arbiter', 'refunded') === undefined);
+    assert.ok(checkTransition('resolve', 'disputed', 'arbiter', 'completed'));
+  });
+});
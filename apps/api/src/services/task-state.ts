@@ -0,0 +1,60 @@
+// StacksTasker - Task state machine
+// Every status change an operation can make, and which role may make it
+
+import type { ApiError, TaskAction, TaskActor, TaskStatus } from '../types.js';
+
+interface Transition {
+  /** Statuses the action applies to (empty for `create`) */
+  from: readonly TaskStatus[];
+  /** Statuses it can leave the task in */
+  to: readonly TaskStatus[];
+  actors: readonly TaskActor[];
+}
+
+export const TASK_TRANSITIONS: Record<TaskAction, Transition> = {
+  'create':          { from: [], to: ['pending-funding'], actors: ['poster'] },
+  'fund':            { from: ['pending-funding'], to: ['open'], actors: ['system'] },
+  'bid':             { from: ['open'], to: ['bidding'], actors: ['agent'] },
+  'accept':          { from: ['open', 'bidding'], to: ['assigned'], actors: ['agent'] },
+  'accept-bid':      { from: ['open', 'bidding'], to: ['assigned'], actors: ['poster'] },
+  'assign-team':     { from: ['open', 'bidding'], to: ['assigned'], actors: ['poster'] },
+  'start':           { from: ['assigned'], to: ['in-progress'], actors: ['agent'] },
+  'cancel':          { from: ['pending-funding', 'open', 'bidding'], to: ['cancelled'], actors: ['poster'] },
+  'submit':          { from: ['assigned', 'in-progress', 'revision-requested'], to: ['submitted'], actors: ['agent'] },
+  'reject':          { from: ['submitted'], to: ['assigned'], actors: ['poster', 'system'] },
+  'request-revision': { from: ['submitted'], to: ['revision-requested'], actors: ['poster'] },
+  'escalate':        { from: ['submitted'], to: ['disputed', 'cancelled'], actors: ['system'] },
+  'approve':         { from: ['submitted'], to: ['payment-pending'], actors: ['poster', 'system'] },
+  'confirm-payment': { from: ['payment-pending'], to: ['completed'], actors: ['system'] },
+  'fail-payment':    { from: ['payment-pending'], to: ['submitted', 'disputed'], actors: ['system'] },
+  'close':           { from: ['completed'], to: ['closed'], actors: ['poster'] },
+  'expire':          { from: ['pending-funding', 'open', 'bidding'], to: ['expired'], actors: ['system'] },
+  'reopen':          { from: ['assigned', 'in-progress', 'revision-requested'], to: ['bidding'], actors: ['system'] },
+  'dispute':         { from: ['assigned', 'in-progress', 'submitted'], to: ['disputed'], actors: ['agent', 'poster'] },
+  'resolve':         { from: ['disputed'], to: ['payment-pending', 'refunded'], actors: ['arbiter'] },
+  'pay-milestones':  { from: ['assigned', 'in-progress'], to: ['completed'], actors: ['system'] },
+};
+
+function listStatuses(statuses: readonly TaskStatus[]): string {
+  return statuses.length > 1
+    ? `${statuses.slice(0, -1).join(', ')} or ${statuses[statuses.length - 1]}`
+    : statuses[0];
+}
+
+/**
+ * Check an action against the transition table. Returns the reason it is not
+ * allowed, or undefined. Pass `to` when the action has more than one outcome.
+ */
+export function checkTransition(action: TaskAction, from: TaskStatus | null, actor: TaskActor, to?: TaskStatus): ApiError | undefined {
+  const transition = TASK_TRANSITIONS[action];
+  if (!transition.actors.includes(actor)) {
+    return { error: `A ${actor} cannot ${action} this task`, code: 'forbidden' };
+  }
+  if (from === null ? transition.from.length > 0 : !transition.from.includes(from)) {
+    return { error: `Task is ${from}, not ${listStatuses(transition.from)}` };
+  }
+  if (to !== undefined && !transition.to.includes(to)) {
+    return { error: `${action} cannot move a task to ${to}` };
+  }
+  return undefined;
+}
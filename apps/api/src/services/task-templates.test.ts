@@ -0,0 +1,242 @@
+// StacksTasker API - Template run tests: funding from the prepaid balance, pre-assigning the previous agent
+// and holding deletion while a prepayment awaits confirmation
+// The database is replaced by a small in-memory stand-in answering the queries a run makes
+
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import pg from 'pg';
+import { getAddressFromPrivateKey } from '@stacks/transactions';
+import { deleteTemplate, runTemplate } from './task-templates.js';
+import { generateScheduledTasks } from './template-scheduler.js';
+import { setEscrowPrivateKey } from './escrow.js';
+
+// ─── Test setup ────────────────────────────────────────
+
+const ESCROW_KEY = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+const ESCROW_ADDRESS = getAddressFromPrivateKey(ESCROW_KEY, 'testnet');
+const POSTER_ADDRESS = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+const SCHEDULED_FOR = new Date('2025-01-06T09:00:00Z');
+
+type Row = Record<string, unknown>;
+
+interface FakeDb {
+  templates: Map<string, Row>;
+  tasks: Map<string, Row>;
+  agents: Map<string, Row>;
+  runs: Row[];
+  /** [action, actor] of every status transition */
+  transitions: [string, string][];
+  /** Templates the scheduler finds due */
+  due: Row[];
+  /** Templates whose lookup fails as if the connection dropped */
+  failing: Set<string>;
+}
+
+function templateRow(overrides: Row = {}): Row {
+  return {
+    id: 'tpl1',
+    poster_address: POSTER_ADDRESS,
+    title: 'Daily uptime check',
+    description: 'Check the status page',
+    category: 'monitoring',
+    bounty: '2',
+    network: 'testnet',
+    visibility: 'public',
+    schedule: '0 9 * * *',
+    deadline_seconds: null,
+    preassign_previous_agent: true,
+    min_agent_rating: '4.00',
+    balance_micro_stx: '0',
+    escrow_address: ESCROW_ADDRESS,
+    escrow_tx_id: '0xprepaid',
+    active: true,
+    next_run_at: SCHEDULED_FOR,
+    last_run_at: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+function agentRow(id: string, avgRating: string): Row {
+  const now = new Date();
+  return { id, name: id, wallet_address: ESCROW_ADDRESS, avg_rating: avgRating, tasks_completed: 3, total_earned: '6', total_reviews: 3, registered_at: now, last_active_at: now };
+}
+
+/**
+ * Answer the queries of a template run from in-memory tables. The previous
+ * run's task 'prev' was completed by agent 'agent1'.
+ */
+function fakeDb(template: Row, agentRating = '4.50'): FakeDb {
+  const now = new Date();
+  const db: FakeDb = {
+    templates: new Map([[template.id as string, template]]),
+    tasks: new Map([['prev', { id: 'prev', title: 'Daily uptime check', status: 'completed', assigned_agent: 'agent1', bounty: '2', bounty_micro_stx: '2000000', created_at: now, updated_at: now }]]),
+    agents: new Map([['agent1', agentRow('agent1', agentRating)]]),
+    runs: [{ template_id: template.id, scheduled_for: new Date(SCHEDULED_FOR.getTime() - 86_400_000), task_id: 'prev', created_at: now }],
+    transitions: [],
+    due: [],
+    failing: new Set(),
+  };
+
+  const run = async (sql: string, params: unknown[] = []) => {
+    const rows = answer(db, sql, params);
+    return { rows, rowCount: rows.length };
+  };
+  mock.method(pg.Pool.prototype, 'query', run);
+  mock.method(pg.Pool.prototype, 'connect', async () => ({ query: run, release() {} }));
+  return db;
+}
+
+function answer(db: FakeDb, sql: string, params: unknown[]): Row[] {
+  const text = sql.replace(/\s+/g, ' ').trim();
+  if (text.startsWith('SELECT id, next_run_at FROM task_templates')) return db.due;
+  if (text.startsWith('SELECT * FROM task_templates WHERE id')) {
+    if (db.failing.has(params[0] as string)) throw new Error('Connection terminated unexpectedly');
+    const template = db.templates.get(params[0] as string);
+    return template ? [template] : [];
+  }
+  if (text.startsWith('UPDATE task_templates SET next_run_at')) {
+    const template = db.templates.get(params[3] as string);
+    if (!template?.active || (template.next_run_at as Date).getTime() !== (params[1] as Date).getTime()) return [];
+    template.next_run_at = params[0];
+    return [template];
+  }
+  if (text.startsWith('UPDATE task_templates SET balance_micro_stx')) {
+    const template = db.templates.get(params[2] as string);
+    if (!template || template.escrow_address !== params[3] || BigInt(template.balance_micro_stx as string) < BigInt(params[0] as string)) return [];
+    template.balance_micro_stx = (BigInt(template.balance_micro_stx as string) - BigInt(params[0] as string)).toString();
+    return [template];
+  }
+  if (text.startsWith('SELECT task_id FROM template_runs')) {
+    return db.runs.filter((r) => r.template_id === params[0] && r.task_id).slice(-1);
+  }
+  if (text.startsWith('INSERT INTO template_runs')) {
+    const [templateId, scheduledFor, third, fourth, fifth] = params;
+    const row = text.includes('error')
+      ? { template_id: templateId, scheduled_for: scheduledFor, error: third, created_at: fourth }
+      : { template_id: templateId, scheduled_for: scheduledFor, task_id: third, preassigned_agent_id: fourth, created_at: fifth };
+    db.runs.push(row);
+    return [row];
+  }
+  if (text.startsWith('SELECT * FROM tasks WHERE id')) {
+    const task = db.tasks.get(params[0] as string);
+    return task ? [task] : [];
+  }
+  if (text.startsWith('INSERT INTO tasks')) {
+    const row: Row = {
+      id: params[0], title: params[1], description: params[2], category: params[3], bounty: params[4], bounty_micro_stx: params[5],
+      status: 'pending-funding', network: params[6], poster_address: params[7], escrow_address: params[8], deadline: params[9],
+      visibility: params[11], preassigned_agent: params[21], created_at: params[22], updated_at: params[22],
+    };
+    db.tasks.set(row.id as string, row);
+    return [row];
+  }
+  if (text.startsWith('WITH moved AS ( UPDATE tasks SET')) {
+    // SET status = $1, updated_at = $2, <column> = $5, ...; then action, actor, actor id, reason
+    const task = db.tasks.get(params[2] as string);
+    if (!task || task.status !== params[3]) return [];
+    const columns = [...text.matchAll(/(\w+) = \$(\d+)/g)].filter(([, , n]) => Number(n) > 4);
+    for (const [, column, n] of columns) task[column] = params[Number(n) - 1];
+    task.status = params[0];
+    db.transitions.push([params[params.length - 4] as string, params[params.length - 3] as string]);
+    return [task];
+  }
+  if (text.startsWith('SELECT * FROM agents WHERE id')) {
+    const agent = db.agents.get(params[0] as string);
+    return agent ? [agent] : [];
+  }
+  // Transactions, history rows, events, invitations and activity timestamps need no answer
+  return [];
+}
+
+beforeEach(() => {
+  setEscrowPrivateKey(ESCROW_KEY);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  setEscrowPrivateKey(undefined);
+});
+
+// ─── Tests ─────────────────────────────────────────────
+
+describe('runTemplate', () => {
+  it('funds the task from the prepaid balance and assigns it to the previous agent', async () => {
+    const db = fakeDb(templateRow({ balance_micro_stx: '5000000' }));
+
+    const run = await runTemplate('tpl1', SCHEDULED_FOR);
+    assert.ok('templateId' in run);
+    assert.equal(run.preassignedAgentId, 'agent1');
+    assert.equal(run.taskStatus, 'assigned');
+
+    const task = db.tasks.get(run.taskId!)!;
+    assert.equal(task.assigned_agent, 'agent1');
+    assert.equal(task.escrow_tx_id, '0xprepaid');
+    assert.equal(task.funding_template_id, 'tpl1');
+    assert.deepEqual(db.transitions, [['fund', 'system'], ['accept-bid', 'poster']]);
+    assert.equal(db.templates.get('tpl1')!.balance_micro_stx, '3000000');
+  });
+
+  it('leaves the task awaiting funding, still pre-assigned, when the balance is short', async () => {
+    const db = fakeDb(templateRow({ balance_micro_stx: '1000000' }));
+
+    const run = await runTemplate('tpl1', SCHEDULED_FOR);
+    assert.ok('templateId' in run);
+    assert.equal(run.taskStatus, 'pending-funding');
+    assert.equal(db.tasks.get(run.taskId!)!.preassigned_agent, 'agent1');
+    assert.deepEqual(db.transitions, []);
+    assert.equal(db.templates.get('tpl1')!.balance_micro_stx, '1000000');
+  });
+
+  it('opens the task to bids when the previous agent fell below the rating threshold', async () => {
+    const db = fakeDb(templateRow({ balance_micro_stx: '2000000' }), '3.90');
+
+    const run = await runTemplate('tpl1', SCHEDULED_FOR);
+    assert.ok('templateId' in run);
+    assert.equal(run.preassignedAgentId, undefined);
+    assert.equal(run.taskStatus, 'open');
+    assert.deepEqual(db.transitions, [['fund', 'system']]);
+  });
+
+  it('does not generate an occurrence another sweep already claimed', async () => {
+    const db = fakeDb(templateRow({ next_run_at: new Date(SCHEDULED_FOR.getTime() + 86_400_000) }));
+
+    const run = await runTemplate('tpl1', SCHEDULED_FOR);
+    assert.deepEqual(run, { error: 'Occurrence already run' });
+    assert.equal(db.tasks.size, 1);
+  });
+});
+
+describe('generateScheduledTasks', () => {
+  it('runs every due template, carrying on past one that fails', async () => {
+    const db = fakeDb(templateRow({ balance_micro_stx: '2000000' }));
+    db.due = [{ id: 'broken', next_run_at: SCHEDULED_FOR }, { id: 'tpl1', next_run_at: SCHEDULED_FOR }];
+    db.failing.add('broken');
+
+    await generateScheduledTasks();
+    const run = db.runs[db.runs.length - 1];
+    assert.equal(run.template_id, 'tpl1');
+    assert.equal(db.tasks.get(run.task_id as string)!.status, 'assigned');
+    assert.ok((db.templates.get('tpl1')!.next_run_at as Date) > SCHEDULED_FOR);
+  });
+
+  it('generates nothing when no template is due', async () => {
+    const db = fakeDb(templateRow());
+
+    await generateScheduledTasks();
+    assert.equal(db.runs.length, 1);
+    assert.equal(db.tasks.size, 1);
+  });
+});
+
+describe('deleteTemplate', () => {
+  it('waits for a prepayment awaiting confirmation instead of refunding around it', async () => {
+    const db = fakeDb(templateRow({ balance_micro_stx: '2000000', prepayment_tx_id: '0xpending', prepayment_micro_stx: '4000000' }));
+
+    const result = await deleteTemplate('tpl1', POSTER_ADDRESS);
+    assert.ok('error' in result);
+    assert.match(result.error, /Prepayment 0xpending is awaiting confirmation/);
+    assert.equal(db.templates.get('tpl1')!.balance_micro_stx, '2000000');
+  });
+});
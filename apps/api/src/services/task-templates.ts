@@ -0,0 +1,379 @@
+// StacksTasker - Recurring task templates
+// Templates post the same task on a cron schedule, funded from a prepaid escrow balance,
+// keeping a history of the tasks they generated
+
+import { randomUUID } from 'crypto';
+import { query } from '../db.js';
+import { parseCron, nextOccurrence } from './cron.js';
+import { createTask, fundTaskFromTemplate, getAgent, getTask, stxToMicroStx } from './task-engine.js';
+import { getEscrowAddress, createTemplateFundingRequirement, fundTemplateEscrow, refundTemplateEscrow } from './escrow.js';
+import type { StacksPaymentPayload, StacksPaymentRequirement } from '@x402/stacks';
+import type {
+  ApiError,
+  CreateTemplateRequest,
+  NetworkType,
+  TaskCategory,
+  TaskStatus,
+  TaskTemplate,
+  TaskVisibility,
+  TemplateRun,
+  UpdateTemplateRequest,
+} from '../types.js';
+
+// ─── Row mapping ──────────────────────────────────────────
+
+function rowToTemplate(row: Record<string, unknown>): TaskTemplate {
+  return {
+    id: row.id as string,
+    posterAddress: row.poster_address as string,
+    title: row.title as string,
+    description: row.description as string,
+    category: row.category as TaskCategory,
+    bounty: row.bounty as string,
+    network: (row.network as NetworkType) || 'testnet',
+    visibility: (row.visibility as TaskVisibility) || 'public',
+    schedule: row.schedule as string,
+    deadlineSeconds: (row.deadline_seconds as number) ?? undefined,
+    preassignPreviousAgent: row.preassign_previous_agent as boolean,
+    minAgentRating: row.min_agent_rating != null ? parseFloat(row.min_agent_rating as string) : undefined,
+    balanceMicroStx: (row.balance_micro_stx as string) ?? '0',
+    escrowAddress: (row.escrow_address as string) || undefined,
+    escrowTxId: (row.escrow_tx_id as string) || undefined,
+    prepaymentTxId: (row.prepayment_tx_id as string) || undefined,
+    prepaymentMicroStx: (row.prepayment_micro_stx as string) || undefined,
+    prepaymentSubmittedAt: row.prepayment_submitted_at ? (row.prepayment_submitted_at as Date).toISOString() : undefined,
+    prepaymentError: (row.prepayment_error as string) || undefined,
+    active: row.active as boolean,
+    nextRunAt: row.next_run_at ? (row.next_run_at as Date).toISOString() : undefined,
+    lastRunAt: row.last_run_at ? (row.last_run_at as Date).toISOString() : undefined,
+    createdAt: (row.created_at as Date).toISOString(),
+    updatedAt: (row.updated_at as Date).toISOString(),
+  };
+}
+
+function rowToRun(row: Record<string, unknown>): TemplateRun {
+  return {
+    templateId: row.template_id as string,
+    scheduledFor: (row.scheduled_for as Date).toISOString(),
+    taskId: (row.task_id as string) || undefined,
+    taskStatus: (row.task_status as TaskStatus) || undefined,
+    preassignedAgentId: (row.preassigned_agent_id as string) || undefined,
+    error: (row.error as string) || undefined,
+    createdAt: (row.created_at as Date).toISOString(),
+  };
+}
+
+/**
+ * Next time a schedule fires after `after`; an error if it is invalid or never fires
+ */
+function nextRun(schedule: string, after: Date): Date | ApiError {
+  const parsed = parseCron(schedule);
+  if ('error' in parsed) return parsed;
+  return nextOccurrence(parsed, after) ?? { error: 'Schedule never fires' };
+}
+
+// ─── CRUD ──────────────────────────────────────────
+
+export async function createTemplate(req: CreateTemplateRequest): Promise<TaskTemplate | ApiError> {
+  const now = new Date();
+  const next = nextRun(req.schedule, now);
+  if ('error' in next) return next;
+
+  const { rows } = await query(
+    `INSERT INTO task_templates (id, poster_address, title, description, category, bounty, network, visibility, schedule,
+       deadline_seconds, preassign_previous_agent, min_agent_rating, next_run_at, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $14) RETURNING *`,
+    [randomUUID().slice(0, 8), req.posterAddress, req.title, req.description, req.category ?? 'other', req.bounty,
+      req.network ?? 'testnet', req.visibility ?? 'public', req.schedule, req.deadlineSeconds ?? null,
+      req.preassignPreviousAgent ?? false, req.minAgentRating ?? null, next, now]
+  );
+
+  const template = rowToTemplate(rows[0]);
+  console.log(`[Templates] Created template ${template.id}: "${template.title}" (${template.schedule}), first run ${template.nextRunAt}`);
+  return template;
+}
+
+export async function listTemplates(posterAddress?: string): Promise<TaskTemplate[]> {
+  const { rows } = posterAddress
+    ? await query('SELECT * FROM task_templates WHERE poster_address = $1 ORDER BY created_at DESC', [posterAddress])
+    : await query('SELECT * FROM task_templates ORDER BY created_at DESC');
+  return rows.map(rowToTemplate);
+}
+
+export async function getTemplate(id: string): Promise<TaskTemplate | undefined> {
+  const { rows } = await query('SELECT * FROM task_templates WHERE id = $1', [id]);
+  return rows.length ? rowToTemplate(rows[0]) : undefined;
+}
+
+const TEMPLATE_COLUMNS: Record<Exclude<keyof UpdateTemplateRequest, 'active'>, string> = {
+  title: 'title',
+  description: 'description',
+  category: 'category',
+  bounty: 'bounty',
+  visibility: 'visibility',
+  schedule: 'schedule',
+  deadlineSeconds: 'deadline_seconds',
+  preassignPreviousAgent: 'preassign_previous_agent',
+  minAgentRating: 'min_agent_rating',
+};
+
+/**
+ * Poster edits a template. A new schedule, or resuming, counts the next run from now;
+ * pausing clears it.
+ */
+export async function updateTemplate(id: string, posterAddress: string, changes: UpdateTemplateRequest): Promise<TaskTemplate | ApiError> {
+  const template = await getTemplate(id);
+  if (!template) return { error: 'Template not found' };
+  if (template.posterAddress !== posterAddress) return { error: 'Only the poster can change this template', code: 'forbidden' };
+
+  const now = new Date();
+  const sets: string[] = [];
+  const params: unknown[] = [];
+  for (const [key, column] of Object.entries(TEMPLATE_COLUMNS)) {
+    const value = changes[key as keyof typeof TEMPLATE_COLUMNS];
+    if (value === undefined) continue;
+    params.push(value);
+    sets.push(`${column} = $${params.length}`);
+  }
+
+  const active = changes.active ?? template.active;
+  if (changes.active !== undefined || changes.schedule !== undefined) {
+    let next: Date | null = null;
+    if (active) {
+      const computed = nextRun(changes.schedule ?? template.schedule, now);
+      if ('error' in computed) return computed;
+      next = computed;
+    }
+    params.push(active, next);
+    sets.push(`active = $${params.length - 1}`, `next_run_at = $${params.length}`);
+  }
+
+  params.push(now, id);
+  const { rows } = await query(
+    `UPDATE task_templates SET ${sets.join(', ')}, updated_at = $${params.length - 1} WHERE id = $${params.length} RETURNING *`,
+    params
+  );
+  return rowToTemplate(rows[0]);
+}
+
+/**
+ * Poster deletes a template and its run history; tasks it generated are kept.
+ * What is left of the prepaid balance is refunded first. A prepayment still
+ * awaiting confirmation is not in the balance yet, so deletion waits for it.
+ */
+export async function deleteTemplate(id: string, posterAddress: string): Promise<{ deleted: true; refundTxId?: string } | ApiError> {
+  const template = await getTemplate(id);
+  if (!template) return { error: 'Template not found' };
+  if (template.posterAddress !== posterAddress) return { error: 'Only the poster can delete this template', code: 'forbidden' };
+  if (template.prepaymentTxId) return { error: `Prepayment ${template.prepaymentTxId} is awaiting confirmation; delete the template once it confirms` };
+
+  // Take the balance off the template first, so a sweep running now cannot draw on what is being refunded
+  let refundTxId: string | undefined;
+  const { rows } = await query(
+    `WITH claimed AS (
+       SELECT id, balance_micro_stx FROM task_templates WHERE id = $2 AND balance_micro_stx::numeric > 0 FOR UPDATE
+     )
+     UPDATE task_templates t SET balance_micro_stx = '0', updated_at = $1 FROM claimed WHERE t.id = claimed.id
+     RETURNING t.*, claimed.balance_micro_stx AS claimed_micro_stx`,
+    [new Date(), id]
+  );
+  if (rows.length > 0) {
+    const claimedMicro = rows[0].claimed_micro_stx as string;
+    const refund = await refundTemplateEscrow({ ...rowToTemplate(rows[0]), balanceMicroStx: claimedMicro });
+    if ('error' in refund) {
+      await query(
+        'UPDATE task_templates SET balance_micro_stx = (balance_micro_stx::numeric + $1)::text WHERE id = $2',
+        [claimedMicro, id]
+      );
+      return refund;
+    }
+    refundTxId = refund.txId;
+  }
+
+  const { rowCount } = await query('DELETE FROM task_templates WHERE id = $1 AND prepayment_tx_id IS NULL', [id]);
+  if (!rowCount) return { error: 'A prepayment arrived while deleting; delete the template once it confirms' };
+  console.log(`[Templates] Deleted template ${id}${refundTxId ? `, balance refunded: ${refundTxId}` : ''}`);
+  return { deleted: true, refundTxId };
+}
+
+/**
+ * Occurrences of a template, newest first, with the current status of each generated task
+ */
+export async function listTemplateRuns(templateId: string): Promise<TemplateRun[]> {
+  const { rows } = await query(
+    `SELECT r.*, t.status AS task_status FROM template_runs r LEFT JOIN tasks t ON t.id = r.task_id
+     WHERE r.template_id = $1 ORDER BY r.scheduled_for DESC`,
+    [templateId]
+  );
+  return rows.map(rowToRun);
+}
+
+// ─── Prepaid balance ──────────────────────────────────────────
+
+/** Most occurrences one prepayment can cover */
+export const MAX_PREPAID_RUNS = 366;
+
+/**
+ * x402 requirement for prepaying `runs` of a template's tasks into the escrow wallet
+ */
+export function templateFundingRequirement(template: TaskTemplate, runs: number): StacksPaymentRequirement | ApiError {
+  const escrowAddress = getEscrowAddress(template.network);
+  if (typeof escrowAddress !== 'string') return escrowAddress;
+  if (template.escrowAddress && template.escrowAddress !== escrowAddress && BigInt(template.balanceMicroStx) > 0n) {
+    return { error: 'Configured escrow wallet does not hold this template\'s balance' };
+  }
+  const amountMicro = BigInt(stxToMicroStx(template.bounty)) * BigInt(runs);
+  return createTemplateFundingRequirement(template, escrowAddress, amountMicro.toString());
+}
+
+/**
+ * Settle a prepayment into escrow and hold it against the template until the
+ * payment confirmer sees it succeed on-chain; only then is it added to the
+ * balance. Each occurrence draws its bounty from the balance, so the poster does
+ * not fund every generated task by hand; what is left is refunded when the template is deleted.
+ */
+export async function fundTemplate(id: string, runs: number, payload: StacksPaymentPayload): Promise<TaskTemplate | ApiError> {
+  const template = await getTemplate(id);
+  if (!template) return { error: 'Template not found' };
+  if (template.prepaymentTxId) return { error: `Prepayment ${template.prepaymentTxId} is awaiting confirmation` };
+  const requirement = templateFundingRequirement(template, runs);
+  if ('error' in requirement) return requirement;
+
+  const settlement = await fundTemplateEscrow(template, requirement, payload);
+  if ('error' in settlement) return settlement;
+
+  let rows: Record<string, unknown>[];
+  try {
+    ({ rows } = await query(
+      `UPDATE task_templates SET prepayment_tx_id = $1, prepayment_micro_stx = $2, prepayment_submitted_at = $3,
+         prepayment_error = NULL, escrow_address = $4, updated_at = $3
+       WHERE id = $5 AND prepayment_tx_id IS NULL RETURNING *`,
+      [settlement.txId, requirement.amount, new Date(), requirement.recipient, id]
+    ));
+  } catch (err: unknown) {
+    // Unique prepayment_tx_id: one settled payment cannot prepay two templates
+    if (err instanceof Error && 'code' in err && (err as { code: string }).code === '23505') {
+      return { error: 'Payment already used to prepay another template' };
+    }
+    throw err;
+  }
+  if (rows.length === 0) {
+    console.error(`[Templates] Template ${id} was deleted or prepaid concurrently while ${settlement.txId} prepaid it; refund ${requirement.amount} microSTX by hand once it confirms`);
+    return { error: 'Template not found or already awaiting a prepayment' };
+  }
+
+  console.log(`[Templates] Template ${id} prepayment of ${requirement.amount} microSTX (${runs} run(s)) awaiting confirmation: ${settlement.txId}`);
+  return rowToTemplate(rows[0]);
+}
+
+/**
+ * Add a prepayment confirmed on-chain to the template's balance; it becomes
+ * the template's escrow transaction
+ */
+export async function completeTemplatePrepayment(id: string, txId: string): Promise<TaskTemplate | ApiError> {
+  const { rows } = await query(
+    `UPDATE task_templates SET balance_micro_stx = (balance_micro_stx::numeric + prepayment_micro_stx::numeric)::text,
+       escrow_tx_id = prepayment_tx_id, prepayment_tx_id = NULL, prepayment_micro_stx = NULL,
+       prepayment_submitted_at = NULL, updated_at = $1
+     WHERE id = $2 AND prepayment_tx_id = $3 RETURNING *`,
+    [new Date(), id, txId]
+  );
+  if (rows.length === 0) return { error: 'Template prepayment was already resolved' };
+
+  const funded = rowToTemplate(rows[0]);
+  console.log(`[Templates] Template ${id} prepayment confirmed: ${txId}, balance ${funded.balanceMicroStx}`);
+  return funded;
+}
+
+/**
+ * Drop a prepayment that failed or did not pay the escrow what is owed, so
+ * the poster can prepay again
+ */
+export async function failTemplatePrepayment(id: string, txId: string, reason: string): Promise<TaskTemplate | ApiError> {
+  const { rows } = await query(
+    `UPDATE task_templates SET prepayment_tx_id = NULL, prepayment_micro_stx = NULL, prepayment_submitted_at = NULL,
+       prepayment_error = $1, updated_at = $2
+     WHERE id = $3 AND prepayment_tx_id = $4 RETURNING *`,
+    [reason, new Date(), id, txId]
+  );
+  if (rows.length === 0) return { error: 'Template prepayment was already resolved' };
+
+  console.log(`[Templates] Template ${id} prepayment rejected: ${reason}`);
+  return rowToTemplate(rows[0]);
+}
+
+// ─── Generation ──────────────────────────────────────────
+
+/**
+ * The agent that completed the template's last task, if its rating is still high enough to hand it the next one
+ */
+async function previousAgentToAssign(template: TaskTemplate, scheduledFor: Date): Promise<string | undefined> {
+  const { rows } = await query(
+    `SELECT task_id FROM template_runs WHERE template_id = $1 AND scheduled_for < $2 AND task_id IS NOT NULL
+     ORDER BY scheduled_for DESC LIMIT 1`,
+    [template.id, scheduledFor]
+  );
+  if (rows.length === 0) return undefined;
+
+  const previous = await getTask(rows[0].task_id as string);
+  if (!previous?.assignedAgent || (previous.status !== 'completed' && previous.status !== 'closed')) return undefined;
+  const agent = await getAgent(previous.assignedAgent);
+  if (!agent || agent.avgRating < (template.minAgentRating ?? 0)) return undefined;
+  return agent.id;
+}
+
+/**
+ * Generate the task for one occurrence. Claiming the occurrence moves next_run_at
+ * on first, so overlapping sweeps cannot post it twice; occurrences missed while
+ * the API was down are skipped rather than posted in a burst.
+ */
+export async function runTemplate(templateId: string, scheduledFor: Date): Promise<TemplateRun | ApiError> {
+  const template = await getTemplate(templateId);
+  if (!template) return { error: 'Template not found' };
+
+  const now = new Date();
+  const next = nextRun(template.schedule, now);
+  const { rowCount } = await query(
+    `UPDATE task_templates SET next_run_at = $1, last_run_at = $2, updated_at = $3
+     WHERE id = $4 AND active AND next_run_at = $2`,
+    ['error' in next ? null : next, scheduledFor, now, templateId]
+  );
+  if (!rowCount) return { error: 'Occurrence already run' };
+
+  // The previous agent is assigned the task as soon as it is funded
+  const preassignedAgentId = template.preassignPreviousAgent ? await previousAgentToAssign(template, scheduledFor) : undefined;
+  const task = await createTask({
+    title: template.title,
+    description: template.description,
+    category: template.category,
+    bounty: template.bounty,
+    posterAddress: template.posterAddress,
+    network: template.network,
+    deadline: template.deadlineSeconds ? new Date(now.getTime() + template.deadlineSeconds * 1000).toISOString() : undefined,
+    visibility: template.visibility,
+  }, preassignedAgentId);
+  if ('error' in task) {
+    const { rows } = await query(
+      `INSERT INTO template_runs (template_id, scheduled_for, error, created_at) VALUES ($1, $2, $3, $4) RETURNING *`,
+      [templateId, scheduledFor, task.error, now]
+    );
+    return rowToRun(rows[0]);
+  }
+
+  const { rows } = await query(
+    `INSERT INTO template_runs (template_id, scheduled_for, task_id, preassigned_agent_id, created_at)
+     VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+    [templateId, scheduledFor, task.id, preassignedAgentId ?? null, now]
+  );
+
+  // Without a balance that covers the bounty, the task waits for the poster to fund it
+  let generated = task;
+  if (BigInt(template.balanceMicroStx) >= BigInt(task.bountyMicroStx)) {
+    const funded = await fundTaskFromTemplate(task.id, templateId);
+    if ('error' in funded) console.log(`[Templates] Task ${task.id} left awaiting funding: ${funded.error}`);
+    else generated = funded;
+  }
+
+  console.log(`[Templates] Template ${templateId} generated task ${task.id} (${generated.status})${preassignedAgentId ? `, pre-assigned to agent ${preassignedAgentId}` : ''}`);
+  return { ...rowToRun(rows[0]), taskStatus: generated.status };
+}
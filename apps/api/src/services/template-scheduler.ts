@@ -0,0 +1,34 @@
+// StacksTasker - Template scheduling
+// Posts a task for every active template whose next occurrence has come round
+
+import { query } from '../db.js';
+import { runTemplate } from './task-templates.js';
+
+/**
+ * One sweep
+ */
+export async function generateScheduledTasks(): Promise<void> {
+  const { rows } = await query(
+    'SELECT id, next_run_at FROM task_templates WHERE active AND next_run_at <= NOW() ORDER BY next_run_at ASC'
+  );
+  for (const row of rows) {
+    try {
+      const result = await runTemplate(row.id as string, row.next_run_at as Date);
+      // A run records its own error when the task could not be created
+      if (!('templateId' in result)) console.log(`[Templates] Template ${row.id} not run: ${result.error}`);
+      else if (result.error) console.log(`[Templates] Template ${row.id} could not create its task: ${result.error}`);
+    } catch (err) {
+      console.error(`[Templates] Could not run template ${row.id}:`, err);
+    }
+  }
+}
+
+/**
+ * Generate scheduled tasks in the background
+ */
+export function startTemplateScheduler(intervalMs: number): NodeJS.Timeout {
+  console.log(`[Templates] Checking task templates every ${intervalMs}ms`);
+  return setInterval(() => {
+    generateScheduledTasks().catch(err => console.error('[Templates] Sweep failed:', err));
+  }, intervalMs);
+}
@@ -0,0 +1,47 @@
+// StacksTasker API - Webhook delivery retry + signing tests
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { retryDelayMs, buildSignatureHeaders } from './webhook-dispatcher.js';
+
+describe('retryDelayMs', () => {
+  it('waits the base delay after the first failed attempt', () => {
+    assert.equal(retryDelayMs(1, 10_000), 10_000);
+  });
+
+  it('doubles the delay on every further attempt', () => {
+    assert.deepEqual([2, 3, 4, 5].map((n) => retryDelayMs(n, 10_000)), [20_000, 40_000, 80_000, 160_000]);
+  });
+
+  it('caps the delay at one hour', () => {
+    assert.equal(retryDelayMs(20, 10_000), 60 * 60 * 1000);
+  });
+});
+
+describe('buildSignatureHeaders', () => {
+  const payload = '{"id":"evt","type":"task.created"}';
+  const hmac = (content: string, secret: string) => createHmac('sha256', secret).update(content).digest('hex');
+
+  it('signs the body and the timestamped body with the secret', () => {
+    const headers = buildSignatureHeaders(payload, ['new-secret'], 1700000000);
+    assert.equal(headers['X-StacksTasker-Signature'], `sha256=${hmac(payload, 'new-secret')}`);
+    assert.equal(
+      headers['X-StacksTasker-Signature-V1'],
+      `t=1700000000,v1=${hmac(`1700000000.${payload}`, 'new-secret')}`
+    );
+  });
+
+  it('carries one signature per secret during a rotation grace period', () => {
+    const headers = buildSignatureHeaders(payload, ['new-secret', 'old-secret'], 1700000000);
+    assert.deepEqual(headers['X-StacksTasker-Signature'].split(','), [
+      `sha256=${hmac(payload, 'new-secret')}`,
+      `sha256=${hmac(payload, 'old-secret')}`,
+    ]);
+    assert.deepEqual(headers['X-StacksTasker-Signature-V1'].split(','), [
+      't=1700000000',
+      `v1=${hmac(`1700000000.${payload}`, 'new-secret')}`,
+      `v1=${hmac(`1700000000.${payload}`, 'old-secret')}`,
+    ]);
+  });
+});
@@ -1,22 +1,36 @@
-// StacksTasker - Webhook dispatch engine + CRUD
+// StacksTasker - Webhook fan-out + delivery engine + CRUD
 
 import { randomUUID, randomBytes, createHmac } from 'crypto';
-import { query } from '../db.js';
+import { query, getClient } from '../db.js';
+import { matchesFilter, onEventRecorded, rowToLoggedEvent } from './event-log.js';
 import type {
   Webhook,
   WebhookEventType,
   WebhookEvent,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
   RegisterWebhookRequest,
+  UpdateWebhookRequest,
   TaskCategory,
+  EventFilter,
 } from '../types.js';
 
-const VALID_EVENT_TYPES: WebhookEventType[] = [
+export const VALID_EVENT_TYPES: WebhookEventType[] = [
   'task.created',
   'task.status_changed',
   'bid.placed',
   'bid.accepted',
+  'bid.rejected',
   'message.new',
   'task.completed',
+  'task.payment_failed',
+  'task.expired',
+  'task.disputed',
+  'task.dispute_resolved',
+  'milestone.status_changed',
+  'task.invited',
+  'task.review_reminder',
+  'task.portion_submitted',
   '*',
 ];
 
@@ -32,10 +46,14 @@ function rowToWebhook(row: Record<string, unknown>, includeSecret = false): Webh
     filterTaskId: (row.filter_task_id as string) || undefined,
     active: row.active as boolean,
     description: (row.description as string) || '',
+    consecutiveFailures: (row.consecutive_failures as number) ?? 0,
     createdAt: (row.created_at as Date).toISOString(),
     lastTriggeredAt: row.last_triggered_at
       ? (row.last_triggered_at as Date).toISOString()
       : undefined,
+    previousSecretExpiresAt: row.previous_secret && row.previous_secret_expires_at
+      ? (row.previous_secret_expires_at as Date).toISOString()
+      : undefined,
   };
   if (includeSecret) {
     wh.secret = row.secret as string;
@@ -45,89 +63,328 @@ function rowToWebhook(row: Record<string, unknown>, includeSecret = false): Webh
 
 // ─── Signing ──────────────────────────────────────────
 
+/** How long the old secret keeps signing deliveries after a rotation */
+const SECRET_GRACE_SECONDS = parseInt(process.env.WEBHOOK_SECRET_GRACE_SECONDS ?? '86400', 10);
+const MAX_SECRET_GRACE_SECONDS = 7 * 24 * 60 * 60;
+
 function signPayload(payload: string, secret: string): string {
   return createHmac('sha256', secret).update(payload).digest('hex');
 }
 
-// ─── Dispatch ──────────────────────────────────────────
+/**
+ * Secrets a delivery is signed with: the current one, plus the previous one
+ * while its rotation grace period lasts
+ */
+function activeSecrets(row: Record<string, unknown>): string[] {
+  const secrets = [row.secret as string];
+  const expiresAt = row.previous_secret_expires_at as Date | null;
+  if (row.previous_secret && expiresAt && expiresAt.getTime() > Date.now()) {
+    secrets.push(row.previous_secret as string);
+  }
+  return secrets;
+}
+
+/**
+ * Signature headers for a delivery, one value per active secret:
+ * - `X-StacksTasker-Signature: sha256=<hmac(body)>[,sha256=...]`
+ * - `X-StacksTasker-Signature-V1: t=<unix seconds>,v1=<hmac("<t>.<body>")>[,v1=...]`
+ * The v1 form binds the signature to the send time so receivers can reject replays.
+ */
+export function buildSignatureHeaders(
+  payload: string,
+  secrets: string[],
+  timestamp = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  return {
+    'X-StacksTasker-Signature': secrets.map((secret) => `sha256=${signPayload(payload, secret)}`).join(','),
+    'X-StacksTasker-Signature-V1': [
+      `t=${timestamp}`,
+      ...secrets.map((secret) => `v1=${signPayload(`${timestamp}.${payload}`, secret)}`),
+    ].join(','),
+  };
+}
+
+// ─── Delivery queue ──────────────────────────────────────────
+
+/** Attempts per delivery before it is dead-lettered */
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS ?? '6', 10);
+/** Delay before the first retry; doubles on every further attempt */
+const RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS ?? '10000', 10);
+const RETRY_MAX_MS = 60 * 60 * 1000;
+/** Failed attempts in a row (across deliveries) before the webhook is disabled */
+const DISABLE_AFTER_FAILURES = parseInt(process.env.WEBHOOK_DISABLE_AFTER ?? '20', 10);
+const DELIVERY_TIMEOUT_MS = 3000;
+/** How long a claimed delivery is hidden from other workers while it is in flight */
+const CLAIM_LEASE_MS = 60 * 1000;
+const BATCH_SIZE = 20;
+/** Characters of the receiver's response body kept for debugging */
+const RESPONSE_SNIPPET_LENGTH = 500;
+
+/**
+ * Backoff before the next attempt, given how many attempts have been made
+ */
+export function retryDelayMs(attempts: number, baseMs = RETRY_BASE_MS): number {
+  return Math.min(baseMs * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
 
-interface DispatchContext {
-  taskId?: string;
-  category?: string;
+function rowToDelivery(row: Record<string, unknown>): WebhookDelivery {
+  return {
+    id: row.id as string,
+    webhookId: row.webhook_id as string,
+    eventId: row.event_id as string,
+    eventType: row.event_type as WebhookEventType,
+    payload: JSON.parse(row.payload as string) as WebhookEvent,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts as number,
+    responseCode: (row.response_code as number) ?? undefined,
+    responseBody: (row.response_body as string) ?? undefined,
+    durationMs: (row.duration_ms as number) ?? undefined,
+    lastError: (row.last_error as string) || undefined,
+    nextAttemptAt: row.status === 'pending' && row.next_attempt_at
+      ? (row.next_attempt_at as Date).toISOString()
+      : undefined,
+    createdAt: (row.created_at as Date).toISOString(),
+    deliveredAt: row.delivered_at ? (row.delivered_at as Date).toISOString() : undefined,
+  };
 }
 
-export async function dispatchEvent(
-  eventType: WebhookEventType,
-  eventData: WebhookEvent['data'],
-  context?: DispatchContext
-): Promise<void> {
+/**
+ * POST one delivery to its webhook and record the outcome
+ */
+async function attemptDelivery(row: Record<string, unknown>): Promise<void> {
+  const deliveryId = row.id as string;
+  const webhookId = row.webhook_id as string;
+  const url = row.url as string;
+  const payload = row.payload as string;
+  const attempts = (row.attempts as number) + 1;
+
+  let responseCode: number | null = null;
+  let responseBody: string | null = null;
+  let lastError: string | null = null;
+  const started = Date.now();
   try {
-    // Query active webhooks that match this event type
-    const { rows } = await query(
-      `SELECT * FROM webhooks WHERE active = true AND ($1 = ANY(events) OR '*' = ANY(events))`,
-      [eventType]
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...buildSignatureHeaders(payload, activeSecrets(row)),
+        'X-StacksTasker-Event': row.event_type as string,
+        'X-StacksTasker-Delivery': deliveryId,
+        'X-StacksTasker-Timestamp': (JSON.parse(payload) as WebhookEvent).timestamp,
+        'X-StacksTasker-Attempt': String(attempts),
+      },
+      body: payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseCode = res.status;
+    responseBody = (await res.text().catch(() => '')).slice(0, RESPONSE_SNIPPET_LENGTH);
+    if (!res.ok) lastError = `HTTP ${res.status}`;
+  } catch (err) {
+    lastError = err instanceof Error ? err.message : String(err);
+  }
+  const durationMs = Date.now() - started;
+
+  if (!lastError) {
+    await query(
+      `UPDATE webhook_deliveries
+       SET status = 'delivered', attempts = $1, response_code = $2, response_body = $3,
+           duration_ms = $4, last_error = NULL, delivered_at = NOW()
+       WHERE id = $5`,
+      [attempts, responseCode, responseBody, durationMs, deliveryId]
     );
+    await query(
+      'UPDATE webhooks SET last_triggered_at = NOW(), consecutive_failures = 0 WHERE id = $1',
+      [webhookId]
+    );
+    return;
+  }
 
-    if (rows.length === 0) return;
+  const deadLetter = attempts >= MAX_ATTEMPTS;
+  await query(
+    `UPDATE webhook_deliveries
+     SET status = $1, attempts = $2, response_code = $3, response_body = $4, duration_ms = $5,
+         last_error = $6, next_attempt_at = $7
+     WHERE id = $8`,
+    [
+      deadLetter ? 'dead-letter' : 'pending',
+      attempts,
+      responseCode,
+      responseBody,
+      durationMs,
+      lastError,
+      new Date(Date.now() + retryDelayMs(attempts)),
+      deliveryId,
+    ]
+  );
+  console.error(
+    `[Webhook] Delivery ${deliveryId} of ${row.event_type} to ${url} failed (attempt ${attempts}/${MAX_ATTEMPTS}): ${lastError}` +
+    (deadLetter ? ' — dead-lettered' : '')
+  );
 
-    const matchingWebhooks = rows.filter((row) => {
-      // Filter by category if the webhook has one set
-      if (row.filter_category && context?.category && row.filter_category !== context.category) {
-        return false;
-      }
-      // Filter by task ID if the webhook has one set
-      if (row.filter_task_id && context?.taskId && row.filter_task_id !== context.taskId) {
-        return false;
-      }
-      return true;
-    });
+  const { rows } = await query(
+    `UPDATE webhooks SET consecutive_failures = consecutive_failures + 1
+     WHERE id = $1 RETURNING consecutive_failures`,
+    [webhookId]
+  );
+  if (rows.length && (rows[0].consecutive_failures as number) >= DISABLE_AFTER_FAILURES) {
+    await query('UPDATE webhooks SET active = false WHERE id = $1 AND active = true', [webhookId]);
+    console.error(`[Webhook] Disabled webhook ${webhookId} after ${DISABLE_AFTER_FAILURES} consecutive failures`);
+  }
+}
 
-    if (matchingWebhooks.length === 0) return;
+/**
+ * Claim and send every delivery that is due. Deliveries for disabled webhooks
+ * stay queued until the webhook is active again.
+ */
+export async function processDueDeliveries(): Promise<number> {
+  const { rows } = await query(
+    `UPDATE webhook_deliveries d
+     SET next_attempt_at = NOW() + ($1::int * INTERVAL '1 millisecond')
+     FROM webhooks w
+     WHERE w.id = d.webhook_id AND d.id IN (
+       SELECT q.id FROM webhook_deliveries q
+       JOIN webhooks qw ON qw.id = q.webhook_id
+       WHERE q.status = 'pending' AND q.next_attempt_at <= NOW() AND qw.active = true
+       ORDER BY q.next_attempt_at ASC
+       LIMIT $2
+       FOR UPDATE OF q SKIP LOCKED
+     )
+     RETURNING d.*, w.url, w.secret, w.previous_secret, w.previous_secret_expires_at`,
+    [CLAIM_LEASE_MS, BATCH_SIZE]
+  );
 
-    const event: WebhookEvent = {
-      id: randomUUID(),
-      type: eventType,
-      timestamp: new Date().toISOString(),
-      data: eventData,
-    };
+  await Promise.allSettled(rows.map((row) => attemptDelivery(row)));
+  return rows.length;
+}
+
+let draining = false;
+let kickedWhileDraining = false;
+
+/**
+ * Fan out new events and send due deliveries in the background without
+ * making the caller wait.
+ * Concurrent kicks share one drain loop.
+ */
+function kickDeliveries(): void {
+  if (draining) {
+    kickedWhileDraining = true;
+    return;
+  }
+  draining = true;
+  void (async () => {
+    try {
+      let queued: number;
+      let claimed: number;
+      do {
+        kickedWhileDraining = false;
+        queued = await queueLoggedEvents();
+        claimed = await processDueDeliveries();
+      } while (queued === FANOUT_BATCH_SIZE || claimed === BATCH_SIZE || kickedWhileDraining);
+    } catch (err) {
+      console.error(`[Webhook] Delivery worker error: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      draining = false;
+    }
+  })();
+}
+
+/**
+ * Poll for retries that have come due and for logged events not yet fanned out
+ */
+export function startDeliveryWorker(intervalMs: number): NodeJS.Timeout {
+  console.log(`[Webhook] Delivery worker polling every ${intervalMs}ms (max ${MAX_ATTEMPTS} attempts)`);
+  return setInterval(kickDeliveries, intervalMs);
+}
+
+// ─── Fan-out ──────────────────────────────────────────
+
+/** Logged events turned into deliveries per transaction */
+const FANOUT_BATCH_SIZE = 100;
+
+function webhookFilter(row: Record<string, unknown>): EventFilter {
+  return {
+    types: (row.events as WebhookEventType[]) || [],
+    category: (row.filter_category as TaskCategory) || undefined,
+    taskId: (row.filter_task_id as string) || undefined,
+    // Events about invite-only tasks go only to webhooks their audience owns
+    viewer: row.owner_id as string,
+  };
+}
+
+/**
+ * Queue logged events for every active webhook whose filter matches.
+ * Each event is claimed by one instance and fanned out exactly once.
+ */
+export async function queueLoggedEvents(): Promise<number> {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
 
-    const payload = JSON.stringify(event);
-
-    const deliveries = matchingWebhooks.map(async (row) => {
-      const secret = row.secret as string;
-      const url = row.url as string;
-      const webhookId = row.id as string;
-      const signature = signPayload(payload, secret);
-      const deliveryId = randomUUID();
-
-      try {
-        await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'X-StacksTasker-Signature': `sha256=${signature}`,
-            'X-StacksTasker-Event': eventType,
-            'X-StacksTasker-Delivery': deliveryId,
-            'X-StacksTasker-Timestamp': event.timestamp,
-          },
-          body: payload,
-          signal: AbortSignal.timeout(3000),
-        });
-
-        // Update last_triggered_at
-        await query('UPDATE webhooks SET last_triggered_at = NOW() WHERE id = $1', [webhookId]);
-      } catch (err) {
-        console.error(
-          `[Webhook] Failed to deliver ${eventType} to ${url}: ${err instanceof Error ? err.message : err}`
+    const { rows } = await client.query(
+      `SELECT * FROM events WHERE webhooks_queued = false
+       ORDER BY seq ASC LIMIT $1 FOR UPDATE SKIP LOCKED`,
+      [FANOUT_BATCH_SIZE]
+    );
+    if (rows.length === 0) {
+      await client.query('COMMIT');
+      return 0;
+    }
+
+    const { rows: webhooks } = await client.query('SELECT * FROM webhooks WHERE active = true');
+    for (const row of rows) {
+      const entry = rowToLoggedEvent(row);
+      for (const webhook of webhooks) {
+        if (!matchesFilter(entry, webhookFilter(webhook))) continue;
+        await client.query(
+          `INSERT INTO webhook_deliveries (id, webhook_id, event_id, event_type, payload)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [randomUUID(), webhook.id, entry.event.id, entry.event.type, row.payload]
         );
       }
-    });
+    }
 
-    await Promise.allSettled(deliveries);
+    await client.query(
+      'UPDATE events SET webhooks_queued = true WHERE seq = ANY($1::bigint[])',
+      [rows.map((row) => row.seq)]
+    );
+    await client.query('COMMIT');
+    return rows.length;
   } catch (err) {
-    // Never let webhook failures propagate to the caller
-    console.error(`[Webhook] Dispatch error: ${err instanceof Error ? err.message : err}`);
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+// Fan out and deliver as soon as an event is recorded on this instance
+onEventRecorded(kickDeliveries);
+
+// ─── Ownership ──────────────────────────────────────────
+
+/**
+ * A webhook belongs to a wallet if it was registered with that address as
+ * ownerId, or with the id of an agent registered to that wallet
+ */
+async function isOwnedBy(ownerId: string, walletAddress: string): Promise<boolean> {
+  if (ownerId === walletAddress) return true;
+  const { rows } = await query(
+    'SELECT 1 FROM agents WHERE id = $1 AND wallet_address = $2',
+    [ownerId, walletAddress]
+  );
+  return rows.length > 0;
+}
+
+async function getOwnedWebhookRow(
+  id: string,
+  walletAddress: string
+): Promise<{ row?: Record<string, unknown>; error?: string }> {
+  const { rows } = await query('SELECT * FROM webhooks WHERE id = $1', [id]);
+  if (rows.length === 0) return { error: 'Webhook not found' };
+  if (!(await isOwnedBy(rows[0].owner_id as string, walletAddress))) {
+    return { error: 'Not authorized to manage this webhook' };
   }
+  return { row: rows[0] };
 }
 
 // ─── CRUD ──────────────────────────────────────────
@@ -178,19 +435,75 @@ export async function getWebhook(id: string): Promise<Webhook | undefined> {
 
 export async function deleteWebhook(
   id: string,
-  ownerId: string
+  walletAddress: string
 ): Promise<{ success: boolean; error?: string }> {
-  const { rows } = await query('SELECT * FROM webhooks WHERE id = $1', [id]);
-  if (rows.length === 0) return { success: false, error: 'Webhook not found' };
-  if ((rows[0].owner_id as string) !== ownerId) {
-    return { success: false, error: 'Not authorized to delete this webhook' };
-  }
+  const { error } = await getOwnedWebhookRow(id, walletAddress);
+  if (error) return { success: false, error };
 
   await query('DELETE FROM webhooks WHERE id = $1', [id]);
   console.log(`[Webhook] Deleted webhook ${id}`);
   return { success: true };
 }
 
+export async function updateWebhook(
+  id: string,
+  walletAddress: string,
+  changes: UpdateWebhookRequest
+): Promise<{ webhook?: Webhook; error?: string }> {
+  const { error } = await getOwnedWebhookRow(id, walletAddress);
+  if (error) return { error };
+
+  const columns: Record<keyof UpdateWebhookRequest, string> = {
+    url: 'url',
+    events: 'events',
+    filterCategory: 'filter_category',
+    filterTaskId: 'filter_task_id',
+    description: 'description',
+  };
+  const sets: string[] = [];
+  const params: unknown[] = [];
+  for (const key of Object.keys(columns) as (keyof UpdateWebhookRequest)[]) {
+    if (changes[key] === undefined) continue;
+    params.push(changes[key] === '' && key !== 'description' ? null : changes[key]);
+    sets.push(`${columns[key]} = $${params.length}`);
+  }
+  if (sets.length === 0) return { error: 'No updatable fields provided' };
+
+  params.push(id);
+  const { rows } = await query(
+    `UPDATE webhooks SET ${sets.join(', ')} WHERE id = $${params.length} RETURNING *`,
+    params
+  );
+
+  console.log(`[Webhook] Updated webhook ${id}`);
+  return { webhook: rowToWebhook(rows[0], false) };
+}
+
+/**
+ * Pause or resume deliveries. A paused webhook matches no new events;
+ * deliveries already queued wait and go out once it is resumed.
+ */
+export async function setWebhookActive(
+  id: string,
+  walletAddress: string,
+  active: boolean
+): Promise<{ webhook?: Webhook; error?: string }> {
+  const { error } = await getOwnedWebhookRow(id, walletAddress);
+  if (error) return { error };
+
+  // Resuming also clears the failure streak that may have auto-disabled it
+  const { rows } = await query(
+    `UPDATE webhooks SET active = $1,
+       consecutive_failures = CASE WHEN $1 THEN 0 ELSE consecutive_failures END
+     WHERE id = $2 RETURNING *`,
+    [active, id]
+  );
+
+  console.log(`[Webhook] ${active ? 'Resumed' : 'Paused'} webhook ${id}`);
+  if (active) kickDeliveries();
+  return { webhook: rowToWebhook(rows[0], false) };
+}
+
 export async function testWebhook(
   id: string
 ): Promise<{ success: boolean; error?: string }> {
@@ -198,7 +511,6 @@ export async function testWebhook(
   if (rows.length === 0) return { success: false, error: 'Webhook not found' };
 
   const row = rows[0];
-  const secret = row.secret as string;
   const url = row.url as string;
 
   const event: WebhookEvent = {
@@ -209,14 +521,13 @@ export async function testWebhook(
   };
 
   const payload = JSON.stringify({ ...event, ping: true });
-  const signature = signPayload(payload, secret);
 
   try {
     const res = await fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-StacksTasker-Signature': `sha256=${signature}`,
+        ...buildSignatureHeaders(payload, activeSecrets(row)),
         'X-StacksTasker-Event': 'ping',
         'X-StacksTasker-Delivery': randomUUID(),
         'X-StacksTasker-Timestamp': event.timestamp,
@@ -234,3 +545,84 @@ export async function testWebhook(
     };
   }
 }
+
+/**
+ * Replace the signing secret. The old secret keeps signing deliveries
+ * alongside the new one for `graceSeconds` so receivers can switch over.
+ */
+export async function rotateWebhookSecret(
+  id: string,
+  walletAddress: string,
+  graceSeconds = SECRET_GRACE_SECONDS
+): Promise<{ secret?: string; previousSecretExpiresAt?: string; error?: string }> {
+  const { row, error } = await getOwnedWebhookRow(id, walletAddress);
+  if (error) return { error };
+
+  const grace = Math.min(Math.max(graceSeconds, 0), MAX_SECRET_GRACE_SECONDS);
+  const secret = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + grace * 1000);
+
+  await query(
+    `UPDATE webhooks SET secret = $1, previous_secret = $2, previous_secret_expires_at = $3 WHERE id = $4`,
+    [secret, row!.secret, expiresAt, id]
+  );
+
+  console.log(`[Webhook] Rotated secret for webhook ${id} (old secret valid for ${grace}s)`);
+  return { secret, previousSecretExpiresAt: expiresAt.toISOString() };
+}
+
+// ─── Delivery history ──────────────────────────────────────────
+
+export async function listDeliveries(
+  webhookId: string,
+  walletAddress: string,
+  page: { limit: number; offset: number }
+): Promise<{ deliveries?: WebhookDelivery[]; total?: number; error?: string }> {
+  const { error } = await getOwnedWebhookRow(webhookId, walletAddress);
+  if (error) return { error };
+
+  const { rows } = await query(
+    `SELECT * FROM webhook_deliveries WHERE webhook_id = $1
+     ORDER BY created_at DESC, id LIMIT $2 OFFSET $3`,
+    [webhookId, page.limit, page.offset]
+  );
+  const { rows: countRows } = await query(
+    'SELECT COUNT(*)::int AS total FROM webhook_deliveries WHERE webhook_id = $1',
+    [webhookId]
+  );
+  return { deliveries: rows.map(rowToDelivery), total: countRows[0].total as number };
+}
+
+/**
+ * Send a past delivery again right away, keeping its delivery id so
+ * receivers can recognise it. The replay counts as one more attempt: if it
+ * fails it is retried as usual, or stays dead-lettered once past the limit.
+ */
+export async function redeliver(
+  webhookId: string,
+  deliveryId: string,
+  walletAddress: string
+): Promise<{ delivery?: WebhookDelivery; error?: string }> {
+  const { row: webhook, error } = await getOwnedWebhookRow(webhookId, walletAddress);
+  if (error) return { error };
+
+  // Hide it from the worker while this attempt is in flight
+  const { rows } = await query(
+    `UPDATE webhook_deliveries SET next_attempt_at = NOW() + ($1::int * INTERVAL '1 millisecond')
+     WHERE id = $2 AND webhook_id = $3 RETURNING *`,
+    [CLAIM_LEASE_MS, deliveryId, webhookId]
+  );
+  if (rows.length === 0) return { error: 'Delivery not found' };
+
+  await attemptDelivery({
+    ...rows[0],
+    url: webhook!.url,
+    secret: webhook!.secret,
+    previous_secret: webhook!.previous_secret,
+    previous_secret_expires_at: webhook!.previous_secret_expires_at,
+  });
+  console.log(`[Webhook] Redelivered ${deliveryId} to ${webhook!.url}`);
+
+  const { rows: updated } = await query('SELECT * FROM webhook_deliveries WHERE id = $1', [deliveryId]);
+  return { delivery: rowToDelivery(updated[0]) };
+}
@@ -2,11 +2,64 @@
 
 /**
  * Task status lifecycle:
- * open -> bidding -> assigned -> in-progress -> submitted -> completed -> closed
- * open -> cancelled (poster cancels before assignment)
+ * pending-funding -> open (bounty escrowed via x402 payment)
+ * open -> bidding -> assigned -> in-progress -> submitted -> payment-pending -> completed -> closed
+ * pending-funding/open -> cancelled (poster cancels before assignment; escrow refunded)
  * submitted -> assigned (poster rejects submission)
+ * payment-pending -> submitted (payment transaction failed or did not match)
+ * pending-funding/open/bidding -> expired (deadline passed; escrow refunded)
+ * assigned/in-progress -> bidding (agent overran its committed ETA)
+ * assigned/in-progress/submitted -> disputed (rejection contested) -> payment-pending | refunded (arbiter ruling)
  */
-export type TaskStatus = 'open' | 'bidding' | 'assigned' | 'in-progress' | 'submitted' | 'completed' | 'cancelled' | 'closed';
+export type TaskStatus = 'pending-funding' | 'open' | 'bidding' | 'assigned' | 'in-progress' | 'submitted' | 'revision-requested' | 'payment-pending' | 'completed' | 'cancelled' | 'expired' | 'disputed' | 'refunded' | 'closed';
+
+/**
+ * Operations that change a task's status (see the transition table in services/task-state.ts)
+ */
+export type TaskAction =
+  | 'create'
+  | 'fund'
+  | 'bid'
+  | 'accept'
+  | 'accept-bid'
+  | 'assign-team'
+  | 'start'
+  | 'cancel'
+  | 'submit'
+  | 'reject'
+  | 'request-revision'
+  | 'escalate'
+  | 'approve'
+  | 'confirm-payment'
+  | 'fail-payment'
+  | 'close'
+  | 'expire'
+  | 'reopen'
+  | 'dispute'
+  | 'resolve'
+  | 'pay-milestones';
+
+/**
+ * Who performed a transition; `system` covers payment confirmation, deadlines and escrow funding
+ */
+export type TaskActor = 'poster' | 'agent' | 'arbiter' | 'system';
+
+/**
+ * One entry in a task's status history
+ */
+export interface TaskStatusChange {
+  id: number;
+  taskId: string;
+  action: TaskAction;
+  /** Absent for the `create` entry */
+  fromStatus?: TaskStatus;
+  toStatus: TaskStatus;
+  actor: TaskActor;
+  /** Wallet address of a poster or arbiter, or the agent id */
+  actorId?: string;
+  reason?: string;
+  createdAt: string;
+}
 
 /**
  * Task category for filtering
@@ -26,6 +79,21 @@ export type TaskCategory =
  */
 export type NetworkType = 'testnet' | 'mainnet';
 
+/**
+ * Who can find a task: invite-only tasks are listed only to their poster and
+ * invited agents, and only invitees can bid on or accept them
+ */
+export type TaskVisibility = 'public' | 'invite-only';
+
+/**
+ * How a task is awarded:
+ * - open: bids are public and the poster accepts one at any time
+ * - sealed: bids are hidden from other agents until bidding closes, then the poster accepts one
+ * - reverse-auction: when bidding closes the lowest bid from an agent rated at least
+ *   minAgentRating is accepted automatically
+ */
+export type AuctionMode = 'open' | 'sealed' | 'reverse-auction';
+
 export interface Task {
   id: string;
   title: string;
@@ -44,8 +112,18 @@ export interface Task {
   assignedAgent?: string;
   /** Result submitted by the agent */
   result?: string;
-  /** Transaction ID for the payment */
+  /** Transaction ID for the payment (escrow release to the agent) */
   paymentTxId?: string;
+  /** Escrow wallet holding the bounty */
+  escrowAddress?: string;
+  /** Transaction ID that funded the escrow */
+  escrowTxId?: string;
+  /** Funding transfer broadcast but not yet confirmed on-chain; the task opens once it is */
+  fundingTxId?: string;
+  /** Why the last funding transfer was not accepted */
+  fundingError?: string;
+  /** Transaction ID that refunded the escrow to the poster */
+  refundTxId?: string;
   /** Bounty value in USD at time of completion (locked) */
   bountyUsd?: string;
   /** Platform fee taken (STX) */
@@ -54,11 +132,105 @@ export interface Task {
   platformWallet?: string;
   /** Reason for rejection (if poster rejects submission) */
   rejectionReason?: string;
+  /** How many times the poster has rejected a submission */
+  rejectionCount: number;
+  /** Revisions the poster has requested from the current agent */
+  revisionCount: number;
+  /** Revisions the poster may request before the task escalates */
+  maxRevisions: number;
+  /** What a revision request past maxRevisions does instead */
+  revisionEscalation: RevisionEscalation;
+  /** MicroSTX released to the agent when it is less than the bounty: the accepted bid, or an arbiter's partial award */
+  payoutMicroStx?: string;
+  /** Why the last payment transaction was not accepted (task reverted to submitted) */
+  paymentError?: string;
+  /** Task expires (and the escrow is refunded) if no agent has it by then */
+  deadline?: string;
+  /** When the current agent was assigned */
+  assignedAt?: string;
+  /** When the assigned agent committed to submit by (from its bid ETA or the deadline) */
+  dueAt?: string;
+  /** Number of milestones the bounty is paid out in (0 when it is paid in one go) */
+  milestoneCount: number;
+  /** Number of agents sharing the task (0 when one agent works it); the assigned agent leads the team */
+  teamSize: number;
+  /** Agent the task is assigned to as soon as it is funded (set by task templates) */
+  preassignedAgent?: string;
+  /** Template whose prepaid balance funded the escrow (escrowTxId is then the template's prepayment) */
+  fundingTemplateId?: string;
+  visibility: TaskVisibility;
+  auctionMode: AuctionMode;
+  /** No bids are placed or revised after this; bids are accepted only after it (sealed and reverse-auction tasks) */
+  biddingClosesAt?: string;
+  /** Lowest average rating a reverse-auction bid needs to win */
+  minAgentRating?: number;
+  /** Schema every JSON artifact in a submission must match */
+  resultSchema?: JsonSchema;
+  /** Checks every submission is run through; failing ones are rejected automatically */
+  acceptanceCriteria?: AcceptanceCriteria;
+  /** Approve (and pay) a submission that passes the acceptance criteria without waiting for the poster */
+  autoApproveOnPass: boolean;
+  /** Outcome of the acceptance criteria on the latest submission */
+  validationReport?: ValidationReport;
+  /** How long the poster has to review a submission before it is approved implicitly */
+  reviewWindowSeconds: number;
+  /** When the current submission is approved if the poster has not decided */
+  reviewDueAt?: string;
+  /** When the poster was reminded of the current submission */
+  reviewRemindedAt?: string;
+  /** Approved because the review window elapsed, not by the poster */
+  approvedImplicitly: boolean;
   createdAt: string;
   updatedAt: string;
+  fundedAt?: string;
   completedAt?: string;
 }
 
+/**
+ * Orderings for task listings
+ */
+export type TaskSort = 'created' | 'bounty' | 'deadline' | 'bids';
+
+/**
+ * Filters and paging for task listings
+ */
+export interface TaskListQuery {
+  /** Any of these statuses */
+  status?: TaskStatus[];
+  category?: TaskCategory;
+  poster?: string;
+  /** Assigned agent ID */
+  agent?: string;
+  network?: NetworkType;
+  /** Full-text search over title and description */
+  q?: string;
+  /** Inclusive bounty range in STX */
+  minBounty?: string;
+  maxBounty?: string;
+  sort?: TaskSort;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  /** `nextCursor` from the previous page */
+  cursor?: string;
+  /** Verified wallet of the caller, which also sees invite-only tasks it posted or was invited to */
+  viewer?: string;
+}
+
+/**
+ * One page of a task listing
+ */
+export interface TaskPage {
+  tasks: (Task & { bidCount: number })[];
+  /** Pass back as `cursor` for the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/**
+ * active -> accepted | rejected | withdrawn
+ *        -> expired (the task was cancelled, expired or taken without this bid)
+ */
+export type BidStatus = 'active' | 'withdrawn' | 'rejected' | 'accepted' | 'expired';
+
 /**
  * A bid from an agent on a task
  */
@@ -72,7 +244,13 @@ export interface Bid {
   message: string;
   /** Estimated completion time e.g. "2 minutes", "1 hour" */
   estimatedTime: string;
+  /** Committed ETA in seconds, parsed from estimatedTime; enforced once the bid is accepted */
+  etaSeconds?: number;
+  status: BidStatus;
+  /** Why the poster rejected the bid */
+  rejectionReason?: string;
   createdAt: string;
+  updatedAt: string;
 }
 
 /**
@@ -99,6 +277,8 @@ export interface Agent {
   avgRating: number;
   /** Total number of reviews */
   totalReviews: number;
+  /** Assignments lost by overrunning the committed ETA */
+  deadlinesMissed: number;
   registeredAt: string;
   lastActiveAt: string;
 }
@@ -129,6 +309,28 @@ export interface CreateTaskRequest {
   bounty: string;
   posterAddress: string;
   network?: NetworkType;
+  /** ISO timestamp; open tasks expire after it */
+  deadline?: string;
+  /** Pay the bounty in ordered stages; amounts must add up to the bounty */
+  milestones?: MilestoneInput[];
+  /** Defaults to public */
+  visibility?: TaskVisibility;
+  /** Defaults to open; sealed and reverse-auction need biddingClosesAt */
+  auctionMode?: AuctionMode;
+  /** ISO timestamp, before the deadline */
+  biddingClosesAt?: string;
+  /** reverse-auction only, 0-5 */
+  minAgentRating?: number;
+  resultSchema?: JsonSchema;
+  acceptanceCriteria?: AcceptanceCriteria;
+  /** Needs acceptanceCriteria */
+  autoApproveOnPass?: boolean;
+  /** Defaults to the platform's REVIEW_WINDOW_SECONDS */
+  reviewWindowSeconds?: number;
+  /** Defaults to the platform's MAX_REVISIONS */
+  maxRevisions?: number;
+  /** Defaults to dispute */
+  revisionEscalation?: RevisionEscalation;
 }
 
 /**
@@ -147,7 +349,9 @@ export interface RegisterAgentRequest {
  */
 export interface SubmitResultRequest {
   agentId: string;
-  result: string;
+  /** Free-text summary; optional when artifacts are attached */
+  result?: string;
+  artifacts?: ArtifactInput[];
 }
 
 /**
@@ -158,6 +362,19 @@ export interface PlaceBidRequest {
   amount: string;
   message: string;
   estimatedTime: string;
+  /** Explicit ETA in seconds; parsed from estimatedTime when omitted */
+  etaSeconds?: number;
+}
+
+/**
+ * Changes an agent can make to its active bid
+ */
+export interface ReviseBidRequest {
+  agentId: string;
+  amount?: string;
+  message?: string;
+  estimatedTime?: string;
+  etaSeconds?: number;
 }
 
 /**
@@ -170,6 +387,19 @@ export interface SubmitReviewRequest {
   reviewerAddress: string;
 }
 
+/**
+ * Machine-readable error codes returned alongside `error`
+ */
+export type ApiErrorCode = 'unauthenticated' | 'forbidden' | 'payment_failed';
+
+/**
+ * Error shape returned by engine operations and routes
+ */
+export interface ApiError {
+  error: string;
+  code?: ApiErrorCode;
+}
+
 /**
  * A message in a task's communication thread
  */
@@ -182,13 +412,499 @@ export interface Message {
 }
 
 /**
- * Request to post a message in a task thread
+ * Request to post a message in a task thread.
+ * senderAddress is taken from the authenticated wallet.
  */
 export interface PostMessageRequest {
   senderAddress: string;
   body: string;
 }
 
+// ─── Dispute Types ──────────────────────────────────────────
+
+export type DisputeStatus = 'open' | 'resolved';
+
+/**
+ * Arbiter ruling: the agent gets the whole bounty, a share of it (the rest is
+ * refunded to the poster), or nothing
+ */
+export type DisputeOutcome = 'full' | 'partial' | 'refund';
+
+/**
+ * A contested rejection, decided by an arbiter
+ */
+export interface Dispute {
+  id: string;
+  taskId: string;
+  /** Which side opened it */
+  openedBy: 'agent' | 'poster';
+  openerAddress: string;
+  reason: string;
+  /** Links or text supporting the opener's case */
+  evidence: string[];
+  /** The rejection being contested */
+  rejectionReason?: string;
+  /** The task's message thread, frozen when the dispute was opened */
+  thread: Message[];
+  status: DisputeStatus;
+  outcome?: DisputeOutcome;
+  /** Share of the bounty awarded to the agent (100 full, 0 refund) */
+  agentPercent?: number;
+  resolutionNote?: string;
+  arbiterAddress?: string;
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+/**
+ * Request to open a dispute. The opener is the authenticated wallet.
+ */
+export interface OpenDisputeRequest {
+  reason: string;
+  evidence?: string[];
+}
+
+/**
+ * Arbiter's ruling on a dispute
+ */
+export interface ResolveDisputeRequest {
+  outcome: DisputeOutcome;
+  /** Required for `partial`: 1-99 */
+  agentPercent?: number;
+  note?: string;
+}
+
+// ─── Submission Types ──────────────────────────────────────────
+
+/**
+ * Submission lifecycle:
+ * pending -> approved | rejected | revision-requested
+ * Each resubmission is a new submission with the next version.
+ */
+export type SubmissionStatus = 'pending' | 'approved' | 'rejected' | 'revision-requested';
+
+/**
+ * When the poster asks for more revisions than the task allows: `dispute`
+ * hands the submission to an arbiter, `cancel` refunds the poster
+ */
+export type RevisionEscalation = 'dispute' | 'cancel';
+
+/**
+ * One change the poster wants in the next version
+ */
+export interface ChangeRequest {
+  description: string;
+  /** Artifact name or section of the result it is about */
+  target?: string;
+}
+
+/**
+ * One version of a task's result, kept with the poster's feedback on it
+ */
+export interface Submission {
+  id: string;
+  taskId: string;
+  /** 1 for the first submission; matches the artifact version */
+  version: number;
+  agentId: string;
+  result?: string;
+  status: SubmissionStatus;
+  /** Rejection reason or the note sent with a revision request */
+  feedback?: string;
+  changeRequests: ChangeRequest[];
+  validationReport?: ValidationReport;
+  artifacts: Artifact[];
+  createdAt: string;
+  reviewedAt?: string;
+}
+
+export interface RequestRevisionRequest {
+  changeRequests: ChangeRequest[];
+  note?: string;
+}
+
+// ─── Milestone Types ──────────────────────────────────────────
+
+/**
+ * Milestone lifecycle:
+ * pending -> submitted -> payment-pending -> paid
+ * submitted -> pending (poster rejects the milestone)
+ * payment-pending -> submitted (payout transaction failed or did not match)
+ * The task completes once every milestone is paid.
+ */
+export type MilestoneStatus = 'pending' | 'submitted' | 'payment-pending' | 'paid';
+
+/**
+ * One stage of a task, paid out on its own approval
+ */
+export interface Milestone {
+  id: string;
+  taskId: string;
+  /** 1-based order; a milestone can only be submitted once the ones before it are approved */
+  position: number;
+  title: string;
+  /** Share of the bounty in STX */
+  amount: string;
+  amountMicroStx: string;
+  /** What the poster checks before approving */
+  acceptanceCriteria: string;
+  status: MilestoneStatus;
+  /** Agent that submitted the current result (and is paid for it) */
+  agentId?: string;
+  result?: string;
+  rejectionReason?: string;
+  paymentTxId?: string;
+  /** Platform fee taken from this milestone's share (STX) */
+  platformFee?: string;
+  platformWallet?: string;
+  /** Why the last payout transaction was not accepted */
+  paymentError?: string;
+  submittedAt?: string;
+  paidAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A milestone as defined when the task is created
+ */
+export interface MilestoneInput {
+  title: string;
+  amount: string;
+  acceptanceCriteria?: string;
+}
+
+// ─── Team Types ──────────────────────────────────────────
+
+/**
+ * working -> submitted (the member sends its portion)
+ * submitted -> working (the poster rejects or asks for changes to the combined result)
+ */
+export type PortionStatus = 'working' | 'submitted';
+
+/**
+ * An agent working part of a team task for a declared share of the payout
+ */
+export interface TeamMember {
+  taskId: string;
+  agentId: string;
+  /** 1-based; the first member leads the team and is the task's assigned agent */
+  position: number;
+  /** Whole percent of the payout; a team's shares add up to 100 */
+  sharePercent: number;
+  /** The part of the task this member is responsible for */
+  portion: string;
+  status: PortionStatus;
+  result?: string;
+  submittedAt?: string;
+}
+
+/**
+ * A team member as declared by the poster
+ */
+export interface TeamMemberInput {
+  agentId: string;
+  sharePercent: number;
+  portion: string;
+}
+
+/**
+ * Request to assign a task to a team of agents
+ */
+export interface AssignTeamRequest {
+  posterAddress?: string;
+  members: TeamMemberInput[];
+}
+
+/**
+ * A member's part of a team payout
+ */
+export interface TeamPayout {
+  agentId: string;
+  walletAddress: string;
+  /** What the member receives, after the platform fee */
+  amountMicroStx: string;
+}
+
+// ─── Invitation Types ──────────────────────────────────────────
+
+/**
+ * pending -> accepted (the agent is assigned the task)
+ *         -> declined
+ */
+export type InvitationStatus = 'pending' | 'accepted' | 'declined';
+
+/**
+ * A poster's invitation for an agent to take a task
+ */
+export interface Invitation {
+  id: string;
+  taskId: string;
+  agentId: string;
+  status: InvitationStatus;
+  /** Note from the poster */
+  message?: string;
+  declineReason?: string;
+  createdAt: string;
+  respondedAt?: string;
+}
+
+/**
+ * Request to invite agents to a task
+ */
+export interface InviteAgentsRequest {
+  agentIds: string[];
+  message?: string;
+  /** Change the task's visibility, e.g. make it invite-only */
+  visibility?: TaskVisibility;
+}
+
+// ─── Artifact Types ──────────────────────────────────────────
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * The JSON Schema keywords supported for result validation
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * file: bytes kept in the blob store; json: a payload checked against the task's
+ * resultSchema; link: a URL, stored as given
+ */
+export type ArtifactKind = 'file' | 'json' | 'link';
+
+/**
+ * A deliverable attached to a submission. Each submission of a task is a new version.
+ */
+export interface Artifact {
+  id: string;
+  taskId: string;
+  /** Submission number, starting at 1; a resubmission after rejection is the next version */
+  version: number;
+  kind: ArtifactKind;
+  /** Unique within a version; artifacts with the same name are compared across versions */
+  name: string;
+  contentType?: string;
+  /** Bytes of the file or JSON payload (0 for links) */
+  sizeBytes: number;
+  /** SHA-256 hex of the file bytes, the JSON payload as stored, or the URL */
+  sha256: string;
+  /** Link target */
+  url?: string;
+  createdAt: string;
+}
+
+/**
+ * An artifact as submitted: `content` (base64) for files, `data` for JSON, `url` for links
+ */
+export interface ArtifactInput {
+  kind: ArtifactKind;
+  name: string;
+  contentType?: string;
+  content?: string;
+  data?: unknown;
+  url?: string;
+}
+
+/**
+ * How the artifacts of two versions differ, matched by name
+ */
+export interface ArtifactDiff {
+  from: number;
+  to: number;
+  added: Artifact[];
+  removed: Artifact[];
+  changed: {
+    before: Artifact;
+    after: Artifact;
+    /** JSON artifacts only: where the payloads differ */
+    changedPaths?: string[];
+  }[];
+  unchanged: Artifact[];
+}
+
+// ─── Acceptance Types ──────────────────────────────────────────
+
+/**
+ * Machine-checkable conditions on a task's result. Text checks run on the
+ * result; the schema and record counts on the result parsed as JSON, or else
+ * the submission's first JSON artifact.
+ */
+export interface AcceptanceCriteria {
+  schema?: JsonSchema;
+  /** Words or phrases the result must contain (case-insensitive) */
+  requiredKeywords?: string[];
+  /** Markdown headings the result must have (case-insensitive) */
+  requiredSections?: string[];
+  /** Regular expressions the result must match */
+  patterns?: string[];
+  /** Records: the items of a JSON array, else the result's non-empty lines */
+  minRecords?: number;
+  maxRecords?: number;
+}
+
+export interface AcceptanceCheck {
+  /** e.g. `schema`, `keyword "invoice"`, `minRecords` */
+  criterion: string;
+  passed: boolean;
+  /** Why it failed, or what was counted */
+  detail?: string;
+}
+
+export interface ValidationReport {
+  passed: boolean;
+  checks: AcceptanceCheck[];
+  /** Submission the report is for (matches its artifact version) */
+  version: number;
+  checkedAt: string;
+}
+
+// ─── Template Types ──────────────────────────────────────────
+
+/**
+ * A task posted on a schedule. Each occurrence creates a task awaiting escrow
+ * funding, exactly as if the poster had created it by hand.
+ */
+export interface TaskTemplate {
+  id: string;
+  posterAddress: string;
+  title: string;
+  description: string;
+  category: TaskCategory;
+  bounty: string;
+  network: NetworkType;
+  visibility: TaskVisibility;
+  /** Five-field cron expression in UTC, e.g. "0 9 * * 1-5" */
+  schedule: string;
+  /** Each generated task's deadline, this many seconds after it is generated */
+  deadlineSeconds?: number;
+  /** Assign each task to the agent that completed the previous one, if its rating is at least minAgentRating */
+  preassignPreviousAgent: boolean;
+  minAgentRating?: number;
+  /** Prepaid escrow (microSTX) each generated task's bounty is drawn from; while it covers the bounty, tasks open already funded */
+  balanceMicroStx: string;
+  /** Escrow wallet holding the balance */
+  escrowAddress?: string;
+  /** Latest confirmed prepayment transaction */
+  escrowTxId?: string;
+  /** Prepayment broadcast but not yet confirmed on-chain; it is added to the balance once it is */
+  prepaymentTxId?: string;
+  /** MicroSTX the pending prepayment adds to the balance */
+  prepaymentMicroStx?: string;
+  prepaymentSubmittedAt?: string;
+  /** Why the last prepayment was not accepted */
+  prepaymentError?: string;
+  /** Paused templates generate nothing */
+  active: boolean;
+  /** Next occurrence; absent while paused */
+  nextRunAt?: string;
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Request to create a task template
+ */
+export interface CreateTemplateRequest {
+  title: string;
+  description: string;
+  category?: TaskCategory;
+  bounty: string;
+  posterAddress: string;
+  network?: NetworkType;
+  visibility?: TaskVisibility;
+  schedule: string;
+  deadlineSeconds?: number;
+  preassignPreviousAgent?: boolean;
+  minAgentRating?: number;
+}
+
+/**
+ * Changes to a task template; `active: false` pauses it
+ */
+export interface UpdateTemplateRequest {
+  title?: string;
+  description?: string;
+  category?: TaskCategory;
+  bounty?: string;
+  visibility?: TaskVisibility;
+  schedule?: string;
+  /** null removes the deadline */
+  deadlineSeconds?: number | null;
+  preassignPreviousAgent?: boolean;
+  minAgentRating?: number | null;
+  active?: boolean;
+}
+
+/**
+ * One occurrence of a template: the task it generated, or why it could not
+ */
+export interface TemplateRun {
+  templateId: string;
+  scheduledFor: string;
+  taskId?: string;
+  taskStatus?: TaskStatus;
+  /** Previous agent the task is assigned to once funded */
+  preassignedAgentId?: string;
+  error?: string;
+  createdAt: string;
+}
+
+// ─── Recommendation Types ──────────────────────────────────────────
+
+/**
+ * An open task ranked for an agent. Signals are each scaled to 0-1.
+ */
+export interface TaskRecommendation {
+  task: Task & { bidCount: number };
+  score: number;
+  signals: {
+    /** Task category is one of the agent's capabilities */
+    capabilityMatch: boolean;
+    /** Agent's success rate in the category, 0.5 with no history */
+    successRate: number;
+    /** Bounty relative to the largest candidate */
+    bounty: number;
+    /** 1 with no bids, falling as bids arrive */
+    competition: number;
+  };
+}
+
+/**
+ * An agent ranked for a task. Signals are each scaled to 0-1.
+ */
+export interface AgentRecommendation {
+  agent: Agent;
+  score: number;
+  signals: {
+    capabilityMatch: boolean;
+    /** Tasks completed in the category */
+    categoryCompleted: number;
+    /** Success rate in the category, 0.5 with no history */
+    successRate: number;
+    /** Average rating, pulled towards 3 stars while there are few reviews */
+    rating: number;
+    /** 1 when active today, halving every two weeks */
+    recentActivity: number;
+  };
+}
+
 // ─── Webhook Types ──────────────────────────────────────────
 
 export type WebhookEventType =
@@ -196,8 +912,17 @@ export type WebhookEventType =
   | 'task.status_changed'
   | 'bid.placed'
   | 'bid.accepted'
+  | 'bid.rejected'
   | 'message.new'
   | 'task.completed'
+  | 'task.payment_failed'
+  | 'task.expired'
+  | 'task.disputed'
+  | 'task.dispute_resolved'
+  | 'milestone.status_changed'
+  | 'task.invited'
+  | 'task.review_reminder'
+  | 'task.portion_submitted'
   | '*';
 
 export interface Webhook {
@@ -210,8 +935,12 @@ export interface Webhook {
   filterTaskId?: string;
   active: boolean;
   description: string;
+  /** Failed delivery attempts in a row; the webhook is disabled when this hits the limit */
+  consecutiveFailures: number;
   createdAt: string;
   lastTriggeredAt?: string;
+  /** Until when the pre-rotation secret still signs deliveries */
+  previousSecretExpiresAt?: string;
 }
 
 export interface RegisterWebhookRequest {
@@ -223,6 +952,29 @@ export interface RegisterWebhookRequest {
   description?: string;
 }
 
+/**
+ * Which events a stream or log query wants; same semantics as webhook filters
+ */
+export interface EventFilter {
+  types?: WebhookEventType[];
+  category?: TaskCategory;
+  taskId?: string;
+  /** Wallet or agent id receiving the events; events about invite-only tasks reach only their audience */
+  viewer?: string;
+}
+
+/**
+ * Fields that can be changed on an existing webhook.
+ * Pass an empty string for a filter to clear it.
+ */
+export interface UpdateWebhookRequest {
+  url?: string;
+  events?: WebhookEventType[];
+  filterCategory?: TaskCategory | '';
+  filterTaskId?: string;
+  description?: string;
+}
+
 export interface WebhookEvent {
   id: string;
   type: WebhookEventType;
@@ -231,7 +983,53 @@ export interface WebhookEvent {
     task?: Task;
     bid?: Bid;
     message?: Message;
-    previousStatus?: TaskStatus;
-    newStatus?: TaskStatus;
+    previousStatus?: TaskStatus | MilestoneStatus;
+    newStatus?: TaskStatus | MilestoneStatus;
+    reason?: string;
+    /** Agent that lost the assignment (task.expired), or that placed or lost a sealed bid (sent instead of `bid`) */
+    agentId?: string;
+    dispute?: Dispute;
+    milestone?: Milestone;
+    invitation?: Invitation;
+    /** task.review_reminder: when the submission is approved implicitly */
+    reviewDueAt?: string;
+    /** The reviewed submission, with the poster's change requests */
+    submission?: Submission;
+    /** task.portion_submitted: the team member and its portion */
+    member?: TeamMember;
   };
 }
+
+/**
+ * Delivery lifecycle:
+ * pending -> delivered
+ * pending -> pending (failed attempt, retried with exponential backoff)
+ * pending -> dead-letter (attempt limit reached)
+ */
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead-letter';
+
+/**
+ * One event queued for one webhook. The id is sent as X-StacksTasker-Delivery.
+ */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  /** The event body exactly as sent */
+  payload: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  /** Attempts made so far */
+  attempts: number;
+  /** HTTP status of the last attempt (absent if the request never got a response) */
+  responseCode?: number;
+  /** Start of the receiver's response body from the last attempt */
+  responseBody?: string;
+  /** Duration of the last attempt in milliseconds */
+  durationMs?: number;
+  /** Network or HTTP error from the last failed attempt */
+  lastError?: string;
+  nextAttemptAt?: string;
+  createdAt: string;
+  deliveredAt?: string;
+}
@@ -288,6 +288,47 @@
     return txId;
   }
 
+  /**
+   * fetch() with wallet signature headers for authenticated API routes.
+   * Signs `StacksTasker:<METHOD>:<path>:<timestamp>:<sha256(body)>` via stx_signMessage.
+   * @param {string} url     - Absolute or relative API URL
+   * @param {Object} options - fetch options (method, body as JSON string)
+   * @returns {Promise<Response>}
+   */
+  async function signedFetch(url, options) {
+    var provider = getProvider();
+    if (!provider || !provider.request) {
+      throw new Error('No Stacks wallet provider found. Install Leather wallet.');
+    }
+    var address = getConnectedAddress();
+    if (!address) throw new Error('Connect your wallet first');
+
+    options = options || {};
+    var method = (options.method || 'GET').toUpperCase();
+    var body = options.body || '';
+    var parsed = new URL(url, window.location.href);
+    var path = parsed.pathname + parsed.search;
+    var timestamp = new Date().toISOString();
+
+    var digest = await sha256(Array.from(new TextEncoder().encode(body)));
+    var bodyHash = bytesToHex(Array.from(new Uint8Array(digest)));
+    var message = 'StacksTasker:' + method + ':' + path + ':' + timestamp + ':' + bodyHash;
+
+    var response = await provider.request('stx_signMessage', { message: message });
+    if (response && response.error) {
+      throw new Error(response.error.message || 'Message signing failed');
+    }
+    var signature = response && response.result && response.result.signature;
+    if (!signature) throw new Error('No signature returned from wallet');
+
+    var headers = Object.assign({ 'Content-Type': 'application/json' }, options.headers || {}, {
+      'X-Wallet-Address': address,
+      'X-Wallet-Signature': signature,
+      'X-Wallet-Timestamp': timestamp,
+    });
+    return fetch(url, Object.assign({}, options, { method: method, headers: headers }));
+  }
+
   /**
    * Check if a native wallet provider (Leather/Hiro) is available
    */
@@ -323,6 +364,7 @@
     truncate: truncateAddress,
     updateNav: updateNavWallet,
     callContract: callContract,
+    signedFetch: signedFetch,
     hasWalletProvider: hasWalletProvider,
     cv: {
       principal: cvPrincipal,
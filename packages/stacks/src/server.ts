@@ -4,6 +4,8 @@
 import {
   deserializeTransaction,
   broadcastTransaction,
+  hexToCV,
+  type ClarityValue,
 } from '@stacks/transactions';
 import {
   STACKS_MAINNET,
@@ -157,7 +159,28 @@ export async function settlePayment(
 }
 
 /**
- * Check if a transaction has been confirmed
+ * Decoded contract call of a transaction
+ */
+export interface ContractCallDetails {
+  /** Fully qualified contract id (address.name) */
+  contractId: string;
+  functionName: string;
+  /** Function arguments, decoded from their serialized Clarity values */
+  functionArgs: ClarityValue[];
+}
+
+/**
+ * STX transfer of a transaction
+ */
+export interface TokenTransferDetails {
+  recipient: string;
+  /** Amount in microSTX */
+  amount: string;
+}
+
+/**
+ * Check if a transaction has been confirmed.
+ * Contract calls and STX transfers are returned decoded so callers can check what was paid to whom.
  */
 export async function checkTransactionStatus(
   txId: string,
@@ -165,10 +188,13 @@ export async function checkTransactionStatus(
 ): Promise<{
   status: 'pending' | 'success' | 'failed' | 'not_found';
   blockHeight?: number;
+  sender?: string;
+  contractCall?: ContractCallDetails;
+  tokenTransfer?: TokenTransferDetails;
 }> {
   try {
     const network = getNetwork(config);
-    const url = network.client?.baseUrl ?? 'https://api.testnet.hiro.so';
+    const url = config.apiUrl ?? network.client?.baseUrl ?? 'https://api.testnet.hiro.so';
     const response = await fetch(`${url}/extended/v1/tx/${txId}`);
 
     if (response.status === 404) {
@@ -182,14 +208,37 @@ export async function checkTransactionStatus(
     const data = await response.json() as {
       tx_status: string;
       block_height?: number;
+      sender_address?: string;
+      contract_call?: {
+        contract_id: string;
+        function_name: string;
+        function_args?: { hex: string }[];
+      };
+      token_transfer?: {
+        recipient_address: string;
+        amount: string;
+      };
+    };
+
+    const details = {
+      sender: data.sender_address,
+      contractCall: data.contract_call && {
+        contractId: data.contract_call.contract_id,
+        functionName: data.contract_call.function_name,
+        functionArgs: (data.contract_call.function_args ?? []).map(arg => hexToCV(arg.hex)),
+      },
+      tokenTransfer: data.token_transfer && {
+        recipient: data.token_transfer.recipient_address,
+        amount: data.token_transfer.amount,
+      },
     };
 
     if (data.tx_status === 'success') {
-      return { status: 'success', blockHeight: data.block_height };
+      return { status: 'success', blockHeight: data.block_height, ...details };
     } else if (data.tx_status === 'pending') {
-      return { status: 'pending' };
+      return { status: 'pending', ...details };
     } else {
-      return { status: 'failed' };
+      return { status: 'failed', ...details };
     }
   } catch {
     return { status: 'not_found' };
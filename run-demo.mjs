@@ -4,10 +4,19 @@
 
 import { spawn } from 'child_process';
 import { setTimeout as sleep } from 'timers/promises';
+import { randomPrivateKey, getAddressFromPrivateKey } from '@stacks/transactions';
+import { createPaymentPayload, encodePayment } from '@x402/stacks';
 
 const FACILITATOR_PORT = 4000;
 const API_PORT = 3003;
 
+// Demo tasks are posted by a throwaway wallet; the agent worker gets its key
+// so it can accept its own bids and approve its own work with signed requests.
+// Bounties are escrowed before tasks open, so pass a funded testnet key to see them settle.
+const DEMO_POSTER_PRIVATE_KEY = process.env.DEMO_POSTER_PRIVATE_KEY ?? randomPrivateKey();
+const DEMO_POSTER_ADDRESS = getAddressFromPrivateKey(DEMO_POSTER_PRIVATE_KEY, 'testnet');
+const ESCROW_PRIVATE_KEY = process.env.ESCROW_PRIVATE_KEY ?? randomPrivateKey();
+
 console.log('');
 console.log('╔══════════════════════════════════════════════════════════════╗');
 console.log('║                    StacksTasker Demo                        ║');
@@ -77,34 +86,35 @@ async function postDemoTasks() {
       description: 'Provide a concise 3-paragraph summary of the Bitcoin whitepaper by Satoshi Nakamoto. Focus on the key innovation (proof of work), the problem it solves (double spending), and its implications for digital currency.',
       category: 'summarization',
       bounty: '0.005',
-      posterAddress: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM',
+      posterAddress: DEMO_POSTER_ADDRESS,
     },
     {
       title: 'Analyze STX Token Performance',
       description: 'Provide an analysis of STX token performance metrics including market trends, adoption indicators, and ecosystem growth. Include a score rating.',
       category: 'analysis',
       bounty: '0.008',
-      posterAddress: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM',
+      posterAddress: DEMO_POSTER_ADDRESS,
     },
     {
       title: 'Research x402 Payment Protocol',
       description: 'Research the x402 HTTP payment protocol and its application to AI agent economies. Cover the protocol specification, how it integrates with Stacks/Bitcoin, and potential use cases.',
       category: 'research',
       bounty: '0.010',
-      posterAddress: 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG',
+      posterAddress: DEMO_POSTER_ADDRESS,
     },
     {
       title: 'Write a TypeScript Helper Function',
       description: 'Write a TypeScript utility function that converts between STX and microSTX amounts, with proper BigInt handling and input validation.',
       category: 'coding',
       bounty: '0.003',
-      posterAddress: 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG',
+      posterAddress: DEMO_POSTER_ADDRESS,
     },
   ];
 
   console.log('');
   console.log('── Posting demo tasks ──────────────────────────────');
 
+  let nonce;
   for (const task of tasks) {
     try {
       const res = await fetch(`http://localhost:${API_PORT}/tasks`, {
@@ -114,6 +124,24 @@ async function postDemoTasks() {
       });
       const created = await res.json();
       console.log(`  Posted: "${task.title}" (${task.bounty} STX) → ID: ${created.id}`);
+
+      // Fund the escrow with an x402 payment; nonces are chained so the transfers can share a block
+      const payment = await createPaymentPayload(
+        created.paymentRequirement,
+        { privateKey: DEMO_POSTER_PRIVATE_KEY },
+        nonce === undefined ? undefined : { nonce }
+      );
+      nonce = payment.nonce + 1;
+      const fundRes = await fetch(`http://localhost:${API_PORT}/tasks/${created.id}/fund`, {
+        method: 'POST',
+        headers: { 'X-Payment': encodePayment(payment) },
+      });
+      const funded = await fundRes.json();
+      if (fundRes.ok) {
+        console.log(`    Escrow funded: ${funded.escrowTxId}`);
+      } else {
+        console.log(`    Escrow not funded (task stays pending-funding): ${funded.error}`);
+      }
     } catch (err) {
       console.error(`  Failed to post "${task.title}":`, err.message);
     }
@@ -149,6 +177,7 @@ async function main() {
     {
       API_PORT: String(API_PORT),
       FACILITATOR_URL: `http://localhost:${FACILITATOR_PORT}`,
+      ESCROW_PRIVATE_KEY,
     }
   );
 
@@ -171,8 +200,8 @@ async function main() {
     {
       API_URL: `http://localhost:${API_PORT}`,
       AGENT_NAME: 'ClaudeWorker-1',
-      AGENT_WALLET: 'ST3DEMO_CLAUDE_AGENT_WALLET',
       POLL_INTERVAL: '2000',
+      DEMO_POSTER_PRIVATE_KEY,
     }
   );
 
@@ -1,27 +1,21 @@
 /**
  * StacksTasker Mainnet E2E Test — Real On-Chain Payment
  *
- * Full task lifecycle on mainnet with a real STX payment via the
- * stackstasker-payments smart contract.
+ * Full task lifecycle on mainnet with a real STX payment: the bounty is
+ * escrowed with an x402 payment and released through the
+ * stackstasker-payments smart contract on approval.
  *
- * Uses the platform wallet (SPV4JB...) as the poster, paying 1 STX
- * through the deployed contract on mainnet.
+ * Uses the platform wallet (SPV4JB...) as the poster, escrowing 1 STX.
  *
  * Prerequisites:
- *   - Local API running on http://localhost:3003
+ *   - Local API running on http://localhost:3003 with a funded ESCROW_PRIVATE_KEY (pays release fees)
  *   - Contract deployed at SPV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8TEM307V.stackstasker-payments
  *   - Platform wallet has sufficient STX balance (>1 STX)
+ *   - MAINNET_AGENT_PRIVATE_KEY set to the agent wallet's key (agent actions are signed)
  */
 
 import { test, expect } from '@playwright/test';
-import {
-  makeContractCall,
-  broadcastTransaction,
-  AnchorMode,
-  PostConditionMode,
-  principalCV,
-  uintCV,
-} from '@stacks/transactions';
+import { signed, funding } from './signing';
 
 const API = 'http://localhost:3003';
 
@@ -29,8 +23,7 @@ const API = 'http://localhost:3003';
 const POSTER_WALLET = 'SPV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8TEM307V';
 const POSTER_KEY = '81879ab1e8fb6c988486e2b0491f8e74b1c401e11ffdc0989fada068822e91ae01';
 const AGENT_WALLET = 'SPRG5SJWZ4TE23RJY2Z9NJW9MVN23NMSEGVHH714';
-// Platform wallet must differ from poster (Clarity stx-transfer? disallows self-transfers)
-const PLATFORM_WALLET = 'SPRG5SJWZ4TE23RJY2Z9NJW9MVN23NMSEGVHH714';
+const AGENT_KEY = process.env.MAINNET_AGENT_PRIVATE_KEY ?? '';
 
 // Contract details
 const CONTRACT_ADDRESS = 'SPV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8TEM307V';
@@ -46,6 +39,7 @@ let paymentTxId: string;
 test.setTimeout(120_000);
 
 test.describe.serial('Mainnet E2E — Real On-Chain Payment', () => {
+  test.skip(!AGENT_KEY, 'MAINNET_AGENT_PRIVATE_KEY is required to sign agent requests');
 
   // ─── Step 0: Health check ─────────────────────────────────
 
@@ -105,38 +99,53 @@ test.describe.serial('Mainnet E2E — Real On-Chain Payment', () => {
   // ─── Step 4: Poster creates a mainnet task (1 STX) ────────
 
   test('Poster creates a 1 STX mainnet task', async ({ request }) => {
-    const res = await request.post(`${API}/tasks`, {
-      data: {
-        title: 'Mainnet E2E Test — Smart Contract Verification',
-        description:
-          'Automated e2e test task to verify the full mainnet payment flow. ' +
-          'This task tests the stackstasker-payments contract with a real 1 STX bounty.',
-        category: 'coding',
-        bounty: '1.000',
-        posterAddress: POSTER_WALLET,
-        network: 'mainnet',
-      },
-    });
+    const res = await request.post(`${API}/tasks`, signed(POSTER_KEY, '/tasks', {
+      title: 'Mainnet E2E Test — Smart Contract Verification',
+      description:
+        'Automated e2e test task to verify the full mainnet payment flow. ' +
+        'This task tests the stackstasker-payments contract with a real 1 STX bounty.',
+      category: 'coding',
+      bounty: '1.000',
+      posterAddress: POSTER_WALLET,
+      network: 'mainnet',
+    }, 'mainnet'));
     expect(res.status()).toBe(201);
     const body = await res.json();
     expect(body.id).toBeTruthy();
-    expect(body.status).toBe('open');
+    expect(body.status).toBe('pending-funding');
     expect(body.bounty).toBe('1.000');
     expect(body.network).toBe('mainnet');
+    expect(body.paymentRequirement.chainId).toBe(1);
     taskId = body.id;
   });
 
+  test('Poster funds the escrow with a real x402 payment', async ({ request }) => {
+    test.setTimeout(15 * 60_000);
+    const task = await (await request.get(`${API}/tasks/${taskId}`)).json();
+
+    const res = await request.post(`${API}/tasks/${taskId}/fund`, await funding(POSTER_KEY, task.paymentRequirement));
+    expect(res.status()).toBe(202);
+    const body = await res.json();
+    expect(body.status).toBe('pending-funding');
+    expect(body.fundingTxId).toBeTruthy();
+    console.log(`Escrow TX: ${body.fundingTxId}`);
+
+    // The task opens once the transfer confirms; reading the task runs the confirmer
+    await expect.poll(async () => {
+      const funded = await (await request.get(`${API}/tasks/${taskId}`)).json();
+      return funded.status;
+    }, { timeout: 14 * 60_000, intervals: [15_000] }).toBe('open');
+  });
+
   // ─── Step 5: Agent bids on the task ───────────────────────
 
   test('Agent bids on the task', async ({ request }) => {
-    const res = await request.post(`${API}/tasks/${taskId}/bid`, {
-      data: {
-        agentId,
-        amount: '1.000',
-        message: 'E2E test bid — will complete immediately for payment verification.',
-        estimatedTime: '1 minute',
-      },
-    });
+    const res = await request.post(`${API}/tasks/${taskId}/bid`, signed(AGENT_KEY, `/tasks/${taskId}/bid`, {
+      agentId,
+      amount: '1.000',
+      message: 'E2E test bid — will complete immediately for payment verification.',
+      estimatedTime: '1 minute',
+    }, 'mainnet'));
     expect(res.status()).toBe(201);
     const body = await res.json();
     expect(body.id).toBeTruthy();
@@ -151,10 +160,8 @@ test.describe.serial('Mainnet E2E — Real On-Chain Payment', () => {
   // ─── Step 6: Poster accepts the bid ───────────────────────
 
   test('Poster accepts the bid', async ({ request }) => {
-    const res = await request.post(
-      `${API}/tasks/${taskId}/bids/${bidId}/accept`,
-      { data: { posterAddress: POSTER_WALLET } }
-    );
+    const path = `/tasks/${taskId}/bids/${bidId}/accept`;
+    const res = await request.post(`${API}${path}`, signed(POSTER_KEY, path, {}, 'mainnet'));
     expect(res.ok()).toBeTruthy();
     const body = await res.json();
     expect(body.status).toBe('assigned');
@@ -164,95 +171,58 @@ test.describe.serial('Mainnet E2E — Real On-Chain Payment', () => {
   // ─── Step 7: Agent starts and submits ─────────────────────
 
   test('Agent starts the task', async ({ request }) => {
-    const res = await request.post(`${API}/tasks/${taskId}/start`, {
-      data: { agentId },
-    });
+    const res = await request.post(`${API}/tasks/${taskId}/start`, signed(AGENT_KEY, `/tasks/${taskId}/start`, { agentId }, 'mainnet'));
     expect(res.ok()).toBeTruthy();
     const body = await res.json();
     expect(body.status).toBe('in-progress');
   });
 
   test('Agent submits result', async ({ request }) => {
-    const res = await request.post(`${API}/tasks/${taskId}/submit`, {
-      data: {
-        agentId,
-        result:
-          'Mainnet E2E Test Result\n\n' +
-          'Verified the stackstasker-payments contract is deployed and callable.\n' +
-          'Contract: SPV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8TEM307V.stackstasker-payments\n' +
-          'Function: pay-task splits bounty 99/1 between agent and platform.\n' +
-          'Test passed successfully.',
-      },
-    });
+    const res = await request.post(`${API}/tasks/${taskId}/submit`, signed(AGENT_KEY, `/tasks/${taskId}/submit`, {
+      agentId,
+      result:
+        'Mainnet E2E Test Result\n\n' +
+        'Verified the stackstasker-payments contract is deployed and callable.\n' +
+        'Contract: SPV4JB5CZWFD8BN9XMDV0F4KTS44BKRZ8TEM307V.stackstasker-payments\n' +
+        'Function: pay-task splits bounty 99/1 between agent and platform.\n' +
+        'Test passed successfully.',
+    }, 'mainnet'));
     expect(res.ok()).toBeTruthy();
     const body = await res.json();
     expect(body.status).toBe('submitted');
   });
 
-  // ─── Step 8: Real on-chain payment via smart contract ─────
+  // ─── Step 8: Approve → escrow released via smart contract ─
 
-  test('Build and broadcast real payment transaction', async () => {
-    const bountyMicroStx = 1_000_000; // 1 STX
-
-    // Fetch nonce
-    const nonceRes = await fetch(
-      `https://api.hiro.so/extended/v1/address/${POSTER_WALLET}/nonces`
-    );
-    const nonceData = await nonceRes.json();
-    const nonce = nonceData.possible_next_nonce;
-    console.log(`Using nonce: ${nonce}`);
-
-    // Build contract call with proper Clarity values
-    const transaction = await makeContractCall({
-      contractAddress: CONTRACT_ADDRESS,
-      contractName: CONTRACT_NAME,
-      functionName: 'pay-task',
-      functionArgs: [
-        principalCV(AGENT_WALLET),
-        principalCV(PLATFORM_WALLET),
-        uintCV(bountyMicroStx),
-      ],
-      senderKey: POSTER_KEY,
-      nonce,
-      fee: 10000, // 0.01 STX fee
-      network: 'mainnet',
-      anchorMode: AnchorMode.Any,
-      postConditionMode: PostConditionMode.Allow,
-    });
-
-    console.log('Broadcasting payment transaction...');
-    const result = await broadcastTransaction({ transaction, network: 'mainnet' });
-    console.log('Broadcast result:', JSON.stringify(result));
-
-    expect(result.txid).toBeTruthy();
-    paymentTxId = result.txid;
-    console.log(`Payment TX: ${paymentTxId}`);
-    console.log(`Explorer: https://explorer.hiro.so/txid/${paymentTxId}?chain=mainnet`);
-  });
-
-  // ─── Step 9: Approve task with real txId ──────────────────
-
-  test('Approve task with real on-chain txId', async ({ request }) => {
-    const res = await request.post(`${API}/tasks/${taskId}/approve`, {
-      data: { posterAddress: POSTER_WALLET, txId: paymentTxId },
-    });
+  test('Approve task — escrow pays out through the contract', async ({ request }) => {
+    const res = await request.post(`${API}/tasks/${taskId}/approve`, signed(POSTER_KEY, `/tasks/${taskId}/approve`, {}, 'mainnet'));
     expect(res.ok()).toBeTruthy();
     const body = await res.json();
-    expect(body.status).toBe('completed');
-    expect(body.paymentTxId).toBe(paymentTxId);
-    expect(body.completedAt).toBeTruthy();
+    expect(body.status).toBe('payment-pending');
+    expect(body.paymentTxId).toBeTruthy();
+    paymentTxId = body.paymentTxId.replace(/^0x/, '');
+    console.log(`Payment TX: ${paymentTxId}`);
+    console.log(`Explorer: https://explorer.hiro.so/txid/${paymentTxId}?chain=mainnet`);
 
     // Verify fee calculation: 1% of 1.000 = 0.010000
     expect(parseFloat(body.platformFee)).toBeCloseTo(0.01, 4);
   });
 
-  // ─── Step 10: Verify final state ─────────────────────────
+  // ─── Step 9: Verify final state ─────────────────────────
 
   test('Verify completed task state', async ({ request }) => {
+    test.setTimeout(15 * 60_000);
+    // Mainnet blocks are slow; reading the task runs the payment confirmer
+    await expect.poll(async () => {
+      const task = await (await request.get(`${API}/tasks/${taskId}`)).json();
+      return task.status;
+    }, { timeout: 14 * 60_000, intervals: [15_000] }).toBe('completed');
+
     const res = await request.get(`${API}/tasks/${taskId}`);
     const task = await res.json();
 
     expect(task.status).toBe('completed');
+    expect(task.completedAt).toBeTruthy();
     expect(task.assignedAgent).toBe(agentId);
     expect(task.network).toBe('mainnet');
     expect(task.result).toContain('Mainnet E2E Test Result');
@@ -294,12 +264,10 @@ test.describe.serial('Mainnet E2E — Real On-Chain Payment', () => {
     expect(tx.contract_call.function_name).toBe('pay-task');
   });
 
-  // ─── Step 11: Poster closes and reviews ───────────────────
+  // ─── Step 10: Poster closes and reviews ───────────────────
 
   test('Poster closes the task', async ({ request }) => {
-    const res = await request.post(`${API}/tasks/${taskId}/close`, {
-      data: { posterAddress: POSTER_WALLET },
-    });
+    const res = await request.post(`${API}/tasks/${taskId}/close`, signed(POSTER_KEY, `/tasks/${taskId}/close`, {}, 'mainnet'));
     expect(res.ok()).toBeTruthy();
     const body = await res.json();
     expect(body.status).toBe('closed');
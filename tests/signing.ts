@@ -0,0 +1,38 @@
+/**
+ * Wallet-signed request options for the E2E specs.
+ * Mutating API routes act as whichever wallet signs the request.
+ */
+
+import { createHash } from 'crypto';
+import { getAddressFromPrivateKey, signMessageHashRsv } from '@stacks/transactions';
+import { hashMessage } from '@stacks/encryption';
+import { bytesToHex } from '@stacks/common';
+import { createPaymentPayload, encodePayment, type StacksPaymentRequirement } from '@x402/stacks';
+
+/** Request options for a POST to `path` signed by the given wallet key */
+export function signed(
+  privateKey: string,
+  path: string,
+  data: unknown = {},
+  network: 'testnet' | 'mainnet' = 'testnet'
+) {
+  const body = JSON.stringify(data);
+  const timestamp = new Date().toISOString();
+  const bodyHash = createHash('sha256').update(body).digest('hex');
+  const message = `StacksTasker:POST:${path}:${timestamp}:${bodyHash}`;
+  return {
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Wallet-Address': getAddressFromPrivateKey(privateKey, network),
+      'X-Wallet-Signature': signMessageHashRsv({ messageHash: bytesToHex(hashMessage(message)), privateKey }),
+      'X-Wallet-Timestamp': timestamp,
+    },
+    data: body,
+  };
+}
+
+/** Request options for POST /tasks/:id/fund carrying an x402 payment signed by the given wallet */
+export async function funding(privateKey: string, requirement: StacksPaymentRequirement) {
+  const payload = await createPaymentPayload(requirement, { privateKey });
+  return { headers: { 'X-Payment': encodePayment(payload) } };
+}
@@ -2,24 +2,35 @@
  * StacksTasker E2E Test — Full Task Lifecycle
  *
  * Exercises the entire happy path through the API:
- *   1. Poster (agent1) creates a task
+ *   1. Poster (agent1) creates a task and funds its escrow
  *   2. Two agents (agent2, agent3) bid on the task
  *   3. Poster accepts agent2's bid
  *   4. Agent2 starts and completes the task
  *   5. Agent2 submits the deliverable
- *   6. Poster approves → payment is made
+ *   6. Poster approves → escrow is released, task completes once the payment confirms
  *   7. Poster closes the task
  *   8. Poster leaves a review for agent2
+ *
+ * The throwaway wallets hold no STX, so run the API against a facilitator
+ * stand-in (FACILITATOR_URL) that settles payments without broadcasting, and
+ * a Stacks API stand-in (STACKS_API_URL) that serves `/extended/v1/tx/:txId`
+ * for the settled release so the payment confirmer can complete the task.
  */
 
 import { test, expect, APIRequestContext } from '@playwright/test';
+import { getAddressFromPrivateKey, randomPrivateKey } from '@stacks/transactions';
+import { signed, funding } from './signing';
 
 const API = 'http://localhost:3003';
 
-// Wallet addresses (valid Stacks testnet format)
-const POSTER_WALLET = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
-const AGENT2_WALLET = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
-const AGENT3_WALLET = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+// Throwaway wallets - mutating routes act as whichever wallet signs the request
+const POSTER_KEY = randomPrivateKey();
+const AGENT2_KEY = randomPrivateKey();
+const AGENT3_KEY = randomPrivateKey();
+const ONCHAIN_AGENT_KEY = randomPrivateKey();
+const POSTER_WALLET = getAddressFromPrivateKey(POSTER_KEY, 'testnet');
+const AGENT2_WALLET = getAddressFromPrivateKey(AGENT2_KEY, 'testnet');
+const AGENT3_WALLET = getAddressFromPrivateKey(AGENT3_KEY, 'testnet');
 
 // Shared state across the ordered test steps
 let agent2Id: string;
@@ -79,41 +90,59 @@ test.describe.serial('Task Lifecycle — Full E2E', () => {
   // ─── Step 1: Poster creates a task ─────────────────────────
 
   test('Step 1 — Poster creates a task', async ({ request }) => {
-    const res = await request.post(`${API}/tasks`, {
-      data: {
-        title: 'Analyze sBTC Bridge Security Architecture',
-        description:
-          'Review the sBTC bridge design and identify potential security risks. ' +
-          'Cover the peg-in/peg-out flow, the signer set trust model, and threshold ' +
-          'signature scheme. Provide a risk matrix and mitigation recommendations.',
-        category: 'smart-contract',
-        bounty: '0.020',
-        posterAddress: POSTER_WALLET,
-        network: 'testnet',
-      },
-    });
+    const res = await request.post(`${API}/tasks`, signed(POSTER_KEY, '/tasks', {
+      title: 'Analyze sBTC Bridge Security Architecture',
+      description:
+        'Review the sBTC bridge design and identify potential security risks. ' +
+        'Cover the peg-in/peg-out flow, the signer set trust model, and threshold ' +
+        'signature scheme. Provide a risk matrix and mitigation recommendations.',
+      category: 'smart-contract',
+      bounty: '0.020',
+      posterAddress: POSTER_WALLET,
+      network: 'testnet',
+    }));
     expect(res.status()).toBe(201);
     const body = await res.json();
     expect(body.id).toBeTruthy();
-    expect(body.status).toBe('open');
+    expect(body.status).toBe('pending-funding');
     expect(body.bounty).toBe('0.020');
     expect(body.posterAddress).toBe(POSTER_WALLET);
+    expect(body.paymentRequirement.amount).toBe('20000');
+    expect(body.paymentRequirement.recipient).toBe(body.escrowAddress);
     taskId = body.id;
   });
 
+  test('Step 1b — Poster funds the escrow', async ({ request }) => {
+    const task = await (await request.get(`${API}/tasks/${taskId}`)).json();
+
+    const res = await request.post(`${API}/tasks/${taskId}/fund`, await funding(POSTER_KEY, task.paymentRequirement));
+    expect(res.status()).toBe(202);
+    const body = await res.json();
+    // Held until the transfer confirms on-chain
+    expect(body.status).toBe('pending-funding');
+    expect(body.fundingTxId).toBeTruthy();
+
+    // Reading the task runs the confirmer
+    await expect.poll(async () => {
+      const funded = await (await request.get(`${API}/tasks/${taskId}`)).json();
+      return funded.status;
+    }, { timeout: 30_000 }).toBe('open');
+    const funded = await (await request.get(`${API}/tasks/${taskId}`)).json();
+    expect(funded.escrowTxId).toBe(body.fundingTxId);
+    expect(funded.fundedAt).toBeTruthy();
+  });
+
   // ─── Step 2: Two agents bid on the task ────────────────────
 
   test('Step 2a — Agent2 bids on the task', async ({ request }) => {
-    const res = await request.post(`${API}/tasks/${taskId}/bid`, {
-      data: {
-        agentId: agent2Id,
-        amount: '0.018',
-        message:
-          'I have deep expertise in Bitcoin bridge security. I can deliver a ' +
-          'comprehensive risk analysis within 2 hours covering all three areas.',
-        estimatedTime: '2 hours',
-      },
-    });
+    const res = await request.post(`${API}/tasks/${taskId}/bid`, signed(AGENT2_KEY, `/tasks/${taskId}/bid`, {
+      agentId: agent2Id,
+      amount: '0.018',
+      message:
+        'I have deep expertise in Bitcoin bridge security. I can deliver a ' +
+        'comprehensive risk analysis within 2 hours covering all three areas.',
+      estimatedTime: '2 hours',
+    }));
     expect(res.status()).toBe(201);
     const body = await res.json();
     expect(body.id).toBeTruthy();
@@ -127,16 +156,14 @@ test.describe.serial('Task Lifecycle — Full E2E', () => {
   });
 
   test('Step 2b — Agent3 bids on the task', async ({ request }) => {
-    const res = await request.post(`${API}/tasks/${taskId}/bid`, {
-      data: {
-        agentId: agent3Id,
-        amount: '0.020',
-        message:
-          'I can provide a code-level security audit of the sBTC contracts ' +
-          'along with the architecture review. Full report in 3 hours.',
-        estimatedTime: '3 hours',
-      },
-    });
+    const res = await request.post(`${API}/tasks/${taskId}/bid`, signed(AGENT3_KEY, `/tasks/${taskId}/bid`, {
+      agentId: agent3Id,
+      amount: '0.020',
+      message:
+        'I can provide a code-level security audit of the sBTC contracts ' +
+        'along with the architecture review. Full report in 3 hours.',
+      estimatedTime: '3 hours',
+    }));
     expect(res.status()).toBe(201);
     const body = await res.json();
     agent3BidId = body.id;
@@ -150,24 +177,24 @@ test.describe.serial('Task Lifecycle — Full E2E', () => {
   // ─── Step 3: Poster accepts agent2's bid ───────────────────
 
   test('Step 3 — Poster accepts agent2 bid', async ({ request }) => {
-    const res = await request.post(
-      `${API}/tasks/${taskId}/bids/${agent2BidId}/accept`,
-      {
-        data: { posterAddress: POSTER_WALLET },
-      }
-    );
+    const path = `/tasks/${taskId}/bids/${agent2BidId}/accept`;
+    const res = await request.post(`${API}${path}`, signed(POSTER_KEY, path));
     expect(res.ok()).toBeTruthy();
     const body = await res.json();
     expect(body.status).toBe('assigned');
     expect(body.assignedAgent).toBe(agent2Id);
+
+    // The losing bid is rejected automatically
+    const bidsRes = await request.get(`${API}/tasks/${taskId}/bids`);
+    const { bids } = await bidsRes.json();
+    expect(bids.find((b: { id: string }) => b.id === agent2BidId).status).toBe('accepted');
+    expect(bids.find((b: { id: string }) => b.id === agent3BidId).status).toBe('rejected');
   });
 
   // ─── Step 4: Agent2 starts and works on the task ───────────
 
   test('Step 4a — Agent2 starts the task', async ({ request }) => {
-    const res = await request.post(`${API}/tasks/${taskId}/start`, {
-      data: { agentId: agent2Id },
-    });
+    const res = await request.post(`${API}/tasks/${taskId}/start`, signed(AGENT2_KEY, `/tasks/${taskId}/start`, { agentId: agent2Id }));
     expect(res.ok()).toBeTruthy();
     const body = await res.json();
     expect(body.status).toBe('in-progress');
@@ -175,21 +202,15 @@ test.describe.serial('Task Lifecycle — Full E2E', () => {
 
   test('Step 4b — Poster and agent exchange messages', async ({ request }) => {
     // Poster sends a clarification
-    const msg1 = await request.post(`${API}/tasks/${taskId}/messages`, {
-      data: {
-        senderAddress: POSTER_WALLET,
-        body: 'Please also cover the liveness assumptions for the signer set.',
-      },
-    });
+    const msg1 = await request.post(`${API}/tasks/${taskId}/messages`, signed(POSTER_KEY, `/tasks/${taskId}/messages`, {
+      body: 'Please also cover the liveness assumptions for the signer set.',
+    }));
     expect(msg1.status()).toBe(201);
 
     // Agent acknowledges
-    const msg2 = await request.post(`${API}/tasks/${taskId}/messages`, {
-      data: {
-        senderAddress: AGENT2_WALLET,
-        body: 'Understood, I will include a section on liveness and availability guarantees.',
-      },
-    });
+    const msg2 = await request.post(`${API}/tasks/${taskId}/messages`, signed(AGENT2_KEY, `/tasks/${taskId}/messages`, {
+      body: 'Understood, I will include a section on liveness and availability guarantees.',
+    }));
     expect(msg2.status()).toBe(201);
 
     // Verify thread has 2 messages
@@ -224,12 +245,10 @@ test.describe.serial('Task Lifecycle — Full E2E', () => {
       '2. Add economic slashing for non-responsive signers\n' +
       '3. Commission formal verification of the threshold signature scheme';
 
-    const res = await request.post(`${API}/tasks/${taskId}/submit`, {
-      data: {
-        agentId: agent2Id,
-        result,
-      },
-    });
+    const res = await request.post(`${API}/tasks/${taskId}/submit`, signed(AGENT2_KEY, `/tasks/${taskId}/submit`, {
+      agentId: agent2Id,
+      result,
+    }));
     expect(res.ok()).toBeTruthy();
     const body = await res.json();
     expect(body.status).toBe('submitted');
@@ -239,16 +258,22 @@ test.describe.serial('Task Lifecycle — Full E2E', () => {
 
   // ─── Step 6: Poster approves → task completed ─────────────
 
-  test('Step 6 — Poster approves the result (simulated payment)', async ({ request }) => {
-    const res = await request.post(`${API}/tasks/${taskId}/approve`, {
-      data: { posterAddress: POSTER_WALLET },
-    });
+  test('Step 6 — Poster approves the result (escrow released)', async ({ request }) => {
+    const res = await request.post(`${API}/tasks/${taskId}/approve`, signed(POSTER_KEY, `/tasks/${taskId}/approve`));
     expect(res.ok()).toBeTruthy();
     const body = await res.json();
-    expect(body.status).toBe('completed');
-    expect(body.completedAt).toBeTruthy();
-    // Simulated flow (no txId) should produce sim_ or stx_ prefix
-    expect(body.paymentTxId).toMatch(/^(sim_|stx_)/);
+    // Held until the release transaction confirms on-chain
+    expect(body.status).toBe('payment-pending');
+    expect(body.completedAt).toBeFalsy();
+    // The release transaction is settled by the facilitator, not simulated
+    expect(body.paymentTxId).toBeTruthy();
+    expect(body.paymentTxId).not.toMatch(/^(sim_|stx_)/);
+
+    // Reading the task runs the confirmer
+    await expect.poll(async () => {
+      const task = await (await request.get(`${API}/tasks/${taskId}`)).json();
+      return task.status;
+    }, { timeout: 30_000 }).toBe('completed');
   });
 
   // ─── Step 7: Verify payment was made ──────────────────────
@@ -258,13 +283,13 @@ test.describe.serial('Task Lifecycle — Full E2E', () => {
     const task = await res.json();
 
     expect(task.paymentTxId).toBeTruthy();
-    // Accept simulated (sim_/stx_) or real on-chain tx IDs (64-char hex)
-    expect(task.paymentTxId).toMatch(/^(sim_|stx_|[0-9a-f]{64})/);
+    expect(task.paymentTxId).not.toBe(task.escrowTxId);
     expect(task.platformFee).toBeTruthy();
     expect(parseFloat(task.platformFee)).toBeGreaterThan(0);
 
-    // 1% of 0.020 = 0.000200
-    expect(parseFloat(task.platformFee)).toBeCloseTo(0.0002, 4);
+    // Agent2 is paid its accepted 0.018 bid: 1% of 0.018 = 0.000180
+    expect(task.payoutMicroStx).toBe('18000');
+    expect(parseFloat(task.platformFee)).toBeCloseTo(0.00018, 5);
 
     // Verify agent2's earnings were updated
     const agentRes = await request.get(`${API}/agents/${agent2Id}`);
@@ -276,9 +301,7 @@ test.describe.serial('Task Lifecycle — Full E2E', () => {
   // ─── Step 8: Poster closes the task ───────────────────────
 
   test('Step 8 — Poster closes the task', async ({ request }) => {
-    const res = await request.post(`${API}/tasks/${taskId}/close`, {
-      data: { posterAddress: POSTER_WALLET },
-    });
+    const res = await request.post(`${API}/tasks/${taskId}/close`, signed(POSTER_KEY, `/tasks/${taskId}/close`));
     expect(res.ok()).toBeTruthy();
     const body = await res.json();
     expect(body.status).toBe('closed');
@@ -357,84 +380,74 @@ test.describe('Payment Contract Config', () => {
   });
 });
 
-// ─── On-Chain Approval Flow (txId pass-through) ──────────────
-test.describe.serial('On-Chain Approval — txId pass-through', () => {
-  let onchainAgentId: string;
-  let onchainTaskId: string;
+// ─── Escrow Funding + Refund ──────────────────────────────────
+test.describe.serial('Escrow — funding and cancellation refund', () => {
+  let escrowAgentId: string;
+  let escrowTaskId: string;
 
   test('Setup — Register agent and create task', async ({ request }) => {
-    // Register agent
     const agentRes = await request.post(`${API}/agents/register`, {
       data: {
-        name: 'OnChainTestBot',
-        walletAddress: 'ST3AM1A56AK2C1XAFJ4115ZSV26EB49BVQ10MGCS0',
-        bio: 'Agent for on-chain payment test',
+        name: 'EscrowTestBot',
+        walletAddress: getAddressFromPrivateKey(ONCHAIN_AGENT_KEY, 'testnet'),
+        bio: 'Agent for escrow test',
         capabilities: ['coding'],
       },
     });
     expect(agentRes.ok()).toBeTruthy();
-    onchainAgentId = (await agentRes.json()).id;
-
-    // Create task
-    const taskRes = await request.post(`${API}/tasks`, {
-      data: {
-        title: 'On-chain payment test task',
-        description: 'Testing that real txId flows through the approve endpoint correctly.',
-        category: 'coding',
-        bounty: '1.000',
-        posterAddress: POSTER_WALLET,
-        network: 'testnet',
-      },
-    });
+    escrowAgentId = (await agentRes.json()).id;
+
+    const taskRes = await request.post(`${API}/tasks`, signed(POSTER_KEY, '/tasks', {
+      title: 'Escrow refund test task',
+      description: 'Testing that a cancelled task refunds its escrowed bounty.',
+      category: 'coding',
+      bounty: '1.000',
+      posterAddress: POSTER_WALLET,
+      network: 'testnet',
+    }));
     expect(taskRes.status()).toBe(201);
-    onchainTaskId = (await taskRes.json()).id;
+    expect(taskRes.headers()['x-payment-required']).toBeTruthy();
+    escrowTaskId = (await taskRes.json()).id;
   });
 
-  test('Setup — Agent accepts, starts, and submits', async ({ request }) => {
-    await request.post(`${API}/tasks/${onchainTaskId}/accept`, {
-      data: { agentId: onchainAgentId },
-    });
-    await request.post(`${API}/tasks/${onchainTaskId}/start`, {
-      data: { agentId: onchainAgentId },
-    });
-    const submitRes = await request.post(`${API}/tasks/${onchainTaskId}/submit`, {
-      data: { agentId: onchainAgentId, result: 'Test deliverable for on-chain payment.' },
-    });
-    expect(submitRes.ok()).toBeTruthy();
-    const body = await submitRes.json();
-    expect(body.status).toBe('submitted');
+  test('Unfunded task is not open for work', async ({ request }) => {
+    const res = await request.post(
+      `${API}/tasks/${escrowTaskId}/accept`,
+      signed(ONCHAIN_AGENT_KEY, `/tasks/${escrowTaskId}/accept`, { agentId: escrowAgentId })
+    );
+    expect(res.status()).toBe(400);
   });
 
-  test('Approve with real txId — records on-chain tx', async ({ request }) => {
-    const fakeTxId = 'abcd1234abcd1234abcd1234abcd1234abcd1234abcd1234abcd1234abcd1234';
-
-    const res = await request.post(`${API}/tasks/${onchainTaskId}/approve`, {
-      data: { posterAddress: POSTER_WALLET, txId: fakeTxId },
-    });
-    expect(res.ok()).toBeTruthy();
+  test('Fund without a payment — 402 with the requirement', async ({ request }) => {
+    const res = await request.post(`${API}/tasks/${escrowTaskId}/fund`);
+    expect(res.status()).toBe(402);
     const body = await res.json();
-    expect(body.status).toBe('completed');
-    expect(body.paymentTxId).toBe(fakeTxId);
-    expect(body.completedAt).toBeTruthy();
-
-    // Verify fee calculation: 1% of 1.000 = 0.010000
-    expect(parseFloat(body.platformFee)).toBeCloseTo(0.01, 4);
+    expect(body.paymentRequirement.amount).toBe('1000000');
   });
 
-  test('Verify on-chain task state', async ({ request }) => {
-    const res = await request.get(`${API}/tasks/${onchainTaskId}`);
-    const task = await res.json();
+  test('Underpayment is rejected', async ({ request }) => {
+    const task = await (await request.get(`${API}/tasks/${escrowTaskId}`)).json();
+    const res = await request.post(
+      `${API}/tasks/${escrowTaskId}/fund`,
+      await funding(POSTER_KEY, { ...task.paymentRequirement, amount: '999999' })
+    );
+    expect(res.status()).toBe(402);
+    expect((await res.json()).code).toBe('payment_failed');
+  });
 
-    expect(task.status).toBe('completed');
-    // Real tx ID should be stored as-is (not sim_ or stx_)
-    expect(task.paymentTxId).not.toMatch(/^(sim_|stx_)/);
-    expect(task.paymentTxId).toMatch(/^[0-9a-f]{64}$/);
+  test('Fund, then cancel — escrow is refunded', async ({ request }) => {
+    const task = await (await request.get(`${API}/tasks/${escrowTaskId}`)).json();
+    const fundRes = await request.post(`${API}/tasks/${escrowTaskId}/fund`, await funding(POSTER_KEY, task.paymentRequirement));
+    expect(fundRes.status()).toBe(202);
+    await expect.poll(async () => {
+      const funded = await (await request.get(`${API}/tasks/${escrowTaskId}`)).json();
+      return funded.status;
+    }, { timeout: 30_000 }).toBe('open');
 
-    // Verify agent earnings updated
-    const agentRes = await request.get(`${API}/agents/${onchainAgentId}`);
-    const agent = await agentRes.json();
-    expect(agent.tasksCompleted).toBe(1);
-    // Agent payout = 1.000 - 0.01 = 0.99
-    expect(parseFloat(agent.totalEarned)).toBeCloseTo(0.99, 2);
+    const res = await request.post(`${API}/tasks/${escrowTaskId}/cancel`, signed(POSTER_KEY, `/tasks/${escrowTaskId}/cancel`));
+    expect(res.ok()).toBeTruthy();
+    const body = await res.json();
+    expect(body.status).toBe('cancelled');
+    expect(body.refundTxId).toBeTruthy();
   });
 });